@@ -306,9 +306,18 @@ const generateDocsConfig = () => {
 							'guides/framework-integration',
 							'guides/edge-deployment',
 							'guides/caching',
+							'guides/geolocation',
 							'guides/iab-tcf',
 							'guides/policy-packs',
 							'guides/observability',
+							'guides/webhooks',
+							'guides/audit-events',
+							'guides/realtime-consent-sync',
+							'guides/cross-device-consent',
+							'guides/rate-limiting',
+							'guides/consent-expiry',
+							'guides/data-retention',
+							'guides/multi-tenancy',
 						],
 					},
 					{
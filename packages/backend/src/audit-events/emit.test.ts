@@ -0,0 +1,221 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AuditEvent, AuditEventOptions, C15TContext } from '~/types';
+import { PII_PATTERNS, REDACTED } from '~/utils/pii';
+import { emitAuditEvent, flushAuditEvents } from './emit';
+
+const CONSENT_DATA = {
+	subjectId: 'sub_1',
+	externalId: 'user_123',
+	consentId: 'cns_1',
+	domain: 'example.com',
+	type: 'cookie_banner',
+	preferences: { necessary: true, marketing: false },
+	givenAt: '2026-01-01T00:00:00.000Z',
+	source: 'api' as const,
+};
+
+function createContext(auditEvents?: AuditEventOptions) {
+	const tasks: Promise<void>[] = [];
+
+	const ctx = {
+		logger: {
+			info: vi.fn(),
+			debug: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+		},
+		tenantId: 'tenant-a',
+		method: 'POST',
+		path: '/subjects',
+		apiKey: { name: 'backend', scopes: ['*'] },
+		auditEvents,
+		background: {
+			run: (task: () => Promise<void>) => {
+				tasks.push(task());
+			},
+		},
+	} as unknown as C15TContext;
+
+	return { ctx, settle: () => Promise.all(tasks) };
+}
+
+function createMemorySink(name = 'memory') {
+	const events: AuditEvent[] = [];
+	return {
+		events,
+		sink: {
+			name,
+			write: vi.fn((event: AuditEvent) => {
+				events.push(event);
+			}),
+			flush: vi.fn(async () => {}),
+		},
+	};
+}
+
+/**
+ * Collects every string in an event, including keys
+ */
+function collectStrings(value: unknown): string[] {
+	if (typeof value === 'string') return [value];
+	if (Array.isArray(value)) return value.flatMap(collectStrings);
+	if (value && typeof value === 'object') {
+		return Object.entries(value).flatMap(([key, item]) => [
+			key,
+			...collectStrings(item),
+		]);
+	}
+	return [];
+}
+
+describe('emitAuditEvent', () => {
+	it('writes the event to every sink with request context', async () => {
+		const first = createMemorySink('first');
+		const second = createMemorySink('second');
+		const { ctx, settle } = createContext({
+			sinks: [first.sink, second.sink],
+		});
+
+		emitAuditEvent(ctx, 'consent.recorded', CONSENT_DATA);
+		await settle();
+
+		expect(first.events).toEqual([
+			{
+				id: expect.stringMatching(/^evt_[0-9a-f]{32}$/),
+				type: 'consent.recorded',
+				createdAt: expect.any(String),
+				tenantId: 'tenant-a',
+				request: { method: 'POST', path: '/subjects', apiKey: 'backend' },
+				data: CONSENT_DATA,
+			},
+		]);
+		expect(second.events).toEqual(first.events);
+	});
+
+	it('only writes subscribed event types', async () => {
+		const { events, sink } = createMemorySink();
+		const { ctx, settle } = createContext({
+			sinks: [sink],
+			events: ['legal_document.synced'],
+		});
+
+		emitAuditEvent(ctx, 'consent.recorded', CONSENT_DATA);
+		await settle();
+
+		expect(events).toHaveLength(0);
+	});
+
+	it('redacts values that the telemetry PII rules block', async () => {
+		const { events, sink } = createMemorySink();
+		const { ctx, settle } = createContext({ sinks: [sink] });
+		(ctx as { path?: string }).path = '/subjects?email=jane@example.com';
+
+		emitAuditEvent(ctx, 'subject.linked', {
+			subjectId: 'sub_1',
+			externalId: 'jane@example.com',
+			identityProvider: 'auth0',
+			previousExternalId: '203.0.113.7',
+			ipAddress: '203.0.113.7',
+			userAgent: 'Mozilla/5.0',
+			stack: 'Error: boom\n    at handler (/srv/app.js:10:5)',
+		} as never);
+		await settle();
+
+		const [event] = events;
+		expect(event?.data).toEqual({
+			subjectId: 'sub_1',
+			externalId: REDACTED,
+			identityProvider: 'auth0',
+			previousExternalId: REDACTED,
+		});
+		expect(event?.request?.path).toBe(REDACTED);
+
+		for (const value of collectStrings(event)) {
+			for (const pattern of PII_PATTERNS) {
+				expect(value).not.toMatch(pattern);
+			}
+		}
+	});
+
+	it('applies the redact option before the built-in rules', async () => {
+		const { events, sink } = createMemorySink();
+		const redact = vi.fn((event: AuditEvent) =>
+			event.type === 'subject.linked'
+				? null
+				: {
+						...event,
+						data: { ...event.data, externalId: 'hashed', note: 'a@b.io' },
+					}
+		);
+		const { ctx, settle } = createContext({ sinks: [sink], redact });
+
+		emitAuditEvent(ctx, 'subject.linked', {
+			subjectId: 'sub_1',
+			externalId: 'user_123',
+			identityProvider: 'auth0',
+		});
+		emitAuditEvent(ctx, 'consent.recorded', CONSENT_DATA);
+		await settle();
+
+		expect(redact).toHaveBeenCalledTimes(2);
+		expect(events).toHaveLength(1);
+		expect(events[0]?.data).toMatchObject({
+			externalId: 'hashed',
+			note: REDACTED,
+		});
+	});
+
+	it('logs a failing sink without affecting the others', async () => {
+		const { events, sink } = createMemorySink();
+		const failing = {
+			name: 'broken',
+			write: vi.fn(async () => {
+				throw new Error('collector unavailable');
+			}),
+		};
+		const { ctx, settle } = createContext({ sinks: [failing, sink] });
+
+		emitAuditEvent(ctx, 'consent.recorded', CONSENT_DATA);
+		await settle();
+
+		expect(events).toHaveLength(1);
+		expect(ctx.logger.warn).toHaveBeenCalledWith(
+			'Audit event sink failed',
+			expect.objectContaining({
+				sink: 'broken',
+				type: 'consent.recorded',
+				error: 'collector unavailable',
+			})
+		);
+	});
+
+	it('does nothing without sinks', async () => {
+		const { ctx, settle } = createContext();
+
+		emitAuditEvent(ctx, 'consent.recorded', CONSENT_DATA);
+
+		expect(await settle()).toEqual([]);
+	});
+});
+
+describe('flushAuditEvents', () => {
+	it('flushes every sink and logs failures', async () => {
+		const { sink } = createMemorySink();
+		const failing = {
+			name: 'broken',
+			write: vi.fn(),
+			flush: vi.fn(async () => {
+				throw new Error('timeout');
+			}),
+		};
+		const { ctx } = createContext({ sinks: [sink, failing] });
+
+		await flushAuditEvents(ctx);
+
+		expect(sink.flush).toHaveBeenCalledOnce();
+		expect(ctx.logger.warn).toHaveBeenCalledWith(
+			'Audit event sink flush failed',
+			{ sink: 'broken', error: 'timeout' }
+		);
+	});
+});
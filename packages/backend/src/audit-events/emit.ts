@@ -0,0 +1,157 @@
+/**
+ * Audit event dispatch.
+ *
+ * Events are redacted once and then written to every configured sink through
+ * the `background.run` hook, so sinks never delay a response. A failing sink
+ * is logged and does not affect the other sinks.
+ *
+ * @packageDocumentation
+ */
+
+import type {
+	AuditEvent,
+	AuditEventType,
+	C15TContext,
+	LegalDocumentPolicyType,
+} from '~/types';
+import { runInBackground } from '~/utils/background';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+import { redactPii } from '~/utils/pii';
+import type {
+	ConsentRecordedWebhookData,
+	SubjectLinkedWebhookData,
+} from '~/webhooks';
+
+export interface ConsentRecordedAuditEventData
+	extends ConsentRecordedWebhookData {
+	/** Endpoint that wrote the consent */
+	source: 'api' | 'import';
+}
+
+export interface LegalDocumentSyncedAuditEventData {
+	policyId: string;
+	type: LegalDocumentPolicyType;
+	version: string;
+	hash: string;
+	effectiveDate: string;
+}
+
+export interface AuditEventDataMap {
+	'consent.recorded': ConsentRecordedAuditEventData;
+	'subject.linked': SubjectLinkedWebhookData;
+	'legal_document.synced': LegalDocumentSyncedAuditEventData;
+}
+
+export type AuditEventContext = Pick<
+	C15TContext,
+	| 'auditEvents'
+	| 'background'
+	| 'logger'
+	| 'tenantId'
+	| 'method'
+	| 'path'
+	| 'apiKey'
+>;
+
+/**
+ * Applies the `redact` option, then the built-in PII rules.
+ *
+ * The built-in rules run last so a custom transform cannot reintroduce
+ * values they remove.
+ */
+export function redactAuditEvent(
+	event: AuditEvent,
+	redact?: (event: AuditEvent) => AuditEvent | null
+): AuditEvent | null {
+	const transformed = redact ? redact(event) : event;
+	return transformed ? redactPii(transformed) : null;
+}
+
+/**
+ * Writes an event to every configured sink.
+ *
+ * Returns immediately; sinks are written in the background.
+ */
+export function emitAuditEvent<T extends AuditEventType>(
+	ctx: AuditEventContext,
+	type: T,
+	data: AuditEventDataMap[T]
+): void {
+	const options = ctx.auditEvents;
+
+	if (
+		!options?.sinks.length ||
+		(options.events && !options.events.includes(type))
+	) {
+		return;
+	}
+
+	const event = redactAuditEvent(
+		{
+			id: `evt_${crypto.randomUUID().replaceAll('-', '')}`,
+			type,
+			createdAt: new Date().toISOString(),
+			tenantId: ctx.tenantId,
+			request: {
+				method: ctx.method,
+				path: ctx.path,
+				apiKey: ctx.apiKey?.name,
+			},
+			data: { ...data },
+		},
+		options.redact
+	);
+
+	if (!event) {
+		return;
+	}
+
+	for (const sink of options.sinks) {
+		runInBackground(ctx, async () => {
+			try {
+				await sink.write(event);
+			} catch (error) {
+				ctx.logger.warn('Audit event sink failed', {
+					sink: sink.name,
+					eventId: event.id,
+					type,
+					error: extractErrorMessage(error),
+				});
+			}
+		});
+	}
+}
+
+/**
+ * Sends events buffered by batching sinks.
+ *
+ * Call before the process exits, or at the end of a serverless invocation,
+ * so buffered events are not lost.
+ *
+ * @example
+ * ```ts
+ * const instance = c15tInstance(options);
+ * process.on('SIGTERM', async () => {
+ *   await flushAuditEvents(instance.$context);
+ *   process.exit(0);
+ * });
+ * ```
+ */
+export async function flushAuditEvents(
+	ctx: Pick<C15TContext, 'auditEvents' | 'logger'>
+): Promise<void> {
+	const sinks = ctx.auditEvents?.sinks ?? [];
+
+	await Promise.all(
+		sinks.map(async (sink) => {
+			try {
+				await sink.flush?.();
+			} catch (error) {
+				ctx.logger.warn('Audit event sink flush failed', {
+					sink: sink.name,
+					error: extractErrorMessage(error),
+				});
+			}
+		})
+	);
+}
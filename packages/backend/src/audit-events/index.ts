@@ -0,0 +1,28 @@
+/**
+ * Audit Events Module
+ *
+ * Structured events for consent writes, subject links and legal document
+ * syncs, redacted and written to pluggable sinks for SIEM export.
+ *
+ * @packageDocumentation
+ */
+
+export {
+	type AuditEventContext,
+	type AuditEventDataMap,
+	type ConsentRecordedAuditEventData,
+	emitAuditEvent,
+	flushAuditEvents,
+	type LegalDocumentSyncedAuditEventData,
+	redactAuditEvent,
+} from './emit';
+export {
+	type BatchSinkOptions,
+	createHttpBatchSink,
+	createNdjsonStreamSink,
+	createOtlpLogSink,
+	type HttpBatchSinkOptions,
+	type NdjsonWritable,
+	type OtlpLogSinkOptions,
+	toOtlpLogsRequest,
+} from './sinks';
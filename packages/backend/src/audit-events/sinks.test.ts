@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AuditEvent } from '~/types';
+import {
+	createHttpBatchSink,
+	createNdjsonStreamSink,
+	createOtlpLogSink,
+	toOtlpLogsRequest,
+} from './sinks';
+
+const event = (id: string): AuditEvent => ({
+	id,
+	type: 'consent.recorded',
+	createdAt: '2026-01-01T00:00:00.000Z',
+	tenantId: 'tenant-a',
+	request: { method: 'POST', path: '/subjects' },
+	data: {
+		subjectId: 'sub_1',
+		preferences: { necessary: true, marketing: false },
+		givenAt: '2026-01-01T00:00:00.000Z',
+	},
+});
+
+function mockFetch(...statuses: number[]) {
+	const requests: { url: string; init: RequestInit }[] = [];
+	const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+		requests.push({ url, init });
+		return new Response(null, { status: statuses.shift() ?? 200 });
+	});
+	vi.stubGlobal('fetch', fetchMock);
+	return requests;
+}
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+	vi.useRealTimers();
+});
+
+describe('createNdjsonStreamSink', () => {
+	it('writes one JSON line per event', async () => {
+		const chunks: string[] = [];
+		const sink = createNdjsonStreamSink({
+			write: (chunk) => chunks.push(chunk),
+		});
+
+		await sink.write(event('evt_1'));
+		await sink.write(event('evt_2'));
+
+		expect(chunks.map((chunk) => JSON.parse(chunk).id)).toEqual([
+			'evt_1',
+			'evt_2',
+		]);
+		expect(chunks.every((chunk) => chunk.endsWith('\n'))).toBe(true);
+	});
+});
+
+describe('createHttpBatchSink', () => {
+	it('posts a full batch immediately as NDJSON', async () => {
+		const requests = mockFetch();
+		const sink = createHttpBatchSink({
+			url: 'https://siem.example.com/ingest',
+			headers: { authorization: 'Bearer token' },
+			maxBatchSize: 2,
+		});
+
+		await sink.write(event('evt_1'));
+		expect(requests).toHaveLength(0);
+		await sink.write(event('evt_2'));
+
+		expect(requests).toHaveLength(1);
+		const [request] = requests;
+		expect(request?.url).toBe('https://siem.example.com/ingest');
+		expect(request?.init.headers).toMatchObject({
+			authorization: 'Bearer token',
+			'content-type': 'application/x-ndjson',
+		});
+		expect(
+			String(request?.init.body)
+				.trim()
+				.split('\n')
+				.map((line) => JSON.parse(line).id)
+		).toEqual(['evt_1', 'evt_2']);
+	});
+
+	it('sends a partial batch after the flush interval', async () => {
+		vi.useFakeTimers();
+		const requests = mockFetch();
+		const sink = createHttpBatchSink({
+			url: 'https://siem.example.com/ingest',
+			format: 'json',
+			flushIntervalMs: 1000,
+		});
+
+		await sink.write(event('evt_1'));
+		await vi.advanceTimersByTimeAsync(999);
+		expect(requests).toHaveLength(0);
+		await vi.advanceTimersByTimeAsync(1);
+
+		expect(requests).toHaveLength(1);
+		expect(JSON.parse(String(requests[0]?.init.body))).toEqual([
+			event('evt_1'),
+		]);
+	});
+
+	it('keeps failed batches for the next flush', async () => {
+		const requests = mockFetch(503, 200);
+		const sink = createHttpBatchSink({
+			url: 'https://siem.example.com/ingest',
+			maxBatchSize: 10,
+		});
+
+		await sink.write(event('evt_1'));
+		await expect(sink.flush?.()).rejects.toThrow('HTTP 503');
+		await sink.write(event('evt_2'));
+		await sink.flush?.();
+
+		expect(requests).toHaveLength(2);
+		expect(String(requests[1]?.init.body).trim().split('\n')).toHaveLength(2);
+	});
+
+	it('reports failures of interval flushes to onError', async () => {
+		vi.useFakeTimers();
+		mockFetch(500);
+		const onError = vi.fn();
+		const sink = createHttpBatchSink({
+			url: 'https://siem.example.com/ingest',
+			flushIntervalMs: 100,
+			onError,
+		});
+
+		await sink.write(event('evt_1'));
+		await vi.advanceTimersByTimeAsync(100);
+
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), [event('evt_1')]);
+	});
+});
+
+describe('createOtlpLogSink', () => {
+	it('exports events as OTLP log records', async () => {
+		const requests = mockFetch();
+		const sink = createOtlpLogSink({
+			url: 'http://otel-collector:4318/v1/logs',
+			serviceName: 'consent-api',
+		});
+
+		await sink.write(event('evt_1'));
+		await sink.flush?.();
+
+		expect(requests[0]?.url).toBe('http://otel-collector:4318/v1/logs');
+		expect(JSON.parse(String(requests[0]?.init.body))).toEqual(
+			toOtlpLogsRequest([event('evt_1')], 'consent-api')
+		);
+	});
+
+	it('encodes event data as the record body', () => {
+		const request = toOtlpLogsRequest([event('evt_1')]);
+		const [resourceLogs] = request.resourceLogs;
+		const [record] = resourceLogs?.scopeLogs[0]?.logRecords ?? [];
+
+		expect(resourceLogs?.resource.attributes).toContainEqual({
+			key: 'service.name',
+			value: { stringValue: 'c15t' },
+		});
+		expect(record).toMatchObject({
+			timeUnixNano: '1767225600000000000',
+			severityText: 'INFO',
+			eventName: 'consent.recorded',
+		});
+		expect(record?.attributes).toEqual([
+			{ key: 'event.name', value: { stringValue: 'consent.recorded' } },
+			{ key: 'event.id', value: { stringValue: 'evt_1' } },
+			{ key: 'tenant.id', value: { stringValue: 'tenant-a' } },
+			{ key: 'http.method', value: { stringValue: 'POST' } },
+			{ key: 'http.path', value: { stringValue: '/subjects' } },
+		]);
+		expect(record?.body).toEqual({
+			kvlistValue: {
+				values: [
+					{ key: 'subjectId', value: { stringValue: 'sub_1' } },
+					{
+						key: 'preferences',
+						value: {
+							kvlistValue: {
+								values: [
+									{ key: 'necessary', value: { boolValue: true } },
+									{ key: 'marketing', value: { boolValue: false } },
+								],
+							},
+						},
+					},
+					{
+						key: 'givenAt',
+						value: { stringValue: '2026-01-01T00:00:00.000Z' },
+					},
+				],
+			},
+		});
+	});
+});
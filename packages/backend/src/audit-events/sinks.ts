@@ -0,0 +1,345 @@
+/**
+ * Built-in audit event sinks.
+ *
+ * - {@link createNdjsonStreamSink} writes one JSON line per event to a stream
+ * - {@link createHttpBatchSink} posts batches of events to an HTTP collector
+ * - {@link createOtlpLogSink} exports events as OpenTelemetry log records
+ *   over OTLP/HTTP
+ *
+ * @packageDocumentation
+ */
+
+import type { AuditEvent, AuditEventSink } from '~/types';
+import { version } from '~/version';
+
+const DEFAULT_MAX_BATCH_SIZE = 100;
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+const DEFAULT_TIMEOUT_MS = 10_000;
+/** Failed batches are kept for retry up to this many batches' worth */
+const MAX_BUFFERED_BATCHES = 10;
+
+/**
+ * Anything with a `write` method, such as `process.stdout`, a Node.js file
+ * stream or a `WritableStreamDefaultWriter`
+ */
+export interface NdjsonWritable {
+	write: (chunk: string) => unknown;
+}
+
+export interface BatchSinkOptions {
+	/**
+	 * Events sent per request. A full batch is sent immediately.
+	 * @default 100
+	 */
+	maxBatchSize?: number;
+
+	/**
+	 * Maximum time an event waits in the buffer before a partial batch is sent.
+	 * @default 5000
+	 */
+	flushIntervalMs?: number;
+
+	/**
+	 * Per-request timeout.
+	 * @default 10000
+	 */
+	timeoutMs?: number;
+
+	/**
+	 * Called when a batch sent on the flush interval fails. The batch stays
+	 * buffered and is retried with the next one.
+	 */
+	onError?: (error: unknown, events: AuditEvent[]) => void;
+}
+
+export interface HttpBatchSinkOptions extends BatchSinkOptions {
+	/**
+	 * URL that receives `POST` requests with each batch.
+	 */
+	url: string;
+
+	/**
+	 * Additional headers, e.g. for authentication.
+	 */
+	headers?: Record<string, string>;
+
+	/**
+	 * Request body format: newline-delimited JSON or a JSON array.
+	 * @default 'ndjson'
+	 */
+	format?: 'ndjson' | 'json';
+}
+
+export interface OtlpLogSinkOptions extends BatchSinkOptions {
+	/**
+	 * OTLP/HTTP logs endpoint.
+	 * @example 'http://otel-collector:4318/v1/logs'
+	 */
+	url: string;
+
+	/**
+	 * Additional headers, e.g. for authentication.
+	 */
+	headers?: Record<string, string>;
+
+	/**
+	 * `service.name` resource attribute.
+	 * @default 'c15t'
+	 */
+	serviceName?: string;
+}
+
+/**
+ * Writes each event as one line of JSON.
+ *
+ * @example
+ * ```ts
+ * auditEvents: {
+ *   sinks: [createNdjsonStreamSink(process.stdout)],
+ * }
+ * ```
+ */
+export function createNdjsonStreamSink(stream: NdjsonWritable): AuditEventSink {
+	return {
+		name: 'ndjson',
+		write: async (event) => {
+			await stream.write(`${JSON.stringify(event)}\n`);
+		},
+	};
+}
+
+/**
+ * Buffers events and hands them to `send` in batches, on size or interval.
+ */
+function createBatchingSink(
+	name: string,
+	{
+		maxBatchSize = DEFAULT_MAX_BATCH_SIZE,
+		flushIntervalMs = DEFAULT_FLUSH_INTERVAL_MS,
+		onError,
+	}: BatchSinkOptions,
+	send: (events: AuditEvent[]) => Promise<void>
+): AuditEventSink {
+	const batchSize = Math.max(1, maxBatchSize);
+	let buffer: AuditEvent[] = [];
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	const flush = async () => {
+		if (timer) {
+			clearTimeout(timer);
+			timer = undefined;
+		}
+
+		while (buffer.length > 0) {
+			const batch = buffer.slice(0, batchSize);
+			buffer = buffer.slice(batch.length);
+
+			try {
+				await send(batch);
+			} catch (error) {
+				// Keep the batch for the next flush, dropping the oldest events
+				// when the collector has been down for a while
+				buffer = [...batch, ...buffer].slice(-batchSize * MAX_BUFFERED_BATCHES);
+				throw error;
+			}
+		}
+	};
+
+	return {
+		name,
+		flush,
+		write: async (event) => {
+			buffer.push(event);
+
+			if (buffer.length >= batchSize) {
+				await flush();
+				return;
+			}
+
+			if (!timer) {
+				timer = setTimeout(() => {
+					timer = undefined;
+					flush().catch((error) => onError?.(error, [...buffer]));
+				}, flushIntervalMs);
+				// Do not keep a Node.js process alive just to flush
+				if (typeof timer === 'object' && 'unref' in timer) {
+					timer.unref();
+				}
+			}
+		},
+	};
+}
+
+async function post(
+	url: string,
+	headers: Record<string, string>,
+	body: string,
+	timeoutMs: number
+): Promise<void> {
+	const response = await fetch(url, {
+		method: 'POST',
+		headers: {
+			...headers,
+			'user-agent': `c15t-audit-events/${version}`,
+		},
+		body,
+		signal: AbortSignal.timeout(timeoutMs),
+	});
+
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}`);
+	}
+}
+
+/**
+ * Posts batches of events to an HTTP collector, such as a SIEM ingestion
+ * endpoint.
+ *
+ * @example
+ * ```ts
+ * createHttpBatchSink({
+ *   url: 'https://siem.example.com/ingest',
+ *   headers: { authorization: `Bearer ${process.env.SIEM_TOKEN}` },
+ * })
+ * ```
+ */
+export function createHttpBatchSink({
+	url,
+	headers,
+	format = 'ndjson',
+	timeoutMs = DEFAULT_TIMEOUT_MS,
+	...options
+}: HttpBatchSinkOptions): AuditEventSink {
+	return createBatchingSink('http', options, (events) =>
+		format === 'json'
+			? post(
+					url,
+					{ ...headers, 'content-type': 'application/json' },
+					JSON.stringify(events),
+					timeoutMs
+				)
+			: post(
+					url,
+					{ ...headers, 'content-type': 'application/x-ndjson' },
+					events.map((event) => `${JSON.stringify(event)}\n`).join(''),
+					timeoutMs
+				)
+	);
+}
+
+type OtlpAnyValue =
+	| { stringValue: string }
+	| { boolValue: boolean }
+	| { intValue: number }
+	| { doubleValue: number }
+	| { arrayValue: { values: OtlpAnyValue[] } }
+	| { kvlistValue: { values: OtlpKeyValue[] } }
+	| Record<string, never>;
+
+interface OtlpKeyValue {
+	key: string;
+	value: OtlpAnyValue;
+}
+
+function toOtlpValue(value: unknown): OtlpAnyValue {
+	if (typeof value === 'string') {
+		return { stringValue: value };
+	}
+	if (typeof value === 'boolean') {
+		return { boolValue: value };
+	}
+	if (typeof value === 'number') {
+		return Number.isInteger(value)
+			? { intValue: value }
+			: { doubleValue: value };
+	}
+	if (Array.isArray(value)) {
+		return { arrayValue: { values: value.map(toOtlpValue) } };
+	}
+	if (value instanceof Date) {
+		return { stringValue: value.toISOString() };
+	}
+	if (value && typeof value === 'object') {
+		return { kvlistValue: { values: toOtlpAttributes(value) } };
+	}
+	return {};
+}
+
+function toOtlpAttributes(values: object): OtlpKeyValue[] {
+	return Object.entries(values)
+		.filter(([, value]) => value !== undefined)
+		.map(([key, value]) => ({ key, value: toOtlpValue(value) }));
+}
+
+/**
+ * Encodes events as an OTLP `ExportLogsServiceRequest` in the JSON encoding.
+ */
+export function toOtlpLogsRequest(events: AuditEvent[], serviceName = 'c15t') {
+	return {
+		resourceLogs: [
+			{
+				resource: {
+					attributes: toOtlpAttributes({
+						'service.name': serviceName,
+						'service.version': version,
+					}),
+				},
+				scopeLogs: [
+					{
+						scope: { name: '@c15t/backend', version },
+						logRecords: events.map((event) => {
+							const timeUnixNano = `${Date.parse(event.createdAt)}000000`;
+							return {
+								timeUnixNano,
+								observedTimeUnixNano: timeUnixNano,
+								severityNumber: 9,
+								severityText: 'INFO',
+								eventName: event.type,
+								body: toOtlpValue(event.data),
+								attributes: toOtlpAttributes({
+									'event.name': event.type,
+									'event.id': event.id,
+									'tenant.id': event.tenantId,
+									'http.method': event.request?.method,
+									'http.path': event.request?.path,
+									'c15t.api_key': event.request?.apiKey,
+								}),
+							};
+						}),
+					},
+				],
+			},
+		],
+	};
+}
+
+/**
+ * Exports events as OpenTelemetry log records to an OTLP/HTTP collector.
+ *
+ * Each event becomes one `INFO` record named after the event type, with the
+ * event data as its body.
+ *
+ * @example
+ * ```ts
+ * createOtlpLogSink({
+ *   url: 'http://otel-collector:4318/v1/logs',
+ *   serviceName: 'consent-api',
+ * })
+ * ```
+ */
+export function createOtlpLogSink({
+	url,
+	headers,
+	serviceName,
+	timeoutMs = DEFAULT_TIMEOUT_MS,
+	...options
+}: OtlpLogSinkOptions): AuditEventSink {
+	return createBatchingSink('otlp', options, (events) =>
+		post(
+			url,
+			{ ...headers, 'content-type': 'application/json' },
+			JSON.stringify(toOtlpLogsRequest(events, serviceName)),
+			timeoutMs
+		)
+	);
+}
@@ -9,6 +9,11 @@
 import type { CacheAdapter } from '../types';
 import { GVL_TTL_MS } from '../types';
 
+/**
+ * Smallest `expirationTtl` Cloudflare KV accepts, in seconds
+ */
+const KV_MIN_TTL_SECONDS = 60;
+
 /**
  * Cloudflare KV Namespace interface.
  * Matches the KVNamespace type from @cloudflare/workers-types.
@@ -54,8 +59,9 @@ export function createCloudflareKVAdapter(kv: KVNamespace): CacheAdapter {
 		},
 
 		async set<T>(key: string, value: T, ttlMs = GVL_TTL_MS): Promise<void> {
-			// Convert milliseconds to seconds for KV expirationTtl
-			const ttlSeconds = Math.ceil(ttlMs / 1000);
+			// Convert milliseconds to seconds for KV expirationTtl, which rejects
+			// values below its minimum
+			const ttlSeconds = Math.max(KV_MIN_TTL_SECONDS, Math.ceil(ttlMs / 1000));
 			await kv.put(key, JSON.stringify(value), { expirationTtl: ttlSeconds });
 		},
 
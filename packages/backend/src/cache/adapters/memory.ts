@@ -21,12 +21,42 @@ interface CacheEntry<T = unknown> {
  */
 const memoryCache = new Map<string, CacheEntry>();
 
+/**
+ * Upper bound on cached entries. Keys such as rate limit counters are
+ * created per client and may never be read again, so lazy expiration alone
+ * does not bound the cache.
+ *
+ * @internal
+ */
+export const MAX_MEMORY_CACHE_ENTRIES = 10_000;
+
+/**
+ * Makes room for a new entry: drops expired entries, then the oldest ones
+ * until the cache is at 90% of its bound.
+ */
+function evictEntries(now: number): void {
+	for (const [key, entry] of memoryCache) {
+		if (now > entry.expiresAt) {
+			memoryCache.delete(key);
+		}
+	}
+
+	const target = Math.floor(MAX_MEMORY_CACHE_ENTRIES * 0.9);
+	for (const key of memoryCache.keys()) {
+		if (memoryCache.size <= target) {
+			break;
+		}
+		memoryCache.delete(key);
+	}
+}
+
 /**
  * Creates an in-memory cache adapter.
  *
  * Features:
  * - Uses a shared Map for fast access
  * - Supports TTL with lazy expiration
+ * - Evicts expired, then oldest, entries once {@link MAX_MEMORY_CACHE_ENTRIES} is reached
  * - Always used as the first cache layer by default
  *
  * @returns A CacheAdapter implementation backed by in-memory Map
@@ -60,9 +90,17 @@ export function createMemoryCacheAdapter(): CacheAdapter {
 		},
 
 		async set<T>(key: string, value: T, ttlMs = MEMORY_TTL_MS): Promise<void> {
+			const now = Date.now();
+			if (
+				!memoryCache.has(key) &&
+				memoryCache.size >= MAX_MEMORY_CACHE_ENTRIES
+			) {
+				evictEntries(now);
+			}
+
 			memoryCache.set(key, {
 				value,
-				expiresAt: Date.now() + ttlMs,
+				expiresAt: now + ttlMs,
 			});
 		},
 
@@ -29,6 +29,8 @@ export {
 
 // Cache Key Utilities
 export { createCacheKey, createGVLCacheKey } from './keys';
+// Tenant scoping
+export { withTenantCacheScope } from './tenant-scope';
 // Types
 export type { CacheAdapter } from './types';
 export { GVL_TTL_MS, MEMORY_TTL_MS } from './types';
@@ -0,0 +1,29 @@
+/**
+ * Tenant-scoped cache adapter
+ *
+ * @packageDocumentation
+ */
+
+import type { CacheAdapter } from './types';
+
+/**
+ * Wraps a cache adapter so every key is prefixed with `tenant:{tenantId}:`.
+ *
+ * Tenants sharing one cache backend can then never read or overwrite each
+ * other's entries, whatever keys the callers build.
+ *
+ * @public
+ */
+export function withTenantCacheScope(
+	adapter: CacheAdapter,
+	tenantId: string
+): CacheAdapter {
+	const scopeKey = (key: string) => `tenant:${tenantId}:${key}`;
+
+	return {
+		get: (key) => adapter.get(scopeKey(key)),
+		set: (key, value, ttlMs) => adapter.set(scopeKey(key), value, ttlMs),
+		delete: (key) => adapter.delete(scopeKey(key)),
+		has: (key) => adapter.has(scopeKey(key)),
+	};
+}
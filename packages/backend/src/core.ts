@@ -5,16 +5,24 @@ import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { HTTPException } from 'hono/http-exception';
 import { openAPIRouteHandler } from 'hono-openapi';
-import { validateRequestAuth } from '~/middleware/auth';
+import { matchRequestApiKey } from '~/middleware/auth';
 import { createCORSOptions } from '~/middleware/cors';
 import { createOpenAPIConfig } from '~/middleware/openapi';
 import { getIpAddress } from '~/middleware/process-ip';
-import type { C15TContext, C15TOptions } from '~/types';
+import { createRateLimitMiddleware } from '~/middleware/rate-limit';
+import { createTenantContext, resolveRequestTenant } from '~/tenant';
+import type { AuthenticatedApiKey, C15TContext, C15TOptions } from '~/types';
 import { init } from './init';
+import { createAnalyticsRoutes } from './routes/analytics';
+import { createAuditLogRoutes } from './routes/audit-log';
 import { createConsentRoutes } from './routes/consent';
+import { createConsentReceiptRoutes } from './routes/consent-receipt';
 // Import route handlers
 import { createInitRoute } from './routes/init';
+import { createJwksRoute } from './routes/jwks';
 import { createLegalDocumentRoutes } from './routes/legal-document';
+import { createPolicyRoutes } from './routes/policy';
+import { createPolicyPackRoutes } from './routes/policy-pack';
 import { createStatusRoute } from './routes/status';
 import { createSubjectRoutes } from './routes/subject';
 import {
@@ -123,22 +131,60 @@ export const c15tInstance = (options: C15TOptions): C15TInstance => {
 	// Get metrics instance (null if telemetry is disabled)
 	const metrics = getMetrics(options);
 
+	// Routes that still respond when `resolveTenant` finds no tenant
+	const tenantOptionalPaths = new Set([
+		'/',
+		'/status',
+		'/.well-known/jwks.json',
+		...(openApiConfig.enabled
+			? [openApiConfig.specPath, openApiConfig.docsPath]
+			: []),
+	]);
+
 	// Context middleware - enriches each request with c15t context
 	app.use('*', async (c, next) => {
 		const request = c.req.raw;
 		const startTime = Date.now();
 
 		// Check API key authentication
-		const apiKeyAuthenticated = validateRequestAuth(
-			request.headers,
-			options.apiKeys
-		);
+		const apiKey = await matchRequestApiKey(request.headers, options.apiKeys);
+		if (apiKey?.expired) {
+			throw new HTTPException(401, {
+				message: `API key "${apiKey.name}" has expired`,
+				cause: { code: 'API_KEY_EXPIRED' },
+			});
+		}
+
+		const authenticatedApiKey: AuthenticatedApiKey | undefined = apiKey
+			? {
+					name: apiKey.name,
+					scopes: apiKey.scopes,
+					...(apiKey.tenantId !== undefined && { tenantId: apiKey.tenantId }),
+				}
+			: undefined;
+
+		// Scope the request to its tenant (multi-tenant instances only)
+		let requestContext = context;
+		if (options.resolveTenant) {
+			const tenant = await resolveRequestTenant(
+				request,
+				options.resolveTenant,
+				{
+					apiKey: authenticatedApiKey,
+					required: !tenantOptionalPaths.has(c.req.path),
+				}
+			);
+			if (tenant) {
+				requestContext = createTenantContext(context, tenant);
+			}
+		}
 
 		const enrichedContext: C15TContext = {
-			...context,
+			...requestContext,
 			ipAddress: getIpAddress(request, options),
 			userAgent: request.headers.get('user-agent') || undefined,
-			apiKeyAuthenticated,
+			apiKeyAuthenticated: apiKey !== null,
+			apiKey: authenticatedApiKey,
 			path: c.req.path,
 			method: c.req.method,
 			headers: request.headers,
@@ -239,11 +285,25 @@ export const c15tInstance = (options: C15TOptions): C15TInstance => {
 		);
 	}
 
+	// Rate limiting for public write and bootstrap routes (opt-in)
+	if (options.rateLimit) {
+		app.use('/init', createRateLimitMiddleware(options, 'GET /init'));
+		app.use('/subjects', createRateLimitMiddleware(options, 'POST /subjects'));
+	}
+
 	// Mount routes - using plural nouns for REST conventions
 	app.route('/init', createInitRoute(options));
 	app.route('/legal-documents', createLegalDocumentRoutes());
 	app.route('/subjects', createSubjectRoutes());
 	app.route('/consents', createConsentRoutes());
+	app.route('/consent-receipts', createConsentReceiptRoutes());
+	app.route('/audit-logs', createAuditLogRoutes());
+	app.route('/analytics', createAnalyticsRoutes());
+	app.route('/policies', createPolicyRoutes());
+	if (options.managedPolicyPacks?.enabled) {
+		app.route('/policy-packs', createPolicyPackRoutes());
+	}
+	app.route('/.well-known', createJwksRoute());
 	app.route('/status', createStatusRoute());
 	app.route('/', createStatusRoute());
 
@@ -364,9 +424,50 @@ export const c15tInstance = (options: C15TOptions): C15TInstance => {
 	};
 };
 
+export {
+	type ConsentRecordedAuditEventData,
+	createHttpBatchSink,
+	createNdjsonStreamSink,
+	createOtlpLogSink,
+	flushAuditEvents,
+	type HttpBatchSinkOptions,
+	type LegalDocumentSyncedAuditEventData,
+	type NdjsonWritable,
+	type OtlpLogSinkOptions,
+} from './audit-events';
 export { defineConfig } from './define-config';
+export {
+	createMmdbGeoProvider,
+	type MmdbGeoProviderOptions,
+} from './geo';
+export {
+	type ConsentReceiptPayload,
+	type ConsentReceiptVerificationResult,
+	verifyConsentReceipt,
+} from './handlers/consent-receipt/receipt';
+export {
+	createIdentityToken,
+	IDENTITY_TOKEN_HEADER,
+	type IdentityTokenPayload,
+	type IdentityTokenVerificationResult,
+	LINKED_CONSENT_ACTION,
+	verifyIdentityToken,
+} from './handlers/init/identity';
 export type { PolicyValidationResult } from './handlers/init/policy';
 export { inspectPolicies } from './handlers/init/policy';
+export {
+	CONSENT_EXPIRED_ACTION,
+	type ConsentReconsentRequirement,
+	RETENTION_PURGE_ACTION,
+	type RetentionTable,
+	type RunRetentionPurgeOptions,
+	type RunRetentionPurgeResult,
+	runRetentionPurge,
+	type SweepExpiredConsentsOptions,
+	type SweepExpiredConsentsResult,
+	sweepExpiredConsents,
+} from './jobs';
+export { hashApiKey } from './middleware/auth';
 export type { PolicyBuilderInput } from './policies/builder';
 export { policyBuilder } from './policies/builder';
 export type {
@@ -382,5 +483,50 @@ export {
 	policyMatchers,
 	UK_COUNTRY_CODES,
 } from './policies/matchers';
-export type { C15TContext, C15TOptions } from './types';
+export { createMemorySubjectEventBus } from './subject-events';
+export { createTenantContext } from './tenant';
+export type {
+	ApiKeyConfig,
+	ApiKeyScope,
+	AuditEvent,
+	AuditEventOptions,
+	AuditEventSink,
+	AuditEventType,
+	C15TContext,
+	C15TOptions,
+	ConsentReceiptOptions,
+	GeoLocation,
+	GeoOptions,
+	GeoProvider,
+	IdentityTokenOptions,
+	ManagedPolicyPackOptions,
+	ResolvedTenant,
+	ResolveTenant,
+	ResolveTenantContext,
+	RetentionOptions,
+	RetentionPeriods,
+	SnapshotSigningKey,
+	SubjectEvent,
+	SubjectEventBus,
+	SubjectEventPayload,
+	SubjectEventsOptions,
+	WebhookEndpoint,
+	WebhookEventType,
+	WebhookOptions,
+} from './types';
+export {
+	getSnapshotJwks,
+	type SnapshotJwks,
+} from './utils/snapshot-signing';
 export { version } from './version';
+export {
+	type ConsentRecordedWebhookData,
+	type ReplayWebhookDeliveriesOptions,
+	type ReplayWebhookDeliveriesResult,
+	replayFailedWebhookDeliveries,
+	type SubjectLinkedWebhookData,
+	type VerifyWebhookSignatureOptions,
+	verifyWebhookSignature,
+	WEBHOOK_SIGNATURE_HEADER,
+	type WebhookEvent,
+} from './webhooks';
@@ -684,5 +684,57 @@ describe('policyRegistry', () => {
 				})
 			);
 		});
+
+		it('listLegalDocumentPolicyVersions counts acceptances per release in the database', async () => {
+			const current = createMockConsentPolicy({
+				id: 'pol_current',
+				version: '2026-04-07',
+				hash: 'hash_current',
+				effectiveDate: new Date('2026-04-07T00:00:00.000Z'),
+			});
+			const previous = createMockConsentPolicy({
+				id: 'pol_previous',
+				version: '2025-01-01',
+				hash: 'hash_previous',
+				effectiveDate: new Date('2025-01-01T00:00:00.000Z'),
+				isActive: false,
+			});
+			const counts: Record<string, number> = {
+				pol_current: 1,
+				pol_previous: 3,
+			};
+			const db = {
+				findMany: vi.fn().mockResolvedValue([current, previous]),
+				count: vi.fn(async (_table: string, opts: any) => {
+					const policyId = Object.keys(counts).find((id) =>
+						opts.where((col: string, _op: string, value: string) =>
+							col === 'policyId' ? value === id : false
+						)
+					);
+					return policyId ? counts[policyId] : 0;
+				}),
+			};
+
+			const registry = policyRegistry({
+				db,
+				ctx: { logger: mockLogger },
+			} as unknown as Registry);
+
+			const result =
+				await registry.listLegalDocumentPolicyVersions('privacy_policy');
+
+			expect(db.findMany).toHaveBeenCalledTimes(1);
+			expect(db.findMany).toHaveBeenCalledWith('consentPolicy', {
+				where: expect.any(Function),
+				orderBy: ['effectiveDate', 'desc'],
+			});
+			expect(db.count).toHaveBeenCalledTimes(2);
+			expect(
+				result.map(({ id, acceptanceCount }) => ({ id, acceptanceCount }))
+			).toEqual([
+				{ id: 'pol_current', acceptanceCount: 1 },
+				{ id: 'pol_previous', acceptanceCount: 3 },
+			]);
+		});
 	});
 });
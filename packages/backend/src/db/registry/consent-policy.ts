@@ -210,6 +210,49 @@ export function policyRegistry({ db, ctx }: Registry) {
 				throw error;
 			}
 		},
+		/**
+		 * Lists every release of a legal document, newest effective date first,
+		 * with the number of consent records given against each one.
+		 *
+		 * `acceptanceCount` is the number of acceptances, not of subjects: a
+		 * subject who accepted the same release twice is counted twice. The
+		 * counts run in the database, one per release and concurrently, so no
+		 * consent rows are loaded.
+		 */
+		listLegalDocumentPolicyVersions: async (type: LegalDocumentPolicyType) => {
+			const start = Date.now();
+			try {
+				const result = await withDatabaseSpan(
+					{ operation: 'list', entity: 'consentPolicy' },
+					async () => {
+						const policies = await db.findMany('consentPolicy', {
+							where: (b) => b('type', '=', type),
+							orderBy: ['effectiveDate', 'desc'],
+						});
+
+						return Promise.all(
+							policies.map(async (policy) => ({
+								...policy,
+								acceptanceCount: await db.count('consent', {
+									where: (b) => b('policyId', '=', policy.id),
+								}),
+							}))
+						);
+					}
+				);
+				getMetrics()?.recordDbQuery(
+					{ operation: 'list', entity: 'consentPolicy' },
+					Date.now() - start
+				);
+				return result;
+			} catch (error) {
+				getMetrics()?.recordDbError({
+					operation: 'list',
+					entity: 'consentPolicy',
+				});
+				throw error;
+			}
+		},
 		findOrCreateLegalDocumentPolicy: async (
 			input: LegalDocumentPolicyInput
 		) => {
@@ -1,6 +1,7 @@
 import { policyRegistry } from './consent-policy';
 import { consentPurposeRegistry } from './consent-purpose';
 import { domainRegistry } from './domain';
+import { policyPackVersionRegistry } from './policy-pack-version';
 import { runtimePolicyDecisionRegistry } from './runtime-policy-decision';
 import { subjectRegistry } from './subject';
 import type { Registry } from './types';
@@ -12,5 +13,6 @@ export const createRegistry = (ctx: Registry) => {
 		...policyRegistry(ctx),
 		...domainRegistry(ctx),
 		...runtimePolicyDecisionRegistry(ctx),
+		...policyPackVersionRegistry(ctx),
 	};
 };
@@ -0,0 +1,174 @@
+import type { PolicyConfig } from '@c15t/schema/types';
+import { describe, expect, it, vi } from 'vitest';
+import {
+	createInMemoryDb,
+	type InMemoryRow,
+	type InMemoryTables,
+} from '~/testing/in-memory-db';
+import {
+	PolicyPackNotDraftError,
+	PUBLISH_POLICY_PACK_ACTION,
+	policyPackVersionRegistry,
+} from './policy-pack-version';
+import type { Registry } from './types';
+
+vi.mock('./utils/generate-id', () => {
+	let counter = 0;
+	return {
+		generateUniqueId: vi.fn(async () => `id_${++counter}`),
+	};
+});
+
+function createRegistry(tables: InMemoryTables = {}) {
+	const db = createInMemoryDb(tables);
+	const registry = policyPackVersionRegistry({
+		db,
+		ctx: {
+			logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+		},
+	} as unknown as Registry);
+	return { registry, db, tables };
+}
+
+const POLICIES: PolicyConfig[] = [
+	{ id: 'world', match: { isDefault: true }, consent: { model: 'opt-in' } },
+];
+
+describe('policyPackVersionRegistry', () => {
+	it('numbers drafts sequentially and lists them newest first', async () => {
+		const { registry } = createRegistry();
+
+		const first = await registry.createPolicyPackDraft({
+			policies: POLICIES,
+			createdBy: 'ops',
+		});
+		const second = await registry.createPolicyPackDraft({
+			policies: POLICIES,
+			description: 'Second',
+		});
+
+		expect(first).toMatchObject({
+			version: 1,
+			status: 'draft',
+			policies: POLICIES,
+			createdBy: 'ops',
+			publishedAt: null,
+		});
+		expect(second.version).toBe(2);
+		expect(
+			(await registry.listPolicyPackVersions()).map((pack) => pack.version)
+		).toEqual([2, 1]);
+		expect(await registry.listPolicyPackVersions('published')).toEqual([]);
+	});
+
+	it('retries with the next version when a concurrent create takes it', async () => {
+		const { registry, db, tables } = createRegistry();
+		const create = db.create.getMockImplementation();
+		db.create.mockImplementationOnce(
+			async (table: string, data: InMemoryRow) => {
+				// Another request inserts the same version first
+				await create(table, { ...data, id: 'id_concurrent' });
+				throw new Error('duplicate key value violates unique constraint');
+			}
+		);
+
+		const draft = await registry.createPolicyPackDraft({ policies: POLICIES });
+
+		expect(draft.version).toBe(2);
+		expect(
+			tables.policyPackVersion?.map((row) => [row.id, row.version])
+		).toEqual([
+			['id_concurrent', 1],
+			[draft.id, 2],
+		]);
+	});
+
+	it('rethrows create errors that are not version conflicts', async () => {
+		const { registry, db } = createRegistry();
+		db.create.mockRejectedValueOnce(new Error('connection lost'));
+
+		await expect(
+			registry.createPolicyPackDraft({ policies: POLICIES })
+		).rejects.toThrow('connection lost');
+	});
+
+	it('publishes a version, archives the previous one and audits it', async () => {
+		const { registry, tables } = createRegistry();
+		const first = await registry.createPolicyPackDraft({ policies: POLICIES });
+		const second = await registry.createPolicyPackDraft({ policies: [] });
+
+		await registry.publishPolicyPackVersion(first.id);
+		const published = await registry.publishPolicyPackVersion(second.id, {
+			actor: 'ops',
+		});
+
+		expect(published).toMatchObject({ id: second.id, status: 'published' });
+		expect(published?.publishedAt).toBeInstanceOf(Date);
+		expect(await registry.findPolicyPackVersionById(first.id)).toMatchObject({
+			status: 'archived',
+		});
+		expect(await registry.findPublishedPolicyPackVersion()).toMatchObject({
+			id: second.id,
+		});
+		expect(tables.auditLog?.at(-1)).toMatchObject({
+			entityType: 'policyPack',
+			entityId: second.id,
+			actionType: PUBLISH_POLICY_PACK_ACTION,
+			metadata: {
+				version: 2,
+				previousVersionIds: [first.id],
+				publishedBy: 'ops',
+			},
+		});
+	});
+
+	it('rolls back by publishing an archived version', async () => {
+		const { registry, tables } = createRegistry();
+		const first = await registry.createPolicyPackDraft({ policies: POLICIES });
+		const second = await registry.createPolicyPackDraft({ policies: [] });
+		await registry.publishPolicyPackVersion(first.id);
+		await registry.publishPolicyPackVersion(second.id);
+
+		await registry.publishPolicyPackVersion(first.id);
+		// Already published: no new audit entry
+		await registry.publishPolicyPackVersion(first.id);
+
+		expect(await registry.findPublishedPolicyPackVersion()).toMatchObject({
+			id: first.id,
+		});
+		expect(tables.auditLog).toHaveLength(3);
+	});
+
+	it('only changes and deletes drafts', async () => {
+		const { registry } = createRegistry();
+		const draft = await registry.createPolicyPackDraft({ policies: POLICIES });
+
+		const updated = await registry.updatePolicyPackDraft(draft.id, {
+			description: 'Updated',
+		});
+		expect(updated).toMatchObject({
+			description: 'Updated',
+			policies: POLICIES,
+		});
+
+		await registry.publishPolicyPackVersion(draft.id);
+
+		await expect(
+			registry.updatePolicyPackDraft(draft.id, { policies: [] })
+		).rejects.toBeInstanceOf(PolicyPackNotDraftError);
+		await expect(
+			registry.deletePolicyPackDraft(draft.id)
+		).rejects.toBeInstanceOf(PolicyPackNotDraftError);
+		expect(await registry.updatePolicyPackDraft('ppv_missing', {})).toBeNull();
+		expect(await registry.deletePolicyPackDraft('ppv_missing')).toBe(false);
+	});
+
+	it('unwraps JSON envelopes when reading policies', async () => {
+		const { registry } = createRegistry();
+		const draft = await registry.createPolicyPackDraft({ policies: POLICIES });
+
+		expect(
+			(await registry.findPolicyPackVersionById(draft.id))?.policies
+		).toEqual(POLICIES);
+	});
+});
@@ -0,0 +1,322 @@
+import type { PolicyConfig } from '@c15t/schema/types';
+import {
+	type DatabaseSpanAttributes,
+	withDatabaseSpan,
+} from '~/utils/instrumentation';
+import { getMetrics } from '~/utils/metrics';
+import type { PolicyPackStatus } from '../schema';
+import type { Registry } from './types';
+import { generateUniqueId } from './utils/generate-id';
+
+/**
+ * Audit log action written when a policy pack version is published
+ */
+export const PUBLISH_POLICY_PACK_ACTION = 'publish_policy_pack';
+
+/**
+ * Attempts at creating a draft when concurrent creates take the same number
+ */
+const MAX_DRAFT_ATTEMPTS = 3;
+
+export interface PolicyPackVersionRecord {
+	id: string;
+	version: number;
+	status: PolicyPackStatus;
+	description: string | null;
+	policies: PolicyConfig[];
+	createdBy: string | null;
+	createdAt: Date;
+	updatedAt: Date;
+	publishedAt: Date | null;
+}
+
+export interface PolicyPackDraftInput {
+	policies: PolicyConfig[];
+	description?: string | null;
+	createdBy?: string | null;
+}
+
+export class PolicyPackNotDraftError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'PolicyPackNotDraftError';
+	}
+}
+
+interface PolicyPackVersionRow {
+	id: string;
+	version: number;
+	status: string;
+	description: string | null;
+	policies: unknown;
+	createdBy: string | null;
+	createdAt: Date;
+	updatedAt: Date;
+	publishedAt: Date | null;
+}
+
+/**
+ * Normalizes a row, unwrapping the `{ json }` envelope some adapters use for
+ * JSON columns.
+ */
+function toRecord(row: PolicyPackVersionRow): PolicyPackVersionRecord {
+	const policies =
+		row.policies &&
+		typeof row.policies === 'object' &&
+		'json' in (row.policies as object)
+			? (row.policies as { json: unknown }).json
+			: row.policies;
+
+	return {
+		id: row.id,
+		version: Number(row.version),
+		status: row.status as PolicyPackStatus,
+		description: row.description ?? null,
+		policies: (policies ?? []) as PolicyConfig[],
+		createdBy: row.createdBy ?? null,
+		createdAt: new Date(row.createdAt),
+		updatedAt: new Date(row.updatedAt),
+		publishedAt: row.publishedAt ? new Date(row.publishedAt) : null,
+	};
+}
+
+export function policyPackVersionRegistry({ db, ctx }: Registry) {
+	const { logger } = ctx;
+
+	const measure = async <T>(
+		operation: DatabaseSpanAttributes['operation'],
+		fn: () => Promise<T>
+	): Promise<T> => {
+		const start = Date.now();
+		try {
+			const result = await withDatabaseSpan(
+				{ operation, entity: 'policyPackVersion' },
+				fn
+			);
+			getMetrics()?.recordDbQuery(
+				{ operation, entity: 'policyPackVersion' },
+				Date.now() - start
+			);
+			return result;
+		} catch (error) {
+			getMetrics()?.recordDbError({
+				operation,
+				entity: 'policyPackVersion',
+			});
+			throw error;
+		}
+	};
+
+	const findById = async (id: string) => {
+		const row = await db.findFirst('policyPackVersion', {
+			where: (b) => b('id', '=', id),
+		});
+		return row ? toRecord(row) : null;
+	};
+
+	const findDraft = async (id: string) => {
+		const existing = await findById(id);
+		if (existing && existing.status !== 'draft') {
+			throw new PolicyPackNotDraftError(
+				`Policy pack version ${existing.version} is ${existing.status} and can no longer be changed`
+			);
+		}
+		return existing;
+	};
+
+	return {
+		/**
+		 * Lists policy pack versions, newest first.
+		 */
+		listPolicyPackVersions: async (status?: PolicyPackStatus) =>
+			measure('list', async () => {
+				const rows = await db.findMany('policyPackVersion', {
+					where: (b) => (status ? b('status', '=', status) : true),
+					orderBy: [['version', 'desc']],
+				});
+				return rows.map(toRecord);
+			}),
+		findPolicyPackVersionById: async (id: string) =>
+			measure('find', () => findById(id)),
+		/**
+		 * Finds the version currently served by `/init`, if any.
+		 */
+		findPublishedPolicyPackVersion: async () =>
+			measure('findPublished', async () => {
+				const row = await db.findFirst('policyPackVersion', {
+					where: (b) => b('status', '=', 'published'),
+					orderBy: [['version', 'desc']],
+				});
+				return row ? toRecord(row) : null;
+			}),
+		/**
+		 * Creates a draft with the next version number.
+		 *
+		 * The unique constraint on `(tenantId, version)` rejects a concurrent
+		 * create that read the same latest version; it is retried with the
+		 * next number.
+		 */
+		createPolicyPackDraft: async (input: PolicyPackDraftInput) =>
+			measure('create', async () => {
+				for (let attempt = 1; ; attempt++) {
+					let version = 0;
+					try {
+						return await db.transaction(async (tx) => {
+							const latest = await tx.findFirst('policyPackVersion', {
+								select: ['version'],
+								orderBy: [['version', 'desc']],
+							});
+							version = (latest ? Number(latest.version) : 0) + 1;
+
+							logger.debug('Creating policy pack draft', { version });
+
+							const row = await tx.create('policyPackVersion', {
+								id: await generateUniqueId(tx, 'policyPackVersion', ctx),
+								version,
+								status: 'draft',
+								description: input.description ?? null,
+								policies: { json: input.policies },
+								createdBy: input.createdBy ?? null,
+							});
+							return toRecord(row);
+						});
+					} catch (error) {
+						const taken =
+							version > 0 &&
+							attempt < MAX_DRAFT_ATTEMPTS &&
+							(await db.findFirst('policyPackVersion', {
+								select: ['id'],
+								where: (b) => b('version', '=', version),
+							}));
+						if (!taken) {
+							throw error;
+						}
+
+						logger.debug('Policy pack version taken, retrying', { version });
+					}
+				}
+			}),
+		/**
+		 * Updates a draft. Published and archived versions are immutable.
+		 *
+		 * @throws {PolicyPackNotDraftError} When the version is not a draft
+		 */
+		updatePolicyPackDraft: async (
+			id: string,
+			input: Partial<Omit<PolicyPackDraftInput, 'createdBy'>>
+		) =>
+			measure('update', async () => {
+				const existing = await findDraft(id);
+				if (!existing) return null;
+
+				const updatedAt = new Date();
+				await db.updateMany('policyPackVersion', {
+					where: (b) => b.and(b('id', '=', id), b('status', '=', 'draft')),
+					set: {
+						...(input.policies !== undefined && {
+							policies: { json: input.policies },
+						}),
+						...(input.description !== undefined && {
+							description: input.description,
+						}),
+						updatedAt,
+					},
+				});
+
+				return {
+					...existing,
+					policies: input.policies ?? existing.policies,
+					description:
+						input.description !== undefined
+							? input.description
+							: existing.description,
+					updatedAt,
+				};
+			}),
+		/**
+		 * Deletes a draft.
+		 *
+		 * @returns `false` when the version does not exist
+		 * @throws {PolicyPackNotDraftError} When the version is not a draft
+		 */
+		deletePolicyPackDraft: async (id: string) =>
+			measure('delete', async () => {
+				const existing = await findDraft(id);
+				if (!existing) return false;
+
+				await db.deleteMany('policyPackVersion', {
+					where: (b) => b.and(b('id', '=', id), b('status', '=', 'draft')),
+				});
+				return true;
+			}),
+		/**
+		 * Publishes a version and archives the one it replaces.
+		 *
+		 * Archived versions can be published again to roll back. Publishing
+		 * the version that is already published is a no-op.
+		 */
+		publishPolicyPackVersion: async (
+			id: string,
+			audit: { actor?: string | null; ipAddress?: string | null } = {}
+		) =>
+			measure('publish', () =>
+				db.transaction(async (tx) => {
+					const row = await tx.findFirst('policyPackVersion', {
+						where: (b) => b('id', '=', id),
+					});
+					if (!row) return null;
+
+					const existing = toRecord(row);
+					if (existing.status === 'published') return existing;
+
+					const previous = await tx.findMany('policyPackVersion', {
+						select: ['id', 'version'],
+						where: (b) => b('status', '=', 'published'),
+					});
+
+					const now = new Date();
+					if (previous.length > 0) {
+						await tx.updateMany('policyPackVersion', {
+							where: (b) => b('status', '=', 'published'),
+							set: { status: 'archived', updatedAt: now },
+						});
+					}
+					await tx.updateMany('policyPackVersion', {
+						where: (b) => b('id', '=', id),
+						set: { status: 'published', publishedAt: now, updatedAt: now },
+					});
+
+					await tx.create('auditLog', {
+						id: await generateUniqueId(tx, 'auditLog', ctx),
+						subjectId: null,
+						entityType: 'policyPack',
+						entityId: id,
+						actionType: PUBLISH_POLICY_PACK_ACTION,
+						ipAddress: audit.ipAddress ?? null,
+						userAgent: null,
+						changes: {
+							status: { from: existing.status, to: 'published' },
+						},
+						metadata: {
+							version: existing.version,
+							previousVersionIds: previous.map((version) => version.id),
+							publishedBy: audit.actor ?? null,
+						},
+					});
+
+					logger.info('Published policy pack version', {
+						id,
+						version: existing.version,
+						archived: previous.length,
+					});
+
+					return {
+						...existing,
+						status: 'published' as const,
+						publishedAt: now,
+						updatedAt: now,
+					};
+				})
+			),
+	};
+}
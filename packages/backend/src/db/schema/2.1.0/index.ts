@@ -0,0 +1,70 @@
+import { schema } from 'fumadb/schema';
+import {
+	auditLogTable,
+	consentPolicyTable,
+	consentPurposeTable,
+	consentTable,
+	domainTable,
+	runtimePolicyDecisionTable,
+	subjectTable,
+} from '../2.0.0';
+import { policyPackVersionTable } from './policy-pack-version';
+
+/*
+ * Analytics, consent expiry and retention page through these tables by
+ * timestamp and then id. fumadb only creates indexes for unique constraints;
+ * `id` already makes each pair unique, so the constraints add an index and
+ * nothing else. The 2.0.0 tables are cloned so earlier versions are unchanged.
+ */
+const consentTableV2_1 = consentTable
+	.clone()
+	.unique('consent_given_at_id_uq', ['givenAt', 'id']);
+const auditLogTableV2_1 = auditLogTable
+	.clone()
+	.unique('audit_log_created_at_id_uq', ['createdAt', 'id']);
+
+export const v2_1 = schema({
+	version: '2.1.0',
+	tables: {
+		subject: subjectTable,
+		domain: domainTable,
+		consentPolicy: consentPolicyTable,
+		runtimePolicyDecision: runtimePolicyDecisionTable,
+		consentPurpose: consentPurposeTable,
+		consent: consentTableV2_1,
+		auditLog: auditLogTableV2_1,
+		policyPackVersion: policyPackVersionTable,
+	},
+	relations: {
+		subject: ({ many }) => ({
+			consents: many('consent'),
+			auditLogs: many('auditLog'),
+		}),
+		domain: ({ many }) => ({
+			consents: many('consent'),
+		}),
+		consentPolicy: ({ many }) => ({
+			consents: many('consent'),
+		}),
+		runtimePolicyDecision: ({ many }) => ({
+			consents: many('consent'),
+		}),
+		consentPurpose: () => ({}),
+		consent: ({ one }) => ({
+			subject: one('subject', ['subjectId', 'id']).foreignKey(),
+			domain: one('domain', ['domainId', 'id']).foreignKey(),
+			policy: one('consentPolicy', ['policyId', 'id']).foreignKey(),
+			runtimePolicyDecision: one('runtimePolicyDecision', [
+				'runtimePolicyDecisionId',
+				'id',
+			]).foreignKey(),
+		}),
+		auditLog: ({ one }) => ({
+			subject: one('subject', ['subjectId', 'id']).foreignKey(),
+		}),
+		policyPackVersion: () => ({}),
+	},
+});
+
+export * from '../2.0.0';
+export * from './policy-pack-version';
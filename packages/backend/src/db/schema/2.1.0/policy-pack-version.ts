@@ -0,0 +1,35 @@
+import {
+	type PolicyPackStatus,
+	type PolicyPackVersion,
+	policyPackStatusSchema,
+	policyPackVersionSchema,
+} from '@c15t/schema';
+import { column, idColumn, table } from 'fumadb/schema';
+
+export const policyPackVersionTable = table('policyPackVersion', {
+	id: idColumn('id', 'varchar(255)'),
+	/**
+	 * Empty outside multi-tenant mode. Not nullable, so the unique constraint
+	 * on `(tenantId, version)` also holds there.
+	 */
+	tenantId: column('tenantId', 'string').defaultTo(''),
+	/** Increasing per tenant, starting at 1 */
+	version: column('version', 'integer'),
+	/** 'draft', 'published' or 'archived' */
+	status: column('status', 'string'),
+	description: column('description', 'string').nullable(),
+	/** `PolicyConfig[]`, validated before it is stored */
+	policies: column('policies', 'json'),
+	/** Name of the API key that created the version */
+	createdBy: column('createdBy', 'string').nullable(),
+	createdAt: column('createdAt', 'timestamp').defaultTo$('now'),
+	updatedAt: column('updatedAt', 'timestamp').defaultTo$('now'),
+	publishedAt: column('publishedAt', 'timestamp').nullable(),
+}).unique('policy_pack_version_tenant_version_uq', ['tenantId', 'version']);
+
+export {
+	type PolicyPackStatus,
+	type PolicyPackVersion,
+	policyPackStatusSchema,
+	policyPackVersionSchema,
+};
@@ -1,3 +1,7 @@
+export {
+	createMmdbGeoProvider,
+	type MmdbGeoProviderOptions,
+} from '~/geo/mmdb-provider';
 export type { InitPayload } from './init-handler';
 export { unstable_c15tEdgeInit } from './init-handler';
 export type {
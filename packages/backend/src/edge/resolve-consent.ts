@@ -10,7 +10,7 @@
 
 import type { Logger } from '@c15t/logger';
 import type { ResolvedPolicy } from '@c15t/schema/types';
-import { checkJurisdiction } from '~/handlers/init/geo';
+import { checkJurisdiction, getGeoHeaders } from '~/handlers/init/geo';
 import { resolvePolicySync } from '~/handlers/init/policy';
 import type { C15TEdgeOptions } from './types';
 
@@ -53,24 +53,13 @@ export interface ResolvedConsent {
 	gpc: boolean;
 }
 
-function getLocationFromHeaders(headers: Headers): {
-	countryCode: string | null;
-	regionCode: string | null;
-} {
-	const countryCode =
-		headers.get('x-c15t-country') ??
-		headers.get('cf-ipcountry') ??
-		headers.get('x-vercel-ip-country') ??
-		headers.get('x-amz-cf-ipcountry') ??
-		headers.get('x-country-code');
-
-	const regionCode =
-		headers.get('x-c15t-region') ??
-		headers.get('x-vercel-ip-country-region') ??
-		headers.get('x-region-code');
-
-	return { countryCode, regionCode };
-}
+/**
+ * Categories a respected GPC signal opts out of.
+ */
+export const GPC_OPT_OUT_CATEGORIES: ReadonlySet<string> = new Set([
+	'marketing',
+	'measurement',
+]);
 
 function resolveNoPolicyFallback(): ResolvedPolicy {
 	return {
@@ -111,8 +100,7 @@ function resolveDefaultConsent(
 		// Opt-out: everything granted by default, unless GPC overrides
 		for (const category of categories) {
 			if (category === '*' || category === 'necessary') continue;
-			const gpcOverride =
-				respectsGpc && (category === 'marketing' || category === 'measurement');
+			const gpcOverride = respectsGpc && GPC_OPT_OUT_CATEGORIES.has(category);
 			defaults[category] = {
 				granted: !gpcOverride,
 				required: false,
@@ -136,7 +124,9 @@ function resolveDefaultConsent(
 /**
  * Resolves consent policy and default category states from a request.
  *
- * Fully synchronous — no async, no fetch calls, no crypto.
+ * Fully synchronous — no async, no fetch calls, no crypto. The location is
+ * read from CDN geo headers only; the `geo` provider option needs
+ * `unstable_c15tEdgeInit`.
  *
  * This is a lightweight alternative to `unstable_c15tEdgeInit` for enterprise
  * customers who manage their own consent cookie. It returns the resolved
@@ -172,7 +162,7 @@ export function unstable_resolveConsent(
 ): ResolvedConsent {
 	const location = options.disableGeoLocation
 		? { countryCode: null, regionCode: null }
-		: getLocationFromHeaders(request.headers);
+		: getGeoHeaders(request.headers);
 	const jurisdiction = options.disableGeoLocation
 		? 'GDPR'
 		: checkJurisdiction(location.countryCode, location.regionCode);
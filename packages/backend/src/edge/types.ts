@@ -18,6 +18,8 @@ export type C15TEdgeOptions = Pick<
 	| 'tenantId'
 	| 'trustedOrigins'
 	| 'disableGeoLocation'
+	| 'geo'
+	| 'ipAddress'
 	| 'customTranslations'
 	| 'i18n'
 	| 'policyPacks'
@@ -0,0 +1,12 @@
+/**
+ * IP geolocation providers
+ *
+ * @packageDocumentation
+ */
+
+export { GEO_CACHE_TTL_MS, lookupGeoLocation } from './lookup';
+export {
+	createMmdbGeoProvider,
+	type MmdbGeoProviderOptions,
+} from './mmdb-provider';
+export { type MmdbMetadata, MmdbReader, type MmdbValue } from './mmdb-reader';
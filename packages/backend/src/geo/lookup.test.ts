@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMemoryCacheAdapter } from '~/cache';
+import type { GeoProvider } from '~/types';
+import { GEO_CACHE_TTL_MS, lookupGeoLocation } from './lookup';
+
+function createProvider(lookup: GeoProvider['lookup']) {
+	return { name: 'test', lookup: vi.fn(lookup) };
+}
+
+describe('lookupGeoLocation', () => {
+	it('normalizes provider results', async () => {
+		const provider = createProvider(() => ({
+			countryCode: 'us',
+			regionCode: 'ca',
+		}));
+
+		expect(await lookupGeoLocation('192.0.2.0', { geo: { provider } })).toEqual(
+			{ countryCode: 'US', regionCode: 'CA' }
+		);
+		expect(provider.lookup).toHaveBeenCalledWith('192.0.2.0');
+	});
+
+	it('caches results, including misses, in the cache adapter', async () => {
+		const cacheAdapter = createMemoryCacheAdapter();
+		const setSpy = vi.spyOn(cacheAdapter, 'set');
+		const provider = createProvider(async (ip) =>
+			ip === '192.0.2.0' ? { countryCode: 'DE', regionCode: null } : null
+		);
+		const options = { geo: { provider }, appName: 'geo-test', cacheAdapter };
+
+		await lookupGeoLocation('192.0.2.0', options);
+		await lookupGeoLocation('198.51.100.0', options);
+		const cached = await lookupGeoLocation('192.0.2.0', options);
+		const cachedMiss = await lookupGeoLocation('198.51.100.0', options);
+
+		expect(cached).toEqual({ countryCode: 'DE', regionCode: null });
+		expect(cachedMiss).toEqual({ countryCode: null, regionCode: null });
+		expect(provider.lookup).toHaveBeenCalledTimes(2);
+		expect(setSpy).toHaveBeenCalledWith(
+			'geo-test:geo:test:192.0.2.0',
+			{ countryCode: 'DE', regionCode: null },
+			GEO_CACHE_TTL_MS
+		);
+	});
+
+	it('treats provider errors as an unknown location', async () => {
+		const logger = { warn: vi.fn() };
+		const provider = createProvider(() => {
+			throw new Error('database unavailable');
+		});
+
+		expect(
+			await lookupGeoLocation('192.0.2.0', {
+				geo: { provider },
+				logger: logger as never,
+			})
+		).toEqual({ countryCode: null, regionCode: null });
+		expect(logger.warn).toHaveBeenCalledWith('Geo provider lookup failed', {
+			provider: 'test',
+			error: 'database unavailable',
+		});
+	});
+});
@@ -0,0 +1,81 @@
+/**
+ * Geo provider lookups with caching.
+ *
+ * @packageDocumentation
+ */
+
+import type { Logger } from '@c15t/logger';
+import { createCacheKey } from '~/cache/keys';
+import type { CacheAdapter } from '~/cache/types';
+import type { GeoLocation, GeoOptions } from '~/types';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+
+/**
+ * Default TTL for cached lookups (1 day).
+ */
+export const GEO_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const EMPTY_LOCATION: GeoLocation = { countryCode: null, regionCode: null };
+
+/**
+ * Resolves the location of an IP address with the configured provider.
+ *
+ * Results, including misses, are cached in `cacheAdapter` when one is given.
+ * Provider errors are logged and treated as an unknown location, so a broken
+ * provider never fails the request.
+ */
+export async function lookupGeoLocation(
+	ip: string,
+	{
+		geo,
+		appName = 'c15t',
+		cacheAdapter,
+		logger,
+	}: {
+		geo: GeoOptions;
+		appName?: string;
+		cacheAdapter?: CacheAdapter;
+		logger?: Logger;
+	}
+): Promise<GeoLocation> {
+	const { provider, cacheTtlMs = GEO_CACHE_TTL_MS } = geo;
+	const cacheKey = createCacheKey(appName, 'geo', provider.name, ip);
+
+	if (cacheAdapter) {
+		try {
+			const cached = await cacheAdapter.get<GeoLocation>(cacheKey);
+			if (cached) return cached;
+		} catch (error) {
+			logger?.warn('Geo cache read failed', {
+				error: extractErrorMessage(error),
+			});
+		}
+	}
+
+	let location: GeoLocation;
+	try {
+		const result = await provider.lookup(ip);
+		location = {
+			countryCode: result?.countryCode?.toUpperCase() ?? null,
+			regionCode: result?.regionCode?.toUpperCase() ?? null,
+		};
+	} catch (error) {
+		logger?.warn('Geo provider lookup failed', {
+			provider: provider.name,
+			error: extractErrorMessage(error),
+		});
+		return EMPTY_LOCATION;
+	}
+
+	if (cacheAdapter) {
+		try {
+			await cacheAdapter.set(cacheKey, location, cacheTtlMs);
+		} catch (error) {
+			logger?.warn('Geo cache write failed', {
+				error: extractErrorMessage(error),
+			});
+		}
+	}
+
+	return location;
+}
@@ -0,0 +1,106 @@
+/**
+ * Offline geo provider backed by a MaxMind DB file.
+ *
+ * @packageDocumentation
+ */
+
+import type { GeoLocation, GeoProvider } from '~/types';
+import { MmdbReader, type MmdbValue } from './mmdb-reader';
+
+type MmdbDatabase = Uint8Array | ArrayBuffer;
+
+export interface MmdbGeoProviderOptions {
+	/**
+	 * Contents of the `.mmdb` file, or a function that loads them. The
+	 * function is called once, on the first lookup.
+	 *
+	 * @example
+	 * ```ts
+	 * database: () => readFile('./GeoLite2-City.mmdb')
+	 * ```
+	 */
+	database: MmdbDatabase | (() => MmdbDatabase | Promise<MmdbDatabase>);
+
+	/**
+	 * Provider name used in cache keys. Set a different name per database
+	 * when several providers share one cache.
+	 * @default 'mmdb'
+	 */
+	name?: string;
+}
+
+function getIsoCode(value: MmdbValue | undefined): string | null {
+	if (!value || typeof value !== 'object' || Array.isArray(value)) {
+		return null;
+	}
+	const isoCode = (value as Record<string, MmdbValue>).iso_code;
+	return typeof isoCode === 'string' ? isoCode : null;
+}
+
+/**
+ * Reads the country and first subdivision from a GeoIP2/GeoLite2 or DB-IP
+ * Country/City record.
+ */
+function toGeoLocation(record: MmdbValue | null): GeoLocation | null {
+	if (!record || typeof record !== 'object' || Array.isArray(record)) {
+		return null;
+	}
+	const { country, registered_country, subdivisions } = record as Record<
+		string,
+		MmdbValue
+	>;
+
+	const countryCode = getIsoCode(country) ?? getIsoCode(registered_country);
+	if (!countryCode) return null;
+
+	return {
+		countryCode,
+		regionCode: Array.isArray(subdivisions)
+			? getIsoCode(subdivisions[0])
+			: null,
+	};
+}
+
+/**
+ * Creates a geo provider that resolves country and region from a local
+ * MaxMind GeoIP2/GeoLite2 or DB-IP `.mmdb` file.
+ *
+ * Country databases only resolve the country. Use a City database to also
+ * resolve regions, which policies need for e.g. California or Quebec.
+ *
+ * @example
+ * ```ts
+ * import { readFile } from 'node:fs/promises';
+ *
+ * c15tInstance({
+ *   geo: {
+ *     provider: createMmdbGeoProvider({
+ *       database: () => readFile('./GeoLite2-City.mmdb'),
+ *     }),
+ *   },
+ * });
+ * ```
+ */
+export function createMmdbGeoProvider(
+	options: MmdbGeoProviderOptions
+): GeoProvider {
+	let reader: Promise<MmdbReader> | undefined;
+
+	const getReader = () => {
+		reader ??= Promise.resolve(
+			typeof options.database === 'function'
+				? options.database()
+				: options.database
+		).then((database) => new MmdbReader(database));
+		// Allow retrying after a failed load
+		reader.catch(() => {
+			reader = undefined;
+		});
+		return reader;
+	};
+
+	return {
+		name: options.name ?? 'mmdb',
+		lookup: async (ip) => toGeoLocation((await getReader()).get(ip)),
+	};
+}
@@ -0,0 +1,382 @@
+/**
+ * Minimal reader for MaxMind DB (`.mmdb`) files.
+ *
+ * Implements the lookup side of the MaxMind DB format 2.0 spec
+ * (https://maxmind.github.io/MaxMind-DB/), which is shared by MaxMind
+ * GeoIP2/GeoLite2 and DB-IP databases. Only reads from an in-memory buffer,
+ * so it runs on any runtime.
+ *
+ * @packageDocumentation
+ */
+
+const METADATA_MARKER = new Uint8Array([
+	0xab, 0xcd, 0xef, 0x4d, 0x61, 0x78, 0x4d, 0x69, 0x6e, 0x64, 0x2e, 0x63, 0x6f,
+	0x6d,
+]);
+const METADATA_MAX_SIZE = 128 * 1024;
+const DATA_SECTION_SEPARATOR_SIZE = 16;
+/**
+ * Sizes 29-31 mean the size is stored in 1-3 following bytes, on top of
+ * these base values
+ */
+const EXTENDED_SIZE_BASES = [29, 285, 65_821];
+
+export interface MmdbMetadata {
+	nodeCount: number;
+	recordSize: 24 | 28 | 32;
+	ipVersion: 4 | 6;
+	databaseType: string;
+	buildEpoch: number;
+}
+
+export type MmdbValue =
+	| string
+	| number
+	| bigint
+	| boolean
+	| Uint8Array
+	| MmdbValue[]
+	| { [key: string]: MmdbValue };
+
+/**
+ * Parses an IPv4 or IPv6 address into its bytes.
+ *
+ * @returns The address bytes, or null when the address is invalid
+ */
+export function parseIpAddress(ip: string): Uint8Array | null {
+	if (!ip.includes(':')) {
+		const parts = ip.split('.');
+		if (parts.length !== 4) return null;
+		const bytes = parts.map((part) =>
+			/^\d{1,3}$/.test(part) ? Number(part) : Number.NaN
+		);
+		if (bytes.some((byte) => !(byte >= 0 && byte <= 255))) return null;
+		return new Uint8Array(bytes);
+	}
+
+	let address = ip.split('%')[0] ?? '';
+	const groups: number[] = [];
+
+	// Embedded IPv4, e.g. ::ffff:192.0.2.1
+	const lastColon = address.lastIndexOf(':');
+	const tail = address.slice(lastColon + 1);
+	if (tail.includes('.')) {
+		const ipv4 = parseIpAddress(tail);
+		if (!ipv4) return null;
+		address = `${address.slice(0, lastColon + 1)}${(
+			((ipv4[0] ?? 0) << 8) | (ipv4[1] ?? 0)
+		).toString(16)}:${(((ipv4[2] ?? 0) << 8) | (ipv4[3] ?? 0)).toString(16)}`;
+	}
+
+	const halves = address.split('::');
+	if (halves.length > 2) return null;
+	const parseGroups = (value: string | undefined) =>
+		value ? value.split(':').map((group) => Number.parseInt(group, 16)) : [];
+	const head = parseGroups(halves[0]);
+	const rest = parseGroups(halves[1]);
+	const missing = 8 - head.length - rest.length;
+	if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+	groups.push(...head, ...Array(halves.length === 2 ? missing : 0).fill(0));
+	groups.push(...rest);
+	if (groups.some((group) => !(group >= 0 && group <= 0xffff))) return null;
+
+	const bytes = new Uint8Array(16);
+	for (const [index, group] of groups.entries()) {
+		bytes[index * 2] = group >> 8;
+		bytes[index * 2 + 1] = group & 0xff;
+	}
+	return bytes;
+}
+
+function findMetadataStart(buffer: Uint8Array): number {
+	const lowerBound = Math.max(0, buffer.length - METADATA_MAX_SIZE);
+	for (
+		let index = buffer.length - METADATA_MARKER.length;
+		index >= lowerBound;
+		index--
+	) {
+		let matches = true;
+		for (let offset = 0; offset < METADATA_MARKER.length; offset++) {
+			if (buffer[index + offset] !== METADATA_MARKER[offset]) {
+				matches = false;
+				break;
+			}
+		}
+		if (matches) return index + METADATA_MARKER.length;
+	}
+	throw new Error('Invalid MaxMind DB file: metadata marker not found');
+}
+
+/**
+ * Decodes values from the data section.
+ *
+ * Pointers are resolved relative to `base`, which is the start of the data
+ * section, or the start of the metadata when decoding metadata.
+ */
+class Decoder {
+	private readonly view: DataView;
+	private readonly textDecoder = new TextDecoder();
+
+	constructor(
+		private readonly buffer: Uint8Array,
+		private readonly base: number
+	) {
+		this.view = new DataView(
+			buffer.buffer,
+			buffer.byteOffset,
+			buffer.byteLength
+		);
+	}
+
+	decode(start: number): { value: MmdbValue; offset: number } {
+		let offset = start;
+		const control = this.readByte(offset++);
+		let type = control >> 5;
+
+		if (type === 1) {
+			const { pointer, offset: next } = this.readPointer(control, offset);
+			return { value: this.decode(pointer).value, offset: next };
+		}
+
+		if (type === 0) {
+			type = 7 + this.readByte(offset++);
+		}
+
+		let size = control & 0x1f;
+		if (size >= 29) {
+			const extraBytes = size - 28;
+			const extra = Number(this.readUint(offset, extraBytes));
+			offset += extraBytes;
+			size = (EXTENDED_SIZE_BASES[extraBytes - 1] ?? 0) + extra;
+		}
+
+		return this.decodeValue(type, size, offset);
+	}
+
+	private decodeValue(
+		type: number,
+		size: number,
+		offset: number
+	): { value: MmdbValue; offset: number } {
+		switch (type) {
+			case 2:
+				return {
+					value: this.textDecoder.decode(
+						this.buffer.subarray(offset, offset + size)
+					),
+					offset: offset + size,
+				};
+			case 3:
+				return { value: this.view.getFloat64(offset), offset: offset + 8 };
+			case 4:
+				return {
+					value: this.buffer.slice(offset, offset + size),
+					offset: offset + size,
+				};
+			case 5:
+			case 6:
+				return {
+					value: Number(this.readUint(offset, size)),
+					offset: offset + size,
+				};
+			case 7: {
+				const map: Record<string, MmdbValue> = {};
+				let next = offset;
+				for (let index = 0; index < size; index++) {
+					const key = this.decode(next);
+					const value = this.decode(key.offset);
+					map[String(key.value)] = value.value;
+					next = value.offset;
+				}
+				return { value: map, offset: next };
+			}
+			case 8: {
+				const value = Number(this.readUint(offset, size));
+				return {
+					value: size === 4 ? value | 0 : value,
+					offset: offset + size,
+				};
+			}
+			case 9:
+			case 10: {
+				const value = this.readUint(offset, size);
+				return {
+					value: size <= 6 ? Number(value) : value,
+					offset: offset + size,
+				};
+			}
+			case 11: {
+				const array: MmdbValue[] = [];
+				let next = offset;
+				for (let index = 0; index < size; index++) {
+					const item = this.decode(next);
+					array.push(item.value);
+					next = item.offset;
+				}
+				return { value: array, offset: next };
+			}
+			case 14:
+				return { value: size !== 0, offset };
+			case 15:
+				return { value: this.view.getFloat32(offset), offset: offset + 4 };
+			default:
+				throw new Error(`Invalid MaxMind DB file: unknown data type ${type}`);
+		}
+	}
+
+	private readPointer(
+		control: number,
+		offset: number
+	): { pointer: number; offset: number } {
+		const size = ((control >> 3) & 0x3) + 1;
+		const high = control & 0x7;
+		const value = Number(this.readUint(offset, size));
+		let pointer: number;
+		switch (size) {
+			case 1:
+				pointer = (high << 8) | value;
+				break;
+			case 2:
+				pointer = ((high << 16) | value) + 2048;
+				break;
+			case 3:
+				pointer = high * 0x1000000 + value + 526_336;
+				break;
+			default:
+				pointer = value;
+		}
+		return { pointer: this.base + pointer, offset: offset + size };
+	}
+
+	private readByte(offset: number): number {
+		const byte = this.buffer[offset];
+		if (byte === undefined) {
+			throw new Error('Invalid MaxMind DB file: unexpected end of data');
+		}
+		return byte;
+	}
+
+	private readUint(offset: number, size: number): bigint {
+		let value = 0n;
+		for (let index = 0; index < size; index++) {
+			value = (value << 8n) | BigInt(this.readByte(offset + index));
+		}
+		return value;
+	}
+}
+
+/**
+ * Reads records from a MaxMind DB file held in memory.
+ *
+ * @example
+ * ```ts
+ * const reader = new MmdbReader(await readFile('GeoLite2-City.mmdb'));
+ * const record = reader.get('81.2.69.160');
+ * ```
+ */
+export class MmdbReader {
+	readonly metadata: MmdbMetadata;
+	private readonly buffer: Uint8Array;
+	private readonly decoder: Decoder;
+	private readonly searchTreeSize: number;
+	private readonly nodeByteSize: number;
+	private ipv4StartNode?: number;
+
+	constructor(database: Uint8Array | ArrayBuffer) {
+		this.buffer =
+			database instanceof Uint8Array ? database : new Uint8Array(database);
+
+		const metadataStart = findMetadataStart(this.buffer);
+		const metadata = new Decoder(this.buffer, metadataStart).decode(
+			metadataStart
+		).value as Record<string, MmdbValue>;
+
+		const recordSize = Number(metadata.record_size);
+		const ipVersion = Number(metadata.ip_version);
+		if (recordSize !== 24 && recordSize !== 28 && recordSize !== 32) {
+			throw new Error(
+				`Invalid MaxMind DB file: unsupported record size ${recordSize}`
+			);
+		}
+		if (ipVersion !== 4 && ipVersion !== 6) {
+			throw new Error(
+				`Invalid MaxMind DB file: unsupported IP version ${ipVersion}`
+			);
+		}
+
+		this.metadata = {
+			nodeCount: Number(metadata.node_count),
+			recordSize,
+			ipVersion,
+			databaseType: String(metadata.database_type ?? ''),
+			buildEpoch: Number(metadata.build_epoch ?? 0),
+		};
+		this.nodeByteSize = recordSize / 4;
+		this.searchTreeSize = this.metadata.nodeCount * this.nodeByteSize;
+		this.decoder = new Decoder(
+			this.buffer,
+			this.searchTreeSize + DATA_SECTION_SEPARATOR_SIZE
+		);
+	}
+
+	/**
+	 * Returns the record for an IP address, or null when the address is
+	 * invalid or not in the database.
+	 */
+	get(ip: string): MmdbValue | null {
+		const address = parseIpAddress(ip);
+		if (!address) return null;
+
+		const { nodeCount, ipVersion } = this.metadata;
+		if (address.length === 16 && ipVersion === 4) return null;
+
+		let node = address.length === 4 ? this.getIpv4StartNode() : 0;
+		const bitCount = address.length * 8;
+
+		for (let bit = 0; bit < bitCount && node < nodeCount; bit++) {
+			const byte = address[bit >> 3] ?? 0;
+			node = this.readRecord(node, (byte >> (7 - (bit % 8))) & 1);
+		}
+
+		if (node <= nodeCount) return null;
+
+		return this.decoder.decode(this.searchTreeSize + node - nodeCount).value;
+	}
+
+	/**
+	 * IPv4 addresses live under `::/96` in IPv6 databases.
+	 */
+	private getIpv4StartNode(): number {
+		if (this.ipv4StartNode !== undefined) return this.ipv4StartNode;
+
+		let node = 0;
+		if (this.metadata.ipVersion === 6) {
+			for (let bit = 0; bit < 96 && node < this.metadata.nodeCount; bit++) {
+				node = this.readRecord(node, 0);
+			}
+		}
+		this.ipv4StartNode = node;
+		return node;
+	}
+
+	private readRecord(node: number, side: number): number {
+		const offset = node * this.nodeByteSize;
+		const b = (index: number) => this.buffer[offset + index] ?? 0;
+
+		switch (this.metadata.recordSize) {
+			case 24:
+				return side === 0
+					? (b(0) << 16) | (b(1) << 8) | b(2)
+					: (b(3) << 16) | (b(4) << 8) | b(5);
+			case 28:
+				return side === 0
+					? ((b(3) & 0xf0) << 20) | (b(0) << 16) | (b(1) << 8) | b(2)
+					: ((b(3) & 0x0f) << 24) | (b(4) << 16) | (b(5) << 8) | b(6);
+			default:
+				return side === 0
+					? b(0) * 0x1000000 + ((b(1) << 16) | (b(2) << 8) | b(3))
+					: b(4) * 0x1000000 + ((b(5) << 16) | (b(6) << 8) | b(7));
+		}
+	}
+}
@@ -0,0 +1,328 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMmdbGeoProvider } from './mmdb-provider';
+import { MmdbReader, parseIpAddress } from './mmdb-reader';
+
+type Encodable =
+	| string
+	| number
+	| boolean
+	| Encodable[]
+	| { [key: string]: Encodable }
+	| { pointer: number };
+
+function encodeControl(type: number, size: number): number[] {
+	const typeBytes = type > 7 ? [type - 7] : [];
+	const controlType = type > 7 ? 0 : type;
+	let sizeBits = size;
+	let sizeBytes: number[] = [];
+	if (size >= 65_821) {
+		sizeBits = 31;
+		const rest = size - 65_821;
+		sizeBytes = [(rest >> 16) & 0xff, (rest >> 8) & 0xff, rest & 0xff];
+	} else if (size >= 285) {
+		sizeBits = 30;
+		const rest = size - 285;
+		sizeBytes = [(rest >> 8) & 0xff, rest & 0xff];
+	} else if (size >= 29) {
+		sizeBits = 29;
+		sizeBytes = [size - 29];
+	}
+	return [(controlType << 5) | sizeBits, ...typeBytes, ...sizeBytes];
+}
+
+/**
+ * Encodes a value in the MaxMind DB data section format.
+ */
+function encode(value: Encodable): number[] {
+	if (typeof value === 'string') {
+		const bytes = [...new TextEncoder().encode(value)];
+		return [...encodeControl(2, bytes.length), ...bytes];
+	}
+	if (typeof value === 'boolean') {
+		return encodeControl(14, value ? 1 : 0);
+	}
+	if (typeof value === 'number') {
+		const bytes: number[] = [];
+		for (let rest = value; rest > 0; rest = Math.floor(rest / 256)) {
+			bytes.unshift(rest % 256);
+		}
+		return [...encodeControl(6, bytes.length), ...bytes];
+	}
+	if (Array.isArray(value)) {
+		return [...encodeControl(11, value.length), ...value.flatMap(encode)];
+	}
+	if ('pointer' in value && typeof value.pointer === 'number') {
+		return [(1 << 5) | ((value.pointer >> 8) & 0x7), value.pointer & 0xff];
+	}
+	const entries = Object.entries(value);
+	return [
+		...encodeControl(7, entries.length),
+		...entries.flatMap(([key, item]) => [...encode(key), ...encode(item)]),
+	];
+}
+
+interface TrieNode {
+	children: [TrieNode | number | null, TrieNode | number | null];
+}
+
+/**
+ * Builds an in-memory `.mmdb` file from CIDR networks. Each network maps to
+ * an offset in the encoded data section.
+ */
+function buildMmdb({
+	ipVersion,
+	recordSize,
+	networks,
+	data,
+}: {
+	ipVersion: 4 | 6;
+	recordSize: 24 | 28 | 32;
+	networks: Array<[cidr: string, dataOffset: number]>;
+	data: number[];
+}): Uint8Array {
+	const root: TrieNode = { children: [null, null] };
+
+	for (const [cidr, dataOffset] of networks) {
+		const [ip = '', length = '0'] = cidr.split('/');
+		let address = parseIpAddress(ip) as Uint8Array;
+		let prefixLength = Number(length);
+		if (ipVersion === 6 && address.length === 4) {
+			address = new Uint8Array([...new Uint8Array(12), ...address]);
+			prefixLength += 96;
+		}
+
+		let node = root;
+		for (let bit = 0; bit < prefixLength; bit++) {
+			const side = ((address[bit >> 3] ?? 0) >> (7 - (bit % 8))) & 1;
+			if (bit === prefixLength - 1) {
+				node.children[side] = dataOffset;
+				break;
+			}
+			let child = node.children[side];
+			if (!child || typeof child === 'number') {
+				child = { children: [null, null] };
+				node.children[side] = child;
+			}
+			node = child;
+		}
+	}
+
+	const nodes: TrieNode[] = [];
+	const queue = [root];
+	while (queue.length > 0) {
+		const node = queue.shift() as TrieNode;
+		nodes.push(node);
+		for (const child of node.children) {
+			if (child && typeof child === 'object') queue.push(child);
+		}
+	}
+
+	const nodeCount = nodes.length;
+	const toRecord = (child: TrieNode | number | null) => {
+		if (child === null) return nodeCount;
+		if (typeof child === 'number') return nodeCount + 16 + child;
+		return nodes.indexOf(child);
+	};
+
+	const tree: number[] = [];
+	for (const node of nodes) {
+		const [left, right] = node.children.map(toRecord) as [number, number];
+		if (recordSize === 24) {
+			tree.push(left >> 16, (left >> 8) & 0xff, left & 0xff);
+			tree.push(right >> 16, (right >> 8) & 0xff, right & 0xff);
+		} else if (recordSize === 28) {
+			tree.push((left >> 16) & 0xff, (left >> 8) & 0xff, left & 0xff);
+			tree.push((((left >> 24) & 0xf) << 4) | ((right >> 24) & 0xf));
+			tree.push((right >> 16) & 0xff, (right >> 8) & 0xff, right & 0xff);
+		} else {
+			for (const record of [left, right]) {
+				tree.push(
+					(record >>> 24) & 0xff,
+					(record >> 16) & 0xff,
+					(record >> 8) & 0xff,
+					record & 0xff
+				);
+			}
+		}
+	}
+
+	const metadata = encode({
+		node_count: nodeCount,
+		record_size: recordSize,
+		ip_version: ipVersion,
+		database_type: 'Test-City',
+		languages: ['en'],
+		binary_format_major_version: 2,
+		binary_format_minor_version: 0,
+		build_epoch: 1_700_000_000,
+		description: { en: 'Test database' },
+	});
+
+	return new Uint8Array([
+		...tree,
+		...new Array(16).fill(0),
+		...data,
+		...[0xab, 0xcd, 0xef],
+		...new TextEncoder().encode('MaxMind.com'),
+		...metadata,
+	]);
+}
+
+const GERMANY = { iso_code: 'DE', names: { en: 'Germany' } };
+
+/**
+ * Data section with a shared country map, referenced by pointer from the
+ * second record.
+ */
+function buildData() {
+	const germany = encode(GERMANY);
+	const berlin = encode({
+		country: { pointer: 0 },
+		subdivisions: [{ iso_code: 'BE' }],
+		location: { accuracy_radius: 100 },
+		is_anycast: false,
+	});
+	const california = encode({
+		country: { iso_code: 'US' },
+		subdivisions: [{ iso_code: 'CA' }, { iso_code: 'X1' }],
+	});
+	return {
+		data: [...germany, ...berlin, ...california],
+		berlin: germany.length,
+		california: germany.length + berlin.length,
+	};
+}
+
+describe('parseIpAddress', () => {
+	it('parses IPv4 and IPv6 addresses', () => {
+		expect([...(parseIpAddress('192.0.2.1') ?? [])]).toEqual([192, 0, 2, 1]);
+		expect([...(parseIpAddress('2001:db8::1') ?? [])]).toEqual([
+			0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1,
+		]);
+		expect([...(parseIpAddress('::ffff:192.0.2.1') ?? [])].slice(10)).toEqual([
+			0xff, 0xff, 192, 0, 2, 1,
+		]);
+	});
+
+	it('rejects invalid addresses', () => {
+		for (const ip of ['', '256.0.0.1', '1.2.3', 'a.b.c.d', '1::2::3', 'xyz']) {
+			expect(parseIpAddress(ip)).toBeNull();
+		}
+	});
+});
+
+describe('MmdbReader', () => {
+	for (const recordSize of [24, 28, 32] as const) {
+		it(`looks up IPv4 and IPv6 networks with ${recordSize}-bit records`, () => {
+			const { data, berlin, california } = buildData();
+			const reader = new MmdbReader(
+				buildMmdb({
+					ipVersion: 6,
+					recordSize,
+					networks: [
+						['81.2.69.0/24', berlin],
+						['2001:db8::/32', california],
+					],
+					data,
+				})
+			);
+
+			expect(reader.metadata).toMatchObject({
+				recordSize,
+				ipVersion: 6,
+				databaseType: 'Test-City',
+			});
+			expect(reader.get('81.2.69.160')).toEqual({
+				country: GERMANY,
+				subdivisions: [{ iso_code: 'BE' }],
+				location: { accuracy_radius: 100 },
+				is_anycast: false,
+			});
+			expect(reader.get('2001:db8:85a3::')).toMatchObject({
+				country: { iso_code: 'US' },
+			});
+			expect(reader.get('81.2.70.1')).toBeNull();
+			expect(reader.get('2001:db9::1')).toBeNull();
+			expect(reader.get('not-an-ip')).toBeNull();
+		});
+	}
+
+	it('reads IPv4-only databases', () => {
+		const { data, berlin } = buildData();
+		const reader = new MmdbReader(
+			buildMmdb({
+				ipVersion: 4,
+				recordSize: 24,
+				networks: [['81.2.0.0/16', berlin]],
+				data,
+			}).buffer as ArrayBuffer
+		);
+
+		expect(reader.get('81.2.200.1')).toMatchObject({ country: GERMANY });
+		expect(reader.get('2001:db8::1')).toBeNull();
+	});
+
+	it('rejects files without metadata', () => {
+		expect(() => new MmdbReader(new Uint8Array(64))).toThrow(
+			'metadata marker not found'
+		);
+	});
+});
+
+describe('createMmdbGeoProvider', () => {
+	const { data, berlin, california } = buildData();
+	const database = buildMmdb({
+		ipVersion: 6,
+		recordSize: 24,
+		networks: [
+			['81.2.69.0/24', berlin],
+			['192.0.2.0/24', california],
+		],
+		data,
+	});
+
+	it('resolves the country and first subdivision', async () => {
+		const provider = createMmdbGeoProvider({ database });
+
+		expect(provider.name).toBe('mmdb');
+		expect(await provider.lookup('81.2.69.0')).toEqual({
+			countryCode: 'DE',
+			regionCode: 'BE',
+		});
+		expect(await provider.lookup('192.0.2.10')).toEqual({
+			countryCode: 'US',
+			regionCode: 'CA',
+		});
+		expect(await provider.lookup('198.51.100.1')).toBeNull();
+	});
+
+	it('loads the database once, on the first lookup', async () => {
+		const load = vi.fn(async () => database);
+		const provider = createMmdbGeoProvider({
+			database: load,
+			name: 'geolite2-city',
+		});
+
+		expect(load).not.toHaveBeenCalled();
+		await Promise.all([
+			provider.lookup('81.2.69.1'),
+			provider.lookup('192.0.2.1'),
+		]);
+
+		expect(load).toHaveBeenCalledTimes(1);
+		expect(provider.name).toBe('geolite2-city');
+	});
+
+	it('retries loading after a failure', async () => {
+		const load = vi
+			.fn<() => Promise<Uint8Array>>()
+			.mockRejectedValueOnce(new Error('ENOENT'))
+			.mockResolvedValue(database);
+		const provider = createMmdbGeoProvider({ database: load });
+
+		await expect(provider.lookup('81.2.69.1')).rejects.toThrow('ENOENT');
+		expect(await provider.lookup('81.2.69.1')).toMatchObject({
+			countryCode: 'DE',
+		});
+	});
+});
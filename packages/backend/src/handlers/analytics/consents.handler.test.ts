@@ -0,0 +1,235 @@
+import { Hono } from 'hono';
+import { describe, expect, it, vi } from 'vitest';
+import { CONSENT_ANALYTICS_BATCH_SIZE } from '~/handlers/utils/consent-analytics';
+import { createAnalyticsRoutes } from '~/routes/analytics';
+import {
+	createInMemoryDb,
+	type InMemoryRow,
+	type InMemoryTables,
+} from '~/testing/in-memory-db';
+import type { C15TContext } from '~/types';
+
+const consent = (
+	id: string,
+	givenAt: string,
+	values: Partial<InMemoryRow> = {}
+): InMemoryRow => ({
+	id,
+	givenAt: new Date(givenAt),
+	jurisdiction: 'GDPR',
+	consentAction: 'accept_all',
+	uiSource: 'banner',
+	runtimePolicyDecisionId: 'rpd_eu',
+	...values,
+});
+
+const TABLES = {
+	consent: [
+		consent('cns_1', '2026-01-01T09:00:00.000Z'),
+		consent('cns_2', '2026-01-01T10:00:00.000Z', {
+			consentAction: 'reject_all',
+		}),
+		consent('cns_3', '2026-01-01T11:00:00.000Z'),
+		consent('cns_4', '2026-01-02T09:00:00.000Z', {
+			jurisdiction: 'CCPA',
+			consentAction: 'opt_out',
+			uiSource: 'widget',
+			runtimePolicyDecisionId: 'rpd_us',
+		}),
+		consent('cns_5', '2026-01-03T09:00:00.000Z', {
+			jurisdiction: null,
+			consentAction: null,
+			uiSource: null,
+			runtimePolicyDecisionId: null,
+		}),
+		// Outside the requested range
+		consent('cns_6', '2026-01-05T09:00:00.000Z'),
+	],
+	runtimePolicyDecision: [
+		{ id: 'rpd_eu', policyId: 'eu_policy' },
+		{ id: 'rpd_us', policyId: 'us_policy' },
+	],
+};
+
+function createApp(
+	tables: InMemoryTables = TABLES,
+	options?: { apiKeyAuthenticated?: boolean }
+) {
+	const db = createInMemoryDb(tables);
+	const c15tContext = {
+		logger: {
+			info: vi.fn(),
+			debug: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+		},
+		db,
+		apiKeyAuthenticated: options?.apiKeyAuthenticated ?? true,
+	} as unknown as C15TContext;
+
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+	app.use('*', async (c, next) => {
+		c.set('c15tContext', c15tContext);
+		await next();
+	});
+	app.route('/analytics', createAnalyticsRoutes());
+
+	return { app, db };
+}
+
+const RANGE = 'from=2026-01-01&to=2026-01-04';
+
+describe('GET /analytics/consents', () => {
+	it('rejects requests without API key authentication', async () => {
+		const { app, db } = createApp(TABLES, { apiKeyAuthenticated: false });
+
+		const response = await app.request('http://localhost/analytics/consents');
+
+		expect(response.status).toBe(401);
+		expect(db.findMany).not.toHaveBeenCalled();
+	});
+
+	it('counts consents per day grouped by every dimension', async () => {
+		const { app } = createApp();
+
+		const response = await app.request(
+			`http://localhost/analytics/consents?${RANGE}`
+		);
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(body).toMatchObject({
+			bucket: 'day',
+			groupBy: ['jurisdiction', 'policyId', 'consentAction', 'uiSource'],
+			total: 5,
+		});
+		expect(body.buckets).toHaveLength(3);
+		expect(body.buckets[0]).toEqual({
+			start: '2026-01-01T00:00:00.000Z',
+			total: 3,
+			groups: [
+				{
+					jurisdiction: 'GDPR',
+					policyId: 'eu_policy',
+					consentAction: 'accept_all',
+					uiSource: 'banner',
+					count: 2,
+				},
+				{
+					jurisdiction: 'GDPR',
+					policyId: 'eu_policy',
+					consentAction: 'reject_all',
+					uiSource: 'banner',
+					count: 1,
+				},
+			],
+		});
+		expect(body.buckets[1].groups).toEqual([
+			{
+				jurisdiction: 'CCPA',
+				policyId: 'us_policy',
+				consentAction: 'opt_out',
+				uiSource: 'widget',
+				count: 1,
+			},
+		]);
+		expect(body.buckets[2].groups).toEqual([
+			{
+				jurisdiction: null,
+				policyId: null,
+				consentAction: null,
+				uiSource: null,
+				count: 1,
+			},
+		]);
+	});
+
+	it('only includes the requested groupBy columns', async () => {
+		const { app, db } = createApp();
+
+		const body = await app
+			.request(
+				`http://localhost/analytics/consents?${RANGE}&bucket=week&groupBy=consentAction`
+			)
+			.then((res) => res.json());
+
+		// 2026-01-01 is a Thursday, so the week bucket starts on Monday
+		expect(body.buckets).toEqual([
+			{
+				start: '2025-12-29T00:00:00.000Z',
+				total: 5,
+				groups: [
+					{ consentAction: 'accept_all', count: 2 },
+					{ consentAction: 'reject_all', count: 1 },
+					{ consentAction: 'opt_out', count: 1 },
+					{ consentAction: null, count: 1 },
+				],
+			},
+		]);
+		// Policy IDs are only looked up when grouping by them
+		expect(db.findMany).not.toHaveBeenCalledWith(
+			'runtimePolicyDecision',
+			expect.anything()
+		);
+	});
+
+	it('includes empty buckets', async () => {
+		const { app } = createApp();
+
+		const body = await app
+			.request(
+				'http://localhost/analytics/consents?from=2025-11-15&to=2026-01-02&bucket=month'
+			)
+			.then((res) => res.json());
+
+		expect(
+			body.buckets.map((bucket: InMemoryRow) => [bucket.start, bucket.total])
+		).toEqual([
+			['2025-11-01T00:00:00.000Z', 0],
+			['2025-12-01T00:00:00.000Z', 0],
+			['2026-01-01T00:00:00.000Z', 3],
+		]);
+	});
+
+	it('reads large ranges in batches', async () => {
+		const rows = Array.from(
+			{ length: CONSENT_ANALYTICS_BATCH_SIZE + 5 },
+			(_, i) =>
+				consent(`cns_${String(i).padStart(5, '0')}`, '2026-01-01T12:00:00.000Z')
+		);
+		const { app, db } = createApp({ consent: rows, runtimePolicyDecision: [] });
+
+		const body = await app
+			.request(
+				`http://localhost/analytics/consents?${RANGE}&groupBy=jurisdiction`
+			)
+			.then((res) => res.json());
+
+		expect(body.total).toBe(CONSENT_ANALYTICS_BATCH_SIZE + 5);
+		expect(body.buckets[0].groups).toEqual([
+			{ jurisdiction: 'GDPR', count: CONSENT_ANALYTICS_BATCH_SIZE + 5 },
+		]);
+		expect(db.findMany).toHaveBeenCalledTimes(2);
+	});
+
+	it('rejects invalid ranges and unknown dimensions', async () => {
+		const { app } = createApp();
+
+		const reversed = await app.request(
+			'http://localhost/analytics/consents?from=2026-01-04&to=2026-01-01'
+		);
+		expect(reversed.status).toBe(422);
+		expect(await reversed.text()).toContain('from must be before to');
+
+		const tooLarge = await app.request(
+			'http://localhost/analytics/consents?from=2020-01-01&to=2026-01-01&bucket=hour'
+		);
+		expect(tooLarge.status).toBe(422);
+		expect(await tooLarge.text()).toContain('more than 1000');
+
+		const unknownDimension = await app.request(
+			'http://localhost/analytics/consents?groupBy=domain'
+		);
+		expect(unknownDimension.status).toBe(400);
+	});
+});
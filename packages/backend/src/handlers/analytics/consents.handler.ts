@@ -0,0 +1,103 @@
+/**
+ * GET /analytics/consents handler - Aggregated consent counts (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import {
+	CONSENT_ANALYTICS_DIMENSIONS,
+	CONSENT_ANALYTICS_MAX_BUCKETS,
+	type ConsentAnalyticsBucketSize,
+	type ConsentAnalyticsDimension,
+} from '@c15t/schema';
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { requireApiKeyScope } from '~/middleware/auth';
+import type { C15TContext } from '~/types';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+import {
+	aggregateConsents,
+	listBucketStarts,
+} from '../utils/consent-analytics';
+
+const DEFAULT_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Handles consent analytics for opt-in rate reporting.
+ *
+ * This endpoint requires API key authentication. Consents given in the
+ * requested range are counted per time bucket and grouped by jurisdiction,
+ * policy ID, consent action and UI source.
+ */
+export const consentAnalyticsHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	const logger = ctx.logger;
+	logger.info('Handling GET /analytics/consents request');
+
+	// Check API key authentication
+	requireApiKeyScope(ctx, 'analytics:read');
+
+	const rawTo = c.req.query('to');
+	const rawFrom = c.req.query('from');
+	const to = rawTo ? new Date(rawTo) : new Date();
+	const from = rawFrom
+		? new Date(rawFrom)
+		: new Date(to.getTime() - DEFAULT_RANGE_MS);
+	const bucket = (c.req.query('bucket') ?? 'day') as ConsentAnalyticsBucketSize;
+	const rawGroupBy = c.req.query('groupBy');
+	const groupBy = rawGroupBy
+		? ([
+				...new Set(rawGroupBy.split(',').map((value) => value.trim())),
+			] as ConsentAnalyticsDimension[])
+		: [...CONSENT_ANALYTICS_DIMENSIONS];
+
+	if (from >= to) {
+		throw new HTTPException(422, {
+			message: 'from must be before to',
+			cause: { code: 'INVALID_RANGE' },
+		});
+	}
+
+	if (
+		listBucketStarts(from, to, bucket, CONSENT_ANALYTICS_MAX_BUCKETS).length >
+		CONSENT_ANALYTICS_MAX_BUCKETS
+	) {
+		throw new HTTPException(422, {
+			message: `Range spans more than ${CONSENT_ANALYTICS_MAX_BUCKETS} ${bucket} buckets. Use a larger bucket or a shorter range.`,
+			cause: {
+				code: 'RANGE_TOO_LARGE',
+				maxBuckets: CONSENT_ANALYTICS_MAX_BUCKETS,
+			},
+		});
+	}
+
+	logger.debug('Request parameters', { from, to, bucket, groupBy });
+
+	try {
+		const result = await aggregateConsents(
+			{ from, to, bucket, groupBy },
+			{ db: ctx.db }
+		);
+
+		logger.info('Aggregated consents', {
+			total: result.total,
+			buckets: result.buckets.length,
+		});
+
+		return c.json(result);
+	} catch (error) {
+		logger.error('Error in GET /analytics/consents handler', {
+			error: extractErrorMessage(error),
+			errorType: error instanceof Error ? error.constructor.name : typeof error,
+		});
+
+		if (error instanceof HTTPException) {
+			throw error;
+		}
+
+		throw new HTTPException(500, {
+			message: 'Internal server error',
+			cause: { code: 'INTERNAL_SERVER_ERROR' },
+		});
+	}
+};
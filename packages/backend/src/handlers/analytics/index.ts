@@ -0,0 +1,7 @@
+/**
+ * Analytics handlers exports.
+ *
+ * @packageDocumentation
+ */
+
+export { consentAnalyticsHandler } from './consents.handler';
@@ -0,0 +1,7 @@
+/**
+ * Audit log handlers exports.
+ *
+ * @packageDocumentation
+ */
+
+export { listAuditLogsHandler } from './list.handler';
@@ -0,0 +1,189 @@
+import { Hono } from 'hono';
+import { describe, expect, it, vi } from 'vitest';
+import { createAuditLogRoutes } from '~/routes/audit-log';
+import { createInMemoryDb, type InMemoryRow } from '~/testing/in-memory-db';
+import type { C15TContext } from '~/types';
+
+const at = (iso: string) => new Date(iso);
+
+const ROWS: InMemoryRow[] = [
+	{
+		id: 'log_a',
+		entityType: 'subject',
+		entityId: 'sub_1',
+		actionType: 'identify_user',
+		subjectId: 'sub_1',
+		ipAddress: null,
+		userAgent: null,
+		changes: { json: { externalId: { from: null, to: 'user_1' } } },
+		metadata: null,
+		createdAt: at('2026-01-01T00:00:00.000Z'),
+	},
+	{
+		id: 'log_b',
+		entityType: 'consent',
+		entityId: 'cns_1',
+		actionType: 'consent_given',
+		subjectId: 'sub_1',
+		ipAddress: '127.0.0.0',
+		userAgent: 'TestAgent/1.0',
+		changes: null,
+		metadata: { source: 'banner' },
+		createdAt: at('2026-01-02T00:00:00.000Z'),
+	},
+	// Shares a timestamp with log_b to exercise the id tie-breaker
+	{
+		id: 'log_c',
+		entityType: 'consent',
+		entityId: 'cns_2',
+		actionType: 'consent_given',
+		subjectId: 'sub_2',
+		ipAddress: null,
+		userAgent: null,
+		changes: null,
+		metadata: null,
+		createdAt: at('2026-01-02T00:00:00.000Z'),
+	},
+	{
+		id: 'log_d',
+		entityType: 'subject',
+		entityId: 'log_d',
+		actionType: 'erase_subject',
+		subjectId: null,
+		ipAddress: null,
+		userAgent: null,
+		changes: null,
+		metadata: null,
+		createdAt: at('2026-01-03T00:00:00.000Z'),
+	},
+];
+
+function createApp(options?: {
+	apiKeyAuthenticated?: boolean;
+	apiKey?: C15TContext['apiKey'];
+}) {
+	const db = createInMemoryDb({ auditLog: ROWS });
+	const c15tContext = {
+		logger: {
+			info: vi.fn(),
+			debug: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+		},
+		db,
+		apiKeyAuthenticated: options?.apiKeyAuthenticated ?? true,
+		apiKey: options?.apiKey,
+	} as unknown as C15TContext;
+
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+	app.use('*', async (c, next) => {
+		c.set('c15tContext', c15tContext);
+		await next();
+	});
+	app.route('/audit-logs', createAuditLogRoutes());
+
+	return { app, db };
+}
+
+describe('GET /audit-logs', () => {
+	it('rejects requests without API key authentication', async () => {
+		const { app, db } = createApp({ apiKeyAuthenticated: false });
+
+		const response = await app.request('http://localhost/audit-logs');
+
+		expect(response.status).toBe(401);
+		expect(db.findMany).not.toHaveBeenCalled();
+	});
+
+	it('rejects API keys without the audit-logs:read scope', async () => {
+		const { app, db } = createApp({
+			apiKey: { name: 'crm', scopes: ['subjects:read'] },
+		});
+
+		const response = await app.request('http://localhost/audit-logs');
+
+		expect(response.status).toBe(403);
+		expect(await response.text()).toContain('audit-logs:read');
+		expect(db.findMany).not.toHaveBeenCalled();
+	});
+
+	it('returns entries newest first with unwrapped JSON columns', async () => {
+		const { app } = createApp();
+
+		const response = await app.request('http://localhost/audit-logs');
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(body.auditLogs.map((log: InMemoryRow) => log.id)).toEqual([
+			'log_d',
+			'log_c',
+			'log_b',
+			'log_a',
+		]);
+		expect(body.auditLogs[3].changes).toEqual({
+			externalId: { from: null, to: 'user_1' },
+		});
+		expect(body.auditLogs[0]).not.toHaveProperty('subjectId');
+		expect(body.nextCursor).toBeNull();
+	});
+
+	it('filters by subject, entity type, action type and date range', async () => {
+		const { app } = createApp();
+
+		const bySubject = await app
+			.request('http://localhost/audit-logs?subjectId=sub_1')
+			.then((res) => res.json());
+		expect(bySubject.auditLogs.map((log: InMemoryRow) => log.id)).toEqual([
+			'log_b',
+			'log_a',
+		]);
+
+		const byType = await app
+			.request(
+				'http://localhost/audit-logs?entityType=consent&actionType=consent_given'
+			)
+			.then((res) => res.json());
+		expect(byType.auditLogs.map((log: InMemoryRow) => log.id)).toEqual([
+			'log_c',
+			'log_b',
+		]);
+
+		const byRange = await app
+			.request(
+				'http://localhost/audit-logs?from=2026-01-02&to=2026-01-03T00:00:00.000Z'
+			)
+			.then((res) => res.json());
+		expect(byRange.auditLogs.map((log: InMemoryRow) => log.id)).toEqual([
+			'log_c',
+			'log_b',
+		]);
+	});
+
+	it('walks every entry exactly once with cursor pagination', async () => {
+		const { app } = createApp();
+		const seen: string[] = [];
+		let cursor: string | null = null;
+
+		do {
+			const query: string = cursor ? `&cursor=${cursor}` : '';
+			const body = await app
+				.request(`http://localhost/audit-logs?limit=2${query}`)
+				.then((res) => res.json());
+			seen.push(...body.auditLogs.map((log: InMemoryRow) => log.id));
+			cursor = body.nextCursor;
+		} while (cursor);
+
+		expect(seen).toEqual(['log_d', 'log_c', 'log_b', 'log_a']);
+	});
+
+	it('rejects malformed cursors', async () => {
+		const { app } = createApp();
+
+		const response = await app.request(
+			'http://localhost/audit-logs?cursor=not-a-cursor'
+		);
+
+		expect(response.status).toBe(422);
+		expect(await response.text()).toContain('not a valid audit log cursor');
+	});
+});
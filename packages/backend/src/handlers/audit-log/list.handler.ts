@@ -0,0 +1,98 @@
+/**
+ * GET /audit-logs handler - Query the audit trail (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import { AUDIT_LOG_DEFAULT_LIMIT, AUDIT_LOG_MAX_LIMIT } from '@c15t/schema';
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { requireApiKeyScope } from '~/middleware/auth';
+import type { C15TContext } from '~/types';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+import {
+	type AuditLogCursor,
+	decodeAuditLogCursor,
+	queryAuditLogs,
+} from '../utils/audit-log-query';
+
+/**
+ * Handles listing audit log entries for compliance review.
+ *
+ * This endpoint requires API key authentication. Entries can be filtered by
+ * subject, entity type, action type and creation date range, and are returned
+ * newest first with cursor pagination.
+ */
+export const listAuditLogsHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	const logger = ctx.logger;
+	logger.info('Handling GET /audit-logs request');
+
+	// Check API key authentication
+	requireApiKeyScope(ctx, 'audit-logs:read');
+
+	const subjectId = c.req.query('subjectId') || undefined;
+	const entityType = c.req.query('entityType') || undefined;
+	const actionType = c.req.query('actionType') || undefined;
+	const from = c.req.query('from');
+	const to = c.req.query('to');
+	const rawCursor = c.req.query('cursor');
+	const rawLimit = Number(c.req.query('limit') ?? AUDIT_LOG_DEFAULT_LIMIT);
+	const limit = Math.min(Math.max(rawLimit, 1), AUDIT_LOG_MAX_LIMIT);
+
+	let cursor: AuditLogCursor | undefined;
+	if (rawCursor) {
+		cursor = decodeAuditLogCursor(rawCursor) ?? undefined;
+		if (!cursor) {
+			throw new HTTPException(422, {
+				message: 'cursor is not a valid audit log cursor',
+				cause: { code: 'INVALID_CURSOR' },
+			});
+		}
+	}
+
+	logger.debug('Request parameters', {
+		subjectId,
+		entityType,
+		actionType,
+		from,
+		to,
+		limit,
+	});
+
+	try {
+		const result = await queryAuditLogs(
+			{
+				subjectId,
+				entityType,
+				actionType,
+				from: from ? new Date(from) : undefined,
+				to: to ? new Date(to) : undefined,
+				cursor,
+				limit,
+			},
+			{ db: ctx.db }
+		);
+
+		logger.info('Found audit log entries', {
+			count: result.auditLogs.length,
+			hasMore: result.nextCursor !== null,
+		});
+
+		return c.json(result);
+	} catch (error) {
+		logger.error('Error in GET /audit-logs handler', {
+			error: extractErrorMessage(error),
+			errorType: error instanceof Error ? error.constructor.name : typeof error,
+		});
+
+		if (error instanceof HTTPException) {
+			throw error;
+		}
+
+		throw new HTTPException(500, {
+			message: 'Internal server error',
+			cause: { code: 'INTERNAL_SERVER_ERROR' },
+		});
+	}
+};
@@ -0,0 +1,13 @@
+/**
+ * Consent receipt handlers exports.
+ *
+ * @packageDocumentation
+ */
+
+export {
+	type ConsentReceiptPayload,
+	type ConsentReceiptVerificationResult,
+	createConsentReceipt,
+	verifyConsentReceipt,
+} from './receipt';
+export { verifyConsentReceiptHandler } from './verify.handler';
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { createConsentReceipt, verifyConsentReceipt } from './receipt';
+
+const options = {
+	signingKey: 'test-receipt-key',
+	controller: { name: 'Example Ltd', url: 'https://example.com' },
+	policyUrl: 'https://example.com/privacy',
+};
+
+const receiptParams = {
+	options,
+	tenantId: 'ins_123',
+	consentId: 'cns_123',
+	subjectId: 'sub_123',
+	domain: 'example.com',
+	type: 'cookie_banner',
+	givenAt: new Date('2026-01-01T00:00:00.000Z'),
+	validUntil: new Date('2026-07-01T00:00:00.000Z'),
+	jurisdiction: 'GDPR',
+	language: 'de',
+	uiSource: 'banner',
+	consentAction: 'custom',
+	preferences: { necessary: true, measurement: true, marketing: false },
+	policyId: 'europe_opt_in',
+	policyFingerprint: 'abc123',
+};
+
+describe('consent receipt', () => {
+	it('is not issued without a signing key', async () => {
+		expect(
+			await createConsentReceipt({ ...receiptParams, options: undefined })
+		).toBeUndefined();
+	});
+
+	it('creates a Kantara-shaped receipt that verifies', async () => {
+		const created = await createConsentReceipt(receiptParams);
+		expect(created).toBeDefined();
+
+		const verified = await verifyConsentReceipt({
+			token: created?.token ?? '',
+			options,
+			tenantId: 'ins_123',
+		});
+
+		expect(verified.valid).toBe(true);
+		if (!verified.valid) return;
+		expect(verified.payload).toMatchObject({
+			iss: 'c15t',
+			aud: 'c15t-consent-receipt:ins_123',
+			version: 'KI-CR-v1.1.0',
+			consentReceiptID: verified.payload.jti,
+			consentTimestamp: 1767225600,
+			collectionMethod: 'banner',
+			jurisdiction: 'GDPR',
+			language: 'de',
+			piiPrincipalId: 'sub_123',
+			piiControllers: [
+				{
+					piiController: 'Example Ltd',
+					piiControllerUrl: 'https://example.com',
+				},
+			],
+			policyUrl: 'https://example.com/privacy',
+			sensitive: false,
+			c15t: {
+				consentId: 'cns_123',
+				policyFingerprint: 'abc123',
+				preferences: receiptParams.preferences,
+			},
+		});
+		expect(verified.payload.jti).toMatch(/^rcpt_/);
+		// Only granted purposes are listed
+		expect(
+			verified.payload.services[0]?.purposes.map(({ purpose }) => purpose)
+		).toEqual(['necessary', 'measurement']);
+		expect(verified.payload.services[0]?.purposes[1]).toMatchObject({
+			consentType: 'EXPLICIT',
+			primaryPurpose: false,
+			termination: 'Expires 2026-07-01T00:00:00.000Z or when withdrawn',
+		});
+	});
+
+	it('rejects tampered receipts', async () => {
+		const created = await createConsentReceipt(receiptParams);
+		const [header, , signature] = created?.token.split('.') ?? [];
+		const forgedPayload = btoa(
+			JSON.stringify({
+				...created?.payload,
+				c15t: { ...created?.payload.c15t, preferences: { marketing: true } },
+			})
+		)
+			.replace(/\+/g, '-')
+			.replace(/\//g, '_')
+			.replace(/=+$/, '');
+
+		expect(
+			await verifyConsentReceipt({
+				token: `${header}.${forgedPayload}.${signature}`,
+				options,
+				tenantId: 'ins_123',
+			})
+		).toEqual({ valid: false, reason: 'invalid' });
+	});
+
+	it('rejects receipts from another tenant or signing key', async () => {
+		const created = await createConsentReceipt(receiptParams);
+		const token = created?.token ?? '';
+
+		expect(
+			await verifyConsentReceipt({ token, options, tenantId: 'ins_other' })
+		).toEqual({ valid: false, reason: 'invalid' });
+		expect(
+			await verifyConsentReceipt({
+				token,
+				options: { ...options, signingKey: 'other-key' },
+				tenantId: 'ins_123',
+			})
+		).toEqual({ valid: false, reason: 'invalid' });
+	});
+
+	it('reports malformed receipts', async () => {
+		expect(
+			await verifyConsentReceipt({ token: 'not-a-receipt', options })
+		).toEqual({ valid: false, reason: 'malformed' });
+	});
+});
@@ -0,0 +1,223 @@
+import {
+	CONSENT_RECEIPT_VERSION,
+	type ConsentReceipt,
+	type ConsentReceiptPurpose,
+} from '@c15t/schema';
+import {
+	type JWTHeaderParameters,
+	type JWTPayload,
+	jwtVerify,
+	SignJWT,
+} from 'jose';
+import type { ConsentReceiptOptions } from '~/types';
+
+export type ConsentReceiptVerificationFailureReason = 'malformed' | 'invalid';
+
+export type ConsentReceiptVerificationResult =
+	| {
+			valid: true;
+			payload: ConsentReceiptPayload;
+	  }
+	| {
+			valid: false;
+			reason: ConsentReceiptVerificationFailureReason;
+	  };
+
+/**
+ * JWT payload for a consent receipt.
+ *
+ * @remarks
+ * Top-level fields follow the Kantara Initiative Consent Receipt v1.1
+ * structure that ISO/IEC TS 27560 builds on, so receipts can be read by
+ * generic consent receipt tooling. Only granted purposes are listed under
+ * `services`; the full preference map is kept under `c15t`. Receipts carry
+ * no `exp` claim because they prove what was agreed at `consentTimestamp`.
+ */
+export type ConsentReceiptPayload = ConsentReceipt & JWTPayload;
+
+interface JwtHeader extends JWTHeaderParameters {
+	alg: 'HS256';
+	typ: 'JWT';
+}
+
+const CONSENT_RECEIPT_JWT_HEADER: JwtHeader = {
+	alg: 'HS256',
+	typ: 'JWT',
+};
+const DEFAULT_ISSUER = 'c15t';
+const DEFAULT_AUDIENCE = 'c15t-consent-receipt';
+
+function resolveIssuer(options: ConsentReceiptOptions): string {
+	return options.issuer?.trim() || DEFAULT_ISSUER;
+}
+
+function resolveAudience(tenantId?: string): string {
+	return tenantId ? `${DEFAULT_AUDIENCE}:${tenantId}` : DEFAULT_AUDIENCE;
+}
+
+function getSigningKey(secret: string): Uint8Array {
+	return new TextEncoder().encode(secret);
+}
+
+function isConsentReceiptPayload(
+	payload: JWTPayload
+): payload is ConsentReceiptPayload {
+	const c15t = payload.c15t as Partial<ConsentReceipt['c15t']> | undefined;
+	return (
+		payload.version === CONSENT_RECEIPT_VERSION &&
+		typeof payload.consentReceiptID === 'string' &&
+		payload.consentReceiptID === payload.jti &&
+		typeof payload.consentTimestamp === 'number' &&
+		typeof payload.jurisdiction === 'string' &&
+		typeof payload.piiPrincipalId === 'string' &&
+		Array.isArray(payload.piiControllers) &&
+		Array.isArray(payload.services) &&
+		typeof c15t?.consentId === 'string' &&
+		typeof c15t.subjectId === 'string' &&
+		typeof payload.iat === 'number'
+	);
+}
+
+export async function createConsentReceipt(params: {
+	options?: ConsentReceiptOptions;
+	tenantId?: string;
+	consentId: string;
+	subjectId: string;
+	domain: string;
+	type: string;
+	givenAt: Date;
+	validUntil?: Date;
+	jurisdiction: string;
+	language?: string;
+	uiSource?: string;
+	consentAction?: string;
+	preferences?: Record<string, boolean>;
+	policyId?: string;
+	policyFingerprint?: string;
+}): Promise<{ token: string; payload: ConsentReceiptPayload } | undefined> {
+	const { options } = params;
+	if (!options?.signingKey) {
+		return undefined;
+	}
+
+	const iat = Math.floor(Date.now() / 1000);
+	const receiptId = `rcpt_${crypto.randomUUID().replaceAll('-', '')}`;
+	const termination = params.validUntil
+		? `Expires ${params.validUntil.toISOString()} or when withdrawn`
+		: 'When withdrawn';
+	const grantedPurposes = params.preferences
+		? Object.entries(params.preferences)
+				.filter(([, granted]) => granted)
+				.map(([purpose]) => purpose)
+		: [];
+
+	const payload: ConsentReceiptPayload = {
+		iss: resolveIssuer(options),
+		aud: resolveAudience(params.tenantId),
+		sub: params.subjectId,
+		jti: receiptId,
+		iat,
+		version: CONSENT_RECEIPT_VERSION,
+		consentReceiptID: receiptId,
+		consentTimestamp: Math.floor(params.givenAt.getTime() / 1000),
+		collectionMethod: params.uiSource ?? 'api',
+		jurisdiction: params.jurisdiction,
+		language: params.language,
+		piiPrincipalId: params.subjectId,
+		piiControllers: [
+			{
+				piiController: options.controller.name,
+				contact: options.controller.contact,
+				email: options.controller.email,
+				phone: options.controller.phone,
+				piiControllerUrl: options.controller.url,
+			},
+		],
+		policyUrl: options.policyUrl,
+		services: [
+			{
+				service: params.domain,
+				purposes: grantedPurposes.map(
+					(purpose): ConsentReceiptPurpose => ({
+						purpose,
+						purposeCategory: [purpose],
+						consentType: 'EXPLICIT',
+						piiCategory: [],
+						primaryPurpose: purpose === 'necessary',
+						termination,
+						thirdPartyDisclosure: false,
+					})
+				),
+			},
+		],
+		sensitive: false,
+		spiCat: [],
+		c15t: {
+			consentId: params.consentId,
+			subjectId: params.subjectId,
+			type: params.type,
+			policyId: params.policyId,
+			policyFingerprint: params.policyFingerprint,
+			consentAction: params.consentAction,
+			preferences: params.preferences,
+		},
+	};
+
+	const token = await new SignJWT(payload)
+		.setProtectedHeader(CONSENT_RECEIPT_JWT_HEADER)
+		.setIssuedAt(iat)
+		.sign(getSigningKey(options.signingKey));
+
+	return {
+		token,
+		payload,
+	};
+}
+
+export async function verifyConsentReceipt(params: {
+	token: string;
+	options: ConsentReceiptOptions;
+	tenantId?: string;
+}): Promise<ConsentReceiptVerificationResult> {
+	const { token, options, tenantId } = params;
+
+	if (token.split('.').length !== 3) {
+		return {
+			valid: false,
+			reason: 'malformed',
+		};
+	}
+
+	try {
+		const { payload, protectedHeader } = await jwtVerify(
+			token,
+			getSigningKey(options.signingKey),
+			{
+				issuer: resolveIssuer(options),
+				audience: resolveAudience(tenantId),
+			}
+		);
+		const header = protectedHeader as Partial<JwtHeader>;
+		if (header.alg !== 'HS256' || header.typ !== 'JWT') {
+			return {
+				valid: false,
+				reason: 'invalid',
+			};
+		}
+		if (!isConsentReceiptPayload(payload)) {
+			return {
+				valid: false,
+				reason: 'invalid',
+			};
+		}
+		return {
+			valid: true,
+			payload,
+		};
+	} catch {
+		return {
+			valid: false,
+			reason: 'invalid',
+		};
+	}
+}
@@ -0,0 +1,77 @@
+import { Hono } from 'hono';
+import { describe, expect, it, vi } from 'vitest';
+import { createConsentReceiptRoutes } from '~/routes/consent-receipt';
+import type { C15TContext, ConsentReceiptOptions } from '~/types';
+import { createConsentReceipt } from './receipt';
+
+const consentReceipts: ConsentReceiptOptions = {
+	signingKey: 'test-receipt-key',
+	controller: { name: 'Example Ltd' },
+};
+
+function createApp(options?: ConsentReceiptOptions) {
+	const c15tContext = {
+		logger: {
+			info: vi.fn(),
+			debug: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+		},
+		db: {},
+		consentReceipts: options,
+	} as unknown as C15TContext;
+
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+	app.use('*', async (c, next) => {
+		c.set('c15tContext', c15tContext);
+		await next();
+	});
+	app.route('/consent-receipts', createConsentReceiptRoutes());
+
+	return app;
+}
+
+const verify = (app: Hono<any>, receipt: string) =>
+	app.request('http://localhost/consent-receipts/verify', {
+		method: 'POST',
+		headers: { 'content-type': 'application/json' },
+		body: JSON.stringify({ receipt }),
+	});
+
+describe('POST /consent-receipts/verify', () => {
+	it('returns the decoded receipt when the signature is valid', async () => {
+		const created = await createConsentReceipt({
+			options: consentReceipts,
+			consentId: 'cns_123',
+			subjectId: 'sub_123',
+			domain: 'example.com',
+			type: 'cookie_banner',
+			givenAt: new Date('2026-01-01T00:00:00.000Z'),
+			jurisdiction: 'GDPR',
+			preferences: { necessary: true },
+		});
+
+		const response = await verify(
+			createApp(consentReceipts),
+			created?.token ?? ''
+		);
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(body.valid).toBe(true);
+		expect(body.receipt.c15t.consentId).toBe('cns_123');
+	});
+
+	it('returns valid false with a reason for bad receipts', async () => {
+		const response = await verify(createApp(consentReceipts), 'a.b.c');
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ valid: false, reason: 'invalid' });
+	});
+
+	it('returns 501 when consent receipts are not configured', async () => {
+		const response = await verify(createApp(), 'a.b.c');
+
+		expect(response.status).toBe(501);
+	});
+});
@@ -0,0 +1,44 @@
+/**
+ * POST /consent-receipts/verify handler - Check a signed consent receipt.
+ *
+ * @packageDocumentation
+ */
+
+import type { VerifyConsentReceiptInput } from '@c15t/schema';
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import type { C15TContext } from '~/types';
+import { verifyConsentReceipt } from './receipt';
+
+/**
+ * Handles consent receipt verification for auditors.
+ *
+ * Only the receipt signature and claims are checked, so this works without
+ * database access and for consents that have since been erased.
+ */
+export const verifyConsentReceiptHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	const logger = ctx.logger;
+	logger.info('Handling POST /consent-receipts/verify request');
+
+	if (!ctx.consentReceipts?.signingKey) {
+		throw new HTTPException(501, {
+			message: 'Consent receipts are not configured',
+			cause: { code: 'CONSENT_RECEIPTS_NOT_CONFIGURED' },
+		});
+	}
+
+	const { receipt } = await c.req.json<VerifyConsentReceiptInput>();
+	const result = await verifyConsentReceipt({
+		token: receipt,
+		options: ctx.consentReceipts,
+		tenantId: ctx.tenantId,
+	});
+
+	if (!result.valid) {
+		logger.info('Consent receipt rejected', { reason: result.reason });
+		return c.json({ valid: false, reason: result.reason });
+	}
+
+	return c.json({ valid: true, receipt: result.payload });
+};
@@ -1,5 +1,5 @@
-import { describe, expect, it } from 'vitest';
-import { checkJurisdiction } from './geo';
+import { describe, expect, it, vi } from 'vitest';
+import { checkJurisdiction, getLocation } from './geo';
 
 describe('checkJurisdiction', () => {
 	describe('GDPR jurisdiction (EU countries)', () => {
@@ -315,3 +315,41 @@ describe('checkJurisdiction', () => {
 		});
 	});
 });
+
+describe('getLocation', () => {
+	const provider = {
+		name: 'test',
+		lookup: vi.fn(async () => ({ countryCode: 'US', regionCode: 'CA' })),
+	};
+
+	it('prefers CDN geo headers over the geo provider', async () => {
+		const request = new Request('https://c15t.local/init', {
+			headers: { 'cf-ipcountry': 'DE' },
+		});
+
+		expect(
+			await getLocation(
+				request,
+				{ geo: { provider } },
+				{ ipAddress: '192.0.2.0' }
+			)
+		).toEqual({ countryCode: 'DE', regionCode: null });
+		expect(provider.lookup).not.toHaveBeenCalled();
+	});
+
+	it('falls back to the geo provider without geo headers', async () => {
+		const request = new Request('https://c15t.local/init');
+
+		expect(
+			await getLocation(
+				request,
+				{ geo: { provider } },
+				{ ipAddress: '192.0.2.0' }
+			)
+		).toEqual({ countryCode: 'US', regionCode: 'CA' });
+		expect(
+			await getLocation(request, { geo: { provider } }, { ipAddress: null })
+		).toEqual({ countryCode: null, regionCode: null });
+		expect(provider.lookup).toHaveBeenCalledTimes(1);
+	});
+});
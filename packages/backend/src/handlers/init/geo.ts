@@ -1,4 +1,6 @@
-import type { C15TOptions } from '~/types';
+import type { Logger } from '@c15t/logger';
+import { lookupGeoLocation } from '~/geo/lookup';
+import type { C15TOptions, GeoLocation } from '~/types';
 import type { JurisdictionCode } from '~/types/api';
 
 /**
@@ -16,7 +18,7 @@ function normalizeHeader(
 /**
  * Gets geo-related headers from the request.
  */
-function getGeoHeaders(headers: Headers) {
+export function getGeoHeaders(headers: Headers): GeoLocation {
 	const countryCode =
 		normalizeHeader(headers.get('x-c15t-country')) ??
 		normalizeHeader(headers.get('cf-ipcountry')) ??
@@ -158,22 +160,37 @@ export function checkJurisdiction(
 }
 
 /**
- * Gets the location from the request headers.
+ * Gets the location from the request headers, falling back to the configured
+ * `geo` provider when there are none.
  *
  * @param request - The incoming request
  * @param options - The C15T options
+ * @param client - Client IP address for provider lookups
  * @returns The location object with countryCode and regionCode
  */
 export async function getLocation(
 	request: Request,
-	options: Pick<C15TOptions, 'disableGeoLocation'>
-): Promise<{ countryCode: string | null; regionCode: string | null }> {
+	options: Pick<
+		C15TOptions,
+		'disableGeoLocation' | 'geo' | 'appName' | 'cache'
+	>,
+	client: { ipAddress?: string | null; logger?: Logger } = {}
+): Promise<GeoLocation> {
 	if (options.disableGeoLocation) {
 		return { countryCode: null, regionCode: null };
 	}
 
 	const { countryCode, regionCode } = getGeoHeaders(request.headers);
-	return { countryCode, regionCode };
+	if (countryCode || !options.geo || !client.ipAddress) {
+		return { countryCode, regionCode };
+	}
+
+	return lookupGeoLocation(client.ipAddress, {
+		geo: options.geo,
+		appName: options.appName,
+		cacheAdapter: options.cache?.adapter,
+		logger: client.logger,
+	});
 }
 
 /**
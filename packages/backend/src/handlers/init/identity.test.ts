@@ -0,0 +1,232 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+	createInMemoryDb,
+	type InMemoryRow,
+	type InMemoryTables,
+} from '~/testing/in-memory-db';
+import type { C15TContext } from '~/types';
+import {
+	createIdentityToken,
+	IDENTITY_TOKEN_HEADER,
+	LINKED_CONSENT_ACTION,
+	resolveLinkedConsent,
+	verifyIdentityToken,
+} from './identity';
+
+const OPTIONS = { signingKey: 'identity-secret' };
+
+const consent = (
+	id: string,
+	subjectId: string,
+	givenAt: string,
+	options: {
+		validUntil?: string;
+		policyId?: string;
+		purposeIds?: string[];
+	} = {}
+): InMemoryRow => ({
+	id,
+	subjectId,
+	policyId: options.policyId ?? 'pol_cookie_v2',
+	purposeIds: options.purposeIds ?? ['pur_necessary', 'pur_marketing'],
+	givenAt: new Date(givenAt),
+	validUntil: options.validUntil ? new Date(options.validUntil) : null,
+});
+
+function createContext(tables: InMemoryTables) {
+	const db = createInMemoryDb(tables);
+	const ctx = {
+		db,
+		registry: {
+			findLatestPolicyByType: vi.fn(async () => ({ id: 'pol_cookie_v2' })),
+		},
+		logger: {
+			info: vi.fn(),
+			debug: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+		},
+		identityTokens: OPTIONS,
+		ipAddress: '203.0.113.7',
+		userAgent: 'test-agent',
+	} as unknown as C15TContext;
+
+	return { ctx, db };
+}
+
+async function requestWithToken(externalId: string, identityProvider?: string) {
+	const identity = await createIdentityToken({
+		options: OPTIONS,
+		externalId,
+		identityProvider,
+	});
+
+	return new Request('http://localhost/init', {
+		headers: { [IDENTITY_TOKEN_HEADER]: identity?.token ?? '' },
+	});
+}
+
+function createTables(): InMemoryTables {
+	return {
+		subject: [
+			{ id: 'sub_desktop', externalId: 'user_123', identityProvider: 'auth0' },
+			{ id: 'sub_tablet', externalId: 'user_123', identityProvider: 'auth0' },
+			{ id: 'sub_other', externalId: 'user_456', identityProvider: 'auth0' },
+		],
+		consent: [
+			consent('cns_desktop', 'sub_desktop', '2026-01-01T00:00:00.000Z'),
+			consent('cns_tablet', 'sub_tablet', '2026-02-01T00:00:00.000Z', {
+				purposeIds: ['pur_necessary'],
+			}),
+			consent('cns_old_policy', 'sub_tablet', '2026-03-01T00:00:00.000Z', {
+				policyId: 'pol_cookie_v1',
+			}),
+			consent('cns_expired', 'sub_desktop', '2026-04-01T00:00:00.000Z', {
+				validUntil: '2026-04-02T00:00:00.000Z',
+			}),
+			consent('cns_other', 'sub_other', '2026-05-01T00:00:00.000Z'),
+		],
+		consentPolicy: [
+			{ id: 'pol_cookie_v1', type: 'cookie_banner', version: '1' },
+			{ id: 'pol_cookie_v2', type: 'cookie_banner', version: '2' },
+		],
+		consentPurpose: [
+			{ id: 'pur_necessary', code: 'necessary' },
+			{ id: 'pur_marketing', code: 'marketing' },
+		],
+		auditLog: [],
+	};
+}
+
+describe('identity tokens', () => {
+	it('verifies tokens signed for the same tenant', async () => {
+		const identity = await createIdentityToken({
+			options: OPTIONS,
+			tenantId: 'tenant-a',
+			externalId: 'user_123',
+			identityProvider: 'auth0',
+		});
+
+		await expect(
+			verifyIdentityToken({
+				token: identity?.token,
+				options: OPTIONS,
+				tenantId: 'tenant-a',
+			})
+		).resolves.toMatchObject({
+			valid: true,
+			payload: { sub: 'user_123', identityProvider: 'auth0' },
+		});
+		await expect(
+			verifyIdentityToken({
+				token: identity?.token,
+				options: OPTIONS,
+				tenantId: 'tenant-b',
+			})
+		).resolves.toEqual({ valid: false, reason: 'invalid' });
+	});
+
+	it('rejects expired and foreign tokens', async () => {
+		const expired = await createIdentityToken({
+			options: OPTIONS,
+			externalId: 'user_123',
+			ttlSeconds: -10,
+		});
+		const foreign = await createIdentityToken({
+			options: { signingKey: 'another-secret' },
+			externalId: 'user_123',
+		});
+
+		await expect(
+			verifyIdentityToken({ token: expired?.token, options: OPTIONS })
+		).resolves.toEqual({ valid: false, reason: 'expired' });
+		await expect(
+			verifyIdentityToken({ token: foreign?.token, options: OPTIONS })
+		).resolves.toEqual({ valid: false, reason: 'invalid' });
+		await expect(
+			verifyIdentityToken({ token: 'not-a-jwt', options: OPTIONS })
+		).resolves.toEqual({ valid: false, reason: 'malformed' });
+	});
+});
+
+describe('resolveLinkedConsent', () => {
+	it('restores the latest valid consent from any linked subject', async () => {
+		const tables = createTables();
+		const { ctx, db } = createContext(tables);
+
+		const linkedConsent = await resolveLinkedConsent(
+			await requestWithToken('user_123', 'auth0'),
+			ctx
+		);
+
+		expect(db.findMany).toHaveBeenCalledWith(
+			'consent',
+			expect.objectContaining({ orderBy: [['givenAt', 'desc']], limit: 10 })
+		);
+		expect(linkedConsent).toEqual({
+			consentId: 'cns_tablet',
+			preferences: { necessary: true },
+			givenAt: '2026-02-01T00:00:00.000Z',
+			externalId: 'user_123',
+			identityProvider: 'auth0',
+		});
+		expect(tables.auditLog).toEqual([
+			expect.objectContaining({
+				subjectId: 'sub_tablet',
+				entityType: 'consent',
+				entityId: 'cns_tablet',
+				actionType: LINKED_CONSENT_ACTION,
+				ipAddress: '203.0.113.7',
+				metadata: {
+					decision: 'restored',
+					externalId: 'user_123',
+					identityProvider: 'auth0',
+					subjectCount: 2,
+				},
+			}),
+		]);
+	});
+
+	it('records the decision when no valid consent exists', async () => {
+		const tables = createTables();
+		const { ctx } = createContext(tables);
+
+		const linkedConsent = await resolveLinkedConsent(
+			await requestWithToken('user_789'),
+			ctx
+		);
+
+		expect(linkedConsent).toBeUndefined();
+		expect(tables.auditLog).toEqual([
+			expect.objectContaining({
+				subjectId: null,
+				entityType: 'subject',
+				entityId: 'user_789',
+				metadata: expect.objectContaining({
+					decision: 'no_valid_consent',
+					subjectCount: 0,
+				}),
+			}),
+		]);
+	});
+
+	it('ignores invalid tokens without writing to the audit log', async () => {
+		const tables = createTables();
+		const { ctx, db } = createContext(tables);
+
+		const linkedConsent = await resolveLinkedConsent(
+			new Request('http://localhost/init', {
+				headers: { [IDENTITY_TOKEN_HEADER]: 'a.b.c' },
+			}),
+			ctx
+		);
+
+		expect(linkedConsent).toBeUndefined();
+		expect(db.findMany).not.toHaveBeenCalled();
+		expect(tables.auditLog).toEqual([]);
+		expect(ctx.logger.warn).toHaveBeenCalledWith(
+			'Ignoring identity token on /init',
+			{ reason: 'invalid' }
+		);
+	});
+});
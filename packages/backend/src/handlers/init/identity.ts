@@ -0,0 +1,342 @@
+/**
+ * Cross-device consent restore for /init.
+ *
+ * Your app server signs an identity token for the logged-in user, and the
+ * client sends it to `/init` in the `x-c15t-identity-token` header. When the
+ * token is valid, `/init` returns the user's latest valid cookie banner
+ * consent from any of their subjects so a new device can skip the banner.
+ *
+ * @packageDocumentation
+ */
+
+import type { LinkedConsent } from '@c15t/schema/types';
+import { type JWTPayload, errors as joseErrors, SignJWT } from 'jose';
+import { generateUniqueId } from '~/db/registry/utils';
+import type { C15TContext, IdentityTokenOptions } from '~/types';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+import {
+	canSignSnapshots,
+	canVerifySnapshots,
+	signSnapshotJwt,
+	verifySnapshotJwt,
+} from '~/utils/snapshot-signing';
+import { enrichConsents } from '../utils/consent-enrichment';
+
+/**
+ * Request header carrying the identity token
+ */
+export const IDENTITY_TOKEN_HEADER = 'x-c15t-identity-token';
+
+/**
+ * Audit log action written once for every verified identity token
+ */
+export const LINKED_CONSENT_ACTION = 'restore_linked_consent';
+
+export type IdentityTokenVerificationFailureReason =
+	| 'missing'
+	| 'malformed'
+	| 'expired'
+	| 'invalid';
+
+export type IdentityTokenVerificationResult =
+	| {
+			valid: true;
+			payload: IdentityTokenPayload;
+	  }
+	| {
+			valid: false;
+			reason: IdentityTokenVerificationFailureReason;
+	  };
+
+/**
+ * JWT payload for an identity token. `sub` is the external user ID.
+ */
+export interface IdentityTokenPayload extends JWTPayload {
+	iss: string;
+	aud: string;
+	sub: string;
+	tenantId?: string;
+	identityProvider?: string;
+	iat: number;
+	exp: number;
+}
+
+type LinkedConsentContext = Pick<
+	C15TContext,
+	| 'db'
+	| 'registry'
+	| 'logger'
+	| 'identityTokens'
+	| 'tenantId'
+	| 'ipAddress'
+	| 'userAgent'
+>;
+
+const DEFAULT_ISSUER = 'c15t';
+const DEFAULT_AUDIENCE = 'c15t-identity';
+const DEFAULT_TTL_SECONDS = 300;
+/**
+ * Newest consents read per linked lookup; only these are enriched
+ */
+const LINKED_CONSENT_PAGE_SIZE = 10;
+
+function resolveIdentityIssuer(options?: IdentityTokenOptions): string {
+	return options?.issuer?.trim() || DEFAULT_ISSUER;
+}
+
+function resolveIdentityAudience(params: {
+	options?: IdentityTokenOptions;
+	tenantId?: string;
+}): string {
+	const configuredAudience = params.options?.audience?.trim();
+	if (configuredAudience) {
+		return configuredAudience;
+	}
+
+	return params.tenantId
+		? `${DEFAULT_AUDIENCE}:${params.tenantId}`
+		: DEFAULT_AUDIENCE;
+}
+
+function isIdentityTokenPayload(
+	payload: JWTPayload
+): payload is IdentityTokenPayload {
+	return (
+		typeof payload.iss === 'string' &&
+		typeof payload.aud === 'string' &&
+		typeof payload.sub === 'string' &&
+		payload.sub.length > 0 &&
+		(payload.identityProvider === undefined ||
+			typeof payload.identityProvider === 'string') &&
+		typeof payload.iat === 'number' &&
+		typeof payload.exp === 'number'
+	);
+}
+
+/**
+ * Signs an identity token for a logged-in user.
+ *
+ * Call this on your app server after authenticating the user, and pass the
+ * token to the client. Returns `undefined` when no signing key is configured.
+ *
+ * @example
+ * ```ts
+ * const identity = await createIdentityToken({
+ *   options: { signingKey: process.env.C15T_IDENTITY_SECRET },
+ *   externalId: session.user.id,
+ *   identityProvider: 'auth0',
+ * });
+ * ```
+ */
+export async function createIdentityToken(params: {
+	options?: IdentityTokenOptions;
+	tenantId?: string;
+	externalId: string;
+	identityProvider?: string;
+	ttlSeconds?: number;
+}): Promise<{ token: string; payload: IdentityTokenPayload } | undefined> {
+	const { options } = params;
+	if (!options || !canSignSnapshots(options)) {
+		return undefined;
+	}
+
+	const iat = Math.floor(Date.now() / 1000);
+	const exp =
+		iat + (params.ttlSeconds ?? options.ttlSeconds ?? DEFAULT_TTL_SECONDS);
+	const payload: IdentityTokenPayload = {
+		iss: resolveIdentityIssuer(options),
+		aud: resolveIdentityAudience({ options, tenantId: params.tenantId }),
+		sub: params.externalId,
+		tenantId: params.tenantId,
+		identityProvider: params.identityProvider,
+		iat,
+		exp,
+	};
+
+	const token = await signSnapshotJwt(
+		new SignJWT(payload).setIssuedAt(iat).setExpirationTime(exp),
+		options
+	);
+
+	return { token, payload };
+}
+
+export async function verifyIdentityToken(params: {
+	token?: string;
+	options?: IdentityTokenOptions;
+	tenantId?: string;
+}): Promise<IdentityTokenVerificationResult> {
+	const { token, options, tenantId } = params;
+	if (!options || !canVerifySnapshots(options) || !token) {
+		return {
+			valid: false,
+			reason: 'missing',
+		};
+	}
+
+	if (token.split('.').length !== 3) {
+		return {
+			valid: false,
+			reason: 'malformed',
+		};
+	}
+
+	try {
+		const payload = await verifySnapshotJwt(token, options, {
+			issuer: resolveIdentityIssuer(options),
+			audience: resolveIdentityAudience({ options, tenantId }),
+		});
+		if (!isIdentityTokenPayload(payload)) {
+			return {
+				valid: false,
+				reason: 'invalid',
+			};
+		}
+		if ((tenantId ?? undefined) !== (payload.tenantId ?? undefined)) {
+			return {
+				valid: false,
+				reason: 'invalid',
+			};
+		}
+
+		return {
+			valid: true,
+			payload,
+		};
+	} catch (error) {
+		if (error instanceof joseErrors.JWTExpired) {
+			return {
+				valid: false,
+				reason: 'expired',
+			};
+		}
+		return {
+			valid: false,
+			reason: 'invalid',
+		};
+	}
+}
+
+/**
+ * Resolves the consent to restore for the identity token on the request.
+ *
+ * Picks the most recent cookie banner consent of any subject linked to the
+ * token's external ID that is for the latest policy and has not expired.
+ * Only the newest of those consents are read and enriched.
+ * Every verified token writes a `restore_linked_consent` audit log entry
+ * recording whether a consent was restored. Invalid tokens are only logged,
+ * so unauthenticated requests cannot write to the database.
+ *
+ * Never throws: `/init` still succeeds when the lookup fails.
+ */
+export async function resolveLinkedConsent(
+	request: Request,
+	ctx: LinkedConsentContext
+): Promise<LinkedConsent | undefined> {
+	const token = request.headers.get(IDENTITY_TOKEN_HEADER) ?? undefined;
+	if (!token) {
+		return undefined;
+	}
+
+	const { logger } = ctx;
+	const verification = await verifyIdentityToken({
+		token,
+		options: ctx.identityTokens,
+		tenantId: ctx.tenantId,
+	});
+
+	if (!verification.valid) {
+		logger.warn('Ignoring identity token on /init', {
+			reason: verification.reason,
+		});
+		return undefined;
+	}
+
+	const { sub: externalId, identityProvider } = verification.payload;
+
+	try {
+		const { db, registry } = ctx;
+		const subjects = await db.findMany('subject', {
+			where: (b) =>
+				identityProvider
+					? b.and(
+							b('externalId', '=', externalId),
+							b('identityProvider', '=', identityProvider)
+						)
+					: b('externalId', '=', externalId),
+		});
+
+		// Only consents for the latest cookie banner policy can be restored
+		const latestPolicy =
+			subjects.length > 0
+				? await registry.findLatestPolicyByType('cookie_banner')
+				: null;
+		const now = new Date();
+		const consents = latestPolicy
+			? await db.findMany('consent', {
+					where: (b) =>
+						b.and(
+							b(
+								'subjectId',
+								'in',
+								subjects.map((subject) => subject.id)
+							),
+							b('policyId', '=', latestPolicy.id),
+							b.or(b('validUntil', 'is', null), b('validUntil', '>', now))
+						),
+					orderBy: [['givenAt', 'desc']],
+					limit: LINKED_CONSENT_PAGE_SIZE,
+				})
+			: [];
+		const subjectIds = new Map(
+			consents.map((consent) => [consent.id, consent.subjectId])
+		);
+
+		const latest = (await enrichConsents(consents, { db, registry })).find(
+			(consent) => consent.preferences !== undefined
+		);
+
+		await db.create('auditLog', {
+			id: await generateUniqueId(db, 'auditLog', ctx),
+			subjectId: latest ? (subjectIds.get(latest.id) ?? null) : null,
+			entityType: latest ? 'consent' : 'subject',
+			entityId: latest?.id ?? externalId,
+			actionType: LINKED_CONSENT_ACTION,
+			ipAddress: ctx.ipAddress || null,
+			userAgent: ctx.userAgent || null,
+			changes: null,
+			metadata: {
+				decision: latest ? 'restored' : 'no_valid_consent',
+				externalId,
+				identityProvider: identityProvider ?? null,
+				subjectCount: subjects.length,
+			},
+		});
+
+		logger.debug('Resolved linked consent', {
+			restored: !!latest,
+			subjectCount: subjects.length,
+		});
+
+		if (!latest?.preferences) {
+			return undefined;
+		}
+
+		return {
+			consentId: latest.id,
+			preferences: latest.preferences,
+			givenAt: new Date(latest.givenAt).toISOString(),
+			...(latest.validUntil && {
+				validUntil: new Date(latest.validUntil).toISOString(),
+			}),
+			externalId,
+			...(identityProvider && { identityProvider }),
+		};
+	} catch (error) {
+		logger.error('Failed to resolve linked consent', {
+			error: extractErrorMessage(error),
+			errorType: error instanceof Error ? error.constructor.name : typeof error,
+		});
+		return undefined;
+	}
+}
@@ -275,4 +275,20 @@ describe('resolveInitPayload', () => {
 			regionCode: null,
 		});
 	});
+
+	it('resolves the location from the masked client IP with the geo provider', async () => {
+		const lookup = vi.fn(async () => ({ countryCode: 'US', regionCode: 'CA' }));
+
+		const payload = await resolveInitPayload(
+			makeRequest({ 'x-forwarded-for': '192.0.2.57, 10.0.0.1' }),
+			{
+				trustedOrigins: [],
+				geo: { provider: { name: 'test', lookup } },
+			}
+		);
+
+		expect(lookup).toHaveBeenCalledWith('192.0.2.0');
+		expect(payload.jurisdiction).toBe('CCPA');
+		expect(payload.location).toEqual({ countryCode: 'US', regionCode: 'CA' });
+	});
 });
@@ -9,6 +9,7 @@ import type { ResolvedPolicy } from '@c15t/schema/types';
 import { createGVLResolver } from '~/cache/gvl-resolver';
 import type { C15TEdgeOptions } from '~/edge/types';
 import { createPolicySnapshotToken } from '~/handlers/policy/snapshot';
+import { getIpAddress } from '~/middleware/process-ip';
 import { getMetrics } from '~/utils/metrics';
 import { getJurisdiction, getLocation } from './geo';
 import { resolvePolicyDecision } from './policy';
@@ -51,7 +52,12 @@ function stripIabTranslations(
 	return rest;
 }
 
-function resolveNoPolicyFallback(): ResolvedPolicy {
+/**
+ * Policy served when policy packs are configured but none applies.
+ *
+ * @internal
+ */
+export function resolveNoPolicyFallback(): ResolvedPolicy {
 	return {
 		id: 'no_banner',
 		model: 'none',
@@ -74,7 +80,10 @@ export async function resolveInitPayload(
 	const acceptLanguage = request.headers.get('accept-language') || 'en';
 
 	// Get location and jurisdiction
-	const location = await getLocation(request, options);
+	const location = await getLocation(request, options, {
+		ipAddress: options.geo ? getIpAddress(request, options) : null,
+		logger,
+	});
 	const jurisdiction = getJurisdiction(location, options);
 	const hasExplicitPolicyPack = options.policyPacks !== undefined;
 	const isExplicitEmptyPolicyPack =
@@ -185,6 +185,23 @@ function resolveActiveProfile(input: {
 	return input.defaultProfile;
 }
 
+/**
+ * Resolves the i18n message profile `getTranslationsData` reads from.
+ */
+export function getTranslationProfile(options: {
+	customTranslations?: Record<string, Partial<Translations>>;
+	i18n?: C15TOptions['i18n'];
+	policyI18n?: PolicyConfig['i18n'];
+	logger?: LoggerLike;
+}): string {
+	return resolveActiveProfile({
+		profiles: normalizeProfiles(options),
+		defaultProfile: options.i18n?.defaultProfile ?? DEFAULT_PROFILE,
+		policyProfile: options.policyI18n?.messageProfile,
+		logger: options.logger,
+	});
+}
+
 export function listProfiles(options: {
 	customTranslations?: Record<string, Partial<Translations>>;
 	i18n?: C15TOptions['i18n'];
@@ -0,0 +1,7 @@
+/**
+ * JWKS handlers index.
+ *
+ * @packageDocumentation
+ */
+
+export { jwksHandler } from './jwks.handler';
@@ -0,0 +1,72 @@
+import { Hono } from 'hono';
+import { exportJWK, generateKeyPair } from 'jose';
+import { describe, expect, it, vi } from 'vitest';
+import { createJwksRoute } from '~/routes/jwks';
+import type { C15TContext } from '~/types';
+
+function createApp(context: Partial<C15TContext>) {
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+	app.use('*', async (c, next) => {
+		c.set('c15tContext', {
+			logger: {
+				info: vi.fn(),
+				debug: vi.fn(),
+				warn: vi.fn(),
+				error: vi.fn(),
+			},
+			...context,
+		} as unknown as C15TContext);
+		await next();
+	});
+	app.route('/.well-known', createJwksRoute());
+	return app;
+}
+
+describe('GET /.well-known/jwks.json', () => {
+	it('publishes policy and legal-document public keys', async () => {
+		const policyKey = await generateKeyPair('ES256', { extractable: true });
+		const legalKey = await generateKeyPair('EdDSA', { extractable: true });
+		const app = createApp({
+			policySnapshot: {
+				signingKey: 'legacy-secret',
+				signingKeys: [
+					{
+						kid: 'policy-1',
+						alg: 'ES256',
+						publicKey: await exportJWK(policyKey.publicKey),
+						privateKey: await exportJWK(policyKey.privateKey),
+					},
+				],
+			},
+			legalDocumentSnapshot: {
+				signingKeys: [
+					{
+						kid: 'legal-1',
+						alg: 'EdDSA',
+						publicKey: await exportJWK(legalKey.publicKey),
+					},
+				],
+			},
+		});
+
+		const response = await app.request('/.well-known/jwks.json');
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('cache-control')).toBe('public, max-age=300');
+		expect(body.keys.map((key: { kid: string }) => key.kid)).toEqual([
+			'policy-1',
+			'legal-1',
+		]);
+		expect(JSON.stringify(body)).not.toContain('"d"');
+		expect(JSON.stringify(body)).not.toContain('legacy-secret');
+	});
+
+	it('returns an empty key set without asymmetric keys', async () => {
+		const app = createApp({ policySnapshot: { signingKey: 'secret' } });
+
+		const response = await app.request('/.well-known/jwks.json');
+
+		expect(await response.json()).toEqual({ keys: [] });
+	});
+});
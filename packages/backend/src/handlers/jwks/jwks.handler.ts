@@ -0,0 +1,44 @@
+/**
+ * GET /.well-known/jwks.json handler - Public snapshot signing keys.
+ *
+ * @packageDocumentation
+ */
+
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import type { C15TContext } from '~/types';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+import { getSnapshotJwks } from '~/utils/snapshot-signing';
+
+/**
+ * Publishes the public halves of the policy and legal-document snapshot
+ * signing keys so tokens can be verified without the backend.
+ *
+ * Verify-only keys stay listed, which lets tokens signed before a rotation
+ * keep verifying until they expire.
+ */
+export const jwksHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	const logger = ctx.logger;
+	logger.info('Handling GET /.well-known/jwks.json request');
+
+	try {
+		const jwks = await getSnapshotJwks([
+			ctx.policySnapshot,
+			ctx.legalDocumentSnapshot,
+		]);
+
+		c.header('Cache-Control', 'public, max-age=300');
+		return c.json(jwks);
+	} catch (error) {
+		logger.error('Error in GET /.well-known/jwks.json handler', {
+			error: extractErrorMessage(error),
+			errorType: error instanceof Error ? error.constructor.name : typeof error,
+		});
+
+		throw new HTTPException(500, {
+			message: 'Failed to load signing keys',
+			cause: { code: 'INTERNAL_SERVER_ERROR' },
+		});
+	}
+};
@@ -4,7 +4,9 @@ import type {
 } from '@c15t/schema';
 import type { Context } from 'hono';
 import { HTTPException } from 'hono/http-exception';
+import { emitAuditEvent } from '~/audit-events';
 import { LegalDocumentPolicyConflictError } from '~/db/registry/consent-policy';
+import { requireApiKeyScope } from '~/middleware/auth';
 import type { C15TContext } from '~/types';
 import { extractErrorMessage } from '~/utils/extract-error-message';
 
@@ -13,12 +15,7 @@ export const syncCurrentLegalDocumentHandler = async (c: Context) => {
 	const logger = ctx.logger;
 	logger.info('Handling PUT /legal-documents/:type/current request');
 
-	if (!ctx.apiKeyAuthenticated) {
-		throw new HTTPException(401, {
-			message: 'API key required. Use Authorization: Bearer <api_key>',
-			cause: { code: 'UNAUTHORIZED' },
-		});
-	}
+	requireApiKeyScope(ctx, 'legal-documents:write');
 
 	const type = c.req.param('type') as LegalDocumentCurrentParams['type'];
 	const body = await c.req.json<LegalDocumentCurrentInput>();
@@ -38,6 +35,14 @@ export const syncCurrentLegalDocumentHandler = async (c: Context) => {
 			effectiveDate,
 		});
 
+		emitAuditEvent(ctx, 'legal_document.synced', {
+			policyId: policy.id,
+			type,
+			version: policy.version,
+			hash: policy.hash!,
+			effectiveDate: new Date(policy.effectiveDate).toISOString(),
+		});
+
 		return c.json({
 			policy: {
 				id: policy.id,
@@ -1,3 +1,4 @@
+import { exportPKCS8, exportSPKI, generateKeyPair } from 'jose';
 import { describe, expect, it } from 'vitest';
 import {
 	createLegalDocumentSnapshotToken,
@@ -145,4 +146,38 @@ describe('legal document snapshot token', () => {
 		expect(verified.payload.iss).toBe('consent.example.com');
 		expect(verified.payload.aud).toBe('legal-documents-api');
 	});
+
+	it('signs with EdDSA keys and rejects tokens from unknown kids', async () => {
+		const { publicKey, privateKey } = await generateKeyPair('EdDSA', {
+			extractable: true,
+		});
+		const signingKey = {
+			kid: 'legal-2026',
+			alg: 'EdDSA' as const,
+			publicKey: await exportSPKI(publicKey),
+			privateKey: await exportPKCS8(privateKey),
+		};
+		const tokenResult = await createLegalDocumentSnapshotToken({
+			options: { signingKeys: [signingKey] },
+			type: 'privacy_policy',
+			version: '2026-04-07',
+			hash: 'hash_123',
+			effectiveDate: '2026-04-07T00:00:00.000Z',
+		});
+
+		const verified = await verifyLegalDocumentSnapshotToken({
+			token: tokenResult?.token,
+			options: { signingKeys: [signingKey] },
+		});
+		expect(verified.valid).toBe(true);
+
+		const unknownKid = await verifyLegalDocumentSnapshotToken({
+			token: tokenResult?.token,
+			options: { signingKeys: [{ ...signingKey, kid: 'legal-2027' }] },
+		});
+		expect(unknownKid).toEqual({
+			valid: false,
+			reason: 'invalid',
+		});
+	});
 });
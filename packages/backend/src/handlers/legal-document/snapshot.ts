@@ -1,14 +1,14 @@
-import {
-	type JWTHeaderParameters,
-	type JWTPayload,
-	errors as joseErrors,
-	jwtVerify,
-	SignJWT,
-} from 'jose';
+import { type JWTPayload, errors as joseErrors, SignJWT } from 'jose';
 import type {
 	LegalDocumentPolicyType,
 	LegalDocumentSnapshotOptions,
 } from '~/types';
+import {
+	canSignSnapshots,
+	canVerifySnapshots,
+	signSnapshotJwt,
+	verifySnapshotJwt,
+} from '~/utils/snapshot-signing';
 
 export type LegalDocumentSnapshotVerificationFailureReason =
 	| 'missing'
@@ -39,15 +39,6 @@ export interface LegalDocumentSnapshotPayload extends JWTPayload {
 	exp: number;
 }
 
-interface JwtHeader extends JWTHeaderParameters {
-	alg: 'HS256';
-	typ: 'JWT';
-}
-
-const LEGAL_DOCUMENT_SNAPSHOT_JWT_HEADER: JwtHeader = {
-	alg: 'HS256',
-	typ: 'JWT',
-};
 const DEFAULT_ISSUER = 'c15t';
 const DEFAULT_AUDIENCE = 'c15t-legal-document-snapshot';
 
@@ -79,10 +70,6 @@ function resolveSnapshotAudience(params: {
 		: DEFAULT_AUDIENCE;
 }
 
-function getSigningKey(secret: string): Uint8Array {
-	return new TextEncoder().encode(secret);
-}
-
 function isLegalDocumentSnapshotPayload(
 	payload: JWTPayload
 ): payload is LegalDocumentSnapshotPayload {
@@ -111,7 +98,7 @@ export async function createLegalDocumentSnapshotToken(params: {
 	{ token: string; payload: LegalDocumentSnapshotPayload } | undefined
 > {
 	const { options } = params;
-	if (!options?.signingKey) {
+	if (!options || !canSignSnapshots(options)) {
 		return undefined;
 	}
 
@@ -135,11 +122,10 @@ export async function createLegalDocumentSnapshotToken(params: {
 		exp,
 	};
 
-	const token = await new SignJWT(payload)
-		.setProtectedHeader(LEGAL_DOCUMENT_SNAPSHOT_JWT_HEADER)
-		.setIssuedAt(iat)
-		.setExpirationTime(exp)
-		.sign(getSigningKey(options.signingKey));
+	const token = await signSnapshotJwt(
+		new SignJWT(payload).setIssuedAt(iat).setExpirationTime(exp),
+		options
+	);
 
 	return { token, payload };
 }
@@ -150,7 +136,7 @@ export async function verifyLegalDocumentSnapshotToken(params: {
 	tenantId?: string;
 }): Promise<LegalDocumentSnapshotVerificationResult> {
 	const { token, options, tenantId } = params;
-	if (!options?.signingKey) {
+	if (!options || !canVerifySnapshots(options)) {
 		return {
 			valid: false,
 			reason: 'missing',
@@ -172,21 +158,10 @@ export async function verifyLegalDocumentSnapshotToken(params: {
 	}
 
 	try {
-		const { payload, protectedHeader } = await jwtVerify(
-			token,
-			getSigningKey(options.signingKey),
-			{
-				issuer: resolveSnapshotIssuer(options),
-				audience: resolveSnapshotAudience({ options, tenantId }),
-			}
-		);
-		const header = protectedHeader as Partial<JwtHeader>;
-		if (header.alg !== 'HS256' || header.typ !== 'JWT') {
-			return {
-				valid: false,
-				reason: 'invalid',
-			};
-		}
+		const payload = await verifySnapshotJwt(token, options, {
+			issuer: resolveSnapshotIssuer(options),
+			audience: resolveSnapshotAudience({ options, tenantId }),
+		});
 		if (!isLegalDocumentSnapshotPayload(payload)) {
 			return {
 				valid: false,
@@ -0,0 +1,56 @@
+/**
+ * GET /legal-documents/:type/versions handler - List the releases of a legal document (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import type { LegalDocumentVersionsParams } from '@c15t/schema';
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { requireApiKeyScope } from '~/middleware/auth';
+import type { C15TContext } from '~/types';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+
+/**
+ * Lists every release of a legal document type, newest effective date
+ * first, with the number of consents given against each release.
+ */
+export const listLegalDocumentVersionsHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	const logger = ctx.logger;
+	logger.info('Handling GET /legal-documents/:type/versions request');
+
+	requireApiKeyScope(ctx, 'legal-documents:read');
+
+	const type = c.req.param('type') as LegalDocumentVersionsParams['type'];
+
+	try {
+		const policies = await ctx.registry.listLegalDocumentPolicyVersions(type);
+
+		return c.json({
+			type,
+			versions: policies.map((policy) => ({
+				id: policy.id,
+				version: policy.version,
+				hash: policy.hash ?? null,
+				effectiveDate: policy.effectiveDate,
+				isActive: policy.isActive,
+				acceptanceCount: policy.acceptanceCount,
+			})),
+		});
+	} catch (error) {
+		logger.error('Error in GET /legal-documents/:type/versions handler', {
+			error: extractErrorMessage(error),
+			errorType: error instanceof Error ? error.constructor.name : typeof error,
+		});
+
+		if (error instanceof HTTPException) {
+			throw error;
+		}
+
+		throw new HTTPException(500, {
+			message: 'Internal server error',
+			cause: { code: 'INTERNAL_SERVER_ERROR' },
+		});
+	}
+};
@@ -0,0 +1,42 @@
+/**
+ * POST /policy-packs handler - Create a draft policy pack version (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import type { CreatePolicyPackInput } from '@c15t/schema';
+import type { Context } from 'hono';
+import { requireApiKeyScope } from '~/middleware/auth';
+import type { C15TContext } from '~/types';
+import { throwPolicyPackError, validatePolicyPack } from './utils';
+
+/**
+ * Stores the policies as a new draft. Drafts are not served until they are
+ * published.
+ */
+export const createPolicyPackHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	ctx.logger.info('Handling POST /policy-packs request');
+
+	requireApiKeyScope(ctx, 'policy-packs:write');
+
+	const body = await c.req.json<CreatePolicyPackInput>();
+	const warnings = validatePolicyPack(ctx, body.policies);
+
+	try {
+		const policyPack = await ctx.registry.createPolicyPackDraft({
+			policies: body.policies,
+			description: body.description,
+			createdBy: ctx.apiKey?.name,
+		});
+
+		ctx.logger.info('Created policy pack draft', {
+			id: policyPack.id,
+			version: policyPack.version,
+		});
+
+		return c.json({ policyPack, warnings }, 201);
+	} catch (error) {
+		throwPolicyPackError(ctx, 'POST /policy-packs', error);
+	}
+};
@@ -0,0 +1,31 @@
+/**
+ * DELETE /policy-packs/:id handler - Delete a draft policy pack version (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import type { PolicyPackParams } from '@c15t/schema';
+import type { Context } from 'hono';
+import { requireApiKeyScope } from '~/middleware/auth';
+import type { C15TContext } from '~/types';
+import { throwPolicyPackError, throwPolicyPackNotFound } from './utils';
+
+export const deletePolicyPackHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	ctx.logger.info('Handling DELETE /policy-packs/:id request');
+
+	requireApiKeyScope(ctx, 'policy-packs:write');
+
+	const id = c.req.param('id') as PolicyPackParams['id'];
+
+	try {
+		const deleted = await ctx.registry.deletePolicyPackDraft(id);
+		if (!deleted) {
+			throwPolicyPackNotFound(id);
+		}
+
+		return c.body(null, 204);
+	} catch (error) {
+		throwPolicyPackError(ctx, 'DELETE /policy-packs/:id', error);
+	}
+};
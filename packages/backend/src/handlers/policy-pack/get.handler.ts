@@ -0,0 +1,30 @@
+/**
+ * GET /policy-packs/:id handler - Get a stored policy pack version (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import type { PolicyPackParams } from '@c15t/schema';
+import type { Context } from 'hono';
+import { requireApiKeyScope } from '~/middleware/auth';
+import type { C15TContext } from '~/types';
+import { throwPolicyPackError, throwPolicyPackNotFound } from './utils';
+
+export const getPolicyPackHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	ctx.logger.info('Handling GET /policy-packs/:id request');
+
+	requireApiKeyScope(ctx, 'policy-packs:read');
+
+	const id = c.req.param('id') as PolicyPackParams['id'];
+
+	try {
+		const policyPack = await ctx.registry.findPolicyPackVersionById(id);
+		if (!policyPack) {
+			throwPolicyPackNotFound(id);
+		}
+		return c.json({ policyPack });
+	} catch (error) {
+		throwPolicyPackError(ctx, 'GET /policy-packs/:id', error);
+	}
+};
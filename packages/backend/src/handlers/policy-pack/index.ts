@@ -0,0 +1,17 @@
+/**
+ * Policy pack handlers exports.
+ *
+ * @packageDocumentation
+ */
+
+export { createPolicyPackHandler } from './create.handler';
+export { deletePolicyPackHandler } from './delete.handler';
+export { getPolicyPackHandler } from './get.handler';
+export { listPolicyPacksHandler } from './list.handler';
+export { publishPolicyPackHandler } from './publish.handler';
+export {
+	invalidatePublishedPolicyPack,
+	loadPolicyPacks,
+	PUBLISHED_POLICY_PACK_TTL_MS,
+} from './published';
+export { updatePolicyPackHandler } from './update.handler';
@@ -0,0 +1,27 @@
+/**
+ * GET /policy-packs handler - List stored policy pack versions (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import type { PolicyPackStatus } from '@c15t/schema';
+import type { Context } from 'hono';
+import { requireApiKeyScope } from '~/middleware/auth';
+import type { C15TContext } from '~/types';
+import { throwPolicyPackError } from './utils';
+
+export const listPolicyPacksHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	ctx.logger.info('Handling GET /policy-packs request');
+
+	requireApiKeyScope(ctx, 'policy-packs:read');
+
+	const status = c.req.query('status') as PolicyPackStatus | undefined;
+
+	try {
+		const policyPacks = await ctx.registry.listPolicyPackVersions(status);
+		return c.json({ policyPacks });
+	} catch (error) {
+		throwPolicyPackError(ctx, 'GET /policy-packs', error);
+	}
+};
@@ -0,0 +1,54 @@
+/**
+ * POST /policy-packs/:id/publish handler - Publish a policy pack version (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import type { PolicyPackParams } from '@c15t/schema';
+import type { Context } from 'hono';
+import { requireApiKeyScope } from '~/middleware/auth';
+import type { C15TContext } from '~/types';
+import { invalidatePublishedPolicyPack } from './published';
+import {
+	throwPolicyPackError,
+	throwPolicyPackNotFound,
+	validatePolicyPack,
+} from './utils';
+
+/**
+ * Publishes a draft, or an archived version to roll back, and archives the
+ * version it replaces. `/init` serves the new version as soon as the cached
+ * one is dropped.
+ */
+export const publishPolicyPackHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	ctx.logger.info('Handling POST /policy-packs/:id/publish request');
+
+	requireApiKeyScope(ctx, 'policy-packs:write');
+
+	const id = c.req.param('id') as PolicyPackParams['id'];
+
+	try {
+		const existing = await ctx.registry.findPolicyPackVersionById(id);
+		if (!existing) {
+			throwPolicyPackNotFound(id);
+		}
+
+		// Revalidate in case IAB was toggled since the version was stored
+		const warnings = validatePolicyPack(ctx, existing.policies);
+
+		const policyPack = await ctx.registry.publishPolicyPackVersion(id, {
+			actor: ctx.apiKey?.name,
+			ipAddress: ctx.ipAddress,
+		});
+		if (!policyPack) {
+			throwPolicyPackNotFound(id);
+		}
+
+		await invalidatePublishedPolicyPack(ctx);
+
+		return c.json({ policyPack, warnings });
+	} catch (error) {
+		throwPolicyPackError(ctx, 'POST /policy-packs/:id/publish', error);
+	}
+};
@@ -0,0 +1,119 @@
+/**
+ * Published policy pack loading for `/init` and `POST /subjects`.
+ *
+ * The published version is cached per tenant in `cache.adapter`, or the
+ * in-memory cache when no adapter is configured, and the entry is deleted
+ * when a version is published. With the in-memory cache, other instances
+ * pick up a new version once `cacheTtlMs` has passed.
+ *
+ * @packageDocumentation
+ */
+
+import { createMemoryCacheAdapter } from '~/cache/adapters';
+import { createCacheKey } from '~/cache/keys';
+import type { CacheAdapter } from '~/cache/types';
+import type { C15TContext, PolicyConfig } from '~/types';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+
+/**
+ * Default TTL for the cached published version (1 minute).
+ */
+export const PUBLISHED_POLICY_PACK_TTL_MS = 60 * 1000;
+
+type PublishedPolicyPackContext = Pick<
+	C15TContext,
+	| 'appName'
+	| 'cache'
+	| 'logger'
+	| 'managedPolicyPacks'
+	| 'policyPacks'
+	| 'registry'
+	| 'tenantId'
+>;
+
+interface CachedPublishedPolicyPack {
+	/** `null` when no version has been published */
+	policies: PolicyConfig[] | null;
+}
+
+function getCacheAdapter(ctx: PublishedPolicyPackContext): CacheAdapter {
+	return ctx.cache?.adapter ?? createMemoryCacheAdapter();
+}
+
+function getCacheKey(ctx: PublishedPolicyPackContext): string {
+	return createCacheKey(
+		ctx.appName ?? 'c15t',
+		'policy-pack',
+		ctx.tenantId ?? 'default',
+		'published'
+	);
+}
+
+/**
+ * Returns the policy packs to resolve the request against.
+ *
+ * Uses the published version when `managedPolicyPacks` is enabled and one
+ * exists, and `policyPacks` otherwise. Database errors are logged and fall
+ * back to `policyPacks`, so `/init` keeps working before the migration runs.
+ */
+export async function loadPolicyPacks(
+	ctx: PublishedPolicyPackContext
+): Promise<PolicyConfig[] | undefined> {
+	if (!ctx.managedPolicyPacks?.enabled) {
+		return ctx.policyPacks;
+	}
+
+	const adapter = getCacheAdapter(ctx);
+	const cacheKey = getCacheKey(ctx);
+
+	try {
+		const cached = await adapter.get<CachedPublishedPolicyPack>(cacheKey);
+		if (cached) {
+			return cached.policies ?? ctx.policyPacks;
+		}
+	} catch (error) {
+		ctx.logger.warn('Policy pack cache read failed', {
+			error: extractErrorMessage(error),
+		});
+	}
+
+	let policies: PolicyConfig[] | null;
+	try {
+		const published = await ctx.registry.findPublishedPolicyPackVersion();
+		policies = published?.policies ?? null;
+	} catch (error) {
+		ctx.logger.error('Failed to load published policy pack', {
+			error: extractErrorMessage(error),
+		});
+		return ctx.policyPacks;
+	}
+
+	try {
+		await adapter.set<CachedPublishedPolicyPack>(
+			cacheKey,
+			{ policies },
+			ctx.managedPolicyPacks.cacheTtlMs ?? PUBLISHED_POLICY_PACK_TTL_MS
+		);
+	} catch (error) {
+		ctx.logger.warn('Policy pack cache write failed', {
+			error: extractErrorMessage(error),
+		});
+	}
+
+	return policies ?? ctx.policyPacks;
+}
+
+/**
+ * Drops the cached published version so the next request reads it again.
+ */
+export async function invalidatePublishedPolicyPack(
+	ctx: PublishedPolicyPackContext
+): Promise<void> {
+	try {
+		await getCacheAdapter(ctx).delete(getCacheKey(ctx));
+	} catch (error) {
+		ctx.logger.warn('Policy pack cache invalidation failed', {
+			error: extractErrorMessage(error),
+		});
+	}
+}
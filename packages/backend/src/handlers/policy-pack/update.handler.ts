@@ -0,0 +1,46 @@
+/**
+ * PATCH /policy-packs/:id handler - Update a draft policy pack version (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import type { PolicyPackParams, UpdatePolicyPackInput } from '@c15t/schema';
+import type { Context } from 'hono';
+import { requireApiKeyScope } from '~/middleware/auth';
+import type { C15TContext } from '~/types';
+import {
+	throwPolicyPackError,
+	throwPolicyPackNotFound,
+	validatePolicyPack,
+} from './utils';
+
+/**
+ * Replaces the policies or description of a draft. Published and archived
+ * versions are immutable; create a new draft instead.
+ */
+export const updatePolicyPackHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	ctx.logger.info('Handling PATCH /policy-packs/:id request');
+
+	requireApiKeyScope(ctx, 'policy-packs:write');
+
+	const id = c.req.param('id') as PolicyPackParams['id'];
+	const body = await c.req.json<UpdatePolicyPackInput>();
+	const warnings = body.policies
+		? validatePolicyPack(ctx, body.policies)
+		: undefined;
+
+	try {
+		const policyPack = await ctx.registry.updatePolicyPackDraft(id, {
+			policies: body.policies,
+			description: body.description,
+		});
+		if (!policyPack) {
+			throwPolicyPackNotFound(id);
+		}
+
+		return c.json({ policyPack, warnings });
+	} catch (error) {
+		throwPolicyPackError(ctx, 'PATCH /policy-packs/:id', error);
+	}
+};
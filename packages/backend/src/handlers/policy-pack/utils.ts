@@ -0,0 +1,67 @@
+import { HTTPException } from 'hono/http-exception';
+import { PolicyPackNotDraftError } from '~/db/registry/policy-pack-version';
+import { inspectPolicies } from '~/handlers/init/policy';
+import type { C15TContext, PolicyConfig } from '~/types';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+
+/**
+ * Validates policies before they are stored.
+ *
+ * @returns Non-fatal warnings to include in the response
+ * @throws {HTTPException} 422 with `POLICY_PACK_INVALID` when the pack has
+ * errors
+ */
+export function validatePolicyPack(
+	ctx: C15TContext,
+	policies: PolicyConfig[]
+): string[] {
+	const result = inspectPolicies(policies, {
+		iabEnabled: ctx.iab?.enabled === true,
+	});
+
+	if (result.errors.length > 0) {
+		throw new HTTPException(422, {
+			message: result.errors.join('; '),
+			cause: { code: 'POLICY_PACK_INVALID', errors: result.errors },
+		});
+	}
+
+	return result.warnings;
+}
+
+export function throwPolicyPackNotFound(id: string): never {
+	throw new HTTPException(404, {
+		message: `Policy pack version ${id} not found`,
+		cause: { code: 'POLICY_PACK_NOT_FOUND', id },
+	});
+}
+
+/**
+ * Logs a handler error and rethrows it as an `HTTPException`.
+ */
+export function throwPolicyPackError(
+	ctx: C15TContext,
+	route: string,
+	error: unknown
+): never {
+	ctx.logger.error(`Error in ${route} handler`, {
+		error: extractErrorMessage(error),
+		errorType: error instanceof Error ? error.constructor.name : typeof error,
+	});
+
+	if (error instanceof PolicyPackNotDraftError) {
+		throw new HTTPException(409, {
+			message: error.message,
+			cause: { code: 'POLICY_PACK_NOT_DRAFT' },
+		});
+	}
+
+	if (error instanceof HTTPException) {
+		throw error;
+	}
+
+	throw new HTTPException(500, {
+		message: 'Internal server error',
+		cause: { code: 'INTERNAL_SERVER_ERROR' },
+	});
+}
@@ -0,0 +1,65 @@
+/**
+ * POST /policies/simulate handler - Preview the policy a visitor would get (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import type { SimulatePolicyInput } from '@c15t/schema';
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { loadPolicyPacks } from '~/handlers/policy-pack/published';
+import { requireApiKeyScope } from '~/middleware/auth';
+import type { C15TContext } from '~/types';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+import { simulatePolicy } from './simulate';
+
+/**
+ * Resolves what `/init` would return for the described visitor.
+ *
+ * Uses the same policy packs as `/init`, including the published managed
+ * pack. Nothing is written to the database.
+ */
+export const simulatePolicyHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	const logger = ctx.logger;
+	logger.info('Handling POST /policies/simulate request');
+
+	requireApiKeyScope(ctx, 'policies:read');
+
+	const input = await c.req.json<SimulatePolicyInput>();
+
+	try {
+		const result = await simulatePolicy(input, {
+			policies: await loadPolicyPacks(ctx),
+			customTranslations: ctx.customTranslations,
+			disableGeoLocation: ctx.disableGeoLocation,
+			i18n: ctx.i18n,
+			iab: ctx.iab,
+			logger,
+		});
+
+		logger.debug('Simulated policy decision', {
+			country: result.location.countryCode,
+			region: result.location.regionCode,
+			policyId: result.decision?.policy.id,
+			matchedBy: result.decision?.matchedBy,
+			isFallback: result.isFallback,
+		});
+
+		return c.json(result);
+	} catch (error) {
+		logger.error('Error in POST /policies/simulate handler', {
+			error: extractErrorMessage(error),
+			errorType: error instanceof Error ? error.constructor.name : typeof error,
+		});
+
+		if (error instanceof HTTPException) {
+			throw error;
+		}
+
+		throw new HTTPException(500, {
+			message: 'Internal server error',
+			cause: { code: 'INTERNAL_SERVER_ERROR' },
+		});
+	}
+};
@@ -0,0 +1,104 @@
+/**
+ * Policy simulation for support and QA.
+ *
+ * Resolves the policy, translations profile and GPC handling that `/init`
+ * would produce for a visitor, without a request from that visitor and
+ * without writing a runtime policy decision.
+ *
+ * @packageDocumentation
+ */
+
+import type { SimulatePolicyInput, SimulatePolicyOutput } from '@c15t/schema';
+import { createPolicyFingerprint } from '@c15t/schema/types';
+import { GPC_OPT_OUT_CATEGORIES } from '~/edge/resolve-consent';
+import { getJurisdiction } from '~/handlers/init/geo';
+import { resolvePolicySync } from '~/handlers/init/policy';
+import { resolveNoPolicyFallback } from '~/handlers/init/resolve-init';
+import {
+	getTranslationProfile,
+	getTranslationsData,
+} from '~/handlers/init/translations';
+import type { C15TOptions, PolicyConfig } from '~/types';
+
+export interface SimulatePolicyOptions
+	extends Pick<
+		C15TOptions,
+		'customTranslations' | 'disableGeoLocation' | 'i18n' | 'iab'
+	> {
+	policies?: PolicyConfig[];
+	logger?: {
+		warn: (message: string, metadata?: Record<string, unknown>) => void;
+	};
+}
+
+export async function simulatePolicy(
+	input: SimulatePolicyInput,
+	options: SimulatePolicyOptions
+): Promise<SimulatePolicyOutput> {
+	const location = options.disableGeoLocation
+		? { countryCode: null, regionCode: null }
+		: {
+				countryCode: input.country?.toUpperCase() ?? null,
+				regionCode: input.region?.toUpperCase() ?? null,
+			};
+	const jurisdiction = getJurisdiction(location, options);
+
+	// Same rules as resolveInitPayload: configured packs always serve a policy,
+	// falling back to no banner when none applies.
+	const hasExplicitPolicyPack = options.policies !== undefined;
+	const isExplicitEmptyPolicyPack =
+		hasExplicitPolicyPack && (options.policies?.length ?? 0) === 0;
+	const match = isExplicitEmptyPolicyPack
+		? undefined
+		: resolvePolicySync({
+				policies: options.policies,
+				countryCode: location.countryCode,
+				regionCode: location.regionCode,
+				jurisdiction,
+				iabEnabled: options.iab?.enabled === true,
+			});
+	const decision = match
+		? {
+				policy: match.policy,
+				matchedBy: match.matchedBy,
+				fingerprint: await createPolicyFingerprint(match.policy),
+			}
+		: null;
+	const isFallback = hasExplicitPolicyPack && !decision;
+	const policy = hasExplicitPolicyPack
+		? (decision?.policy ?? resolveNoPolicyFallback())
+		: null;
+
+	const translationOptions = {
+		i18n: options.i18n,
+		policyI18n: policy?.i18n,
+		logger: options.logger,
+	};
+	const { language } = getTranslationsData(
+		input.language ?? null,
+		options.customTranslations,
+		translationOptions
+	);
+	const profile = getTranslationProfile({
+		...translationOptions,
+		customTranslations: options.customTranslations,
+	});
+
+	const signal = input.gpc === true;
+	const honored = signal && policy?.consent?.gpc !== false;
+	const preselectedCategories = (
+		policy?.consent?.preselectedCategories ?? []
+	).filter((category) => !honored || !GPC_OPT_OUT_CATEGORIES.has(category));
+
+	return {
+		jurisdiction,
+		location,
+		decision,
+		policy,
+		isFallback,
+		translations: { language, profile },
+		gpc: { signal, honored },
+		preselectedCategories,
+		userAgent: input.userAgent ?? null,
+	};
+}
@@ -1,3 +1,4 @@
+import { exportJWK, generateKeyPair } from 'jose';
 import { describe, expect, it } from 'vitest';
 import {
 	createPolicySnapshotToken,
@@ -218,4 +219,49 @@ describe('policy snapshot token', () => {
 		expect(verified.payload.iss).toBe('consent.example.com');
 		expect(verified.payload.aud).toBe('policy-snapshot-api');
 	});
+
+	it('verifies ES256 tokens with only the public key', async () => {
+		const { publicKey, privateKey } = await generateKeyPair('ES256', {
+			extractable: true,
+		});
+		const signingKey = {
+			kid: 'snapshot-2026',
+			alg: 'ES256' as const,
+			publicKey: await exportJWK(publicKey),
+		};
+		const tokenResult = await createPolicySnapshotToken({
+			options: {
+				signingKeys: [
+					{ ...signingKey, privateKey: await exportJWK(privateKey) },
+				],
+			},
+			policyId: 'policy_default',
+			fingerprint: 'abc123',
+			matchedBy: 'default',
+			country: null,
+			region: null,
+			jurisdiction: 'GDPR',
+			model: 'opt-in',
+		});
+
+		const verified = await verifyPolicySnapshotToken({
+			token: tokenResult?.token,
+			options: { signingKeys: [signingKey] },
+		});
+		expect(verified.valid).toBe(true);
+
+		// A verify-only deployment cannot mint tokens
+		await expect(
+			createPolicySnapshotToken({
+				options: { signingKeys: [signingKey] },
+				policyId: 'policy_default',
+				fingerprint: 'abc123',
+				matchedBy: 'default',
+				country: null,
+				region: null,
+				jurisdiction: 'GDPR',
+				model: 'opt-in',
+			})
+		).resolves.toBeUndefined();
+	});
 });
@@ -1,10 +1,4 @@
-import {
-	type JWTHeaderParameters,
-	type JWTPayload,
-	errors as joseErrors,
-	jwtVerify,
-	SignJWT,
-} from 'jose';
+import { type JWTPayload, errors as joseErrors, SignJWT } from 'jose';
 import type {
 	JurisdictionCode,
 	PolicyModel,
@@ -13,6 +7,12 @@ import type {
 	PolicyUiMode,
 	PolicyUiSurfaceConfig,
 } from '~/types';
+import {
+	canSignSnapshots,
+	canVerifySnapshots,
+	signSnapshotJwt,
+	verifySnapshotJwt,
+} from '~/utils/snapshot-signing';
 import type { PolicyMatchedBy } from '../init/policy';
 
 export type PolicySnapshotVerificationFailureReason =
@@ -84,15 +84,6 @@ export interface PolicySnapshotPayload extends JWTPayload {
 	exp: number;
 }
 
-interface JwtHeader extends JWTHeaderParameters {
-	alg: 'HS256';
-	typ: 'JWT';
-}
-
-const POLICY_SNAPSHOT_JWT_HEADER: JwtHeader = {
-	alg: 'HS256',
-	typ: 'JWT',
-};
 const DEFAULT_POLICY_SNAPSHOT_ISSUER = 'c15t';
 const DEFAULT_POLICY_SNAPSHOT_AUDIENCE = 'c15t-policy-snapshot';
 
@@ -114,10 +105,6 @@ function resolveSnapshotAudience(params: {
 		: DEFAULT_POLICY_SNAPSHOT_AUDIENCE;
 }
 
-function getSigningKey(secret: string): Uint8Array {
-	return new TextEncoder().encode(secret);
-}
-
 function isPolicySnapshotPayload(
 	payload: JWTPayload
 ): payload is PolicySnapshotPayload {
@@ -165,7 +152,7 @@ export async function createPolicySnapshotToken(params: {
 	};
 }): Promise<{ token: string; payload: PolicySnapshotPayload } | undefined> {
 	const { options } = params;
-	if (!options?.signingKey) {
+	if (!options || !canSignSnapshots(options)) {
 		return undefined;
 	}
 
@@ -204,11 +191,10 @@ export async function createPolicySnapshotToken(params: {
 		exp,
 	};
 
-	const token = await new SignJWT(payload)
-		.setProtectedHeader(POLICY_SNAPSHOT_JWT_HEADER)
-		.setIssuedAt(iat)
-		.setExpirationTime(exp)
-		.sign(getSigningKey(options.signingKey));
+	const token = await signSnapshotJwt(
+		new SignJWT(payload).setIssuedAt(iat).setExpirationTime(exp),
+		options
+	);
 
 	return {
 		token,
@@ -222,7 +208,7 @@ export async function verifyPolicySnapshotToken(params: {
 	tenantId?: string;
 }): Promise<PolicySnapshotVerificationResult> {
 	const { token, options, tenantId } = params;
-	if (!options?.signingKey) {
+	if (!options || !canVerifySnapshots(options)) {
 		return {
 			valid: false,
 			reason: 'missing',
@@ -244,21 +230,10 @@ export async function verifyPolicySnapshotToken(params: {
 	}
 
 	try {
-		const { payload, protectedHeader } = await jwtVerify(
-			token,
-			getSigningKey(options.signingKey),
-			{
-				issuer: resolveSnapshotIssuer(options),
-				audience: resolveSnapshotAudience({ options, tenantId }),
-			}
-		);
-		const header = protectedHeader as Partial<JwtHeader>;
-		if (header.alg !== 'HS256' || header.typ !== 'JWT') {
-			return {
-				valid: false,
-				reason: 'invalid',
-			};
-		}
+		const payload = await verifySnapshotJwt(token, options, {
+			issuer: resolveSnapshotIssuer(options),
+			audience: resolveSnapshotAudience({ options, tenantId }),
+		});
 		if (!isPolicySnapshotPayload(payload)) {
 			return {
 				valid: false,
@@ -0,0 +1,185 @@
+import { Hono } from 'hono';
+import { describe, expect, it, vi } from 'vitest';
+import { withTenantScope } from '~/db/tenant-scope';
+import { createSubjectRoutes } from '~/routes/subject';
+import { createInMemoryDb, type InMemoryTables } from '~/testing/in-memory-db';
+import type { C15TContext } from '~/types';
+
+function seed(tables: InMemoryTables) {
+	tables.subject = [
+		{ id: 'sub_a1', externalId: 'user_123', tenantId: 'tenant-a' },
+		{ id: 'sub_a2', externalId: 'user_123', tenantId: 'tenant-a' },
+		{ id: 'sub_b1', externalId: 'user_123', tenantId: 'tenant-b' },
+	];
+	tables.consent = [
+		{
+			id: 'cns_a1',
+			subjectId: 'sub_a1',
+			ipAddress: '127.0.0.0',
+			userAgent: 'TestAgent/1.0',
+			metadata: { source: 'banner' },
+			tenantId: 'tenant-a',
+		},
+		{
+			id: 'cns_b1',
+			subjectId: 'sub_b1',
+			ipAddress: '127.0.0.0',
+			userAgent: 'TestAgent/1.0',
+			metadata: null,
+			tenantId: 'tenant-b',
+		},
+	];
+	tables.auditLog = [
+		{
+			id: 'log_a1',
+			subjectId: 'sub_a2',
+			entityType: 'subject',
+			actionType: 'identify_user',
+			ipAddress: '127.0.0.0',
+			changes: { externalId: { from: null, to: 'user_123' } },
+			tenantId: 'tenant-a',
+		},
+	];
+}
+
+function createApp(options?: { apiKeyAuthenticated?: boolean }) {
+	const tables: InMemoryTables = {};
+	seed(tables);
+
+	const c15tContext = {
+		logger: {
+			info: vi.fn(),
+			debug: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+		},
+		db: withTenantScope(createInMemoryDb(tables), 'tenant-a'),
+		apiKeyAuthenticated: options?.apiKeyAuthenticated ?? true,
+	} as unknown as C15TContext;
+
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+	app.use('*', async (c, next) => {
+		c.set('c15tContext', c15tContext);
+		await next();
+	});
+	app.route('/subjects', createSubjectRoutes());
+
+	return { app, tables };
+}
+
+const rowsOf = (tables: InMemoryTables, table: string) => tables[table] ?? [];
+
+describe('DELETE /subjects', () => {
+	it('rejects requests without API key authentication', async () => {
+		const { app, tables } = createApp({ apiKeyAuthenticated: false });
+
+		const response = await app.request(
+			'http://localhost/subjects?externalId=user_123',
+			{ method: 'DELETE' }
+		);
+
+		expect(response.status).toBe(401);
+		expect(rowsOf(tables, 'subject')).toHaveLength(3);
+	});
+
+	it('requires an externalId or subjectId', async () => {
+		const { app } = createApp();
+
+		const response = await app.request('http://localhost/subjects', {
+			method: 'DELETE',
+		});
+
+		expect(response.status).toBe(422);
+	});
+
+	it('returns 404 when no subject matches', async () => {
+		const { app } = createApp();
+
+		const response = await app.request(
+			'http://localhost/subjects?externalId=user_missing',
+			{ method: 'DELETE' }
+		);
+
+		expect(response.status).toBe(404);
+	});
+
+	it('deletes subject data within the tenant and leaves a tombstone', async () => {
+		const { app, tables } = createApp();
+
+		const response = await app.request(
+			'http://localhost/subjects?externalId=user_123',
+			{ method: 'DELETE' }
+		);
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(body).toMatchObject({
+			mode: 'delete',
+			counts: { subjects: 2, consents: 1, auditLogs: 1 },
+		});
+
+		// Tenant B is untouched
+		expect(rowsOf(tables, 'subject').map((s) => s.id)).toEqual(['sub_b1']);
+		expect(rowsOf(tables, 'consent').map((c) => c.id)).toEqual(['cns_b1']);
+
+		const [tombstone] = rowsOf(tables, 'auditLog');
+		expect(rowsOf(tables, 'auditLog')).toHaveLength(1);
+		expect(tombstone).toMatchObject({
+			id: body.erasureId,
+			subjectId: null,
+			actionType: 'erase_subject',
+			ipAddress: null,
+			userAgent: null,
+			tenantId: 'tenant-a',
+		});
+		expect(tombstone?.metadata.subjectIdHashes).toHaveLength(2);
+		expect(JSON.stringify(tombstone)).not.toContain('user_123');
+		expect(JSON.stringify(tombstone)).not.toContain('sub_a1');
+	});
+
+	it('cannot erase a subject owned by another tenant', async () => {
+		const { app, tables } = createApp();
+
+		const response = await app.request(
+			'http://localhost/subjects?subjectId=sub_b1',
+			{ method: 'DELETE' }
+		);
+
+		expect(response.status).toBe(404);
+		expect(rowsOf(tables, 'subject')).toHaveLength(3);
+	});
+
+	it('clears identifying fields when mode=pseudonymize', async () => {
+		const { app, tables } = createApp();
+
+		const response = await app.request(
+			'http://localhost/subjects?subjectId=sub_a1&mode=pseudonymize',
+			{ method: 'DELETE' }
+		);
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(body.mode).toBe('pseudonymize');
+		expect(body.counts).toEqual({ subjects: 1, consents: 1, auditLogs: 0 });
+
+		const subject = rowsOf(tables, 'subject').find((s) => s.id === 'sub_a1');
+		expect(subject).toMatchObject({
+			externalId: null,
+			identityProvider: 'erased',
+		});
+
+		const consent = rowsOf(tables, 'consent').find((c) => c.id === 'cns_a1');
+		expect(consent).toMatchObject({
+			ipAddress: null,
+			userAgent: null,
+			metadata: null,
+		});
+
+		// Other subjects keep their identifiers
+		const sibling = rowsOf(tables, 'subject').find((s) => s.id === 'sub_a2');
+		expect(sibling?.externalId).toBe('user_123');
+		expect(
+			rowsOf(tables, 'auditLog').find((l) => l.id === 'log_a1')?.changes
+		).not.toBeNull();
+	});
+});
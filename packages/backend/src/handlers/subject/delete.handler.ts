@@ -0,0 +1,73 @@
+/**
+ * DELETE /subjects handler - Erase subjects by externalId or subjectId (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { requireApiKeyScope } from '~/middleware/auth';
+import type { C15TContext } from '~/types';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+import { eraseSubjects } from '../utils/subject-erasure';
+
+/**
+ * Handles right-to-erasure requests.
+ *
+ * This endpoint requires API key authentication. Matching subjects and their
+ * consent and audit log rows are deleted (or pseudonymized with
+ * `mode=pseudonymize`), and a non-identifying tombstone audit entry is
+ * written as proof of the erasure.
+ */
+export const deleteSubjectsHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	const logger = ctx.logger;
+	logger.info('Handling DELETE /subjects request');
+
+	// Check API key authentication
+	requireApiKeyScope(ctx, 'subjects:write');
+
+	const externalId = c.req.query('externalId') || undefined;
+	const subjectId = c.req.query('subjectId') || undefined;
+	const mode =
+		c.req.query('mode') === 'pseudonymize' ? 'pseudonymize' : 'delete';
+
+	if (!externalId && !subjectId) {
+		throw new HTTPException(422, {
+			message: 'externalId or subjectId query parameter is required',
+			cause: { code: 'SUBJECT_IDENTIFIER_REQUIRED' },
+		});
+	}
+
+	logger.debug('Request parameters', { externalId, subjectId, mode });
+
+	try {
+		const result = await eraseSubjects(
+			{ externalId, subjectId, mode },
+			{ db: ctx.db, logger }
+		);
+
+		if (!result) {
+			throw new HTTPException(404, {
+				message: 'Subject not found',
+				cause: { code: 'SUBJECT_NOT_FOUND' },
+			});
+		}
+
+		return c.json(result);
+	} catch (error) {
+		logger.error('Error in DELETE /subjects handler', {
+			error: extractErrorMessage(error),
+			errorType: error instanceof Error ? error.constructor.name : typeof error,
+		});
+
+		if (error instanceof HTTPException) {
+			throw error;
+		}
+
+		throw new HTTPException(500, {
+			message: 'Internal server error',
+			cause: { code: 'INTERNAL_SERVER_ERROR' },
+		});
+	}
+};
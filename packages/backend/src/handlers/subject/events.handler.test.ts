@@ -0,0 +1,208 @@
+import { Hono } from 'hono';
+import { describe, expect, it, vi } from 'vitest';
+import { createSubjectRoutes } from '~/routes/subject';
+import {
+	createMemorySubjectEventBus,
+	publishSubjectEvent,
+} from '~/subject-events';
+import type { C15TContext } from '~/types';
+
+const SUBJECTS: Record<string, Record<string, any>> = {
+	sub_phone: {
+		id: 'sub_phone',
+		externalId: 'user_123',
+		identityProvider: 'auth0',
+	},
+	sub_desktop: {
+		id: 'sub_desktop',
+		externalId: 'user_123',
+		identityProvider: 'auth0',
+	},
+	sub_other: { id: 'sub_other', externalId: null, identityProvider: null },
+};
+
+const CONSENT = {
+	type: 'consent.recorded' as const,
+	data: {
+		consentId: 'cns_1',
+		type: 'cookie_banner',
+		preferences: { necessary: true, marketing: false },
+		consentAction: 'custom',
+		givenAt: '2026-01-01T00:00:00.000Z',
+	},
+};
+
+function createApp() {
+	const bus = createMemorySubjectEventBus();
+	const c15tContext = {
+		logger: {
+			info: vi.fn(),
+			debug: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+		},
+		db: {
+			findFirst: vi.fn(async (_table: string, opts: any) => {
+				const subject = Object.values(SUBJECTS).find((row) =>
+					opts.where(
+						(col: string, _op: string, val: unknown) => row[col] === val
+					)
+				);
+				return subject ?? null;
+			}),
+			updateMany: vi.fn(),
+			create: vi.fn(),
+			transaction: vi.fn(async (fn: (tx: unknown) => unknown) =>
+				fn(c15tContext.db)
+			),
+		},
+		tenantId: 'tenant-a',
+		subjectEvents: { bus, heartbeatIntervalMs: 60_000 },
+	} as unknown as C15TContext;
+
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+	app.use('*', async (c, next) => {
+		c.set('c15tContext', c15tContext);
+		await next();
+	});
+	app.route('/subjects', createSubjectRoutes());
+
+	return { app, ctx: c15tContext };
+}
+
+type SSEMessage = { event?: string; id?: string; data?: string };
+
+/**
+ * Reads SSE messages from a response, skipping keep-alive comments.
+ */
+function readEvents(response: Response) {
+	const reader = response.body!.getReader();
+	const decoder = new TextDecoder();
+	const pending: SSEMessage[] = [];
+	let buffer = '';
+
+	const next = async (count: number): Promise<SSEMessage[]> => {
+		while (pending.length < count) {
+			const { value, done } = await reader.read();
+			if (done) break;
+			buffer += decoder.decode(value, { stream: true });
+
+			const messages = buffer.split('\n\n');
+			buffer = messages.pop() ?? '';
+			for (const message of messages) {
+				const fields: SSEMessage = Object.fromEntries(
+					message
+						.split('\n')
+						.filter((line) => !line.startsWith(':'))
+						.map((line) => {
+							const index = line.indexOf(':');
+							return [line.slice(0, index), line.slice(index + 1).trim()];
+						})
+				);
+				if (fields.event) pending.push(fields);
+			}
+		}
+		return pending.splice(0, count);
+	};
+
+	return { next, close: () => reader.cancel() };
+}
+
+describe('GET /subjects/:id/events', () => {
+	it('returns 404 for an unknown subject', async () => {
+		const { app } = createApp();
+
+		const response = await app.request(
+			'http://localhost/subjects/sub_missing/events'
+		);
+
+		expect(response.status).toBe(404);
+	});
+
+	it('pushes consents recorded on any device of the same user', async () => {
+		const { app, ctx } = createApp();
+
+		const response = await app.request(
+			'http://localhost/subjects/sub_desktop/events'
+		);
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+		const stream = readEvents(response);
+		const [ready] = await stream.next(1);
+		expect(ready).toMatchObject({
+			event: 'ready',
+			data: JSON.stringify({ subjectId: 'sub_desktop' }),
+		});
+
+		// Same external ID: published to both the subject and the user channel
+		publishSubjectEvent(ctx, SUBJECTS.sub_phone!, CONSENT);
+		// Unrelated subject: not delivered
+		publishSubjectEvent(ctx, SUBJECTS.sub_other!, CONSENT);
+		publishSubjectEvent(ctx, SUBJECTS.sub_desktop!, {
+			...CONSENT,
+			data: { ...CONSENT.data, consentId: 'cns_2' },
+		});
+
+		const events = await stream.next(2);
+		await stream.close();
+
+		expect(events.map((event) => event.event)).toEqual([
+			'consent.recorded',
+			'consent.recorded',
+		]);
+		expect(JSON.parse(events[0]?.data ?? '')).toEqual(CONSENT.data);
+		expect(events[0]?.id).toMatch(/^evt_/);
+		expect(JSON.parse(events[1]?.data ?? '').consentId).toBe('cns_2');
+	});
+
+	it('follows a link made while the stream is open', async () => {
+		const { app, ctx } = createApp();
+
+		const response = await app.request(
+			'http://localhost/subjects/sub_other/events'
+		);
+		const stream = readEvents(response);
+		await stream.next(1);
+
+		const patched = await app.request('http://localhost/subjects/sub_other', {
+			method: 'PATCH',
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify({
+				externalId: 'user_123',
+				identityProvider: 'auth0',
+			}),
+		});
+		expect(patched.status).toBe(200);
+
+		const [linked] = await stream.next(1);
+		expect(linked?.event).toBe('subject.linked');
+		expect(JSON.parse(linked?.data ?? '')).toEqual({
+			externalId: 'user_123',
+			identityProvider: 'auth0',
+		});
+
+		// Recorded on another device of the newly linked user
+		publishSubjectEvent(ctx, SUBJECTS.sub_phone!, CONSENT);
+
+		const [consent] = await stream.next(1);
+		await stream.close();
+
+		expect(consent?.event).toBe('consent.recorded');
+		expect(JSON.parse(consent?.data ?? '')).toEqual(CONSENT.data);
+	});
+
+	it('keeps tenants apart', () => {
+		const bus = createMemorySubjectEventBus();
+		const listener = vi.fn();
+		bus.subscribe('c15t:tenant-b:subject:sub_phone', listener);
+
+		publishSubjectEvent(
+			{ subjectEvents: { bus }, tenantId: 'tenant-a' } as C15TContext,
+			SUBJECTS.sub_phone!,
+			CONSENT
+		);
+
+		expect(listener).not.toHaveBeenCalled();
+	});
+});
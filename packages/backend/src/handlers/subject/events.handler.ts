@@ -0,0 +1,181 @@
+/**
+ * GET /subjects/:id/events handler - Stream consent changes for a subject.
+ *
+ * @packageDocumentation
+ */
+
+import type { SubjectEventsParams } from '@c15t/schema';
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { streamSSE } from 'hono/streaming';
+import { getSubjectEventChannels } from '~/subject-events';
+import type { C15TContext, SubjectEvent } from '~/types';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 25_000;
+/** Event IDs remembered to drop the copy delivered on a second channel */
+const MAX_SEEN_EVENT_IDS = 100;
+
+/**
+ * Opens a Server-Sent Events stream of consents recorded for the subject,
+ * and for other subjects linked to the same external ID.
+ *
+ * Like `GET /subjects/:id`, knowing the subject ID is enough to subscribe.
+ * A `ready` event is sent once the stream is subscribed, followed by one
+ * `consent.recorded` event per consent and periodic keep-alive comments.
+ * When the subject is linked to an external ID while the stream is open, a
+ * `subject.linked` event is sent and the stream starts listening on that
+ * user's channel.
+ */
+export const subjectEventsHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	const logger = ctx.logger;
+	logger.info('Handling GET /subjects/:id/events request');
+
+	const subjectId = c.req.param('id') as SubjectEventsParams['id'];
+	const bus = ctx.subjectEvents?.bus;
+
+	let channels: string[];
+	try {
+		if (!bus) {
+			throw new HTTPException(501, {
+				message: 'Subject events are not configured',
+				cause: { code: 'SUBJECT_EVENTS_UNAVAILABLE' },
+			});
+		}
+
+		const subject = await ctx.db.findFirst('subject', {
+			where: (b) => b('id', '=', subjectId),
+		});
+
+		if (!subject) {
+			throw new HTTPException(404, {
+				message: 'Subject not found',
+				cause: { code: 'SUBJECT_NOT_FOUND', subjectId },
+			});
+		}
+
+		channels = getSubjectEventChannels(subject, ctx.tenantId);
+	} catch (error) {
+		logger.error('Error in GET /subjects/:id/events handler', {
+			error: extractErrorMessage(error),
+			errorType: error instanceof Error ? error.constructor.name : typeof error,
+		});
+
+		if (error instanceof HTTPException) {
+			throw error;
+		}
+
+		throw new HTTPException(500, {
+			message: 'Internal server error',
+			cause: { code: 'INTERNAL_SERVER_ERROR' },
+		});
+	}
+
+	const heartbeatIntervalMs =
+		ctx.subjectEvents?.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+
+	return streamSSE(
+		c,
+		async (stream) => {
+			const seen: string[] = [];
+			// Writes are chained so events are never interleaved
+			let writes = Promise.resolve();
+			const subscriptions = new Map<string, Promise<() => void>>();
+
+			const release = (subscription: Promise<() => void>) => {
+				subscription.then(
+					(remove) => remove(),
+					() => undefined
+				);
+			};
+
+			// Moves the stream onto `next`, keeping channels it already listens on
+			const subscribe = (next: string[]) => {
+				for (const [channel, subscription] of subscriptions) {
+					if (!next.includes(channel)) {
+						subscriptions.delete(channel);
+						release(subscription);
+					}
+				}
+				for (const channel of next) {
+					if (!subscriptions.has(channel)) {
+						subscriptions.set(
+							channel,
+							Promise.resolve(bus.subscribe(channel, send))
+						);
+					}
+				}
+				return Promise.all(subscriptions.values());
+			};
+
+			const send = (event: SubjectEvent) => {
+				if (seen.includes(event.id)) {
+					return;
+				}
+				seen.push(event.id);
+				if (seen.length > MAX_SEEN_EVENT_IDS) {
+					seen.shift();
+				}
+
+				// A stream opened before the link joins the external ID channel
+				if (
+					event.type === 'subject.linked' &&
+					!stream.aborted &&
+					!stream.closed
+				) {
+					subscribe(
+						getSubjectEventChannels(
+							{ id: subjectId, ...event.data },
+							ctx.tenantId
+						)
+					).catch((error) => {
+						logger.warn('Failed to subscribe to linked subject events', {
+							subjectId,
+							error: extractErrorMessage(error),
+						});
+					});
+				}
+
+				writes = writes.then(() =>
+					stream.writeSSE({
+						id: event.id,
+						event: event.type,
+						data: JSON.stringify(event.data),
+					})
+				);
+			};
+
+			const unsubscribe = () => {
+				for (const subscription of subscriptions.values()) {
+					release(subscription);
+				}
+				subscriptions.clear();
+			};
+			stream.onAbort(unsubscribe);
+			await subscribe(channels);
+
+			try {
+				await stream.writeSSE({
+					event: 'ready',
+					data: JSON.stringify({ subjectId }),
+				});
+
+				while (!stream.aborted && !stream.closed) {
+					await stream.sleep(heartbeatIntervalMs);
+					writes = writes.then(async () => {
+						await stream.write(': heartbeat\n\n');
+					});
+					await writes;
+				}
+			} finally {
+				unsubscribe();
+			}
+		},
+		async (error) => {
+			logger.warn('Subject event stream closed with an error', {
+				error: extractErrorMessage(error),
+			});
+		}
+	);
+};
@@ -0,0 +1,217 @@
+import { Hono } from 'hono';
+import { describe, expect, it, vi } from 'vitest';
+import { createSubjectRoutes } from '~/routes/subject';
+import type { C15TContext } from '~/types';
+
+const SUBJECT = {
+	id: 'sub_export1',
+	externalId: 'user_123',
+	identityProvider: 'auth0',
+	createdAt: new Date('2026-01-01T00:00:00.000Z'),
+	updatedAt: new Date('2026-01-02T00:00:00.000Z'),
+};
+
+const CONSENT = {
+	id: 'cns_1',
+	subjectId: SUBJECT.id,
+	domainId: 'dom_1',
+	policyId: 'pol_1',
+	purposeIds: { json: ['pur_1', 'pur_2'] },
+	metadata: { json: { source: 'banner' } },
+	ipAddress: '127.0.0.0',
+	userAgent: 'TestAgent/1.0',
+	givenAt: new Date('2026-01-01T10:00:00.000Z'),
+	validUntil: null,
+	jurisdiction: 'GDPR',
+	jurisdictionModel: 'opt-in',
+	tcString: null,
+	uiSource: 'banner',
+	consentAction: 'custom',
+	runtimePolicyDecisionId: 'rpd_1',
+	runtimePolicySource: 'snapshot_token',
+};
+
+const AUDIT_LOG = {
+	id: 'log_1',
+	subjectId: SUBJECT.id,
+	entityType: 'subject',
+	entityId: SUBJECT.id,
+	actionType: 'identify_user',
+	ipAddress: null,
+	userAgent: null,
+	changes: { externalId: { from: null, to: 'user_123' } },
+	metadata: null,
+	createdAt: new Date('2026-01-01T11:00:00.000Z'),
+};
+
+const DECISION = {
+	id: 'rpd_1',
+	policyId: 'eu_opt_in',
+	fingerprint: 'a'.repeat(64),
+	matchedBy: 'country',
+	countryCode: 'DE',
+	regionCode: null,
+	jurisdiction: 'GDPR',
+	language: 'de',
+	model: 'opt-in',
+	uiMode: 'banner',
+	categories: { json: ['necessary', 'marketing'] },
+	preselectedCategories: null,
+	proofConfig: null,
+	createdAt: new Date('2026-01-01T09:00:00.000Z'),
+};
+
+function createMockDb(subjects: unknown[] = [SUBJECT]) {
+	const rows: Record<string, unknown[]> = {
+		subject: subjects,
+		consent: [CONSENT],
+		auditLog: [AUDIT_LOG],
+		domain: [{ id: 'dom_1', name: 'example.com' }],
+		consentPolicy: [{ id: 'pol_1', type: 'cookie_banner', version: '1.0.0' }],
+		consentPurpose: [
+			{ id: 'pur_1', code: 'necessary' },
+			{ id: 'pur_2', code: 'marketing' },
+		],
+		runtimePolicyDecision: [DECISION],
+	};
+
+	return {
+		findMany: vi.fn(async (table: string) => rows[table] ?? []),
+	};
+}
+
+function createApp(options?: {
+	apiKeyAuthenticated?: boolean;
+	db?: ReturnType<typeof createMockDb>;
+}) {
+	const db = options?.db ?? createMockDb();
+	const c15tContext = {
+		logger: {
+			info: vi.fn(),
+			debug: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+		},
+		db,
+		apiKeyAuthenticated: options?.apiKeyAuthenticated ?? true,
+	} as unknown as C15TContext;
+
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+	app.use('*', async (c, next) => {
+		c.set('c15tContext', c15tContext);
+		await next();
+	});
+	app.route('/subjects', createSubjectRoutes());
+
+	return { app, db };
+}
+
+describe('GET /subjects/export', () => {
+	it('rejects requests without API key authentication', async () => {
+		const { app, db } = createApp({ apiKeyAuthenticated: false });
+
+		const response = await app.request(
+			'http://localhost/subjects/export?externalId=user_123'
+		);
+
+		expect(response.status).toBe(401);
+		expect(db.findMany).not.toHaveBeenCalled();
+	});
+
+	it('requires an externalId or subjectId', async () => {
+		const { app } = createApp();
+
+		const response = await app.request('http://localhost/subjects/export');
+
+		expect(response.status).toBe(422);
+		expect(await response.text()).toContain(
+			'externalId or subjectId query parameter is required'
+		);
+	});
+
+	it('returns a versioned JSON document with the full subject history', async () => {
+		const { app } = createApp();
+
+		const response = await app.request(
+			'http://localhost/subjects/export?externalId=user_123'
+		);
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-disposition')).toMatch(
+			/^attachment; filename="c15t-subject-export-\d+\.json"$/
+		);
+		expect(body.version).toBe(1);
+		expect(body.query).toEqual({ externalId: 'user_123' });
+		expect(body.subjects).toHaveLength(1);
+
+		const [subject] = body.subjects;
+		expect(subject).toMatchObject({
+			id: SUBJECT.id,
+			externalId: 'user_123',
+			identityProvider: 'auth0',
+		});
+		expect(subject.consents).toEqual([
+			expect.objectContaining({
+				id: 'cns_1',
+				domain: 'example.com',
+				policyType: 'cookie_banner',
+				policyVersion: '1.0.0',
+				purposes: ['necessary', 'marketing'],
+				metadata: { source: 'banner' },
+				runtimePolicyDecisionId: 'rpd_1',
+			}),
+		]);
+		expect(subject.consents[0]).not.toHaveProperty('tcString');
+		expect(subject.auditLogs).toEqual([
+			expect.objectContaining({
+				id: 'log_1',
+				actionType: 'identify_user',
+				changes: { externalId: { from: null, to: 'user_123' } },
+			}),
+		]);
+		expect(subject.runtimePolicyDecisions).toEqual([
+			expect.objectContaining({
+				id: 'rpd_1',
+				policyId: 'eu_opt_in',
+				categories: ['necessary', 'marketing'],
+			}),
+		]);
+	});
+
+	it('returns an empty document when no subject matches', async () => {
+		const db = createMockDb([]);
+		const { app } = createApp({ db });
+
+		const response = await app.request(
+			'http://localhost/subjects/export?subjectId=sub_missing'
+		);
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(body.subjects).toEqual([]);
+		expect(db.findMany).toHaveBeenCalledTimes(1);
+	});
+
+	it('serializes one row per record when format=csv', async () => {
+		const { app } = createApp();
+
+		const response = await app.request(
+			'http://localhost/subjects/export?subjectId=sub_export1&format=csv'
+		);
+		const text = await response.text();
+		const lines = text.trimEnd().split('\r\n');
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-type')).toContain('text/csv');
+		expect(lines[0]).toBe('recordType,subjectId,recordId,timestamp,data');
+		expect(lines.map((line) => line.split(',')[0])).toEqual([
+			'recordType',
+			'subject',
+			'consent',
+			'audit_log',
+			'runtime_policy_decision',
+		]);
+		expect(lines[2]).toContain('"{""id"":""cns_1""');
+	});
+});
@@ -0,0 +1,84 @@
+/**
+ * GET /subjects/export handler - Export a subject's full consent history (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { requireApiKeyScope } from '~/middleware/auth';
+import type { C15TContext } from '~/types';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+import {
+	buildSubjectExport,
+	serializeSubjectExportCsv,
+} from '../utils/subject-export';
+
+/**
+ * Handles exporting every subject linked to an external ID or subject ID.
+ *
+ * This endpoint requires API key authentication and is intended for
+ * fulfilling Data Subject Access Requests. The response bundles subjects,
+ * consents, audit logs and runtime policy decisions into one versioned
+ * document, returned as JSON or CSV.
+ */
+export const exportSubjectsHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	const logger = ctx.logger;
+	logger.info('Handling GET /subjects/export request');
+
+	// Check API key authentication
+	requireApiKeyScope(ctx, 'subjects:read');
+
+	const externalId = c.req.query('externalId') || undefined;
+	const subjectId = c.req.query('subjectId') || undefined;
+	const format = c.req.query('format') === 'csv' ? 'csv' : 'json';
+
+	if (!externalId && !subjectId) {
+		throw new HTTPException(422, {
+			message: 'externalId or subjectId query parameter is required',
+			cause: { code: 'SUBJECT_IDENTIFIER_REQUIRED' },
+		});
+	}
+
+	logger.debug('Request parameters', { externalId, subjectId, format });
+
+	try {
+		const document = await buildSubjectExport(
+			{ externalId, subjectId },
+			{ db: ctx.db }
+		);
+
+		logger.info('Exported subjects', {
+			externalId,
+			subjectId,
+			count: document.subjects.length,
+		});
+
+		const filename = `c15t-subject-export-${document.generatedAt.getTime()}`;
+
+		if (format === 'csv') {
+			return c.body(serializeSubjectExportCsv(document), 200, {
+				'Content-Type': 'text/csv; charset=utf-8',
+				'Content-Disposition': `attachment; filename="${filename}.csv"`,
+			});
+		}
+
+		c.header('Content-Disposition', `attachment; filename="${filename}.json"`);
+		return c.json(document);
+	} catch (error) {
+		logger.error('Error in GET /subjects/export handler', {
+			error: extractErrorMessage(error),
+			errorType: error instanceof Error ? error.constructor.name : typeof error,
+		});
+
+		if (error instanceof HTTPException) {
+			throw error;
+		}
+
+		throw new HTTPException(500, {
+			message: 'Internal server error',
+			cause: { code: 'INTERNAL_SERVER_ERROR' },
+		});
+	}
+};
@@ -0,0 +1,124 @@
+import { Hono } from 'hono';
+import { describe, expect, it, vi } from 'vitest';
+import { createSubjectRoutes } from '~/routes/subject';
+import type { C15TContext } from '~/types';
+
+const SUBJECT = {
+	id: 'sub_get1',
+	externalId: null,
+	createdAt: new Date('2026-01-01T00:00:00.000Z'),
+};
+
+const consent = (
+	id: string,
+	policyId: string,
+	givenAt: string,
+	validUntil: string | null
+) => ({
+	id,
+	subjectId: SUBJECT.id,
+	domainId: 'dom_1',
+	policyId,
+	purposeIds: ['pur_1'],
+	givenAt: new Date(givenAt),
+	validUntil: validUntil ? new Date(validUntil) : null,
+});
+
+function createApp(consents: unknown[]) {
+	const rows: Record<string, unknown[]> = {
+		consent: consents,
+		consentPolicy: [
+			{ id: 'pol_cookie', type: 'cookie_banner', version: '1.0.0' },
+			{ id: 'pol_privacy_old', type: 'privacy_policy', version: '1.0.0' },
+		],
+		consentPurpose: [{ id: 'pur_1', code: 'necessary' }],
+	};
+	const c15tContext = {
+		logger: {
+			info: vi.fn(),
+			debug: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+		},
+		db: {
+			findFirst: vi.fn(async () => SUBJECT),
+			findMany: vi.fn(async (table: string) => rows[table] ?? []),
+		},
+		registry: {
+			findLatestPolicyByType: vi.fn(async (type: string) =>
+				type === 'cookie_banner' ? { id: 'pol_cookie' } : { id: 'pol_new' }
+			),
+		},
+	} as unknown as C15TContext;
+
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+	app.use('*', async (c, next) => {
+		c.set('c15tContext', c15tContext);
+		await next();
+	});
+	app.route('/subjects', createSubjectRoutes());
+	return app;
+}
+
+const FUTURE = '2999-01-01T00:00:00.000Z';
+const PAST = '2020-01-01T00:00:00.000Z';
+
+describe('GET /subjects/:id', () => {
+	it('is valid when the latest consent has not expired', async () => {
+		const app = createApp([
+			consent('cns_1', 'pol_cookie', '2019-01-01T00:00:00.000Z', PAST),
+			consent('cns_2', 'pol_cookie', '2025-01-01T00:00:00.000Z', FUTURE),
+		]);
+
+		const body = await app
+			.request(`/subjects/${SUBJECT.id}?type=cookie_banner`)
+			.then((res) => res.json());
+
+		expect(body.state).toBe('valid');
+		expect(body.isValid).toBe(true);
+		expect(
+			body.consents.map((item: { isExpired: boolean }) => item.isExpired)
+		).toEqual([true, false]);
+	});
+
+	it('reports expired consents separately from invalid ones', async () => {
+		const app = createApp([
+			consent('cns_1', 'pol_cookie', '2019-01-01T00:00:00.000Z', PAST),
+		]);
+
+		const body = await app
+			.request(`/subjects/${SUBJECT.id}?type=cookie_banner`)
+			.then((res) => res.json());
+
+		expect(body).toMatchObject({ isValid: true, state: 'expired' });
+		expect(body.consents[0]).toMatchObject({
+			validUntil: PAST,
+			isExpired: true,
+		});
+	});
+
+	it('keeps isValid true for expired consents without a type filter', async () => {
+		const app = createApp([
+			consent('cns_1', 'pol_cookie', '2019-01-01T00:00:00.000Z', PAST),
+		]);
+
+		const body = await app
+			.request(`/subjects/${SUBJECT.id}`)
+			.then((res) => res.json());
+
+		expect(body).toMatchObject({ isValid: true, state: 'expired' });
+	});
+
+	it('is invalid when a requested type lacks a consent for its latest policy', async () => {
+		const app = createApp([
+			consent('cns_1', 'pol_cookie', '2019-01-01T00:00:00.000Z', PAST),
+			consent('cns_2', 'pol_privacy_old', '2025-01-01T00:00:00.000Z', null),
+		]);
+
+		const body = await app
+			.request(`/subjects/${SUBJECT.id}?type=cookie_banner,privacy_policy`)
+			.then((res) => res.json());
+
+		expect(body).toMatchObject({ isValid: false, state: 'invalid' });
+	});
+});
@@ -4,6 +4,7 @@
  * @packageDocumentation
  */
 
+import type { SubjectConsentState } from '@c15t/schema';
 import type { Context } from 'hono';
 import { HTTPException } from 'hono/http-exception';
 import type { C15TContext } from '~/types';
@@ -14,7 +15,9 @@ import { enrichConsents } from '../utils/consent-enrichment';
  * Handles retrieving a subject's consent status.
  *
  * Returns the subject's information and their consent records,
- * optionally filtered by consent type(s).
+ * optionally filtered by consent type(s). `state` is `expired` rather than
+ * `invalid` when consents match the latest policies but have passed their
+ * `validUntil`. `isValid` ignores expiry.
  */
 export const getSubjectHandler = async (c: Context) => {
 	const ctx = c.get('c15tContext') as C15TContext;
@@ -55,7 +58,13 @@ export const getSubjectHandler = async (c: Context) => {
 			where: (b) => b('subjectId', '=', subjectId),
 		});
 
-		const consentItems = await enrichConsents(consents, { db, registry });
+		const now = new Date();
+		const consentItems = (await enrichConsents(consents, { db, registry })).map(
+			(consent) => ({
+				...consent,
+				isExpired: !!consent.validUntil && new Date(consent.validUntil) <= now,
+			})
+		);
 
 		// Filter by type if specified
 		const filteredConsents =
@@ -63,14 +72,34 @@ export const getSubjectHandler = async (c: Context) => {
 				? consentItems.filter((consent) => typeFilter.includes(consent.type))
 				: consentItems;
 
-		// Determine if consent is valid for requested types
-		const isValid =
-			typeFilter.length === 0 ||
-			typeFilter.every((t) =>
-				filteredConsents.some(
+		// Invalid: a requested type has no consent for its latest policy
+		const hasMissingConsent = typeFilter.some(
+			(t) =>
+				!filteredConsents.some(
 					(consent) => consent.type === t && consent.isLatestPolicy
 				)
-			);
+		);
+
+		// Expired: the most recent consent of a type is past its validUntil
+		const latestByType = new Map<string, (typeof filteredConsents)[number]>();
+		for (const consent of filteredConsents) {
+			const latest = latestByType.get(consent.type);
+			if (!latest || new Date(consent.givenAt) > new Date(latest.givenAt)) {
+				latestByType.set(consent.type, consent);
+			}
+		}
+		const hasExpiredConsent = [...latestByType.values()].some(
+			(consent) => consent.isExpired
+		);
+
+		// isValid keeps its original meaning; expiry is only reported by state
+		const isValid = typeFilter.length === 0 || !hasMissingConsent;
+
+		const state: SubjectConsentState = hasMissingConsent
+			? 'invalid'
+			: hasExpiredConsent
+				? 'expired'
+				: 'valid';
 
 		return c.json({
 			subject: {
@@ -80,6 +109,7 @@ export const getSubjectHandler = async (c: Context) => {
 			},
 			consents: filteredConsents,
 			isValid,
+			state,
 		});
 	} catch (error) {
 		logger.error('Error in GET /subjects/:id handler', {
@@ -0,0 +1,281 @@
+import { SUBJECT_IMPORT_MAX_RECORDS } from '@c15t/schema';
+import { Hono } from 'hono';
+import { describe, expect, it, vi } from 'vitest';
+import { createRegistry } from '~/db/registry';
+import { withTenantScope } from '~/db/tenant-scope';
+import { createSubjectRoutes } from '~/routes/subject';
+import {
+	createMemorySubjectEventBus,
+	getSubjectEventChannels,
+} from '~/subject-events';
+import { createInMemoryDb, type InMemoryTables } from '~/testing/in-memory-db';
+import type {
+	ApiKeyScope,
+	AuditEvent,
+	AuditEventOptions,
+	C15TContext,
+	SubjectEvent,
+	SubjectEventsOptions,
+} from '~/types';
+
+function createApp(options?: {
+	apiKeyAuthenticated?: boolean;
+	scopes?: ApiKeyScope[];
+	auditEvents?: AuditEventOptions;
+	subjectEvents?: SubjectEventsOptions;
+}) {
+	const tables: InMemoryTables = {};
+	const logger = {
+		info: vi.fn(),
+		debug: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+	};
+	const db = withTenantScope(createInMemoryDb(tables), 'tenant-a');
+
+	const c15tContext = {
+		logger,
+		db,
+		registry: createRegistry({
+			db,
+			ctx: { logger, tenantId: 'tenant-a' },
+		} as unknown as Parameters<typeof createRegistry>[0]),
+		tenantId: 'tenant-a',
+		apiKeyAuthenticated: options?.apiKeyAuthenticated ?? true,
+		apiKey: { name: 'migration', scopes: options?.scopes ?? ['*'] },
+		auditEvents: options?.auditEvents,
+		subjectEvents: options?.subjectEvents,
+	} as unknown as C15TContext;
+
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+	app.use('*', async (c, next) => {
+		c.set('c15tContext', c15tContext);
+		await next();
+	});
+	app.route('/subjects', createSubjectRoutes());
+
+	return { app, tables };
+}
+
+const rowsOf = (tables: InMemoryTables, table: string) => tables[table] ?? [];
+
+const ndjson = (...records: unknown[]) =>
+	records
+		.map((record) =>
+			typeof record === 'string' ? record : JSON.stringify(record)
+		)
+		.join('\n');
+
+const importRecords = (
+	app: ReturnType<typeof createApp>['app'],
+	body: string
+) =>
+	app.request('http://localhost/subjects/import', {
+		method: 'POST',
+		headers: { 'content-type': 'application/x-ndjson' },
+		body,
+	});
+
+const RECORDS = [
+	{
+		dedupeKey: 'onetrust:1',
+		externalId: 'user_123',
+		domain: 'example.com',
+		preferences: { necessary: true, measurement: true, marketing: false },
+		givenAt: '2024-03-01T09:30:00.000Z',
+		validUntil: '2025-03-01T09:30:00.000Z',
+		jurisdiction: 'GDPR',
+		jurisdictionModel: 'opt-in',
+		consentAction: 'custom',
+		uiSource: 'banner',
+	},
+	{
+		dedupeKey: 'onetrust:2',
+		externalId: 'user_123',
+		domain: 'example.com',
+		preferences: { necessary: true, measurement: true, marketing: true },
+		givenAt: 1_717_200_000_000,
+		consentAction: 'accept_all',
+	},
+];
+
+describe('POST /subjects/import', () => {
+	it('requires an API key with the subjects:write scope', async () => {
+		const { app: anonymous } = createApp({ apiKeyAuthenticated: false });
+		expect((await importRecords(anonymous, ndjson(...RECORDS))).status).toBe(
+			401
+		);
+
+		const { app, tables } = createApp({ scopes: ['subjects:read'] });
+		expect((await importRecords(app, ndjson(...RECORDS))).status).toBe(403);
+		expect(rowsOf(tables, 'consent')).toHaveLength(0);
+	});
+
+	it('imports records with their original timestamps', async () => {
+		const { app, tables } = createApp();
+
+		const response = await importRecords(app, ndjson(...RECORDS));
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(body).toEqual({
+			total: 2,
+			imported: 2,
+			skipped: 0,
+			failed: 0,
+			errors: [],
+		});
+
+		// Both records belong to the same external user
+		const subjects = rowsOf(tables, 'subject');
+		expect(subjects).toHaveLength(1);
+		expect(subjects[0]).toMatchObject({
+			externalId: 'user_123',
+			identityProvider: 'external',
+			tenantId: 'tenant-a',
+		});
+		expect(subjects[0]?.id).toMatch(/^sub_[1-9A-HJ-NP-Za-km-z]+$/);
+
+		const [first, second] = rowsOf(tables, 'consent');
+		expect(first).toMatchObject({
+			subjectId: subjects[0]?.id,
+			givenAt: new Date('2024-03-01T09:30:00.000Z'),
+			validUntil: new Date('2025-03-01T09:30:00.000Z'),
+			jurisdiction: 'GDPR',
+			jurisdictionModel: 'opt-in',
+			consentAction: 'custom',
+			uiSource: 'banner',
+			ipAddress: null,
+			tenantId: 'tenant-a',
+		});
+		expect(first?.metadata.json.import).toEqual({ dedupeKey: 'onetrust:1' });
+		expect(first?.purposeIds.json).toHaveLength(2);
+		expect(second?.givenAt).toEqual(new Date(1_717_200_000_000));
+		expect(second?.purposeIds.json).toHaveLength(3);
+		expect(rowsOf(tables, 'consentPurpose').map((p) => p.code)).toEqual([
+			'necessary',
+			'measurement',
+			'marketing',
+		]);
+	});
+
+	it('writes an audit event for each imported consent', async () => {
+		const events: AuditEvent[] = [];
+		const { app, tables } = createApp({
+			auditEvents: {
+				sinks: [{ name: 'memory', write: (event) => void events.push(event) }],
+			},
+		});
+
+		await importRecords(app, ndjson(RECORDS[0]));
+		await importRecords(app, ndjson(...RECORDS));
+
+		expect(events.map((event) => event.data.consentId)).toEqual(
+			rowsOf(tables, 'consent').map((consent) => consent.id)
+		);
+		expect(events[0]).toMatchObject({
+			type: 'consent.recorded',
+			tenantId: 'tenant-a',
+			request: { apiKey: 'migration' },
+			data: {
+				externalId: 'user_123',
+				givenAt: '2024-03-01T09:30:00.000Z',
+				source: 'import',
+			},
+		});
+	});
+
+	it('pushes imported consents to subject event streams', async () => {
+		const bus = createMemorySubjectEventBus();
+		const events: SubjectEvent[] = [];
+		const { app, tables } = createApp({ subjectEvents: { bus } });
+
+		await importRecords(app, ndjson(RECORDS[0]));
+		const [subject] = rowsOf(tables, 'subject');
+		const [, userChannel] = getSubjectEventChannels(
+			{ id: subject?.id, externalId: 'user_123', identityProvider: 'external' },
+			'tenant-a'
+		);
+		bus.subscribe(userChannel ?? '', (event) => void events.push(event));
+
+		await importRecords(app, ndjson(...RECORDS));
+
+		await vi.waitFor(() => expect(events).toHaveLength(1));
+		expect(events[0]).toMatchObject({
+			type: 'consent.recorded',
+			data: {
+				consentId: rowsOf(tables, 'consent')[1]?.id,
+				consentAction: 'accept_all',
+				givenAt: new Date(1_717_200_000_000).toISOString(),
+			},
+		});
+	});
+
+	it('skips records whose dedupe key was already imported', async () => {
+		const { app, tables } = createApp();
+
+		await importRecords(app, ndjson(RECORDS[0]));
+		const response = await importRecords(app, ndjson(...RECORDS));
+		const body = await response.json();
+
+		expect(body).toMatchObject({ total: 2, imported: 1, skipped: 1 });
+		expect(rowsOf(tables, 'consent')).toHaveLength(2);
+	});
+
+	it('reports invalid lines without aborting the batch', async () => {
+		const { app, tables } = createApp();
+
+		const response = await importRecords(
+			app,
+			ndjson(
+				RECORDS[0],
+				'',
+				'{not json',
+				{ dedupeKey: 'bad-date', domain: 'example.com', givenAt: 'yesterday' },
+				{
+					dedupeKey: 'terms',
+					domain: 'example.com',
+					type: 'terms_and_conditions',
+					givenAt: 1_717_200_000_000,
+				},
+				RECORDS[1]
+			)
+		);
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(body).toMatchObject({
+			total: 5,
+			imported: 2,
+			skipped: 0,
+			failed: 3,
+		});
+		expect(body.errors).toEqual([
+			{ line: 3, code: 'INVALID_JSON', message: expect.any(String) },
+			{
+				line: 4,
+				code: 'INPUT_VALIDATION_FAILED',
+				message: expect.stringContaining('givenAt'),
+			},
+			{
+				line: 5,
+				dedupeKey: 'terms',
+				code: 'LEGAL_DOCUMENT_PROOF_REQUIRED',
+				message: expect.any(String),
+			},
+		]);
+		expect(rowsOf(tables, 'consent')).toHaveLength(2);
+	});
+
+	it('rejects empty and oversized bodies', async () => {
+		const { app } = createApp();
+
+		expect((await importRecords(app, '\n\n')).status).toBe(422);
+
+		const tooMany = Array.from(
+			{ length: SUBJECT_IMPORT_MAX_RECORDS + 1 },
+			(_, index) => ({ ...RECORDS[0], dedupeKey: `key-${index}` })
+		);
+		expect((await importRecords(app, ndjson(...tooMany))).status).toBe(413);
+	});
+});
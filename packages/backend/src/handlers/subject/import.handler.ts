@@ -0,0 +1,65 @@
+/**
+ * POST /subjects/import handler - Bulk consent import (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import { SUBJECT_IMPORT_MAX_RECORDS } from '@c15t/schema';
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { requireApiKeyScope } from '~/middleware/auth';
+import type { C15TContext } from '~/types';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+import { importSubjects, parseImportLines } from '../utils/subject-import';
+
+/**
+ * Handles bulk consent imports.
+ *
+ * This endpoint requires API key authentication. The body is NDJSON with one
+ * consent record per line. Invalid lines are reported individually and do
+ * not stop the rest of the batch from being imported.
+ */
+export const importSubjectsHandler = async (c: Context) => {
+	const ctx = c.get('c15tContext') as C15TContext;
+	const logger = ctx.logger;
+	logger.info('Handling POST /subjects/import request');
+
+	requireApiKeyScope(ctx, 'subjects:write');
+
+	const lines = parseImportLines(await c.req.text());
+
+	if (lines.length === 0) {
+		throw new HTTPException(422, {
+			message: 'Request body must contain at least one NDJSON record',
+			cause: { code: 'IMPORT_EMPTY' },
+		});
+	}
+
+	if (lines.length > SUBJECT_IMPORT_MAX_RECORDS) {
+		throw new HTTPException(413, {
+			message: `A single import accepts at most ${SUBJECT_IMPORT_MAX_RECORDS} records`,
+			cause: {
+				code: 'IMPORT_TOO_LARGE',
+				maxRecords: SUBJECT_IMPORT_MAX_RECORDS,
+			},
+		});
+	}
+
+	try {
+		return c.json(await importSubjects(lines, ctx));
+	} catch (error) {
+		logger.error('Error in POST /subjects/import handler', {
+			error: extractErrorMessage(error),
+			errorType: error instanceof Error ? error.constructor.name : typeof error,
+		});
+
+		if (error instanceof HTTPException) {
+			throw error;
+		}
+
+		throw new HTTPException(500, {
+			message: 'Internal server error',
+			cause: { code: 'INTERNAL_SERVER_ERROR' },
+		});
+	}
+};
@@ -4,7 +4,11 @@
  * @packageDocumentation
  */
 
+export { deleteSubjectsHandler } from './delete.handler';
+export { subjectEventsHandler } from './events.handler';
+export { exportSubjectsHandler } from './export.handler';
 export { getSubjectHandler } from './get.handler';
+export { importSubjectsHandler } from './import.handler';
 export { listSubjectsHandler } from './list.handler';
 export { patchSubjectHandler } from './patch.handler';
 export { postSubjectHandler } from './post.handler';
@@ -6,6 +6,7 @@
 
 import type { Context } from 'hono';
 import { HTTPException } from 'hono/http-exception';
+import { requireApiKeyScope } from '~/middleware/auth';
 import type { C15TContext } from '~/types';
 import { extractErrorMessage } from '~/utils/extract-error-message';
 import { enrichConsents } from '../utils/consent-enrichment';
@@ -24,12 +25,7 @@ export const listSubjectsHandler = async (c: Context) => {
 	const { db, registry } = ctx;
 
 	// Check API key authentication
-	if (!ctx.apiKeyAuthenticated) {
-		throw new HTTPException(401, {
-			message: 'API key required. Use Authorization: Bearer <api_key>',
-			cause: { code: 'UNAUTHORIZED' },
-		});
-	}
+	requireApiKeyScope(ctx, 'subjects:read');
 
 	const externalId = c.req.query('externalId');
 
@@ -6,10 +6,13 @@
 
 import type { Context } from 'hono';
 import { HTTPException } from 'hono/http-exception';
+import { emitAuditEvent } from '~/audit-events';
 import { generateUniqueId } from '~/db/registry/utils';
+import { publishSubjectEvent } from '~/subject-events';
 import type { C15TContext } from '~/types';
 import { extractErrorMessage } from '~/utils/extract-error-message';
 import { getMetrics } from '~/utils/metrics';
+import { emitWebhookEvent } from '~/webhooks';
 
 /**
  * Handles linking an external ID to a subject.
@@ -101,6 +104,21 @@ export const patchSubjectHandler = async (c: Context) => {
 
 		getMetrics()?.recordSubjectLinked(identityProvider);
 
+		const subjectLinked = {
+			subjectId,
+			externalId,
+			identityProvider,
+			previousExternalId: subject.externalId ?? undefined,
+		};
+		emitWebhookEvent(ctx, 'subject.linked', subjectLinked);
+		emitAuditEvent(ctx, 'subject.linked', subjectLinked);
+		// Open streams of this subject start following the external ID
+		publishSubjectEvent(
+			ctx,
+			{ id: subjectId },
+			{ type: 'subject.linked', data: { externalId, identityProvider } }
+		);
+
 		return c.json({
 			success: true,
 			subject: {
@@ -1,4 +1,5 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { verifyConsentReceipt } from '~/handlers/consent-receipt/receipt';
 import { resolvePolicyDecision } from '~/handlers/init/policy';
 import { verifyLegalDocumentSnapshotToken } from '~/handlers/legal-document/snapshot';
 import { verifyPolicySnapshotToken } from '~/handlers/policy/snapshot';
@@ -475,6 +476,47 @@ describe('postSubjectHandler policy purpose enforcement', () => {
 		);
 	});
 
+	it('registers custom categories allowed by policy as consent purposes', async () => {
+		vi.mocked(resolvePolicyDecision).mockResolvedValue({
+			policy: {
+				id: 'policy_custom',
+				model: 'opt-in',
+				consent: { scopeMode: 'strict', categories: ['ai_training'] },
+			},
+			matchedBy: 'country',
+			fingerprint: 'a'.repeat(64),
+		});
+
+		const db = createMockDb(null);
+		const registry = createMockRegistry();
+		registry.findOrCreateConsentPurposeByCode = vi
+			.fn()
+			.mockImplementation(async (code: string) => ({ id: `purpose_${code}` }));
+		const mockCtx = createMockContext(db, registry);
+		mockCtx.req.json = vi.fn().mockResolvedValue({
+			...baseInput,
+			preferences: {
+				necessary: true,
+				ai_training: true,
+			},
+		});
+
+		// @ts-expect-error - simplified test context
+		await postSubjectHandler(mockCtx);
+
+		expect(registry.findOrCreateConsentPurposeByCode).toHaveBeenCalledWith(
+			'ai_training'
+		);
+		expect(db.__tx.create).toHaveBeenCalledWith(
+			'consent',
+			expect.objectContaining({
+				purposeIds: {
+					json: ['purpose_necessary', 'purpose_ai_training'],
+				},
+			})
+		);
+	});
+
 	it('passes top-level iabEnabled into write-time policy resolution', async () => {
 		const db = createMockDb(null);
 		const registry = createMockRegistry();
@@ -1238,3 +1280,87 @@ describe('postSubjectHandler legal document snapshots', () => {
 		);
 	});
 });
+
+describe('postSubjectHandler consent receipts', () => {
+	const consentReceipts = {
+		signingKey: 'test-receipt-key',
+		controller: { name: 'Example Ltd', email: 'privacy@example.com' },
+	};
+
+	afterEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('omits the receipt when consent receipts are not configured', async () => {
+		const mockCtx = createMockContext(createMockDb(null), createMockRegistry());
+
+		// @ts-expect-error - simplified test context
+		await postSubjectHandler(mockCtx);
+
+		expect(mockCtx.getJsonData()).not.toHaveProperty(
+			'receipt',
+			expect.anything()
+		);
+	});
+
+	it('returns a signed receipt for the recorded consent', async () => {
+		vi.mocked(resolvePolicyDecision).mockResolvedValueOnce({
+			policy: {
+				id: 'europe_opt_in',
+				model: 'opt-in',
+				consent: { scopeMode: 'permissive', categories: ['*'] },
+			},
+			matchedBy: 'country',
+			fingerprint: 'f'.repeat(64),
+		});
+
+		const registry = createMockRegistry();
+		registry.findOrCreateConsentPurposeByCode = vi
+			.fn()
+			.mockImplementation(async (code: string) => ({ id: `pur_${code}` }));
+		const mockCtx = createMockContext(createMockDb(null), registry);
+		Object.assign(mockCtx._ctx, { consentReceipts });
+		mockCtx.req.json = vi.fn().mockResolvedValue({
+			...baseInput,
+			type: 'cookie_banner',
+			preferences: { necessary: true, marketing: false },
+			consentAction: 'custom',
+			uiSource: 'dialog',
+		});
+
+		// @ts-expect-error - simplified test context
+		await postSubjectHandler(mockCtx);
+
+		const { receipt } = mockCtx.getJsonData() as { receipt: string };
+		const verified = await verifyConsentReceipt({
+			token: receipt,
+			options: consentReceipts,
+		});
+
+		expect(verified.valid).toBe(true);
+		if (!verified.valid) return;
+		expect(verified.payload).toMatchObject({
+			sub: 'sub_user1',
+			consentTimestamp: GIVEN_AT / 1000,
+			collectionMethod: 'dialog',
+			piiControllers: [
+				{ piiController: 'Example Ltd', email: 'privacy@example.com' },
+			],
+			services: [
+				{
+					service: 'example.com',
+					purposes: [expect.objectContaining({ purpose: 'necessary' })],
+				},
+			],
+			c15t: {
+				consentId: 'con_new',
+				subjectId: 'sub_user1',
+				type: 'cookie_banner',
+				policyId: 'europe_opt_in',
+				policyFingerprint: 'f'.repeat(64),
+				consentAction: 'custom',
+				preferences: { necessary: true, marketing: false },
+			},
+		});
+	});
+});
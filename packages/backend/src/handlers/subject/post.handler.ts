@@ -7,8 +7,10 @@
 import type { PostSubjectInput } from '@c15t/schema';
 import type { Context } from 'hono';
 import { HTTPException } from 'hono/http-exception';
+import { emitAuditEvent } from '~/audit-events';
 import { LegalDocumentPolicyConflictError } from '~/db/registry/consent-policy';
 import { generateUniqueId } from '~/db/registry/utils';
+import { createConsentReceipt } from '~/handlers/consent-receipt/receipt';
 import { getJurisdiction, getLocation } from '~/handlers/init/geo';
 import {
 	type LegalDocumentSnapshotVerificationFailureReason,
@@ -18,9 +20,13 @@ import {
 	type PolicySnapshotVerificationFailureReason,
 	verifyPolicySnapshotToken,
 } from '~/handlers/policy/snapshot';
+import { loadPolicyPacks } from '~/handlers/policy-pack/published';
+import { publishSubjectEvent } from '~/subject-events';
 import type { C15TContext } from '~/types';
 import { extractErrorMessage } from '~/utils/extract-error-message';
 import { getMetrics } from '~/utils/metrics';
+import { canVerifySnapshots } from '~/utils/snapshot-signing';
+import { emitWebhookEvent } from '~/webhooks';
 import { resolvePolicyDecision } from '../init/policy';
 
 export function buildRuntimeDecisionDedupeKey(input: {
@@ -290,7 +296,10 @@ export const postSubjectHandler = async (c: Context) => {
 		const request = c.req.raw ?? new Request('https://c15t.local/subjects');
 		const acceptLanguage = request.headers.get('accept-language');
 		const requestLanguage = parseLanguageFromHeader(acceptLanguage);
-		const location = await getLocation(request, ctx);
+		const location = await getLocation(request, ctx, {
+			ipAddress: ctx.ipAddress,
+			logger,
+		});
 		const resolvedJurisdiction = getJurisdiction(location, ctx);
 		const legalDocumentConsent = isLegalDocumentType(type);
 		const runtimeSnapshotVerification = legalDocumentConsent
@@ -319,13 +328,13 @@ export const postSubjectHandler = async (c: Context) => {
 			: null;
 		const shouldRequireSnapshot =
 			!legalDocumentConsent &&
-			!!ctx.policySnapshot?.signingKey &&
+			canVerifySnapshots(ctx.policySnapshot) &&
 			resolveSnapshotFailureMode(ctx) === 'reject';
 		if (!hasValidSnapshot && shouldRequireSnapshot) {
 			throw buildSnapshotHttpException(runtimeSnapshotVerification.reason);
 		}
 		const shouldRequireLegalDocumentSnapshot =
-			legalDocumentConsent && !!ctx.legalDocumentSnapshot?.signingKey;
+			legalDocumentConsent && canVerifySnapshots(ctx.legalDocumentSnapshot);
 		if (
 			shouldRequireLegalDocumentSnapshot &&
 			!legalDocumentSnapshotVerification.valid
@@ -339,7 +348,7 @@ export const postSubjectHandler = async (c: Context) => {
 			: legalDocumentConsent
 				? undefined
 				: await resolvePolicyDecision({
-						policies: ctx.policyPacks,
+						policies: await loadPolicyPacks(ctx),
 						countryCode: location.countryCode,
 						regionCode: location.regionCode,
 						jurisdiction: resolvedJurisdiction,
@@ -441,7 +450,7 @@ export const postSubjectHandler = async (c: Context) => {
 			policyId = documentPolicy.id;
 		} else if (legalDocumentConsent) {
 			if (
-				!ctx.legalDocumentSnapshot?.signingKey &&
+				!canVerifySnapshots(ctx.legalDocumentSnapshot) &&
 				!inputPolicyId &&
 				!inputPolicyHash
 			) {
@@ -641,6 +650,27 @@ export const postSubjectHandler = async (c: Context) => {
 			proofConfig,
 		});
 
+		const issueReceipt = async (consentId: string, consentGivenAt: Date) =>
+			(
+				await createConsentReceipt({
+					options: ctx.consentReceipts,
+					tenantId: ctx.tenantId,
+					consentId,
+					subjectId: subject.id,
+					domain: domainRecord.name,
+					type,
+					givenAt: consentGivenAt,
+					validUntil,
+					jurisdiction: effectiveJurisdiction,
+					language: effectiveLanguage,
+					uiSource: input.uiSource,
+					consentAction: derivedConsentAction,
+					preferences: appliedPreferences,
+					policyId: decisionPayload?.policyId,
+					policyFingerprint: decisionPayload?.fingerprint,
+				})
+			)?.token;
+
 		// Check for duplicate consent (idempotency)
 		const existingConsent = await db.findFirst('consent', {
 			where: (b) =>
@@ -666,6 +696,10 @@ export const postSubjectHandler = async (c: Context) => {
 				appliedPreferences,
 				uiSource: input.uiSource,
 				givenAt: existingConsent.givenAt,
+				receipt: await issueReceipt(
+					existingConsent.id,
+					new Date(existingConsent.givenAt)
+				),
 			});
 		}
 
@@ -780,6 +814,34 @@ export const postSubjectHandler = async (c: Context) => {
 			}
 		}
 
+		const consentRecorded = {
+			subjectId: subject.id,
+			externalId: subject.externalId ?? undefined,
+			consentId: result.consent.id,
+			domain: domainRecord.name,
+			type,
+			preferences: appliedPreferences,
+			jurisdiction: effectiveJurisdiction,
+			consentAction: derivedConsentAction,
+			uiSource: input.uiSource,
+			givenAt: new Date(result.consent.givenAt).toISOString(),
+		};
+		emitWebhookEvent(ctx, 'consent.recorded', consentRecorded);
+		emitAuditEvent(ctx, 'consent.recorded', {
+			...consentRecorded,
+			source: 'api',
+		});
+		publishSubjectEvent(ctx, subject, {
+			type: 'consent.recorded',
+			data: {
+				consentId: consentRecorded.consentId,
+				type,
+				preferences: appliedPreferences,
+				consentAction: derivedConsentAction,
+				givenAt: consentRecorded.givenAt,
+			},
+		});
+
 		// Return the response
 		return c.json({
 			subjectId: subject.id,
@@ -791,6 +853,10 @@ export const postSubjectHandler = async (c: Context) => {
 			appliedPreferences,
 			uiSource: input.uiSource,
 			givenAt: result.consent.givenAt,
+			receipt: await issueReceipt(
+				result.consent.id,
+				new Date(result.consent.givenAt)
+			),
 		});
 	} catch (error) {
 		logger.error('Error in POST /subjects handler', {
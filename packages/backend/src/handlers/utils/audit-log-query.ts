@@ -0,0 +1,130 @@
+/**
+ * Audit log query utilities for compliance review.
+ *
+ * Pagination uses a keyset cursor over `(createdAt, id)` rather than offsets,
+ * so pages stay stable while new entries are written. The cursor conditions
+ * only use plain comparisons, which every adapter in `db/adapters` supports.
+ *
+ * @packageDocumentation
+ */
+
+import type { AuditLogItem } from '@c15t/schema';
+import type { C15TContext } from '~/types';
+import { unwrapJsonColumn } from './subject-export';
+
+type AuditLogQueryContext = Pick<C15TContext, 'db'>;
+
+export interface AuditLogQuery {
+	subjectId?: string;
+	entityType?: string;
+	actionType?: string;
+	/** Inclusive lower bound on `createdAt` */
+	from?: Date;
+	/** Exclusive upper bound on `createdAt` */
+	to?: Date;
+	cursor?: AuditLogCursor;
+	limit: number;
+}
+
+/**
+ * Position of the last entry on a page
+ */
+export interface AuditLogCursor {
+	createdAt: Date;
+	id: string;
+}
+
+/**
+ * Encodes a cursor as an opaque URL-safe string.
+ */
+export function encodeAuditLogCursor(cursor: AuditLogCursor): string {
+	return btoa(`${cursor.createdAt.getTime()}:${cursor.id}`)
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '');
+}
+
+/**
+ * Decodes a cursor produced by {@link encodeAuditLogCursor}.
+ *
+ * @returns The cursor, or `null` if the value is malformed
+ */
+export function decodeAuditLogCursor(value: string): AuditLogCursor | null {
+	let decoded: string;
+	try {
+		decoded = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+	} catch {
+		return null;
+	}
+
+	const separator = decoded.indexOf(':');
+	if (separator <= 0) return null;
+
+	const timestamp = Number(decoded.slice(0, separator));
+	const id = decoded.slice(separator + 1);
+	if (!Number.isSafeInteger(timestamp) || !id) return null;
+
+	return { createdAt: new Date(timestamp), id };
+}
+
+/**
+ * Returns one page of audit log entries, newest first.
+ */
+export async function queryAuditLogs(
+	query: AuditLogQuery,
+	{ db }: AuditLogQueryContext
+): Promise<{ auditLogs: AuditLogItem[]; nextCursor: string | null }> {
+	const { subjectId, entityType, actionType, from, to, cursor, limit } = query;
+
+	// Fetch one extra row to know whether another page exists
+	const rows = await db.findMany('auditLog', {
+		where: (b) =>
+			b.and(
+				subjectId ? b('subjectId', '=', subjectId) : true,
+				entityType ? b('entityType', '=', entityType) : true,
+				actionType ? b('actionType', '=', actionType) : true,
+				from ? b('createdAt', '>=', from) : true,
+				to ? b('createdAt', '<', to) : true,
+				cursor
+					? b.or(
+							b('createdAt', '<', cursor.createdAt),
+							b.and(
+								b('createdAt', '=', cursor.createdAt),
+								b('id', '<', cursor.id)
+							)
+						)
+					: true
+			),
+		orderBy: [
+			['createdAt', 'desc'],
+			['id', 'desc'],
+		],
+		limit: limit + 1,
+	});
+
+	const page = rows.slice(0, limit);
+	const last = page.at(-1);
+	const nextCursor =
+		rows.length > limit && last
+			? encodeAuditLogCursor({
+					createdAt: new Date(last.createdAt),
+					id: last.id,
+				})
+			: null;
+
+	return {
+		auditLogs: page.map((row) => ({
+			id: row.id,
+			entityType: row.entityType,
+			entityId: row.entityId,
+			actionType: row.actionType,
+			subjectId: row.subjectId ?? undefined,
+			ipAddress: row.ipAddress ?? undefined,
+			userAgent: row.userAgent ?? undefined,
+			changes: unwrapJsonColumn<Record<string, unknown>>(row.changes),
+			metadata: unwrapJsonColumn<Record<string, unknown>>(row.metadata),
+			createdAt: new Date(row.createdAt),
+		})),
+		nextCursor,
+	};
+}
@@ -0,0 +1,258 @@
+/**
+ * Consent analytics aggregation.
+ *
+ * The ORM has no portable GROUP BY, so consents in the requested range are
+ * streamed in keyset-paginated batches over `(givenAt, id)` and counted in
+ * memory. Each batch selects only the grouped columns, and policy IDs are
+ * resolved with one `in` lookup per batch, so the same queries run on every
+ * adapter in `db/adapters`. Schema 2.1.0 indexes `(givenAt, id)`, so each
+ * batch is an index range read.
+ *
+ * @packageDocumentation
+ */
+
+import type {
+	ConsentAnalyticsBucket,
+	ConsentAnalyticsBucketSize,
+	ConsentAnalyticsDimension,
+	ConsentAnalyticsGroup,
+	ConsentAnalyticsOutput,
+} from '@c15t/schema';
+import type { C15TContext } from '~/types';
+
+type ConsentAnalyticsContext = Pick<C15TContext, 'db'>;
+
+/**
+ * Number of consent rows read per query
+ */
+export const CONSENT_ANALYTICS_BATCH_SIZE = 1000;
+
+export interface ConsentAnalyticsQuery {
+	/** Inclusive lower bound on `givenAt` */
+	from: Date;
+	/** Exclusive upper bound on `givenAt` */
+	to: Date;
+	bucket: ConsentAnalyticsBucketSize;
+	groupBy: ConsentAnalyticsDimension[];
+}
+
+/**
+ * Returns the UTC start of the bucket containing `date`.
+ *
+ * Weeks start on Monday.
+ */
+export function getBucketStart(
+	date: Date,
+	bucket: ConsentAnalyticsBucketSize
+): Date {
+	const start = new Date(date);
+	start.setUTCMinutes(0, 0, 0);
+
+	if (bucket === 'hour') return start;
+
+	start.setUTCHours(0);
+	if (bucket === 'week') {
+		start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+	} else if (bucket === 'month') {
+		start.setUTCDate(1);
+	}
+
+	return start;
+}
+
+function getNextBucketStart(
+	start: Date,
+	bucket: ConsentAnalyticsBucketSize
+): Date {
+	const next = new Date(start);
+	switch (bucket) {
+		case 'hour':
+			next.setUTCHours(next.getUTCHours() + 1);
+			break;
+		case 'day':
+			next.setUTCDate(next.getUTCDate() + 1);
+			break;
+		case 'week':
+			next.setUTCDate(next.getUTCDate() + 7);
+			break;
+		case 'month':
+			next.setUTCMonth(next.getUTCMonth() + 1);
+			break;
+	}
+	return next;
+}
+
+/**
+ * Lists the start of every bucket overlapping `[from, to)`.
+ *
+ * Stops after `max + 1` entries so callers can reject oversized ranges
+ * without building the whole list.
+ */
+export function listBucketStarts(
+	from: Date,
+	to: Date,
+	bucket: ConsentAnalyticsBucketSize,
+	max = Number.POSITIVE_INFINITY
+): Date[] {
+	const starts: Date[] = [];
+	for (
+		let start = getBucketStart(from, bucket);
+		start < to && starts.length <= max;
+		start = getNextBucketStart(start, bucket)
+	) {
+		starts.push(start);
+	}
+	return starts;
+}
+
+interface ConsentAnalyticsRow {
+	id: string;
+	givenAt: Date;
+	jurisdiction: string | null;
+	consentAction: string | null;
+	uiSource: string | null;
+	runtimePolicyDecisionId: string | null;
+}
+
+/**
+ * Resolves the policy pack policy ID for each runtime policy decision that
+ * has not been seen yet.
+ */
+async function resolvePolicyIds(
+	rows: ConsentAnalyticsRow[],
+	policyIds: Map<string, string | null>,
+	{ db }: ConsentAnalyticsContext
+): Promise<void> {
+	const decisionIds = [
+		...new Set(
+			rows
+				.map((row) => row.runtimePolicyDecisionId)
+				.filter((id): id is string => !!id && !policyIds.has(id))
+		),
+	];
+	if (decisionIds.length === 0) return;
+
+	const decisions = await db.findMany('runtimePolicyDecision', {
+		select: ['id', 'policyId'],
+		where: (b) => b('id', 'in', decisionIds),
+	});
+
+	for (const id of decisionIds) {
+		policyIds.set(id, null);
+	}
+	for (const decision of decisions) {
+		policyIds.set(decision.id, decision.policyId);
+	}
+}
+
+/**
+ * Counts consents given in `[from, to)` per time bucket and group.
+ */
+export async function aggregateConsents(
+	query: ConsentAnalyticsQuery,
+	context: ConsentAnalyticsContext
+): Promise<ConsentAnalyticsOutput> {
+	const { from, to, bucket, groupBy } = query;
+	const { db } = context;
+
+	const buckets = new Map<
+		number,
+		ConsentAnalyticsBucket & { groupsByKey: Map<string, ConsentAnalyticsGroup> }
+	>();
+	for (const start of listBucketStarts(from, to, bucket)) {
+		buckets.set(start.getTime(), {
+			start,
+			total: 0,
+			groups: [],
+			groupsByKey: new Map(),
+		});
+	}
+
+	const groupByPolicy = groupBy.includes('policyId');
+	const policyIds = new Map<string, string | null>();
+	let total = 0;
+	let cursor: { givenAt: Date; id: string } | undefined;
+
+	while (true) {
+		const rows: ConsentAnalyticsRow[] = await db.findMany('consent', {
+			select: [
+				'id',
+				'givenAt',
+				'jurisdiction',
+				'consentAction',
+				'uiSource',
+				'runtimePolicyDecisionId',
+			],
+			where: (b) =>
+				b.and(
+					b('givenAt', '>=', from),
+					b('givenAt', '<', to),
+					cursor
+						? b.or(
+								b('givenAt', '>', cursor.givenAt),
+								b.and(
+									b('givenAt', '=', cursor.givenAt),
+									b('id', '>', cursor.id)
+								)
+							)
+						: true
+				),
+			orderBy: [
+				['givenAt', 'asc'],
+				['id', 'asc'],
+			],
+			limit: CONSENT_ANALYTICS_BATCH_SIZE,
+		});
+
+		if (groupByPolicy) {
+			await resolvePolicyIds(rows, policyIds, context);
+		}
+
+		for (const row of rows) {
+			const givenAt = new Date(row.givenAt);
+			const target = buckets.get(getBucketStart(givenAt, bucket).getTime());
+			if (!target) continue;
+
+			const values: Record<ConsentAnalyticsDimension, string | null> = {
+				jurisdiction: row.jurisdiction ?? null,
+				policyId: row.runtimePolicyDecisionId
+					? (policyIds.get(row.runtimePolicyDecisionId) ?? null)
+					: null,
+				consentAction: row.consentAction ?? null,
+				uiSource: row.uiSource ?? null,
+			};
+			const key = JSON.stringify(groupBy.map((dimension) => values[dimension]));
+
+			let group = target.groupsByKey.get(key);
+			if (!group) {
+				group = { count: 0 };
+				for (const dimension of groupBy) {
+					group[dimension] = values[dimension];
+				}
+				target.groupsByKey.set(key, group);
+				target.groups.push(group);
+			}
+
+			group.count++;
+			target.total++;
+			total++;
+		}
+
+		const last = rows.at(-1);
+		if (rows.length < CONSENT_ANALYTICS_BATCH_SIZE || !last) break;
+		cursor = { givenAt: new Date(last.givenAt), id: last.id };
+	}
+
+	return {
+		from,
+		to,
+		bucket,
+		groupBy,
+		total,
+		buckets: [...buckets.values()].map(({ start, total, groups }) => ({
+			start,
+			total,
+			groups: groups.sort((a, b) => b.count - a.count),
+		})),
+	};
+}
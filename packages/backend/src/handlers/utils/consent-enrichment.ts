@@ -22,6 +22,7 @@ export interface EnrichedConsentItem {
 	isLatestPolicy: boolean;
 	preferences: Record<string, boolean> | undefined;
 	givenAt: Date;
+	validUntil: Date | undefined;
 }
 
 export interface ConsentPolicyInfo {
@@ -109,6 +110,7 @@ export async function enrichConsents(
 		policyId: string | null;
 		purposeIds: unknown;
 		givenAt: Date;
+		validUntil?: Date | null;
 	}>,
 	ctx: EnrichmentContext
 ): Promise<EnrichedConsentItem[]> {
@@ -186,6 +188,7 @@ export async function enrichConsents(
 			isLatestPolicy,
 			preferences,
 			givenAt: consent.givenAt,
+			validUntil: consent.validUntil ?? undefined,
 		};
 	});
 }
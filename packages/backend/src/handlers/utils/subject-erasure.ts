@@ -0,0 +1,152 @@
+/**
+ * Subject erasure utilities for right-to-erasure requests.
+ *
+ * Removes or pseudonymizes every subject linked to an external ID or subject
+ * ID, together with their consent and audit log rows, and records a
+ * non-identifying tombstone audit entry as proof that the erasure happened.
+ *
+ * All queries go through the context ORM, so tenant scoping applied by
+ * `withTenantScope` also bounds what an erasure can touch.
+ *
+ * @packageDocumentation
+ */
+
+import type { DeleteSubjectsOutput, SubjectErasureMode } from '@c15t/schema';
+import { hashSha256Hex } from '@c15t/schema/types';
+import { generateUniqueId } from '~/db/registry/utils';
+import type { C15TContext } from '~/types';
+
+type ErasureContext = Pick<C15TContext, 'db' | 'logger'>;
+
+export interface SubjectErasureQuery {
+	externalId?: string;
+	subjectId?: string;
+	mode: SubjectErasureMode;
+}
+
+/**
+ * Identity provider written to pseudonymized subjects.
+ */
+export const ERASED_IDENTITY_PROVIDER = 'erased';
+
+/**
+ * Audit log action of the erasure tombstone
+ */
+export const ERASE_SUBJECT_ACTION = 'erase_subject';
+
+/**
+ * Erases every subject matching the query.
+ *
+ * @returns The erasure summary, or `null` when no subject matched
+ */
+export async function eraseSubjects(
+	query: SubjectErasureQuery,
+	ctx: ErasureContext
+): Promise<DeleteSubjectsOutput | null> {
+	const { db, logger } = ctx;
+	const { externalId, subjectId, mode } = query;
+
+	const subjects = await db.findMany('subject', {
+		where: (b) =>
+			b.or(
+				externalId ? b('externalId', '=', externalId) : false,
+				subjectId ? b('id', '=', subjectId) : false
+			),
+	});
+
+	if (subjects.length === 0) {
+		return null;
+	}
+
+	const subjectIds = subjects.map((s) => s.id);
+	// Hashes let an auditor confirm a known subject ID was erased without the
+	// tombstone itself identifying anyone.
+	const subjectIdHashes = await Promise.all(
+		subjectIds.map((id) => hashSha256Hex(id))
+	);
+	const erasedAt = new Date();
+
+	return db.transaction(async (tx) => {
+		const [consentCount, auditLogCount] = await Promise.all([
+			tx.count('consent', {
+				where: (b) => b('subjectId', 'in', subjectIds),
+			}),
+			tx.count('auditLog', {
+				where: (b) => b('subjectId', 'in', subjectIds),
+			}),
+		]);
+
+		if (mode === 'delete') {
+			// Children first so foreign keys to subject stay valid
+			await tx.deleteMany('consent', {
+				where: (b) => b('subjectId', 'in', subjectIds),
+			});
+			await tx.deleteMany('auditLog', {
+				where: (b) => b('subjectId', 'in', subjectIds),
+			});
+			await tx.deleteMany('subject', {
+				where: (b) => b('id', 'in', subjectIds),
+			});
+		} else {
+			await tx.updateMany('consent', {
+				where: (b) => b('subjectId', 'in', subjectIds),
+				set: {
+					ipAddress: null,
+					userAgent: null,
+					metadata: null,
+				},
+			});
+			await tx.updateMany('auditLog', {
+				where: (b) => b('subjectId', 'in', subjectIds),
+				set: {
+					ipAddress: null,
+					userAgent: null,
+					changes: null,
+					metadata: null,
+				},
+			});
+			await tx.updateMany('subject', {
+				where: (b) => b('id', 'in', subjectIds),
+				set: {
+					externalId: null,
+					identityProvider: ERASED_IDENTITY_PROVIDER,
+					updatedAt: erasedAt,
+				},
+			});
+		}
+
+		const erasureId = await generateUniqueId(tx, 'auditLog', ctx);
+		const counts = {
+			subjects: subjectIds.length,
+			consents: consentCount,
+			auditLogs: auditLogCount,
+		};
+
+		// Tombstone: no subjectId, IP or user agent so it survives the erasure
+		// and cannot be linked back to the person.
+		await tx.create('auditLog', {
+			id: erasureId,
+			subjectId: null,
+			entityType: 'subject',
+			entityId: erasureId,
+			actionType: ERASE_SUBJECT_ACTION,
+			ipAddress: null,
+			userAgent: null,
+			changes: null,
+			metadata: {
+				mode,
+				counts,
+				subjectIdHashes,
+			},
+		});
+
+		logger.info('Subjects erased', { erasureId, mode, ...counts });
+
+		return {
+			erasureId,
+			mode,
+			erasedAt,
+			counts,
+		};
+	});
+}
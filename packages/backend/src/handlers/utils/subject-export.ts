@@ -0,0 +1,285 @@
+/**
+ * Subject export utilities for Data Subject Access Requests.
+ *
+ * Collects every subject linked to an external ID or subject ID together with
+ * their consent, audit log and runtime policy decision rows, using batch
+ * queries so the cost stays flat regardless of history length.
+ *
+ * @packageDocumentation
+ */
+
+import {
+	type ExportSubjectsOutput,
+	SUBJECT_EXPORT_VERSION,
+	type SubjectExportItem,
+} from '@c15t/schema';
+import type { C15TContext } from '~/types';
+import { parsePurposeIds } from './consent-enrichment';
+
+type ExportContext = Pick<C15TContext, 'db'>;
+
+export interface SubjectExportQuery {
+	externalId?: string;
+	subjectId?: string;
+}
+
+/**
+ * Unwraps a JSON column value — handles both the `{ json: value }` wrapper
+ * (some adapters) and the raw value.
+ */
+export function unwrapJsonColumn<T>(value: unknown): T | undefined {
+	if (value == null) return undefined;
+
+	if (typeof value === 'object' && 'json' in (value as object)) {
+		return ((value as { json: unknown }).json ?? undefined) as T | undefined;
+	}
+
+	return value as T;
+}
+
+function toOptional<T>(value: T | null | undefined): T | undefined {
+	return value ?? undefined;
+}
+
+/**
+ * Builds the versioned export document for all subjects matching the query.
+ *
+ * Subjects are matched by `externalId` and/or `subjectId`. When both are
+ * provided, the union of both matches is exported.
+ */
+export async function buildSubjectExport(
+	query: SubjectExportQuery,
+	ctx: ExportContext
+): Promise<ExportSubjectsOutput> {
+	const { db } = ctx;
+	const { externalId, subjectId } = query;
+
+	const subjects = await db.findMany('subject', {
+		where: (b) =>
+			b.or(
+				externalId ? b('externalId', '=', externalId) : false,
+				subjectId ? b('id', '=', subjectId) : false
+			),
+		orderBy: ['createdAt', 'asc'],
+	});
+
+	const document: ExportSubjectsOutput = {
+		version: SUBJECT_EXPORT_VERSION,
+		generatedAt: new Date(),
+		query: { externalId, subjectId },
+		subjects: [],
+	};
+
+	if (subjects.length === 0) {
+		return document;
+	}
+
+	const subjectIds = subjects.map((s) => s.id);
+
+	const [consents, auditLogs] = await Promise.all([
+		db.findMany('consent', {
+			where: (b) => b('subjectId', 'in', subjectIds),
+			orderBy: ['givenAt', 'asc'],
+		}),
+		db.findMany('auditLog', {
+			where: (b) => b('subjectId', 'in', subjectIds),
+			orderBy: ['createdAt', 'asc'],
+		}),
+	]);
+
+	// Collect referenced rows for batch loading
+	const domainIds = new Set<string>();
+	const policyIds = new Set<string>();
+	const purposeIds = new Set<string>();
+	const decisionIds = new Set<string>();
+	for (const consent of consents) {
+		domainIds.add(consent.domainId);
+		if (consent.policyId) policyIds.add(consent.policyId);
+		if (consent.runtimePolicyDecisionId) {
+			decisionIds.add(consent.runtimePolicyDecisionId);
+		}
+		for (const id of parsePurposeIds(consent.purposeIds)) {
+			purposeIds.add(id);
+		}
+	}
+
+	const [domains, policies, purposes, decisions] = await Promise.all([
+		domainIds.size > 0
+			? db.findMany('domain', {
+					where: (b) => b('id', 'in', [...domainIds]),
+				})
+			: [],
+		policyIds.size > 0
+			? db.findMany('consentPolicy', {
+					where: (b) => b('id', 'in', [...policyIds]),
+				})
+			: [],
+		purposeIds.size > 0
+			? db.findMany('consentPurpose', {
+					where: (b) => b('id', 'in', [...purposeIds]),
+				})
+			: [],
+		decisionIds.size > 0
+			? db.findMany('runtimePolicyDecision', {
+					where: (b) => b('id', 'in', [...decisionIds]),
+				})
+			: [],
+	]);
+
+	const domainMap = new Map(domains.map((d) => [d.id, d.name]));
+	const policyMap = new Map(policies.map((p) => [p.id, p]));
+	const purposeMap = new Map(purposes.map((p) => [p.id, p.code]));
+	const decisionMap = new Map(decisions.map((d) => [d.id, d]));
+
+	document.subjects = subjects.map((subject): SubjectExportItem => {
+		const subjectConsents = consents.filter((c) => c.subjectId === subject.id);
+		const subjectDecisionIds = new Set(
+			subjectConsents
+				.map((c) => c.runtimePolicyDecisionId)
+				.filter((id): id is string => Boolean(id))
+		);
+
+		return {
+			id: subject.id,
+			externalId: toOptional(subject.externalId),
+			identityProvider: toOptional(subject.identityProvider),
+			createdAt: subject.createdAt,
+			updatedAt: toOptional(subject.updatedAt),
+			consents: subjectConsents.map((consent) => {
+				const policy = consent.policyId
+					? policyMap.get(consent.policyId)
+					: undefined;
+
+				return {
+					id: consent.id,
+					domainId: consent.domainId,
+					domain: domainMap.get(consent.domainId),
+					policyId: toOptional(consent.policyId),
+					policyType: policy?.type,
+					policyVersion: policy?.version,
+					purposes: parsePurposeIds(consent.purposeIds)
+						.map((id) => purposeMap.get(id))
+						.filter((code): code is string => Boolean(code)),
+					metadata: unwrapJsonColumn(consent.metadata),
+					ipAddress: toOptional(consent.ipAddress),
+					userAgent: toOptional(consent.userAgent),
+					jurisdiction: toOptional(consent.jurisdiction),
+					jurisdictionModel: toOptional(consent.jurisdictionModel),
+					tcString: toOptional(consent.tcString),
+					uiSource: toOptional(consent.uiSource),
+					consentAction: toOptional(consent.consentAction),
+					runtimePolicyDecisionId: toOptional(consent.runtimePolicyDecisionId),
+					runtimePolicySource: toOptional(consent.runtimePolicySource),
+					givenAt: consent.givenAt,
+					validUntil: toOptional(consent.validUntil),
+				};
+			}),
+			auditLogs: auditLogs
+				.filter((log) => log.subjectId === subject.id)
+				.map((log) => ({
+					id: log.id,
+					entityType: log.entityType,
+					entityId: log.entityId,
+					actionType: log.actionType,
+					ipAddress: toOptional(log.ipAddress),
+					userAgent: toOptional(log.userAgent),
+					changes: unwrapJsonColumn(log.changes),
+					metadata: unwrapJsonColumn(log.metadata),
+					createdAt: log.createdAt,
+				})),
+			runtimePolicyDecisions: [...subjectDecisionIds]
+				.map((id) => decisionMap.get(id))
+				.filter((decision) => decision !== undefined)
+				.map((decision) => ({
+					id: decision.id,
+					policyId: decision.policyId,
+					fingerprint: decision.fingerprint,
+					matchedBy: decision.matchedBy,
+					countryCode: toOptional(decision.countryCode),
+					regionCode: toOptional(decision.regionCode),
+					jurisdiction: decision.jurisdiction,
+					language: toOptional(decision.language),
+					model: decision.model,
+					uiMode: toOptional(decision.uiMode),
+					categories: unwrapJsonColumn(decision.categories),
+					preselectedCategories: unwrapJsonColumn(
+						decision.preselectedCategories
+					),
+					proofConfig: unwrapJsonColumn(decision.proofConfig),
+					createdAt: decision.createdAt,
+				})),
+		};
+	});
+
+	return document;
+}
+
+const SUBJECT_EXPORT_CSV_COLUMNS = [
+	'recordType',
+	'subjectId',
+	'recordId',
+	'timestamp',
+	'data',
+] as const;
+
+function escapeCsvValue(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+/**
+ * Serializes an export document as CSV.
+ *
+ * Each subject, consent, audit log and runtime policy decision becomes one
+ * row. Record-specific fields are kept in the `data` column as JSON so the
+ * CSV stays lossless while remaining spreadsheet-friendly.
+ */
+export function serializeSubjectExportCsv(
+	document: ExportSubjectsOutput
+): string {
+	const rows: string[][] = [[...SUBJECT_EXPORT_CSV_COLUMNS]];
+
+	for (const subject of document.subjects) {
+		const { consents, auditLogs, runtimePolicyDecisions, ...subjectData } =
+			subject;
+
+		rows.push([
+			'subject',
+			subject.id,
+			subject.id,
+			subject.createdAt.toISOString(),
+			JSON.stringify(subjectData),
+		]);
+
+		for (const consent of consents) {
+			rows.push([
+				'consent',
+				subject.id,
+				consent.id,
+				consent.givenAt.toISOString(),
+				JSON.stringify(consent),
+			]);
+		}
+
+		for (const log of auditLogs) {
+			rows.push([
+				'audit_log',
+				subject.id,
+				log.id,
+				log.createdAt.toISOString(),
+				JSON.stringify(log),
+			]);
+		}
+
+		for (const decision of runtimePolicyDecisions) {
+			rows.push([
+				'runtime_policy_decision',
+				subject.id,
+				decision.id,
+				decision.createdAt.toISOString(),
+				JSON.stringify(decision),
+			]);
+		}
+	}
+
+	return `${rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n')}\r\n`;
+}
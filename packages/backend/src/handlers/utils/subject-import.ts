@@ -0,0 +1,337 @@
+/**
+ * Bulk consent import for migrating historical records from another CMP.
+ *
+ * Each NDJSON line becomes one consent record. Consent IDs are derived from
+ * the tenant and the client-supplied `dedupeKey`, so importing the same file
+ * twice skips records that already exist instead of duplicating them.
+ * Subjects, domains, policies and purposes are resolved through the same
+ * registries `POST /subjects` uses.
+ *
+ * @packageDocumentation
+ */
+
+import {
+	type ImportSubjectLineError,
+	type ImportSubjectRecord,
+	type ImportSubjectsOutput,
+	importSubjectRecordSchema,
+} from '@c15t/schema';
+import { hashSha256Hex } from '@c15t/schema/types';
+import baseX from 'base-x';
+import * as v from 'valibot';
+import { type AuditEventContext, emitAuditEvent } from '~/audit-events';
+import { publishSubjectEvent } from '~/subject-events';
+import type { C15TContext } from '~/types';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+
+type ImportContext = Pick<C15TContext, 'db' | 'registry' | 'subjectEvents'> &
+	AuditEventContext;
+
+/**
+ * A non-empty line of the request body
+ */
+export interface ImportLine {
+	/** 1-based line number */
+	line: number;
+	text: string;
+}
+
+class ImportLineError extends Error {
+	constructor(
+		readonly code: ImportSubjectLineError['code'],
+		message: string
+	) {
+		super(message);
+		this.name = 'ImportLineError';
+	}
+}
+
+const b58 = baseX('123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz');
+
+/**
+ * Builds a stable, base58-encoded ID so the same input always maps to the
+ * same row.
+ */
+export async function buildImportId(
+	prefix: 'cns' | 'sub',
+	parts: string[]
+): Promise<string> {
+	const digest = await hashSha256Hex(parts.join('|'));
+	const bytes = Uint8Array.from(
+		digest.slice(0, 40).match(/.{2}/g) ?? [],
+		(byte) => Number.parseInt(byte, 16)
+	);
+	return `${prefix}_${b58.encode(bytes)}`;
+}
+
+/**
+ * Splits an NDJSON body into its non-empty lines.
+ */
+export function parseImportLines(body: string): ImportLine[] {
+	return body
+		.split(/\r?\n/)
+		.map((text, index) => ({ line: index + 1, text: text.trim() }))
+		.filter(({ text }) => text.length > 0);
+}
+
+function isLegalDocumentType(
+	type: ImportSubjectRecord['type']
+): type is 'privacy_policy' | 'terms_and_conditions' | 'dpa' {
+	return (
+		type === 'privacy_policy' ||
+		type === 'terms_and_conditions' ||
+		type === 'dpa'
+	);
+}
+
+function parseRecord(text: string): ImportSubjectRecord {
+	let json: unknown;
+	try {
+		json = JSON.parse(text);
+	} catch {
+		throw new ImportLineError('INVALID_JSON', 'Line is not valid JSON');
+	}
+
+	const result = v.safeParse(importSubjectRecordSchema, json);
+	if (!result.success) {
+		throw new ImportLineError(
+			'INPUT_VALIDATION_FAILED',
+			result.issues
+				.map((issue) => `${v.getDotPath(issue) ?? 'record'}: ${issue.message}`)
+				.join('; ')
+		);
+	}
+	return result.output;
+}
+
+async function resolvePolicyId(
+	record: ImportSubjectRecord,
+	ctx: ImportContext
+): Promise<string> {
+	const { registry } = ctx;
+
+	if (record.policyId) {
+		const policy = await registry.findConsentPolicyById(record.policyId);
+		if (!policy) {
+			throw new ImportLineError(
+				'POLICY_NOT_FOUND',
+				`Policy ${record.policyId} not found`
+			);
+		}
+		return policy.id;
+	}
+
+	if (isLegalDocumentType(record.type)) {
+		if (!record.policyHash) {
+			throw new ImportLineError(
+				'LEGAL_DOCUMENT_PROOF_REQUIRED',
+				'Legal document records require policyId or policyHash'
+			);
+		}
+		// Historical releases are accepted even when no longer active
+		const policy = await registry.findLegalDocumentPolicyByHash(
+			record.type,
+			record.policyHash
+		);
+		if (!policy) {
+			throw new ImportLineError(
+				'POLICY_NOT_FOUND',
+				`No ${record.type} release with hash ${record.policyHash}. Sync it with PUT /legal-documents/:type/current first`
+			);
+		}
+		return policy.id;
+	}
+
+	const policy = await registry.findOrCreatePolicy(record.type);
+	if (!policy) {
+		throw new ImportLineError(
+			'IMPORT_FAILED',
+			`Failed to create policy for ${record.type}`
+		);
+	}
+	return policy.id;
+}
+
+/**
+ * Imports a single record.
+ *
+ * @returns `false` when a consent with the same dedupe key already exists
+ */
+async function importRecord(
+	record: ImportSubjectRecord,
+	ctx: ImportContext
+): Promise<boolean> {
+	const { db, registry } = ctx;
+	const tenant = ctx.tenantId ?? 'default';
+
+	const consentId = await buildImportId('cns', [
+		tenant,
+		'consent',
+		record.dedupeKey,
+	]);
+	const existing = await db.findFirst('consent', {
+		where: (b) => b('id', '=', consentId),
+	});
+	if (existing) {
+		return false;
+	}
+
+	// Records for the same external user share one subject
+	const subjectId =
+		record.subjectId ??
+		(await buildImportId(
+			'sub',
+			record.externalId
+				? [
+						tenant,
+						'external',
+						record.identityProvider ?? 'external',
+						record.externalId,
+					]
+				: [tenant, 'anonymous', record.dedupeKey]
+		));
+	const subject = await registry.findOrCreateSubject({
+		subjectId,
+		externalSubjectId: record.externalId,
+		identityProvider: record.identityProvider,
+	});
+	if (!subject) {
+		throw new ImportLineError('IMPORT_FAILED', 'Failed to create subject');
+	}
+
+	const domain = await registry.findOrCreateDomain(record.domain);
+	if (!domain) {
+		throw new ImportLineError('IMPORT_FAILED', 'Failed to create domain');
+	}
+
+	const policyId = await resolvePolicyId(record, ctx);
+
+	const consentedPurposeCodes = Object.entries(record.preferences ?? {})
+		.filter(([_, isConsented]) => isConsented)
+		.map(([purposeCode]) => purposeCode);
+	const purposes = await Promise.all(
+		consentedPurposeCodes.map((purposeCode) =>
+			registry.findOrCreateConsentPurposeByCode(purposeCode)
+		)
+	);
+	const purposeIds = purposes
+		.map((purpose) => purpose?.id ?? null)
+		.filter((id): id is string => Boolean(id));
+
+	try {
+		await db.create('consent', {
+			id: consentId,
+			subjectId: subject.id,
+			domainId: domain.id,
+			policyId,
+			purposeIds: { json: purposeIds },
+			metadata: {
+				json: {
+					...(record.metadata ?? {}),
+					import: { dedupeKey: record.dedupeKey },
+				},
+			},
+			ipAddress: null,
+			userAgent: null,
+			givenAt: new Date(record.givenAt),
+			validUntil:
+				record.validUntil !== undefined
+					? new Date(record.validUntil)
+					: undefined,
+			jurisdiction: record.jurisdiction,
+			jurisdictionModel: record.jurisdictionModel,
+			tcString: record.tcString,
+			uiSource: record.uiSource,
+			consentAction: record.consentAction,
+		});
+	} catch (error) {
+		// Race: a concurrent import may have inserted the same dedupe key
+		const concurrent = await db.findFirst('consent', {
+			where: (b) => b('id', '=', consentId),
+		});
+		if (concurrent) {
+			return false;
+		}
+		throw error;
+	}
+
+	emitAuditEvent(ctx, 'consent.recorded', {
+		subjectId: subject.id,
+		externalId: subject.externalId ?? undefined,
+		consentId,
+		domain: domain.name,
+		type: record.type,
+		preferences: record.preferences,
+		jurisdiction: record.jurisdiction,
+		consentAction: record.consentAction,
+		uiSource: record.uiSource,
+		givenAt: new Date(record.givenAt).toISOString(),
+		source: 'import',
+	});
+	publishSubjectEvent(ctx, subject, {
+		type: 'consent.recorded',
+		data: {
+			consentId,
+			type: record.type,
+			preferences: record.preferences,
+			consentAction: record.consentAction,
+			givenAt: new Date(record.givenAt).toISOString(),
+		},
+	});
+
+	return true;
+}
+
+/**
+ * Imports every line, collecting failures instead of aborting the batch.
+ */
+export async function importSubjects(
+	lines: ImportLine[],
+	ctx: ImportContext
+): Promise<ImportSubjectsOutput> {
+	const { logger } = ctx;
+	const errors: ImportSubjectLineError[] = [];
+	let imported = 0;
+	let skipped = 0;
+
+	// Sequential so one batch does not exhaust the connection pool
+	for (const { line, text } of lines) {
+		let record: ImportSubjectRecord | undefined;
+		try {
+			record = parseRecord(text);
+			if (await importRecord(record, ctx)) {
+				imported++;
+			} else {
+				skipped++;
+			}
+		} catch (error) {
+			if (!(error instanceof ImportLineError)) {
+				logger.error('Failed to import consent record', {
+					line,
+					error: extractErrorMessage(error),
+				});
+			}
+			errors.push({
+				line,
+				...(record && { dedupeKey: record.dedupeKey }),
+				code: error instanceof ImportLineError ? error.code : 'IMPORT_FAILED',
+				message: extractErrorMessage(error),
+			});
+		}
+	}
+
+	logger.info('Imported consent records', {
+		total: lines.length,
+		imported,
+		skipped,
+		failed: errors.length,
+	});
+
+	return {
+		total: lines.length,
+		imported,
+		skipped,
+		failed: errors.length,
+		errors,
+	};
+}
@@ -153,4 +153,15 @@ describe('init', () => {
 			'policyPacks: No default policy configured. Requests that do not match region/country will have no active policy.'
 		);
 	});
+
+	it('rejects tenantId combined with resolveTenant', () => {
+		const options = createOptions({
+			tenantId: 'acme',
+			resolveTenant: () => 'acme',
+		});
+
+		expect(() => init(options)).toThrow(
+			'`tenantId` and `resolveTenant` cannot be combined'
+		);
+	});
 });
@@ -4,6 +4,7 @@ import { createRegistry } from './db/registry';
 import { DB } from './db/schema';
 import { withTenantScope } from './db/tenant-scope';
 import { inspectPolicies } from './handlers/init/policy';
+import { createMemorySubjectEventBus } from './subject-events';
 import {
 	createTelemetryOptions,
 	isTelemetryEnabled,
@@ -38,6 +39,12 @@ import { initLogger } from './utils/logger';
 export const init = (options: C15TOptions): C15TContext => {
 	const appName = options.appName || 'c15t';
 
+	if (options.tenantId !== undefined && options.resolveTenant) {
+		throw new Error(
+			'`tenantId` and `resolveTenant` cannot be combined. Use `tenantId` for a single-tenant instance or `resolveTenant` to scope each request.'
+		);
+	}
+
 	const logger = initLogger({
 		...options.logger,
 		appName: String(appName),
@@ -65,7 +72,9 @@ export const init = (options: C15TOptions): C15TContext => {
 	const db = options.tablePrefix ? DB.names.prefix(options.tablePrefix) : DB;
 	const client = db.client(options.adapter);
 
-	const rawOrm = client.orm('2.0.0');
+	const rawOrm = client.orm('2.1.0');
+	// With `resolveTenant`, the ORM stays unscoped and each request is scoped
+	// by `createTenantContext`
 	const orm = options.tenantId
 		? withTenantScope(rawOrm, options.tenantId)
 		: rawOrm;
@@ -105,6 +114,10 @@ export const init = (options: C15TOptions): C15TContext => {
 
 	const context: C15TContext = {
 		...baseOptions,
+		subjectEvents: {
+			...options.subjectEvents,
+			bus: options.subjectEvents?.bus ?? createMemorySubjectEventBus(),
+		},
 		appName,
 		logger,
 		db: orm,
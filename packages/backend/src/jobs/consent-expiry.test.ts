@@ -0,0 +1,164 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+	createInMemoryDb,
+	type InMemoryRow,
+	type InMemoryTables,
+} from '~/testing/in-memory-db';
+import type { C15TContext } from '~/types';
+import { CONSENT_EXPIRED_ACTION, sweepExpiredConsents } from './consent-expiry';
+
+const consent = (
+	id: string,
+	subjectId: string,
+	givenAt: string,
+	validUntil: string | null,
+	policyId = 'pol_cookie'
+): InMemoryRow => ({
+	id,
+	subjectId,
+	domainId: 'dom_1',
+	policyId,
+	givenAt: new Date(givenAt),
+	validUntil: validUntil ? new Date(validUntil) : null,
+});
+
+const NOW = new Date('2026-06-01T00:00:00.000Z');
+
+function createContext(consents: InMemoryRow[]) {
+	const tables: InMemoryTables = {
+		consent: consents,
+		consentPolicy: [
+			{ id: 'pol_cookie', type: 'cookie_banner' },
+			{ id: 'pol_privacy', type: 'privacy_policy' },
+		],
+		auditLog: [],
+	};
+	let createdAt = 0;
+	const db = createInMemoryDb(tables, {
+		createdAt: () => new Date(++createdAt),
+	});
+	const ctx = {
+		db,
+		tenantId: 'tenant-a',
+		logger: {
+			info: vi.fn(),
+			debug: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+		},
+	} as unknown as C15TContext;
+
+	return { ctx, tables };
+}
+
+describe('sweepExpiredConsents', () => {
+	it('records expired consents and reports subjects needing re-consent', async () => {
+		const { ctx, tables } = createContext([
+			consent('cns_a1', 'sub_a', '2025-01-01', '2026-01-01'),
+			consent('cns_b1', 'sub_b', '2025-01-01', '2026-02-01'),
+			// sub_b consented again, so its expired consent is superseded
+			consent('cns_b2', 'sub_b', '2026-02-15', '2027-02-15'),
+			consent('cns_c1', 'sub_c', '2025-01-01', '2027-01-01'),
+			consent('cns_d1', 'sub_d', '2025-01-01', null),
+		]);
+
+		const result = await sweepExpiredConsents(ctx, { now: NOW });
+
+		expect(result).toEqual({
+			tenantId: 'tenant-a',
+			expired: 2,
+			reconsentRequired: [
+				{
+					subjectId: 'sub_a',
+					consentId: 'cns_a1',
+					type: 'cookie_banner',
+					domainId: 'dom_1',
+					expiredAt: new Date('2026-01-01'),
+				},
+			],
+			hasMore: false,
+		});
+		expect(tables.auditLog).toEqual([
+			expect.objectContaining({
+				subjectId: 'sub_a',
+				entityType: 'consent',
+				entityId: 'cns_a1',
+				actionType: CONSENT_EXPIRED_ACTION,
+				metadata: {
+					validUntil: '2026-01-01T00:00:00.000Z',
+					requiresReconsent: true,
+				},
+			}),
+			expect.objectContaining({
+				entityId: 'cns_b1',
+				metadata: {
+					validUntil: '2026-02-01T00:00:00.000Z',
+					requiresReconsent: false,
+				},
+			}),
+		]);
+	});
+
+	it('only records each expiry once across runs', async () => {
+		const { ctx, tables } = createContext([
+			consent('cns_a1', 'sub_a', '2025-01-01', '2026-01-01'),
+		]);
+
+		await sweepExpiredConsents(ctx, { now: NOW });
+		const second = await sweepExpiredConsents(ctx, { now: NOW });
+		const rescan = await sweepExpiredConsents(ctx, {
+			now: NOW,
+			since: new Date(0),
+		});
+
+		expect(second.expired).toBe(0);
+		expect(rescan.expired).toBe(0);
+		expect(tables.auditLog).toHaveLength(1);
+	});
+
+	it('continues after the limit and records late consents within the overlap', async () => {
+		const { ctx, tables } = createContext([
+			consent('cns_a1', 'sub_a', '2025-01-01', '2026-01-01'),
+			consent('cns_b1', 'sub_b', '2025-01-01', '2026-02-01'),
+			consent('cns_c1', 'sub_c', '2025-01-01', '2026-03-01'),
+		]);
+
+		const first = await sweepExpiredConsents(ctx, { now: NOW, limit: 2 });
+		expect(first).toMatchObject({ expired: 2, hasMore: true });
+
+		// Imported after the first sweep, expired just before the last recorded one
+		tables.consent?.push(
+			consent('cns_z1', 'sub_z', '2025-01-01', '2026-01-31T12:00:00.000Z')
+		);
+
+		const second = await sweepExpiredConsents(ctx, { now: NOW });
+		expect(second).toMatchObject({ expired: 2, hasMore: false });
+		expect(second.reconsentRequired.map((entry) => entry.consentId)).toEqual([
+			'cns_z1',
+			'cns_c1',
+		]);
+		expect(tables.auditLog?.map((entry) => entry.entityId)).toEqual([
+			'cns_a1',
+			'cns_b1',
+			'cns_z1',
+			'cns_c1',
+		]);
+	});
+
+	it('only reads consents that expired since the last run', async () => {
+		const { ctx, tables } = createContext([
+			consent('cns_a1', 'sub_a', '2025-01-01', '2026-03-01'),
+		]);
+		await sweepExpiredConsents(ctx, { now: NOW });
+
+		// Imported with a validUntil well before the overlap window
+		tables.consent?.push(
+			consent('cns_z1', 'sub_z', '2024-01-01', '2025-01-01')
+		);
+
+		expect((await sweepExpiredConsents(ctx, { now: NOW })).expired).toBe(0);
+		expect(
+			await sweepExpiredConsents(ctx, { now: NOW, since: new Date(0) })
+		).toMatchObject({ expired: 1 });
+	});
+});
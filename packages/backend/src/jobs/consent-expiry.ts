@@ -0,0 +1,330 @@
+/**
+ * Consent expiry sweep.
+ *
+ * Consents stop being valid at `validUntil`, which is derived from the
+ * policy's `consent.expiryDays` when the consent is recorded. The sweep writes
+ * one `consent_expired` audit entry per expired consent and reports the
+ * subjects whose latest consent of a type has expired, so they can be asked
+ * to consent again.
+ *
+ * Each run resumes from the `validUntil` of the most recently recorded
+ * expiry, minus an overlap window, so a run only reads consents that expired
+ * since the last one. Consents written late with a `validUntil` inside the
+ * overlap, such as recent imports, are still recorded; entries that already
+ * exist are skipped.
+ *
+ * @packageDocumentation
+ */
+
+import { generateUniqueId } from '~/db/registry/utils';
+import { unwrapJsonColumn } from '~/handlers/utils/subject-export';
+import type { C15TContext } from '~/types';
+
+/**
+ * Audit log action written once for every expired consent
+ */
+export const CONSENT_EXPIRED_ACTION = 'consent_expired';
+
+const DEFAULT_LIMIT = 1000;
+const BATCH_SIZE = 200;
+const DEFAULT_OVERLAP_MS = 86_400_000;
+
+type ConsentExpiryContext = Pick<C15TContext, 'db' | 'logger' | 'tenantId'>;
+
+export interface SweepExpiredConsentsOptions {
+	/**
+	 * Maximum number of consents to mark as expired in one call.
+	 * @default 1000
+	 */
+	limit?: number;
+	/**
+	 * Reference time for expiry.
+	 * @default new Date()
+	 */
+	now?: Date;
+	/**
+	 * Only consider consents that expired at or after this time. Defaults to
+	 * the `validUntil` of the last recorded expiry minus `overlapMs`. Pass
+	 * `new Date(0)` to rescan every expired consent; already recorded expiries
+	 * are skipped.
+	 */
+	since?: Date;
+	/**
+	 * How far before the last recorded expiry a run starts reading, to pick
+	 * up consents written late with a past `validUntil`.
+	 * @default 86400000 (one day)
+	 */
+	overlapMs?: number;
+}
+
+export interface ConsentReconsentRequirement {
+	subjectId: string;
+	/** The expired consent */
+	consentId: string;
+	/** Consent policy type, e.g. `cookie_banner` */
+	type: string;
+	domainId: string;
+	expiredAt: Date;
+}
+
+export interface SweepExpiredConsentsResult {
+	tenantId?: string;
+	/** Consents newly marked as expired in this run */
+	expired: number;
+	/**
+	 * Expired consents that are still the subject's latest consent for the
+	 * same domain and policy type. Consents already superseded by a newer,
+	 * valid consent are marked as expired but not listed here.
+	 */
+	reconsentRequired: ConsentReconsentRequirement[];
+	/** `true` when `limit` was reached and another run is needed */
+	hasMore: boolean;
+}
+
+interface ExpiredConsentRow {
+	id: string;
+	subjectId: string;
+	domainId: string;
+	policyId: string | null;
+	givenAt: Date;
+	validUntil: Date | null;
+}
+
+/**
+ * Returns where a run starts reading: the `validUntil` of the most recently
+ * recorded expiry, minus the overlap window.
+ */
+async function resolveCheckpoint(
+	{ db }: ConsentExpiryContext,
+	overlapMs: number
+): Promise<Date | undefined> {
+	const [latest] = await db.findMany('auditLog', {
+		select: ['metadata'],
+		where: (b) => b('actionType', '=', CONSENT_EXPIRED_ACTION),
+		orderBy: [
+			['createdAt', 'desc'],
+			['id', 'desc'],
+		],
+		limit: 1,
+	});
+	const validUntil = unwrapJsonColumn<{ validUntil?: string }>(
+		latest?.metadata
+	)?.validUntil;
+
+	return validUntil
+		? new Date(new Date(validUntil).getTime() - overlapMs)
+		: undefined;
+}
+
+/**
+ * Returns the IDs of consents that already have an expiry entry.
+ */
+async function findRecordedExpiries(
+	rows: ExpiredConsentRow[],
+	{ db }: ConsentExpiryContext
+): Promise<Set<string>> {
+	if (rows.length === 0) return new Set();
+
+	const entries = await db.findMany('auditLog', {
+		select: ['entityId'],
+		where: (b) =>
+			b.and(
+				b('actionType', '=', CONSENT_EXPIRED_ACTION),
+				b(
+					'entityId',
+					'in',
+					rows.map((row) => row.id)
+				)
+			),
+	});
+
+	return new Set(entries.map((entry) => entry.entityId));
+}
+
+/**
+ * Finds the expired consents that are still the latest consent of their
+ * subject for the same domain and policy type.
+ */
+async function findReconsentRequirements(
+	expired: ExpiredConsentRow[],
+	now: Date,
+	{ db }: ConsentExpiryContext
+): Promise<ConsentReconsentRequirement[]> {
+	const subjectIds = [...new Set(expired.map((row) => row.subjectId))];
+	const related: ExpiredConsentRow[] = await db.findMany('consent', {
+		select: [
+			'id',
+			'subjectId',
+			'domainId',
+			'policyId',
+			'givenAt',
+			'validUntil',
+		],
+		where: (b) => b('subjectId', 'in', subjectIds),
+	});
+
+	const policyIds = [
+		...new Set(
+			[...expired, ...related]
+				.map((row) => row.policyId)
+				.filter((id): id is string => !!id)
+		),
+	];
+	const policies =
+		policyIds.length > 0
+			? await db.findMany('consentPolicy', {
+					select: ['id', 'type'],
+					where: (b) => b('id', 'in', policyIds),
+				})
+			: [];
+	const typeByPolicyId = new Map(
+		policies.map((policy) => [policy.id, policy.type])
+	);
+	const getType = (row: ExpiredConsentRow) =>
+		(row.policyId && typeByPolicyId.get(row.policyId)) || 'unknown';
+
+	return expired
+		.filter(
+			(row) =>
+				!related.some(
+					(other) =>
+						other.id !== row.id &&
+						other.subjectId === row.subjectId &&
+						other.domainId === row.domainId &&
+						getType(other) === getType(row) &&
+						new Date(other.givenAt) > new Date(row.givenAt) &&
+						(!other.validUntil || new Date(other.validUntil) > now)
+				)
+		)
+		.map((row) => ({
+			subjectId: row.subjectId,
+			consentId: row.id,
+			type: getType(row),
+			domainId: row.domainId,
+			expiredAt: new Date(row.validUntil as Date),
+		}));
+}
+
+/**
+ * Marks consents past their `validUntil` as expired in the audit log.
+ *
+ * Runs against the tenant of the given context, since its database is
+ * already tenant-scoped. Safe to run repeatedly: consents that already have a
+ * `consent_expired` entry are skipped.
+ *
+ * @example
+ * ```ts
+ * const instance = c15tInstance(options);
+ *
+ * // From a cron job
+ * const { reconsentRequired } = await sweepExpiredConsents(instance.$context);
+ *
+ * // Or after a request, without blocking the response
+ * instance.$context.background?.run(async () => {
+ *   await sweepExpiredConsents(instance.$context);
+ * });
+ * ```
+ */
+export async function sweepExpiredConsents(
+	ctx: ConsentExpiryContext,
+	{
+		limit = DEFAULT_LIMIT,
+		now = new Date(),
+		since,
+		overlapMs = DEFAULT_OVERLAP_MS,
+	}: SweepExpiredConsentsOptions = {}
+): Promise<SweepExpiredConsentsResult> {
+	const { db, logger } = ctx;
+	const result: SweepExpiredConsentsResult = {
+		tenantId: ctx.tenantId,
+		expired: 0,
+		reconsentRequired: [],
+		hasMore: false,
+	};
+
+	const checkpoint = since ?? (await resolveCheckpoint(ctx, overlapMs));
+	let cursor: { validUntil: Date; id: string } | undefined;
+
+	while (result.expired < limit) {
+		const rows: ExpiredConsentRow[] = await db.findMany('consent', {
+			select: [
+				'id',
+				'subjectId',
+				'domainId',
+				'policyId',
+				'givenAt',
+				'validUntil',
+			],
+			where: (b) =>
+				b.and(
+					checkpoint ? b('validUntil', '>=', checkpoint) : true,
+					b('validUntil', '<', now),
+					cursor
+						? b.or(
+								b('validUntil', '>', cursor.validUntil),
+								b.and(
+									b('validUntil', '=', cursor.validUntil),
+									b('id', '>', cursor.id)
+								)
+							)
+						: true
+				),
+			orderBy: [
+				['validUntil', 'asc'],
+				['id', 'asc'],
+			],
+			limit: BATCH_SIZE,
+		});
+
+		const recorded = await findRecordedExpiries(rows, ctx);
+		const pending = rows.filter((row) => !recorded.has(row.id));
+		const expired = pending.slice(0, limit - result.expired);
+
+		if (expired.length > 0) {
+			const reconsent = await findReconsentRequirements(expired, now, ctx);
+			const reconsentIds = new Set(reconsent.map((entry) => entry.consentId));
+
+			for (const row of expired) {
+				await db.create('auditLog', {
+					id: await generateUniqueId(db, 'auditLog', ctx),
+					subjectId: row.subjectId,
+					entityType: 'consent',
+					entityId: row.id,
+					actionType: CONSENT_EXPIRED_ACTION,
+					ipAddress: null,
+					userAgent: null,
+					changes: null,
+					metadata: {
+						validUntil: new Date(row.validUntil as Date).toISOString(),
+						requiresReconsent: reconsentIds.has(row.id),
+					},
+				});
+			}
+
+			result.expired += expired.length;
+			result.reconsentRequired.push(...reconsent);
+		}
+
+		if (pending.length > expired.length) {
+			result.hasMore = true;
+			break;
+		}
+
+		const last = rows.at(-1);
+		if (rows.length < BATCH_SIZE || !last) break;
+		cursor = { validUntil: new Date(last.validUntil as Date), id: last.id };
+
+		if (result.expired >= limit) {
+			result.hasMore = true;
+		}
+	}
+
+	logger.info('Swept expired consents', {
+		tenantId: ctx.tenantId,
+		expired: result.expired,
+		reconsentRequired: result.reconsentRequired.length,
+		hasMore: result.hasMore,
+	});
+
+	return result;
+}
@@ -0,0 +1,23 @@
+/**
+ * Maintenance jobs
+ *
+ * Routines meant to run from a scheduler or `background.run`, outside the
+ * request path.
+ *
+ * @packageDocumentation
+ */
+
+export {
+	CONSENT_EXPIRED_ACTION,
+	type ConsentReconsentRequirement,
+	type SweepExpiredConsentsOptions,
+	type SweepExpiredConsentsResult,
+	sweepExpiredConsents,
+} from './consent-expiry';
+export {
+	RETENTION_PURGE_ACTION,
+	type RetentionTable,
+	type RunRetentionPurgeOptions,
+	type RunRetentionPurgeResult,
+	runRetentionPurge,
+} from './retention';
@@ -0,0 +1,207 @@
+import { describe, expect, it, vi } from 'vitest';
+import { withTenantScope } from '~/db/tenant-scope';
+import { ERASE_SUBJECT_ACTION } from '~/handlers/utils/subject-erasure';
+import {
+	createInMemoryDb,
+	type InMemoryRow,
+	type InMemoryTables,
+} from '~/testing/in-memory-db';
+import type { C15TContext, RetentionOptions } from '~/types';
+import { RETENTION_PURGE_ACTION, runRetentionPurge } from './retention';
+
+const NOW = new Date('2026-01-01T00:00:00.000Z');
+const yearsAgo = (years: number) =>
+	new Date(NOW.getTime() - years * 365 * 86_400_000 - 1000);
+
+const consent = (
+	id: string,
+	givenAt: Date,
+	jurisdiction: string | null,
+	runtimePolicyDecisionId: string | null = null,
+	tenantId = 'tenant-a'
+): InMemoryRow => ({
+	id,
+	subjectId: 'sub_1',
+	givenAt,
+	jurisdiction,
+	runtimePolicyDecisionId,
+	tenantId,
+});
+
+function createContext(tables: InMemoryTables, retention?: RetentionOptions) {
+	return {
+		db: withTenantScope(createInMemoryDb(tables), 'tenant-a'),
+		tenantId: 'tenant-a',
+		logger: {
+			debug: vi.fn(),
+			info: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+		},
+		retention,
+	} as unknown as C15TContext;
+}
+
+const idsOf = (rows: InMemoryRow[] | undefined) =>
+	(rows ?? []).map((row) => row.id);
+
+describe('runRetentionPurge', () => {
+	it('does nothing without a retention option', async () => {
+		const tables = { consent: [consent('cns_old', yearsAgo(10), 'GDPR')] };
+
+		const result = await runRetentionPurge(createContext(tables), {
+			now: NOW,
+		});
+
+		expect(result.deleted).toEqual({
+			consent: 0,
+			auditLog: 0,
+			runtimePolicyDecision: 0,
+		});
+		expect(idsOf(tables.consent)).toEqual(['cns_old']);
+	});
+
+	it('applies jurisdiction overrides and the top-level period', async () => {
+		const tables: InMemoryTables = {
+			consent: [
+				consent('cns_gdpr_old', yearsAgo(6), 'GDPR'),
+				consent('cns_gdpr_recent', yearsAgo(4), 'GDPR'),
+				consent('cns_ccpa_old', yearsAgo(3), 'CCPA'),
+				consent('cns_none_old', yearsAgo(6), null),
+				consent('cns_other_tenant', yearsAgo(6), 'GDPR', null, 'tenant-b'),
+			],
+		};
+
+		const result = await runRetentionPurge(
+			createContext(tables, {
+				consent: 365 * 5,
+				jurisdictions: { CCPA: { consent: 365 * 2 } },
+			}),
+			{ now: NOW }
+		);
+
+		expect(result).toEqual({
+			tenantId: 'tenant-a',
+			deleted: { consent: 3, auditLog: 0, runtimePolicyDecision: 0 },
+			hasMore: false,
+		});
+		expect(idsOf(tables.consent)).toEqual([
+			'cns_gdpr_recent',
+			'cns_other_tenant',
+		]);
+
+		const [summary] = tables.auditLog ?? [];
+		expect(tables.auditLog).toHaveLength(1);
+		expect(summary).toMatchObject({
+			entityType: 'retention',
+			entityId: 'consent',
+			actionType: RETENTION_PURGE_ACTION,
+			subjectId: null,
+			tenantId: 'tenant-a',
+			metadata: {
+				deleted: 3,
+				deletedByJurisdiction: { CCPA: 1, default: 2 },
+				hasMore: false,
+			},
+		});
+		expect(Object.keys(summary?.metadata.cutoffs)).toEqual(['CCPA', 'default']);
+	});
+
+	it('keeps runtime policy decisions that a consent still references', async () => {
+		const tables: InMemoryTables = {
+			consent: [
+				consent('cns_old', yearsAgo(6), 'GDPR', 'rpd_old_1'),
+				consent('cns_recent', yearsAgo(1), 'GDPR', 'rpd_old_2'),
+			],
+			runtimePolicyDecision: [
+				{ id: 'rpd_old_1', createdAt: yearsAgo(6), tenantId: 'tenant-a' },
+				{ id: 'rpd_old_2', createdAt: yearsAgo(6), tenantId: 'tenant-a' },
+				{ id: 'rpd_old_3', createdAt: yearsAgo(6), tenantId: 'tenant-a' },
+				{ id: 'rpd_recent', createdAt: NOW, tenantId: 'tenant-a' },
+			],
+		};
+
+		const result = await runRetentionPurge(
+			createContext(tables, { consent: 365 * 5, runtimePolicyDecision: 365 }),
+			{ now: NOW, batchSize: 1 }
+		);
+
+		expect(result.deleted).toMatchObject({
+			consent: 1,
+			runtimePolicyDecision: 2,
+		});
+		expect(idsOf(tables.runtimePolicyDecision)).toEqual([
+			'rpd_old_2',
+			'rpd_recent',
+		]);
+	});
+
+	it('stops at the limit and reports that more rows remain', async () => {
+		const tables: InMemoryTables = {
+			auditLog: Array.from({ length: 5 }, (_, index) => ({
+				id: `log_${index}`,
+				createdAt: yearsAgo(2),
+				tenantId: 'tenant-a',
+			})),
+		};
+		const ctx = createContext(tables, { auditLog: 365 });
+
+		const first = await runRetentionPurge(ctx, {
+			now: NOW,
+			limit: 3,
+			batchSize: 2,
+		});
+		expect(first).toMatchObject({ deleted: { auditLog: 3 }, hasMore: true });
+
+		const second = await runRetentionPurge(ctx, { now: NOW, limit: 3 });
+		expect(second).toMatchObject({ deleted: { auditLog: 2 }, hasMore: false });
+
+		// The purged entries are replaced by one summary per run
+		expect((tables.auditLog ?? []).map((entry) => entry.actionType)).toEqual([
+			RETENTION_PURGE_ACTION,
+			RETENTION_PURGE_ACTION,
+		]);
+	});
+
+	it('keeps purge summaries and erasure tombstones', async () => {
+		const entry = (id: string, actionType: string) => ({
+			id,
+			actionType,
+			createdAt: yearsAgo(2),
+			tenantId: 'tenant-a',
+		});
+		const tables: InMemoryTables = {
+			auditLog: [
+				entry('log_purge', RETENTION_PURGE_ACTION),
+				entry('log_erasure', ERASE_SUBJECT_ACTION),
+				entry('log_consent', 'consent_given'),
+			],
+		};
+
+		const result = await runRetentionPurge(
+			createContext(tables, { auditLog: 365 }),
+			{ now: NOW }
+		);
+
+		expect(result.deleted.auditLog).toBe(1);
+		expect(idsOf(tables.auditLog).slice(0, 2)).toEqual([
+			'log_purge',
+			'log_erasure',
+		]);
+	});
+
+	it('rejects invalid periods before deleting anything', async () => {
+		const tables = { consent: [consent('cns_old', yearsAgo(10), 'GDPR')] };
+
+		await expect(
+			runRetentionPurge(
+				createContext(tables, {
+					consent: 365,
+					jurisdictions: { GDPR: { runtimePolicyDecision: 0 } },
+				}),
+				{ now: NOW }
+			)
+		).rejects.toThrow('must be a positive number of days');
+		expect(idsOf(tables.consent)).toEqual(['cns_old']);
+	});
+});
@@ -0,0 +1,405 @@
+/**
+ * Data retention purge.
+ *
+ * Deletes consent records, audit log entries and runtime policy decisions
+ * that are older than the periods set in the `retention` option. Consents
+ * and runtime policy decisions can have different periods per jurisdiction.
+ *
+ * Rows are deleted in batches through the context ORM, so tenant scoping
+ * applied by `withTenantScope` also bounds what a purge can touch. Every
+ * table that had rows deleted gets one `retention_purge` audit entry with
+ * the count and cutoffs used. Those summaries and erasure tombstones are
+ * never purged, since they are the record that data was removed.
+ *
+ * @packageDocumentation
+ */
+
+import { generateUniqueId } from '~/db/registry/utils';
+import { ERASE_SUBJECT_ACTION } from '~/handlers/utils/subject-erasure';
+import type { C15TContext, RetentionPeriods } from '~/types';
+
+/**
+ * Audit log action written once per purged table and run
+ */
+export const RETENTION_PURGE_ACTION = 'retention_purge';
+
+/**
+ * Audit log actions that prove data was removed, kept by the purge
+ */
+const RETAINED_AUDIT_ACTIONS = [RETENTION_PURGE_ACTION, ERASE_SUBJECT_ACTION];
+
+const DEFAULT_LIMIT = 10_000;
+const DEFAULT_BATCH_SIZE = 500;
+const DAY_MS = 86_400_000;
+
+type RetentionContext = Pick<
+	C15TContext,
+	'db' | 'logger' | 'tenantId' | 'retention'
+>;
+
+/**
+ * Tables covered by the `retention` option
+ */
+export type RetentionTable = keyof RetentionPeriods;
+
+export interface RunRetentionPurgeOptions {
+	/**
+	 * Maximum number of rows to delete per table in one call.
+	 * @default 10000
+	 */
+	limit?: number;
+	/**
+	 * Rows read and deleted per query.
+	 * @default 500
+	 */
+	batchSize?: number;
+	/**
+	 * Reference time for row ages.
+	 * @default new Date()
+	 */
+	now?: Date;
+}
+
+export interface RunRetentionPurgeResult {
+	tenantId?: string;
+	/** Rows deleted per table in this run */
+	deleted: Record<RetentionTable, number>;
+	/** `true` when `limit` was reached for a table and another run is needed */
+	hasMore: boolean;
+}
+
+/**
+ * Rows of one table that share a cutoff
+ */
+interface PurgeGroup {
+	/** Jurisdiction code, or `default` for rows without an override */
+	label: string;
+	cutoff: Date;
+	/** Jurisdiction of the rows, unset for the `default` group */
+	jurisdiction?: string;
+	/** Jurisdictions with their own group, which the `default` group skips */
+	overridden: string[];
+}
+
+/**
+ * Position of the last row read, ordered by timestamp and then id
+ */
+interface PurgeCursor {
+	at: Date;
+	id: string;
+}
+
+type RetentionDb = RetentionContext['db'];
+
+function toCutoff(table: string, days: number, now: Date): Date {
+	if (!Number.isFinite(days) || days <= 0) {
+		throw new Error(
+			`Retention period for ${table} must be a positive number of days, got ${days}`
+		);
+	}
+	return new Date(now.getTime() - days * DAY_MS);
+}
+
+/**
+ * Builds one group for the top-level period and one per jurisdiction that
+ * overrides it.
+ */
+function buildPurgeGroups(
+	table: RetentionTable,
+	retention: NonNullable<C15TContext['retention']>,
+	now: Date
+): PurgeGroup[] {
+	const overrides =
+		table === 'auditLog'
+			? []
+			: Object.entries(retention.jurisdictions ?? {}).flatMap(
+					([jurisdiction, periods]) => {
+						const days = periods?.[table];
+						return days === undefined ? [] : [{ jurisdiction, days }];
+					}
+				);
+	const overridden = overrides.map(({ jurisdiction }) => jurisdiction);
+
+	const groups: PurgeGroup[] = overrides.map(({ jurisdiction, days }) => ({
+		label: jurisdiction,
+		cutoff: toCutoff(`${table} in ${jurisdiction}`, days, now),
+		jurisdiction,
+		overridden,
+	}));
+
+	const days = retention[table];
+	if (days !== undefined) {
+		groups.push({
+			label: 'default',
+			cutoff: toCutoff(table, days, now),
+			overridden,
+		});
+	}
+
+	return groups;
+}
+
+/**
+ * Reads the next page of rows in a group, oldest first.
+ *
+ * One typed query per table, since the timestamp column differs and audit
+ * log entries have no jurisdiction.
+ */
+async function findPurgeCandidates(
+	db: RetentionDb,
+	table: RetentionTable,
+	group: PurgeGroup,
+	cursor: PurgeCursor | undefined,
+	limit: number
+): Promise<PurgeCursor[]> {
+	switch (table) {
+		case 'consent': {
+			const rows = await db.findMany('consent', {
+				select: ['id', 'givenAt'],
+				where: (b) =>
+					b.and(
+						b('givenAt', '<', group.cutoff),
+						group.jurisdiction !== undefined
+							? b('jurisdiction', '=', group.jurisdiction)
+							: group.overridden.length > 0
+								? b.or(
+										b('jurisdiction', 'is', null),
+										b('jurisdiction', 'not in', group.overridden)
+									)
+								: true,
+						cursor
+							? b.or(
+									b('givenAt', '>', cursor.at),
+									b.and(b('givenAt', '=', cursor.at), b('id', '>', cursor.id))
+								)
+							: true
+					),
+				orderBy: [
+					['givenAt', 'asc'],
+					['id', 'asc'],
+				],
+				limit,
+			});
+			return rows.map((row) => ({ at: new Date(row.givenAt), id: row.id }));
+		}
+		case 'runtimePolicyDecision': {
+			const rows = await db.findMany('runtimePolicyDecision', {
+				select: ['id', 'createdAt'],
+				where: (b) =>
+					b.and(
+						b('createdAt', '<', group.cutoff),
+						group.jurisdiction !== undefined
+							? b('jurisdiction', '=', group.jurisdiction)
+							: group.overridden.length > 0
+								? b.or(
+										b('jurisdiction', 'is', null),
+										b('jurisdiction', 'not in', group.overridden)
+									)
+								: true,
+						cursor
+							? b.or(
+									b('createdAt', '>', cursor.at),
+									b.and(b('createdAt', '=', cursor.at), b('id', '>', cursor.id))
+								)
+							: true
+					),
+				orderBy: [
+					['createdAt', 'asc'],
+					['id', 'asc'],
+				],
+				limit,
+			});
+			return rows.map((row) => ({ at: new Date(row.createdAt), id: row.id }));
+		}
+		case 'auditLog': {
+			const rows = await db.findMany('auditLog', {
+				select: ['id', 'createdAt'],
+				where: (b) =>
+					b.and(
+						b('createdAt', '<', group.cutoff),
+						b('actionType', 'not in', RETAINED_AUDIT_ACTIONS),
+						cursor
+							? b.or(
+									b('createdAt', '>', cursor.at),
+									b.and(b('createdAt', '=', cursor.at), b('id', '>', cursor.id))
+								)
+							: true
+					),
+				orderBy: [
+					['createdAt', 'asc'],
+					['id', 'asc'],
+				],
+				limit,
+			});
+			return rows.map((row) => ({ at: new Date(row.createdAt), id: row.id }));
+		}
+	}
+}
+
+async function deleteRows(
+	db: RetentionDb,
+	table: RetentionTable,
+	ids: string[]
+): Promise<void> {
+	switch (table) {
+		case 'consent':
+			await db.deleteMany('consent', { where: (b) => b('id', 'in', ids) });
+			return;
+		case 'runtimePolicyDecision':
+			await db.deleteMany('runtimePolicyDecision', {
+				where: (b) => b('id', 'in', ids),
+			});
+			return;
+		case 'auditLog':
+			await db.deleteMany('auditLog', { where: (b) => b('id', 'in', ids) });
+			return;
+	}
+}
+
+/**
+ * Deletes matching rows in batches.
+ *
+ * Runtime policy decisions that a remaining consent still references are
+ * kept. The read cursor moves past them so they are not read again.
+ *
+ * @returns The number of rows deleted, stopping at `limit`
+ */
+async function purgeGroup(
+	table: RetentionTable,
+	group: PurgeGroup,
+	limit: number,
+	batchSize: number,
+	{ db }: RetentionContext
+): Promise<number> {
+	let deleted = 0;
+	let cursor: PurgeCursor | undefined;
+
+	while (deleted < limit) {
+		const pageSize = Math.min(batchSize, limit - deleted);
+		const rows = await findPurgeCandidates(db, table, group, cursor, pageSize);
+
+		let ids = rows.map((row) => row.id);
+		if (table === 'runtimePolicyDecision' && ids.length > 0) {
+			const referenced = await db.findMany('consent', {
+				select: ['runtimePolicyDecisionId'],
+				where: (b) => b('runtimePolicyDecisionId', 'in', ids),
+			});
+			const referencedIds = new Set(
+				referenced.map((consent) => consent.runtimePolicyDecisionId)
+			);
+			ids = ids.filter((id) => !referencedIds.has(id));
+		}
+
+		if (ids.length > 0) {
+			await deleteRows(db, table, ids);
+			deleted += ids.length;
+		}
+
+		cursor = rows.at(-1);
+		if (rows.length < pageSize || !cursor) break;
+	}
+
+	return deleted;
+}
+
+/**
+ * Deletes rows older than the configured `retention` periods.
+ *
+ * Consents are purged first, so runtime policy decisions they referenced can
+ * be purged in the same run. Runs against the tenant of the given context,
+ * since its database is already tenant-scoped.
+ *
+ * @example
+ * ```ts
+ * const instance = c15tInstance({
+ *   ...options,
+ *   retention: {
+ *     consent: 365 * 5,
+ *     auditLog: 365 * 5,
+ *     runtimePolicyDecision: 365 * 5,
+ *     jurisdictions: { CCPA: { consent: 365 * 2 } },
+ *   },
+ * });
+ *
+ * // From a cron job
+ * const { deleted, hasMore } = await runRetentionPurge(instance.$context);
+ * ```
+ */
+export async function runRetentionPurge(
+	ctx: RetentionContext,
+	{
+		limit = DEFAULT_LIMIT,
+		batchSize = DEFAULT_BATCH_SIZE,
+		now = new Date(),
+	}: RunRetentionPurgeOptions = {}
+): Promise<RunRetentionPurgeResult> {
+	const { db, logger, retention } = ctx;
+	const result: RunRetentionPurgeResult = {
+		tenantId: ctx.tenantId,
+		deleted: { consent: 0, auditLog: 0, runtimePolicyDecision: 0 },
+		hasMore: false,
+	};
+
+	if (!retention) {
+		logger.debug('Retention purge skipped: no retention periods configured');
+		return result;
+	}
+
+	const tables: RetentionTable[] = [
+		'consent',
+		'runtimePolicyDecision',
+		'auditLog',
+	];
+	// Resolve every cutoff first so a misconfigured period deletes nothing
+	const groupsByTable = tables.map(
+		(table) => [table, buildPurgeGroups(table, retention, now)] as const
+	);
+
+	for (const [table, groups] of groupsByTable) {
+		const deletedByGroup: Record<string, number> = {};
+
+		for (const group of groups) {
+			const deleted = await purgeGroup(
+				table,
+				group,
+				limit - result.deleted[table],
+				batchSize,
+				ctx
+			);
+			deletedByGroup[group.label] = deleted;
+			result.deleted[table] += deleted;
+		}
+
+		const tableHasMore = result.deleted[table] >= limit;
+		result.hasMore ||= tableHasMore;
+
+		if (result.deleted[table] > 0) {
+			await db.create('auditLog', {
+				id: await generateUniqueId(db, 'auditLog', ctx),
+				subjectId: null,
+				entityType: 'retention',
+				entityId: table,
+				actionType: RETENTION_PURGE_ACTION,
+				ipAddress: null,
+				userAgent: null,
+				changes: null,
+				metadata: {
+					deleted: result.deleted[table],
+					deletedByJurisdiction: deletedByGroup,
+					cutoffs: Object.fromEntries(
+						groups.map((group) => [group.label, group.cutoff.toISOString()])
+					),
+					hasMore: tableHasMore,
+				},
+			});
+		}
+	}
+
+	logger.info('Purged data past its retention period', {
+		tenantId: ctx.tenantId,
+		...result.deleted,
+		hasMore: result.hasMore,
+	});
+
+	return result;
+}
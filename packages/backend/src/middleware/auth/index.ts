@@ -4,8 +4,13 @@
  * @packageDocumentation
  */
 
+export { hasApiKeyScope, requireApiKeyScope } from './require-scope';
 export {
+	type ApiKeyMatch,
 	extractBearerToken,
+	hashApiKey,
+	matchApiKey,
+	matchRequestApiKey,
 	validateApiKey,
 	validateRequestAuth,
 } from './validate-api-key';
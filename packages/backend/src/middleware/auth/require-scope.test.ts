@@ -0,0 +1,69 @@
+import { HTTPException } from 'hono/http-exception';
+import { describe, expect, it } from 'vitest';
+import { hasApiKeyScope, requireApiKeyScope } from './require-scope';
+
+function catchError(fn: () => void): HTTPException | undefined {
+	try {
+		fn();
+	} catch (error) {
+		return error as HTTPException;
+	}
+	return undefined;
+}
+
+describe('hasApiKeyScope', () => {
+	it('should match listed scopes and the wildcard', () => {
+		expect(hasApiKeyScope(['subjects:read'], 'subjects:read')).toBe(true);
+		expect(hasApiKeyScope(['subjects:read'], 'subjects:write')).toBe(false);
+		expect(hasApiKeyScope(['*'], 'legal-documents:write')).toBe(true);
+		expect(hasApiKeyScope([], 'subjects:read')).toBe(false);
+	});
+});
+
+describe('requireApiKeyScope', () => {
+	it('should reject unauthenticated requests with 401', () => {
+		const error = catchError(() =>
+			requireApiKeyScope({ apiKeyAuthenticated: false }, 'subjects:read')
+		);
+
+		expect(error).toBeInstanceOf(HTTPException);
+		expect(error?.status).toBe(401);
+		expect(error?.cause).toEqual({ code: 'UNAUTHORIZED' });
+	});
+
+	it('should reject keys without the scope with 403', () => {
+		const error = catchError(() =>
+			requireApiKeyScope(
+				{
+					apiKeyAuthenticated: true,
+					apiKey: { name: 'crm', scopes: ['subjects:read'] },
+				},
+				'legal-documents:write'
+			)
+		);
+
+		expect(error?.status).toBe(403);
+		expect(error?.message).toBe(
+			'API key "crm" is missing the "legal-documents:write" scope'
+		);
+		expect(error?.cause).toEqual({
+			code: 'INSUFFICIENT_SCOPE',
+			requiredScope: 'legal-documents:write',
+		});
+	});
+
+	it('should allow keys with the scope', () => {
+		expect(() =>
+			requireApiKeyScope(
+				{
+					apiKeyAuthenticated: true,
+					apiKey: { name: 'crm', scopes: ['subjects:read'] },
+				},
+				'subjects:read'
+			)
+		).not.toThrow();
+		expect(() =>
+			requireApiKeyScope({ apiKeyAuthenticated: true }, 'subjects:write')
+		).not.toThrow();
+	});
+});
@@ -0,0 +1,53 @@
+/**
+ * API key scope enforcement for authenticated handlers.
+ *
+ * @packageDocumentation
+ */
+
+import { HTTPException } from 'hono/http-exception';
+import type { ApiKeyScope, C15TContext } from '~/types';
+
+/**
+ * Checks whether a list of granted scopes includes a scope.
+ *
+ * @param granted - Scopes granted to an API key
+ * @param scope - The scope to check
+ * @returns True if `granted` contains `scope` or `*`
+ */
+export function hasApiKeyScope(
+	granted: readonly ApiKeyScope[],
+	scope: ApiKeyScope
+): boolean {
+	return granted.includes('*') || granted.includes(scope);
+}
+
+/**
+ * Ensures the request was authenticated with an API key that has a scope.
+ *
+ * @param ctx - The request context
+ * @param scope - The scope the handler requires
+ * @throws {HTTPException} 401 `UNAUTHORIZED` without a valid API key, or
+ * 403 `INSUFFICIENT_SCOPE` when the key lacks the scope
+ *
+ * @remarks
+ * Contexts marked as authenticated without key details are treated as
+ * having every scope.
+ */
+export function requireApiKeyScope(
+	ctx: Pick<C15TContext, 'apiKeyAuthenticated' | 'apiKey'>,
+	scope: ApiKeyScope
+): void {
+	if (!ctx.apiKeyAuthenticated) {
+		throw new HTTPException(401, {
+			message: 'API key required. Use Authorization: Bearer <api_key>',
+			cause: { code: 'UNAUTHORIZED' },
+		});
+	}
+
+	if (ctx.apiKey && !hasApiKeyScope(ctx.apiKey.scopes, scope)) {
+		throw new HTTPException(403, {
+			message: `API key "${ctx.apiKey.name}" is missing the "${scope}" scope`,
+			cause: { code: 'INSUFFICIENT_SCOPE', requiredScope: scope },
+		});
+	}
+}
@@ -1,6 +1,9 @@
 import { describe, expect, it } from 'vitest';
 import {
 	extractBearerToken,
+	hashApiKey,
+	matchApiKey,
+	matchRequestApiKey,
 	validateApiKey,
 	validateRequestAuth,
 } from './validate-api-key';
@@ -84,3 +87,120 @@ describe('validateRequestAuth', () => {
 		expect(validateRequestAuth(undefined, validKeys)).toBe(false);
 	});
 });
+
+describe('hashApiKey', () => {
+	it('should return the hex-encoded SHA-256 hash of the key', async () => {
+		expect(await hashApiKey('sk_live_abc123')).toMatch(/^[0-9a-f]{64}$/);
+		expect(await hashApiKey('sk_live_abc123')).toBe(
+			await hashApiKey('sk_live_abc123')
+		);
+		expect(await hashApiKey('sk_live_abc123')).not.toBe(
+			await hashApiKey('sk_live_def456')
+		);
+	});
+});
+
+describe('matchApiKey', () => {
+	it('should give plain string keys every scope', async () => {
+		expect(await matchApiKey('sk_live_abc123', ['sk_live_abc123'])).toEqual({
+			name: 'apiKeys[0]',
+			scopes: ['*'],
+			expired: false,
+		});
+	});
+
+	it('should match keys configured with a name and scopes', async () => {
+		const match = await matchApiKey('sk_live_abc123', [
+			'sk_live_other',
+			{ name: 'crm', key: 'sk_live_abc123', scopes: ['subjects:read'] },
+		]);
+
+		expect(match).toEqual({
+			name: 'crm',
+			scopes: ['subjects:read'],
+			expired: false,
+		});
+	});
+
+	it('should include the tenant a key is restricted to', async () => {
+		const match = await matchApiKey('sk_live_abc123', [
+			{
+				name: 'acme',
+				key: 'sk_live_abc123',
+				scopes: ['*'],
+				tenantId: 'acme',
+			},
+		]);
+
+		expect(match).toEqual({
+			name: 'acme',
+			scopes: ['*'],
+			tenantId: 'acme',
+			expired: false,
+		});
+	});
+
+	it('should match hashed keys without storing the plain key', async () => {
+		const hash = await hashApiKey('sk_live_abc123');
+		const keys = [
+			{
+				name: 'warehouse',
+				hash: hash.toUpperCase(),
+				scopes: ['audit-logs:read' as const],
+			},
+		];
+
+		expect((await matchApiKey('sk_live_abc123', keys))?.name).toBe('warehouse');
+		expect(await matchApiKey(hash, keys)).toBeNull();
+		expect(await matchApiKey('sk_live_invalid', keys)).toBeNull();
+	});
+
+	it('should flag keys past their expiry', async () => {
+		const keys = [
+			{
+				name: 'temporary',
+				key: 'sk_live_abc123',
+				scopes: ['*' as const],
+				expiresAt: '2026-01-01T00:00:00.000Z',
+			},
+		];
+
+		expect(
+			(
+				await matchApiKey(
+					'sk_live_abc123',
+					keys,
+					new Date('2025-12-31T23:59:59.000Z')
+				)
+			)?.expired
+		).toBe(false);
+		expect(
+			(
+				await matchApiKey(
+					'sk_live_abc123',
+					keys,
+					new Date('2026-01-01T00:00:00.000Z')
+				)
+			)?.expired
+		).toBe(true);
+	});
+
+	it('should return null without a token or keys', async () => {
+		expect(await matchApiKey(null, ['sk_live_abc123'])).toBeNull();
+		expect(await matchApiKey('sk_live_abc123', undefined)).toBeNull();
+	});
+});
+
+describe('matchRequestApiKey', () => {
+	it('should match the Bearer token from the Authorization header', async () => {
+		const headers = new Headers();
+		headers.set('Authorization', 'Bearer sk_live_abc123');
+
+		expect(
+			(await matchRequestApiKey(headers, ['sk_live_abc123']))?.scopes
+		).toEqual(['*']);
+		expect(await matchRequestApiKey(new Headers(), ['sk_live_abc123'])).toBe(
+			null
+		);
+	});
+});
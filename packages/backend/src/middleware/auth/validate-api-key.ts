@@ -4,6 +4,9 @@
  * @packageDocumentation
  */
 
+import { hashSha256Hex } from '@c15t/schema/types';
+import type { ApiKeyConfig, AuthenticatedApiKey } from '~/types';
+
 /**
  * Extracts the Bearer token from an Authorization header.
  *
@@ -105,3 +108,96 @@ export function validateRequestAuth(
 	const token = extractBearerToken(authHeader);
 	return validateApiKey(token, validKeys);
 }
+
+/**
+ * Hashes an API key for the `hash` field of an {@link ApiKeyConfig}.
+ *
+ * @param key - The plain API key
+ * @returns Hex-encoded SHA-256 hash of the key
+ *
+ * @example
+ * ```typescript
+ * const hash = await hashApiKey('sk_live_abc123');
+ * // Store `hash` in the server config instead of the key
+ * ```
+ */
+export function hashApiKey(key: string): Promise<string> {
+	return hashSha256Hex(key);
+}
+
+/**
+ * Result of matching a token against the configured API keys
+ */
+export interface ApiKeyMatch extends AuthenticatedApiKey {
+	/** Whether the key's `expiresAt` has passed */
+	expired: boolean;
+}
+
+/**
+ * Finds the configured API key that matches a token.
+ *
+ * @param token - The token to look up
+ * @param keys - Configured API keys, as plain strings or {@link ApiKeyConfig} objects
+ * @param now - Time used for the expiry check
+ * @returns The matching key, or null if no key matches
+ *
+ * @remarks
+ * Plain string keys have every scope. Hashed keys are compared against the
+ * SHA-256 hash of the token, which is only computed when a hashed key is
+ * configured. All comparisons are timing-safe.
+ */
+export async function matchApiKey(
+	token: string | null,
+	keys: Array<string | ApiKeyConfig> | undefined,
+	now: Date = new Date()
+): Promise<ApiKeyMatch | null> {
+	if (!token || !keys || keys.length === 0) {
+		return null;
+	}
+
+	let tokenHash: string | undefined;
+
+	for (const [index, entry] of keys.entries()) {
+		if (typeof entry === 'string') {
+			if (timingSafeEqual(token, entry)) {
+				return { name: `apiKeys[${index}]`, scopes: ['*'], expired: false };
+			}
+			continue;
+		}
+
+		let matches: boolean;
+		if (entry.key !== undefined) {
+			matches = timingSafeEqual(token, entry.key);
+		} else {
+			tokenHash ??= await hashApiKey(token);
+			matches = timingSafeEqual(tokenHash, entry.hash.toLowerCase());
+		}
+
+		if (matches) {
+			return {
+				name: entry.name,
+				scopes: entry.scopes,
+				...(entry.tenantId !== undefined && { tenantId: entry.tenantId }),
+				expired:
+					entry.expiresAt !== undefined && new Date(entry.expiresAt) <= now,
+			};
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Finds the configured API key used by a request.
+ *
+ * @param headers - Request headers
+ * @param keys - Configured API keys
+ * @returns The matching key, or null if the request has no valid Bearer token
+ */
+export function matchRequestApiKey(
+	headers: Headers | undefined,
+	keys: Array<string | ApiKeyConfig> | undefined
+): Promise<ApiKeyMatch | null> {
+	const token = extractBearerToken(headers?.get('Authorization') ?? null);
+	return matchApiKey(token, keys);
+}
@@ -170,7 +170,7 @@ export function maskIpAddress(ip: string | null): string | null {
 
 export function getIpAddress(
 	req: Request | Headers,
-	options: C15TOptions
+	options: Pick<C15TOptions, 'ipAddress'>
 ): string | null {
 	const ipAddressConfig = options.ipAddress;
 
@@ -0,0 +1,13 @@
+/**
+ * Rate limiting middleware exports.
+ *
+ * @packageDocumentation
+ */
+
+export {
+	consumeRateLimit,
+	createRateLimitMiddleware,
+	DEFAULT_RATE_LIMITS,
+	type RateLimitResult,
+	resolveRateLimitRule,
+} from './rate-limit';
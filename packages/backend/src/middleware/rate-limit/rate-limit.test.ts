@@ -0,0 +1,274 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { describe, expect, it, vi } from 'vitest';
+import { createCloudflareKVAdapter } from '~/cache/adapters/cloudflare-kv';
+import {
+	clearMemoryCache,
+	createMemoryCacheAdapter,
+	getMemoryCacheSize,
+	MAX_MEMORY_CACHE_ENTRIES,
+} from '~/cache/adapters/memory';
+import type { CacheAdapter } from '~/cache/types';
+import type { C15TContext, C15TOptions } from '~/types';
+import {
+	consumeRateLimit,
+	createRateLimitMiddleware,
+	DEFAULT_RATE_LIMITS,
+	resolveRateLimitRule,
+} from './rate-limit';
+
+function createMapAdapter(): CacheAdapter & { store: Map<string, unknown> } {
+	const store = new Map<string, unknown>();
+	return {
+		store,
+		get: async <T>(key: string) => (store.get(key) as T) ?? null,
+		set: async (key, value) => {
+			store.set(key, value);
+		},
+		delete: async (key) => {
+			store.delete(key);
+		},
+		has: async (key) => store.has(key),
+	};
+}
+
+function createApp(
+	rateLimit: C15TOptions['rateLimit'],
+	ipAddress: string | null = '203.0.113.0'
+) {
+	const options = { rateLimit } as C15TOptions;
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+
+	app.use('*', async (c, next) => {
+		c.set('c15tContext', {
+			appName: 'rate-limit-test',
+			ipAddress,
+			logger: { warn: vi.fn() },
+		} as unknown as C15TContext);
+		await next();
+	});
+	app.use('/init', createRateLimitMiddleware(options, 'GET /init'));
+	app.use('/subjects', createRateLimitMiddleware(options, 'POST /subjects'));
+	app.get('/init', (c) => c.json({ ok: true }));
+	app.post('/subjects', async (c) => c.json(await c.req.json()));
+	app.get('/subjects', (c) => c.json({ ok: true }));
+
+	// Mirrors the global error handler in core.ts
+	app.onError((err, c) => {
+		if (err instanceof HTTPException) {
+			const cause = err.cause as { code?: string } | undefined;
+			return c.json({ code: cause?.code, message: err.message }, err.status);
+		}
+		return c.json({ code: 'INTERNAL_SERVER_ERROR' }, 500);
+	});
+
+	return app;
+}
+
+const postSubject = (subjectId: string) => ({
+	method: 'POST',
+	headers: { 'content-type': 'application/json' },
+	body: JSON.stringify({ subjectId }),
+});
+
+describe('resolveRateLimitRule', () => {
+	it('is disabled without a rateLimit option', () => {
+		expect(resolveRateLimitRule({} as C15TOptions, 'GET /init')).toBeNull();
+	});
+
+	it('falls back to defaults and honours per-route overrides', () => {
+		const options = {
+			rateLimit: {
+				routes: {
+					'GET /init': false,
+					'POST /subjects': { limit: 5, windowMs: 1000 },
+				},
+			},
+		} as C15TOptions;
+
+		expect(resolveRateLimitRule(options, 'GET /init')).toBeNull();
+		expect(resolveRateLimitRule(options, 'POST /subjects')).toEqual({
+			limit: 5,
+			windowMs: 1000,
+		});
+		expect(
+			resolveRateLimitRule({ rateLimit: {} } as C15TOptions, 'GET /init')
+		).toEqual(DEFAULT_RATE_LIMITS['GET /init']);
+	});
+});
+
+describe('consumeRateLimit', () => {
+	it('counts requests per fixed window', async () => {
+		const adapter = createMapAdapter();
+		const rule = { limit: 2, windowMs: 60_000 };
+		const now = 1_767_225_630_000; // 30s into a window
+
+		expect(await consumeRateLimit(adapter, 'k', rule, now)).toEqual({
+			allowed: true,
+			remaining: 1,
+			retryAfterSeconds: 30,
+		});
+		expect((await consumeRateLimit(adapter, 'k', rule, now)).allowed).toBe(
+			true
+		);
+		expect(await consumeRateLimit(adapter, 'k', rule, now)).toEqual({
+			allowed: false,
+			remaining: 0,
+			retryAfterSeconds: 30,
+		});
+
+		// Next window starts from zero
+		expect(
+			(await consumeRateLimit(adapter, 'k', rule, now + 30_000)).allowed
+		).toBe(true);
+	});
+
+	it('keeps one entry per client across windows', async () => {
+		const adapter = createMapAdapter();
+		const rule = { limit: 2, windowMs: 60_000 };
+
+		for (let window = 0; window < 5; window++) {
+			await consumeRateLimit(adapter, 'k', rule, window * 60_000);
+		}
+
+		expect([...adapter.store.keys()]).toEqual(['k']);
+	});
+
+	it('stays within the Cloudflare KV minimum TTL', async () => {
+		const put = vi.fn(
+			async (
+				_key: string,
+				_value: string,
+				options?: { expirationTtl?: number }
+			) => {
+				if ((options?.expirationTtl ?? 0) < 60) {
+					throw new Error('Invalid expiration_ttl of less than 60 seconds');
+				}
+			}
+		);
+		const adapter = createCloudflareKVAdapter({
+			get: async () => null,
+			put,
+			delete: async () => {},
+		});
+
+		await expect(
+			consumeRateLimit(adapter, 'k', { limit: 2, windowMs: 1000 }, 500)
+		).resolves.toMatchObject({ allowed: true });
+		expect(put).toHaveBeenCalledWith('k', expect.any(String), {
+			expirationTtl: 60,
+		});
+	});
+
+	it('bounds the memory cache when every request uses a new key', async () => {
+		clearMemoryCache();
+		const adapter = createMemoryCacheAdapter();
+		const rule = { limit: 1, windowMs: 60_000 };
+
+		for (let i = 0; i < MAX_MEMORY_CACHE_ENTRIES + 100; i++) {
+			await consumeRateLimit(adapter, `subject:sub_${i}`, rule);
+		}
+
+		expect(getMemoryCacheSize()).toBeLessThanOrEqual(MAX_MEMORY_CACHE_ENTRIES);
+		clearMemoryCache();
+	});
+});
+
+describe('createRateLimitMiddleware', () => {
+	it('returns 429 with Retry-After once the limit is reached', async () => {
+		const app = createApp({
+			adapter: createMapAdapter(),
+			routes: { 'GET /init': { limit: 2, windowMs: 60_000 } },
+		});
+
+		expect((await app.request('/init')).status).toBe(200);
+		expect((await app.request('/init')).status).toBe(200);
+
+		const limited = await app.request('/init');
+		expect(limited.status).toBe(429);
+		expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+		expect(await limited.json()).toMatchObject({ code: 'RATE_LIMITED' });
+	});
+
+	it('also limits POST /subjects per subjectId when configured', async () => {
+		const app = createApp({
+			adapter: createMapAdapter(),
+			routes: {
+				'POST /subjects': {
+					limit: 3,
+					windowMs: 60_000,
+					keyBy: 'subject',
+					subjectLimit: 1,
+				},
+			},
+		});
+
+		const first = await app.request('/subjects', postSubject('sub_a'));
+		expect(first.status).toBe(200);
+		// The handler can still read the body after the middleware parsed it
+		expect(await first.json()).toEqual({ subjectId: 'sub_a' });
+
+		expect((await app.request('/subjects', postSubject('sub_b'))).status).toBe(
+			200
+		);
+		expect((await app.request('/subjects', postSubject('sub_a'))).status).toBe(
+			429
+		);
+	});
+
+	it('keeps limiting by IP when every request uses a new subjectId', async () => {
+		const app = createApp({
+			adapter: createMapAdapter(),
+			routes: {
+				'POST /subjects': { limit: 2, windowMs: 60_000, keyBy: 'subject' },
+			},
+		});
+
+		expect((await app.request('/subjects', postSubject('sub_1'))).status).toBe(
+			200
+		);
+		expect((await app.request('/subjects', postSubject('sub_2'))).status).toBe(
+			200
+		);
+		expect((await app.request('/subjects', postSubject('sub_3'))).status).toBe(
+			429
+		);
+	});
+
+	it('allows requests when the cache fails', async () => {
+		const adapter = createMapAdapter();
+		adapter.get = async () => {
+			throw new Error('cache unavailable');
+		};
+		const app = createApp({
+			adapter,
+			routes: { 'GET /init': { limit: 1, windowMs: 60_000 } },
+		});
+
+		expect((await app.request('/init')).status).toBe(200);
+		expect((await app.request('/init')).status).toBe(200);
+	});
+
+	it('only limits the configured method', async () => {
+		const app = createApp({
+			adapter: createMapAdapter(),
+			routes: { 'POST /subjects': { limit: 1, windowMs: 60_000 } },
+		});
+
+		expect((await app.request('/subjects')).status).toBe(200);
+		expect((await app.request('/subjects')).status).toBe(200);
+	});
+
+	it('does not limit requests without a client IP', async () => {
+		const app = createApp(
+			{
+				adapter: createMapAdapter(),
+				routes: { 'GET /init': { limit: 1, windowMs: 60_000 } },
+			},
+			null
+		);
+
+		expect((await app.request('/init')).status).toBe(200);
+		expect((await app.request('/init')).status).toBe(200);
+	});
+});
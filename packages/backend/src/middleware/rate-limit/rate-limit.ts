@@ -0,0 +1,196 @@
+/**
+ * Fixed-window rate limiting for public c15t routes.
+ *
+ * @packageDocumentation
+ */
+
+import type { MiddlewareHandler } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { createMemoryCacheAdapter } from '~/cache/adapters/memory';
+import { createCacheKey } from '~/cache/keys';
+import type { CacheAdapter } from '~/cache/types';
+import type {
+	C15TContext,
+	C15TOptions,
+	RateLimitedRoute,
+	RateLimitRule,
+} from '~/types';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+
+/**
+ * Limits applied to routes that are not configured explicitly.
+ */
+export const DEFAULT_RATE_LIMITS: Record<RateLimitedRoute, RateLimitRule> = {
+	'GET /init': { limit: 60, windowMs: 60_000 },
+	'POST /subjects': { limit: 30, windowMs: 60_000 },
+};
+
+/**
+ * Counter stored per client. One key per client is reused across windows,
+ * so old windows do not leave entries behind.
+ */
+interface RateLimitCounter {
+	windowStart: number;
+	count: number;
+}
+
+export interface RateLimitResult {
+	allowed: boolean;
+	remaining: number;
+	/** Seconds until the current window resets */
+	retryAfterSeconds: number;
+}
+
+/**
+ * Returns the effective rule for a route, or `null` when it is not limited.
+ */
+export function resolveRateLimitRule(
+	options: C15TOptions,
+	route: RateLimitedRoute
+): RateLimitRule | null {
+	if (!options.rateLimit) {
+		return null;
+	}
+
+	const configured = options.rateLimit.routes?.[route];
+	if (configured === false) {
+		return null;
+	}
+
+	return configured ?? DEFAULT_RATE_LIMITS[route];
+}
+
+/**
+ * Counts a request against `key` and reports whether it is within the limit.
+ *
+ * The read-then-write against the cache is not atomic, so concurrent
+ * requests on different instances may slightly exceed the limit.
+ */
+export async function consumeRateLimit(
+	adapter: CacheAdapter,
+	key: string,
+	rule: RateLimitRule,
+	now: number = Date.now()
+): Promise<RateLimitResult> {
+	const windowStart = now - (now % rule.windowMs);
+	const resetInMs = windowStart + rule.windowMs - now;
+	const retryAfterSeconds = Math.max(1, Math.ceil(resetInMs / 1000));
+
+	const counter = await adapter.get<RateLimitCounter>(key);
+	const count = counter?.windowStart === windowStart ? counter.count : 0;
+
+	if (count >= rule.limit) {
+		return { allowed: false, remaining: 0, retryAfterSeconds };
+	}
+
+	// A full window of TTL outlives the current window; adapters may round
+	// it up to their minimum
+	await adapter.set<RateLimitCounter>(
+		key,
+		{ windowStart, count: count + 1 },
+		rule.windowMs
+	);
+
+	return {
+		allowed: true,
+		remaining: rule.limit - count - 1,
+		retryAfterSeconds,
+	};
+}
+
+/**
+ * Reads `subjectId` from a JSON request body without consuming it for the
+ * route handler.
+ */
+async function readSubjectId(
+	req: Parameters<MiddlewareHandler>[0]['req']
+): Promise<string | undefined> {
+	try {
+		const body = await req.json<{ subjectId?: unknown }>();
+		return typeof body?.subjectId === 'string' ? body.subjectId : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Creates middleware enforcing the configured limit for one route.
+ *
+ * Must run after the context middleware so the resolved client IP is
+ * available. The client IP is always counted against `limit`. With
+ * `keyBy: 'subject'`, the `subjectId` in the body is also counted against
+ * `subjectLimit`; the body is client-controlled, so it never replaces the IP
+ * limit. Requests without a usable key (for example when IP tracking is
+ * disabled) are not limited. When the cache fails, the request is allowed
+ * and a warning is logged.
+ */
+export function createRateLimitMiddleware(
+	options: C15TOptions,
+	route: RateLimitedRoute
+): MiddlewareHandler<{ Variables: { c15tContext: C15TContext } }> {
+	const rule = resolveRateLimitRule(options, route);
+	const adapter =
+		options.rateLimit?.adapter ??
+		options.cache?.adapter ??
+		createMemoryCacheAdapter();
+	const method = route.split(' ')[0];
+
+	return async (c, next) => {
+		if (!rule || c.req.method !== method) {
+			return next();
+		}
+
+		const ctx = c.get('c15tContext');
+		const subjectId =
+			rule.keyBy === 'subject' ? await readSubjectId(c.req) : undefined;
+		const counters: Array<{ identifier: string; rule: RateLimitRule }> = [];
+
+		if (ctx.ipAddress) {
+			counters.push({ identifier: `ip:${ctx.ipAddress}`, rule });
+		}
+		if (subjectId) {
+			counters.push({
+				identifier: `subject:${subjectId}`,
+				rule: { ...rule, limit: rule.subjectLimit ?? rule.limit },
+			});
+		}
+
+		for (const counter of counters) {
+			const key = createCacheKey(
+				ctx.appName,
+				'rate-limit',
+				ctx.tenantId ?? 'default',
+				route,
+				counter.identifier
+			);
+			let result: RateLimitResult;
+			try {
+				result = await consumeRateLimit(adapter, key, counter.rule);
+			} catch (error) {
+				// A failing cache must not take the route down with it
+				ctx.logger.warn('Rate limit check failed, allowing request', {
+					route,
+					error: extractErrorMessage(error),
+				});
+				return next();
+			}
+
+			if (!result.allowed) {
+				ctx.logger.warn('Rate limit exceeded', {
+					route,
+					identifier: counter.identifier,
+				});
+				c.header('Retry-After', String(result.retryAfterSeconds));
+				throw new HTTPException(429, {
+					message: 'Too many requests',
+					cause: {
+						code: 'RATE_LIMITED',
+						retryAfter: result.retryAfterSeconds,
+					},
+				});
+			}
+		}
+
+		return next();
+	};
+}
@@ -0,0 +1,65 @@
+/**
+ * Analytics routes - Aggregated consent reporting.
+ *
+ * @packageDocumentation
+ */
+
+import {
+	consentAnalyticsOutputSchema,
+	consentAnalyticsQuerySchema,
+} from '@c15t/schema';
+import { Hono } from 'hono';
+import { describeRoute, resolver, validator as vValidator } from 'hono-openapi';
+import { consentAnalyticsHandler } from '~/handlers/analytics/consents.handler';
+import type { C15TContext } from '~/types';
+
+/**
+ * Creates the analytics routes
+ */
+export const createAnalyticsRoutes = () => {
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+
+	// GET /analytics/consents - Aggregated consent counts (requires API key)
+	app.get(
+		'/consents',
+		describeRoute({
+			summary: 'Aggregate consent counts (API key required)',
+			description: `Counts consents given in a date range per time bucket, for opt-in and reject rate reporting.
+
+**Range:** \`from\` (inclusive) / \`to\` (exclusive). Defaults to the last 30 days. A response covers at most 1000 buckets.
+
+**Buckets:** \`hour\`, \`day\` (default), \`week\` or \`month\`, aligned to UTC. Weeks start on Monday. Empty buckets are included.
+
+**Grouping:** \`groupBy\` takes a comma-separated list of \`jurisdiction\`, \`policyId\`, \`consentAction\` and \`uiSource\`. All four are used by default. \`policyId\` is the policy pack policy that resolved the consent's runtime policy decision.`,
+			tags: ['Analytics'],
+			security: [{ bearerAuth: [] }],
+			responses: {
+				200: {
+					description: 'Consent counts per bucket and group',
+					content: {
+						'application/json': {
+							schema: resolver(consentAnalyticsOutputSchema),
+						},
+					},
+				},
+				401: {
+					description: 'Missing or invalid API key',
+				},
+				403: {
+					description: 'API key is missing the required scope',
+				},
+				400: {
+					description: 'Invalid query parameters',
+				},
+				422: {
+					description:
+						'`from` is not before `to`, or the range has too many buckets',
+				},
+			},
+		}),
+		vValidator('query', consentAnalyticsQuerySchema),
+		consentAnalyticsHandler
+	);
+
+	return app;
+};
@@ -0,0 +1,59 @@
+/**
+ * Audit log routes - Read access to the audit trail.
+ *
+ * @packageDocumentation
+ */
+
+import {
+	listAuditLogsOutputSchema,
+	listAuditLogsQuerySchema,
+} from '@c15t/schema';
+import { Hono } from 'hono';
+import { describeRoute, resolver, validator as vValidator } from 'hono-openapi';
+import { listAuditLogsHandler } from '~/handlers/audit-log/list.handler';
+import type { C15TContext } from '~/types';
+
+/**
+ * Creates the audit log routes
+ */
+export const createAuditLogRoutes = () => {
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+
+	// GET /audit-logs - Query audit log entries (requires API key)
+	app.get(
+		'/',
+		describeRoute({
+			summary: 'List audit log entries (API key required)',
+			description: `Returns audit log entries newest first, for compliance review.
+
+**Filters:** \`subjectId\`, \`entityType\`, \`actionType\`, and a \`from\` (inclusive) / \`to\` (exclusive) creation date range.
+
+**Pagination:** pass the \`nextCursor\` of a page as \`cursor\` to fetch the next one. \`nextCursor\` is \`null\` on the last page.`,
+			tags: ['AuditLog'],
+			security: [{ bearerAuth: [] }],
+			responses: {
+				200: {
+					description: 'One page of audit log entries',
+					content: {
+						'application/json': {
+							schema: resolver(listAuditLogsOutputSchema),
+						},
+					},
+				},
+				401: {
+					description: 'Missing or invalid API key',
+				},
+				403: {
+					description: 'API key is missing the required scope',
+				},
+				422: {
+					description: 'Invalid filter or cursor',
+				},
+			},
+		}),
+		vValidator('query', listAuditLogsQuerySchema),
+		listAuditLogsHandler
+	);
+
+	return app;
+};
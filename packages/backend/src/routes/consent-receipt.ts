@@ -0,0 +1,50 @@
+/**
+ * Consent receipt routes - Verification of signed consent receipts.
+ *
+ * @packageDocumentation
+ */
+
+import {
+	verifyConsentReceiptInputSchema,
+	verifyConsentReceiptOutputSchema,
+} from '@c15t/schema';
+import { Hono } from 'hono';
+import { describeRoute, resolver, validator as vValidator } from 'hono-openapi';
+import { verifyConsentReceiptHandler } from '~/handlers/consent-receipt/verify.handler';
+import type { C15TContext } from '~/types';
+
+/**
+ * Creates the consent receipt routes
+ */
+export const createConsentReceiptRoutes = () => {
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+
+	// POST /consent-receipts/verify - Check a receipt's signature and claims
+	app.post(
+		'/verify',
+		describeRoute({
+			summary: 'Verify a consent receipt',
+			description: `Checks the signature and claims of a receipt returned by \`POST /subjects\`, without reading the database.
+
+Receipts follow the Kantara Initiative Consent Receipt v1.1 structure (the basis of ISO/IEC TS 27560). A valid receipt is returned decoded. Invalid receipts return \`valid: false\` with a \`reason\`.`,
+			tags: ['ConsentReceipt'],
+			responses: {
+				200: {
+					description: 'Verification result',
+					content: {
+						'application/json': {
+							schema: resolver(verifyConsentReceiptOutputSchema),
+						},
+					},
+				},
+				501: {
+					description: 'Consent receipts are not configured',
+				},
+			},
+		}),
+		vValidator('json', verifyConsentReceiptInputSchema),
+		verifyConsentReceiptHandler
+	);
+
+	return app;
+};
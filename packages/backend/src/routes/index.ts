@@ -4,8 +4,14 @@
  * @packageDocumentation
  */
 
+export { createAnalyticsRoutes } from './analytics';
+export { createAuditLogRoutes } from './audit-log';
 export { createConsentRoutes } from './consent';
+export { createConsentReceiptRoutes } from './consent-receipt';
 export { createInitRoute } from './init';
+export { createJwksRoute } from './jwks';
 export { createLegalDocumentRoutes } from './legal-document';
+export { createPolicyRoutes } from './policy';
+export { createPolicyPackRoutes } from './policy-pack';
 export { createStatusRoute } from './status';
 export { createSubjectRoutes } from './subject';
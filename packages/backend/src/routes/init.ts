@@ -7,7 +7,12 @@
 import { initOutputSchema } from '@c15t/schema';
 import { Hono } from 'hono';
 import { describeRoute, resolver } from 'hono-openapi';
+import {
+	IDENTITY_TOKEN_HEADER,
+	resolveLinkedConsent,
+} from '~/handlers/init/identity';
 import { resolveInitPayload } from '~/handlers/init/resolve-init';
+import { loadPolicyPacks } from '~/handlers/policy-pack/published';
 import type { C15TContext, C15TOptions } from '~/types';
 
 /**
@@ -27,6 +32,7 @@ export const createInitRoute = (options: C15TOptions) => {
 - **Translations** – Consent manager copy (from \`Accept-Language\` header)
 - **Branding** – Configured branding key
 - **GVL** – Global Vendor List when IAB is active for the request
+- **Linked consent** – The user's latest valid consent from another device, when a valid \`x-c15t-identity-token\` header is sent
 
 Use for geo-targeted consent banners and regional compliance.`,
 			tags: ['Init'],
@@ -44,8 +50,35 @@ Use for geo-targeted consent banners and regional compliance.`,
 		}),
 		async (c) => {
 			const ctx = c.get('c15tContext');
-			const payload = await resolveInitPayload(c.req.raw, options, ctx?.logger);
-			return c.json(payload);
+			// Tenant-specific configuration set by `resolveTenant`
+			let requestOptions: C15TOptions = ctx?.tenantId
+				? {
+						...options,
+						tenantId: ctx.tenantId,
+						policyPacks: ctx.policyPacks,
+						i18n: ctx.i18n,
+					}
+				: options;
+			// Published version from the `/policy-packs` routes
+			if (ctx?.managedPolicyPacks?.enabled) {
+				requestOptions = {
+					...requestOptions,
+					policyPacks: await loadPolicyPacks(ctx),
+				};
+			}
+			const payload = await resolveInitPayload(
+				c.req.raw,
+				requestOptions,
+				ctx?.logger
+			);
+			// Identity tokens make the response user-specific
+			const linkedConsent = ctx?.identityTokens
+				? await resolveLinkedConsent(c.req.raw, ctx)
+				: undefined;
+			if (c.req.header(IDENTITY_TOKEN_HEADER)) {
+				c.header('Cache-Control', 'private, no-store');
+			}
+			return c.json(linkedConsent ? { ...payload, linkedConsent } : payload);
 		}
 	);
 
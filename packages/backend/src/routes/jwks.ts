@@ -0,0 +1,43 @@
+/**
+ * JWKS route - Public keys for verifying snapshot tokens.
+ *
+ * @packageDocumentation
+ */
+
+import { jwksOutputSchema } from '@c15t/schema';
+import { Hono } from 'hono';
+import { describeRoute, resolver } from 'hono-openapi';
+import { jwksHandler } from '~/handlers/jwks';
+import type { C15TContext } from '~/types';
+
+/**
+ * Creates the JWKS route
+ */
+export const createJwksRoute = () => {
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+
+	// GET /.well-known/jwks.json - Public snapshot signing keys
+	app.get(
+		'/jwks.json',
+		describeRoute({
+			summary: 'Public keys for snapshot tokens',
+			description: `Returns the ES256 and EdDSA public keys configured in \`policySnapshot.signingKeys\` and \`legalDocumentSnapshot.signingKeys\`, as a JSON Web Key Set.
+
+Edge workers and third parties can verify snapshot tokens with these keys and the token's \`kid\` header, without holding a key that can mint tokens. Shared HS256 secrets are never published. Returns an empty \`keys\` array when no asymmetric keys are configured.`,
+			tags: ['JWKS'],
+			responses: {
+				200: {
+					description: 'JSON Web Key Set',
+					content: {
+						'application/json': {
+							schema: resolver(jwksOutputSchema),
+						},
+					},
+				},
+			},
+		}),
+		jwksHandler
+	);
+
+	return app;
+};
@@ -1,12 +1,13 @@
 import { Hono } from 'hono';
 import { describe, expect, it, vi } from 'vitest';
 import { LegalDocumentPolicyConflictError } from '~/db/registry/consent-policy';
-import type { C15TContext } from '~/types';
+import type { ApiKeyScope, C15TContext } from '~/types';
 import { createLegalDocumentRoutes } from './legal-document';
 
 function createApp(options?: {
 	apiKeyAuthenticated?: boolean;
 	syncCurrentLegalDocumentPolicy?: ReturnType<typeof vi.fn>;
+	scopes?: ApiKeyScope[];
 }) {
 	const logger = {
 		info: vi.fn(),
@@ -25,11 +26,36 @@ function createApp(options?: {
 				effectiveDate: new Date('2026-04-07T00:00:00.000Z'),
 				isActive: true,
 			}),
+		listLegalDocumentPolicyVersions: vi.fn().mockResolvedValue([
+			{
+				id: 'pol_2',
+				type: 'privacy_policy',
+				version: '2026-04-07',
+				hash: 'hash_123',
+				effectiveDate: new Date('2026-04-07T00:00:00.000Z'),
+				isActive: true,
+				createdAt: new Date('2026-04-07T00:00:00.000Z'),
+				acceptanceCount: 12,
+			},
+			{
+				id: 'pol_1',
+				type: 'privacy_policy',
+				version: '2025-01-01',
+				hash: null,
+				effectiveDate: new Date('2025-01-01T00:00:00.000Z'),
+				isActive: false,
+				createdAt: new Date('2025-01-01T00:00:00.000Z'),
+				acceptanceCount: 40,
+			},
+		]),
 	};
 	const c15tContext = {
 		logger,
 		registry,
 		apiKeyAuthenticated: options?.apiKeyAuthenticated ?? true,
+		apiKey: options?.scopes
+			? { name: 'legal', scopes: options.scopes }
+			: undefined,
 	} as unknown as C15TContext;
 
 	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
@@ -134,4 +160,55 @@ describe('createLegalDocumentRoutes', () => {
 			'Release metadata conflicts with existing consent policy'
 		);
 	});
+
+	it('lists releases with acceptance counts', async () => {
+		const { app, registry } = createApp({
+			scopes: ['legal-documents:read'],
+		});
+
+		const response = await app.request(
+			'http://localhost/legal-documents/privacy_policy/versions'
+		);
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(registry.listLegalDocumentPolicyVersions).toHaveBeenCalledWith(
+			'privacy_policy'
+		);
+		expect(body).toEqual({
+			type: 'privacy_policy',
+			versions: [
+				{
+					id: 'pol_2',
+					version: '2026-04-07',
+					hash: 'hash_123',
+					effectiveDate: '2026-04-07T00:00:00.000Z',
+					isActive: true,
+					acceptanceCount: 12,
+				},
+				{
+					id: 'pol_1',
+					version: '2025-01-01',
+					hash: null,
+					effectiveDate: '2025-01-01T00:00:00.000Z',
+					isActive: false,
+					acceptanceCount: 40,
+				},
+			],
+		});
+	});
+
+	it('requires the legal-documents:read scope and a known type', async () => {
+		const { app } = createApp({ scopes: ['legal-documents:write'] });
+		const forbidden = await app.request(
+			'http://localhost/legal-documents/privacy_policy/versions'
+		);
+		expect(forbidden.status).toBe(403);
+
+		const { app: scoped } = createApp({ scopes: ['legal-documents:read'] });
+		const unknown = await scoped.request(
+			'http://localhost/legal-documents/cookie_banner/versions'
+		);
+		expect(unknown.status).toBe(400);
+	});
 });
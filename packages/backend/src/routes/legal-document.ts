@@ -2,10 +2,13 @@ import {
 	legalDocumentCurrentInputSchema,
 	legalDocumentCurrentOutputSchema,
 	legalDocumentCurrentParamsSchema,
+	legalDocumentVersionsOutputSchema,
+	legalDocumentVersionsParamsSchema,
 } from '@c15t/schema';
 import { Hono } from 'hono';
 import { describeRoute, resolver, validator as vValidator } from 'hono-openapi';
 import { syncCurrentLegalDocumentHandler } from '~/handlers/legal-document/current.handler';
+import { listLegalDocumentVersionsHandler } from '~/handlers/legal-document/versions.handler';
 import type { C15TContext } from '~/types';
 
 export const createLegalDocumentRoutes = () => {
@@ -31,6 +34,9 @@ export const createLegalDocumentRoutes = () => {
 				401: {
 					description: 'Missing or invalid API key',
 				},
+				403: {
+					description: 'API key is missing the required scope',
+				},
 				409: {
 					description: 'Release metadata conflicts with an existing release',
 				},
@@ -41,5 +47,34 @@ export const createLegalDocumentRoutes = () => {
 		syncCurrentLegalDocumentHandler
 	);
 
+	app.get(
+		'/:type/versions',
+		describeRoute({
+			summary: 'List legal document releases (API key required)',
+			description:
+				'Lists every known release of a legal document type, newest effective date first, with the number of acceptances (consent records) of each release. Requires a Bearer API key.',
+			tags: ['LegalDocument'],
+			security: [{ bearerAuth: [] }],
+			responses: {
+				200: {
+					description: 'Legal document releases listed successfully',
+					content: {
+						'application/json': {
+							schema: resolver(legalDocumentVersionsOutputSchema),
+						},
+					},
+				},
+				401: {
+					description: 'Missing or invalid API key',
+				},
+				403: {
+					description: 'API key is missing the required scope',
+				},
+			},
+		}),
+		vValidator('param', legalDocumentVersionsParamsSchema),
+		listLegalDocumentVersionsHandler
+	);
+
 	return app;
 };
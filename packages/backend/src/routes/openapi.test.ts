@@ -2,6 +2,8 @@ import { Hono } from 'hono';
 import { openAPIRouteHandler } from 'hono-openapi';
 import { describe, expect, it } from 'vitest';
 import type { C15TContext } from '~/types';
+import { createAnalyticsRoutes } from './analytics';
+import { createAuditLogRoutes } from './audit-log';
 import { createConsentRoutes } from './consent';
 import { createLegalDocumentRoutes } from './legal-document';
 import { createSubjectRoutes } from './subject';
@@ -155,6 +157,8 @@ async function getOpenAPISpec() {
 	app.route('/legal-documents', createLegalDocumentRoutes());
 	app.route('/subjects', createSubjectRoutes());
 	app.route('/consents', createConsentRoutes());
+	app.route('/audit-logs', createAuditLogRoutes());
+	app.route('/analytics', createAnalyticsRoutes());
 	app.get(
 		'/openapi.json',
 		openAPIRouteHandler(app, {
@@ -266,4 +270,37 @@ describe('OpenAPI route documentation', () => {
 			hasRequiredProperty(currentLegalDocumentSchema, 'effectiveDate')
 		).toBe(true);
 	});
+
+	it('documents audit log filters and pagination', async () => {
+		const spec = await getOpenAPISpec();
+		const listAuditLogs = getOperation(spec, '/audit-logs/', 'get');
+
+		expect(
+			getParameter(listAuditLogs, 'subjectId', 'query').description
+		).toContain('subject');
+		expect(getParameter(listAuditLogs, 'from', 'query').description).toContain(
+			'at or after'
+		);
+		expect(
+			getParameter(listAuditLogs, 'cursor', 'query').description
+		).toContain('nextCursor');
+		expect(getParameter(listAuditLogs, 'limit', 'query').required).not.toBe(
+			true
+		);
+	});
+
+	it('documents consent analytics buckets and grouping', async () => {
+		const spec = await getOpenAPISpec();
+		const consentAnalytics = getOperation(spec, '/analytics/consents', 'get');
+
+		expect(
+			getParameter(consentAnalytics, 'bucket', 'query').description
+		).toContain('UTC');
+		expect(
+			getParameter(consentAnalytics, 'groupBy', 'query').description
+		).toContain('Comma-separated');
+		expect(getParameter(consentAnalytics, 'from', 'query').required).not.toBe(
+			true
+		);
+	});
 });
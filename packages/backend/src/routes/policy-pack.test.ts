@@ -0,0 +1,193 @@
+import { Hono } from 'hono';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { clearMemoryCache } from '~/cache';
+import { PolicyPackNotDraftError } from '~/db/registry/policy-pack-version';
+import { loadPolicyPacks } from '~/handlers/policy-pack/published';
+import type { ApiKeyScope, C15TContext, PolicyConfig } from '~/types';
+import { createPolicyPackRoutes } from './policy-pack';
+
+const STATIC_POLICIES: PolicyConfig[] = [
+	{ id: 'static', match: { isDefault: true }, consent: { model: 'opt-out' } },
+];
+const POLICIES: PolicyConfig[] = [
+	{ id: 'world', match: { isDefault: true }, consent: { model: 'opt-in' } },
+];
+
+const packVersion = (values: Record<string, unknown> = {}) => ({
+	id: 'ppv_1',
+	version: 1,
+	status: 'draft',
+	description: null,
+	policies: POLICIES,
+	createdBy: 'ops',
+	createdAt: new Date('2026-01-01T00:00:00.000Z'),
+	updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+	publishedAt: null,
+	...values,
+});
+
+function createApp(options?: {
+	scopes?: ApiKeyScope[];
+	registry?: Record<string, ReturnType<typeof vi.fn>>;
+}) {
+	const registry = {
+		listPolicyPackVersions: vi.fn().mockResolvedValue([packVersion()]),
+		findPolicyPackVersionById: vi.fn().mockResolvedValue(packVersion()),
+		findPublishedPolicyPackVersion: vi.fn().mockResolvedValue(null),
+		createPolicyPackDraft: vi.fn(async (input) => packVersion(input)),
+		updatePolicyPackDraft: vi.fn(async (_id, input) => packVersion(input)),
+		deletePolicyPackDraft: vi.fn().mockResolvedValue(true),
+		publishPolicyPackVersion: vi.fn(async (id) =>
+			packVersion({ id, status: 'published', publishedAt: new Date() })
+		),
+		...options?.registry,
+	};
+	const c15tContext = {
+		appName: 'policy-pack-test',
+		logger: {
+			info: vi.fn(),
+			debug: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+		},
+		registry,
+		policyPacks: STATIC_POLICIES,
+		managedPolicyPacks: { enabled: true },
+		apiKeyAuthenticated: true,
+		apiKey: { name: 'ops', scopes: options?.scopes ?? ['*'] },
+	} as unknown as C15TContext;
+
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+	app.use('*', async (c, next) => {
+		c.set('c15tContext', c15tContext);
+		await next();
+	});
+	app.route('/policy-packs', createPolicyPackRoutes());
+
+	return { app, registry, ctx: c15tContext };
+}
+
+const post = (body: unknown) => ({
+	method: 'POST',
+	headers: { 'content-type': 'application/json' },
+	body: JSON.stringify(body),
+});
+
+describe('createPolicyPackRoutes', () => {
+	afterEach(() => {
+		clearMemoryCache();
+	});
+
+	it('creates a draft attributed to the API key', async () => {
+		const { app, registry } = createApp();
+
+		const response = await app.request(
+			'http://localhost/policy-packs',
+			post({ policies: POLICIES, description: 'Opt-in everywhere' })
+		);
+		const body = await response.json();
+
+		expect(response.status).toBe(201);
+		expect(registry.createPolicyPackDraft).toHaveBeenCalledWith({
+			policies: POLICIES,
+			description: 'Opt-in everywhere',
+			createdBy: 'ops',
+		});
+		expect(body.policyPack).toMatchObject({ status: 'draft' });
+		expect(body.warnings).toEqual([
+			expect.stringContaining('No fallback policy configured'),
+		]);
+	});
+
+	it('rejects packs that fail validatePolicies', async () => {
+		const { app, registry } = createApp();
+
+		const response = await app.request(
+			'http://localhost/policy-packs',
+			post({
+				policies: [
+					{ id: 'a', match: { isDefault: true } },
+					{ id: 'b', match: { isDefault: true } },
+				],
+			})
+		);
+
+		expect(response.status).toBe(422);
+		expect(await response.text()).toContain('Only one default policy');
+		expect(registry.createPolicyPackDraft).not.toHaveBeenCalled();
+	});
+
+	it('requires the write scope for changes', async () => {
+		const { app, registry } = createApp({ scopes: ['policy-packs:read'] });
+
+		const list = await app.request('http://localhost/policy-packs');
+		expect(list.status).toBe(200);
+
+		const create = await app.request(
+			'http://localhost/policy-packs',
+			post({ policies: POLICIES })
+		);
+		expect(create.status).toBe(403);
+		expect(registry.createPolicyPackDraft).not.toHaveBeenCalled();
+	});
+
+	it('returns 404 and 409 for missing and non-draft versions', async () => {
+		const { app } = createApp({
+			registry: {
+				findPolicyPackVersionById: vi.fn().mockResolvedValue(null),
+				updatePolicyPackDraft: vi
+					.fn()
+					.mockRejectedValue(
+						new PolicyPackNotDraftError('Policy pack version 1 is published')
+					),
+			},
+		});
+
+		const missing = await app.request('http://localhost/policy-packs/ppv_x');
+		expect(missing.status).toBe(404);
+
+		const published = await app.request('http://localhost/policy-packs/ppv_1', {
+			method: 'PATCH',
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify({ description: 'Too late' }),
+		});
+		expect(published.status).toBe(409);
+	});
+
+	it('serves the published pack from the cache until a new version is published', async () => {
+		const findPublishedPolicyPackVersion = vi
+			.fn()
+			.mockResolvedValueOnce(null)
+			.mockResolvedValue(packVersion({ status: 'published' }));
+		const { app, ctx } = createApp({
+			registry: { findPublishedPolicyPackVersion },
+		});
+
+		// Nothing published yet: static packs, cached
+		expect(await loadPolicyPacks(ctx)).toEqual(STATIC_POLICIES);
+		expect(await loadPolicyPacks(ctx)).toEqual(STATIC_POLICIES);
+		expect(findPublishedPolicyPackVersion).toHaveBeenCalledTimes(1);
+
+		const response = await app.request(
+			'http://localhost/policy-packs/ppv_1/publish',
+			{ method: 'POST' }
+		);
+		expect(response.status).toBe(200);
+
+		expect(await loadPolicyPacks(ctx)).toEqual(POLICIES);
+		expect(findPublishedPolicyPackVersion).toHaveBeenCalledTimes(2);
+	});
+
+	it('falls back to static packs when the published pack cannot be loaded', async () => {
+		const { ctx } = createApp({
+			registry: {
+				findPublishedPolicyPackVersion: vi
+					.fn()
+					.mockRejectedValue(new Error('no such table: policyPackVersion')),
+			},
+		});
+
+		expect(await loadPolicyPacks(ctx)).toEqual(STATIC_POLICIES);
+		expect(ctx.logger.error).toHaveBeenCalled();
+	});
+});
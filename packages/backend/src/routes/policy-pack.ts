@@ -0,0 +1,197 @@
+/**
+ * Policy pack routes - Manage policy pack versions stored in the database.
+ *
+ * Mounted when `managedPolicyPacks.enabled` is set.
+ *
+ * @packageDocumentation
+ */
+
+import {
+	createPolicyPackInputSchema,
+	listPolicyPacksOutputSchema,
+	listPolicyPacksQuerySchema,
+	policyPackOutputSchema,
+	policyPackParamsSchema,
+	updatePolicyPackInputSchema,
+} from '@c15t/schema';
+import { Hono } from 'hono';
+import { describeRoute, resolver, validator as vValidator } from 'hono-openapi';
+import {
+	createPolicyPackHandler,
+	deletePolicyPackHandler,
+	getPolicyPackHandler,
+	listPolicyPacksHandler,
+	publishPolicyPackHandler,
+	updatePolicyPackHandler,
+} from '~/handlers/policy-pack';
+import type { C15TContext } from '~/types';
+
+const authResponses = {
+	401: {
+		description: 'Missing or invalid API key',
+	},
+	403: {
+		description: 'API key is missing the required scope',
+	},
+};
+
+const policyPackResponse = (description: string) => ({
+	description,
+	content: {
+		'application/json': {
+			schema: resolver(policyPackOutputSchema),
+		},
+	},
+});
+
+/**
+ * Creates the policy pack routes
+ */
+export const createPolicyPackRoutes = () => {
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+
+	// GET /policy-packs - List versions (requires API key)
+	app.get(
+		'/',
+		describeRoute({
+			summary: 'List policy pack versions (API key required)',
+			description:
+				'Lists stored policy pack versions, newest first. Filter with `status` (`draft`, `published` or `archived`).',
+			tags: ['PolicyPack'],
+			security: [{ bearerAuth: [] }],
+			responses: {
+				200: {
+					description: 'Policy pack versions',
+					content: {
+						'application/json': {
+							schema: resolver(listPolicyPacksOutputSchema),
+						},
+					},
+				},
+				...authResponses,
+			},
+		}),
+		vValidator('query', listPolicyPacksQuerySchema),
+		listPolicyPacksHandler
+	);
+
+	// POST /policy-packs - Create a draft (requires API key)
+	app.post(
+		'/',
+		describeRoute({
+			summary: 'Create a draft policy pack version (API key required)',
+			description: `Stores a policy pack as a new draft with the next version number. Drafts are not served by \`/init\` until they are published.
+
+Policies are checked with \`validatePolicies\`. Errors reject the request with \`POLICY_PACK_INVALID\`; warnings are returned in \`warnings\`.`,
+			tags: ['PolicyPack'],
+			security: [{ bearerAuth: [] }],
+			responses: {
+				201: policyPackResponse('Draft created'),
+				...authResponses,
+				422: {
+					description: 'The policies failed validation',
+				},
+			},
+		}),
+		vValidator('json', createPolicyPackInputSchema),
+		createPolicyPackHandler
+	);
+
+	// GET /policy-packs/:id - Get a version (requires API key)
+	app.get(
+		'/:id',
+		describeRoute({
+			summary: 'Get a policy pack version (API key required)',
+			tags: ['PolicyPack'],
+			security: [{ bearerAuth: [] }],
+			responses: {
+				200: policyPackResponse('Policy pack version'),
+				...authResponses,
+				404: {
+					description: 'Policy pack version not found',
+				},
+			},
+		}),
+		vValidator('param', policyPackParamsSchema),
+		getPolicyPackHandler
+	);
+
+	// PATCH /policy-packs/:id - Update a draft (requires API key)
+	app.patch(
+		'/:id',
+		describeRoute({
+			summary: 'Update a draft policy pack version (API key required)',
+			description:
+				'Replaces the policies or description of a draft. Published and archived versions cannot be changed.',
+			tags: ['PolicyPack'],
+			security: [{ bearerAuth: [] }],
+			responses: {
+				200: policyPackResponse('Draft updated'),
+				...authResponses,
+				404: {
+					description: 'Policy pack version not found',
+				},
+				409: {
+					description: 'The version is not a draft',
+				},
+				422: {
+					description: 'The policies failed validation',
+				},
+			},
+		}),
+		vValidator('param', policyPackParamsSchema),
+		vValidator('json', updatePolicyPackInputSchema),
+		updatePolicyPackHandler
+	);
+
+	// DELETE /policy-packs/:id - Delete a draft (requires API key)
+	app.delete(
+		'/:id',
+		describeRoute({
+			summary: 'Delete a draft policy pack version (API key required)',
+			tags: ['PolicyPack'],
+			security: [{ bearerAuth: [] }],
+			responses: {
+				204: {
+					description: 'Draft deleted',
+				},
+				...authResponses,
+				404: {
+					description: 'Policy pack version not found',
+				},
+				409: {
+					description: 'The version is not a draft',
+				},
+			},
+		}),
+		vValidator('param', policyPackParamsSchema),
+		deletePolicyPackHandler
+	);
+
+	// POST /policy-packs/:id/publish - Publish a version (requires API key)
+	app.post(
+		'/:id/publish',
+		describeRoute({
+			summary: 'Publish a policy pack version (API key required)',
+			description: `Makes the version the one served by \`/init\` and \`POST /subjects\`, archives the previously published version and writes a \`publish_policy_pack\` audit log entry. The cached pack is invalidated immediately.
+
+Publish an archived version to roll back. Publishing the current version is a no-op.`,
+			tags: ['PolicyPack'],
+			security: [{ bearerAuth: [] }],
+			responses: {
+				200: policyPackResponse('Version published'),
+				...authResponses,
+				404: {
+					description: 'Policy pack version not found',
+				},
+				422: {
+					description: 'The policies failed validation',
+				},
+			},
+		}),
+		vValidator('param', policyPackParamsSchema),
+		publishPolicyPackHandler
+	);
+
+	return app;
+};
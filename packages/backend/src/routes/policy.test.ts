@@ -0,0 +1,172 @@
+import { Hono } from 'hono';
+import { describe, expect, it, vi } from 'vitest';
+import { resolvePolicyDecision } from '~/handlers/init/policy';
+import type { ApiKeyScope, C15TContext, PolicyConfig } from '~/types';
+import { createPolicyRoutes } from './policy';
+
+const POLICIES: PolicyConfig[] = [
+	{
+		id: 'us_ca',
+		match: { regions: [{ country: 'US', region: 'CA' }] },
+		i18n: { messageProfile: 'us_ca' },
+		consent: {
+			model: 'opt-out',
+			preselectedCategories: ['necessary', 'measurement', 'marketing'],
+		},
+		ui: { mode: 'banner' },
+	},
+	{
+		id: 'eu',
+		match: { countries: ['DE', 'FR'] },
+		consent: { model: 'opt-in', gpc: false },
+		ui: { mode: 'dialog', dialog: { allowedActions: ['accept', 'reject'] } },
+	},
+];
+
+function createApp(options?: {
+	policyPacks?: PolicyConfig[];
+	scopes?: ApiKeyScope[];
+}) {
+	const registry = {
+		findOrCreateRuntimePolicyDecision: vi.fn(),
+	};
+	const c15tContext = {
+		logger: {
+			info: vi.fn(),
+			debug: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+		},
+		registry,
+		policyPacks: options?.policyPacks ?? POLICIES,
+		i18n: {
+			messages: {
+				default: { translations: { en: {}, de: {} } },
+				us_ca: { translations: { en: {} } },
+			},
+		},
+		apiKeyAuthenticated: true,
+		apiKey: { name: 'support', scopes: options?.scopes ?? ['policies:read'] },
+	} as unknown as C15TContext;
+
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+	app.use('*', async (c, next) => {
+		c.set('c15tContext', c15tContext);
+		await next();
+	});
+	app.route('/policies', createPolicyRoutes());
+
+	return { app, registry };
+}
+
+const simulate = (app: ReturnType<typeof createApp>['app'], body: unknown) =>
+	app.request('http://localhost/policies/simulate', {
+		method: 'POST',
+		headers: { 'content-type': 'application/json' },
+		body: JSON.stringify(body),
+	});
+
+describe('POST /policies/simulate', () => {
+	it('returns the decision /init would resolve without recording it', async () => {
+		const { app, registry } = createApp();
+
+		const response = await simulate(app, {
+			country: 'us',
+			region: 'US-CA',
+			language: 'en-US',
+			userAgent: 'Mozilla/5.0',
+		});
+		const body = await response.json();
+
+		const expected = await resolvePolicyDecision({
+			policies: POLICIES,
+			countryCode: 'US',
+			regionCode: 'CA',
+		});
+		expect(response.status).toBe(200);
+		expect(body).toMatchObject({
+			jurisdiction: 'CCPA',
+			location: { countryCode: 'US', regionCode: 'US-CA' },
+			decision: {
+				policy: { id: 'us_ca', ui: { mode: 'banner' } },
+				matchedBy: 'region',
+				fingerprint: expected?.fingerprint,
+			},
+			policy: { id: 'us_ca' },
+			isFallback: false,
+			translations: { language: 'en', profile: 'us_ca' },
+			gpc: { signal: false, honored: false },
+			preselectedCategories: ['necessary', 'measurement', 'marketing'],
+			userAgent: 'Mozilla/5.0',
+		});
+		expect(registry.findOrCreateRuntimePolicyDecision).not.toHaveBeenCalled();
+	});
+
+	it('drops marketing and measurement when GPC is honored', async () => {
+		const { app } = createApp();
+
+		const body = await simulate(app, {
+			country: 'US',
+			region: 'CA',
+			gpc: true,
+		}).then((res) => res.json());
+
+		expect(body.gpc).toEqual({ signal: true, honored: true });
+		expect(body.preselectedCategories).toEqual(['necessary']);
+	});
+
+	it('reports policies that ignore GPC', async () => {
+		const { app } = createApp();
+
+		const body = await simulate(app, {
+			country: 'DE',
+			language: 'de',
+			gpc: true,
+		}).then((res) => res.json());
+
+		expect(body.decision.policy.ui).toMatchObject({
+			mode: 'dialog',
+			dialog: { allowedActions: ['accept', 'reject'] },
+		});
+		expect(body.translations).toEqual({ language: 'de', profile: 'default' });
+		expect(body.gpc).toEqual({ signal: true, honored: false });
+	});
+
+	it('returns the no-banner fallback when no policy matches', async () => {
+		const { app } = createApp();
+
+		const body = await simulate(app, { country: 'JP' }).then((res) =>
+			res.json()
+		);
+
+		expect(body).toMatchObject({
+			decision: null,
+			policy: { id: 'no_banner', model: 'none', ui: { mode: 'none' } },
+			isFallback: true,
+			translations: { profile: 'default' },
+			preselectedCategories: [],
+		});
+	});
+
+	it('returns the fallback for an explicitly empty policy pack', async () => {
+		const { app } = createApp({ policyPacks: [] });
+
+		const body = await simulate(app, { country: 'US', region: 'CA' }).then(
+			(res) => res.json()
+		);
+
+		expect(body).toMatchObject({
+			decision: null,
+			policy: { id: 'no_banner' },
+			isFallback: true,
+		});
+	});
+
+	it('requires the policies:read scope and a valid country', async () => {
+		const { app } = createApp({ scopes: ['subjects:read'] });
+		expect((await simulate(app, { country: 'US' })).status).toBe(403);
+
+		const { app: scoped } = createApp();
+		expect((await simulate(scoped, { country: 'USA' })).status).toBe(400);
+	});
+});
@@ -0,0 +1,56 @@
+/**
+ * Policy routes - Inspect runtime policy resolution.
+ *
+ * @packageDocumentation
+ */
+
+import {
+	simulatePolicyInputSchema,
+	simulatePolicyOutputSchema,
+} from '@c15t/schema';
+import { Hono } from 'hono';
+import { describeRoute, resolver, validator as vValidator } from 'hono-openapi';
+import { simulatePolicyHandler } from '~/handlers/policy/simulate.handler';
+import type { C15TContext } from '~/types';
+
+/**
+ * Creates the policy routes
+ */
+export const createPolicyRoutes = () => {
+	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
+
+	// POST /policies/simulate - Preview a visitor's policy (requires API key)
+	app.post(
+		'/simulate',
+		describeRoute({
+			summary: 'Simulate the policy a visitor would get (API key required)',
+			description: `Resolves the runtime policy, translations profile and GPC handling that \`/init\` would return for a visitor. Use it to answer "why did this visitor see no banner?".
+
+**Input:** \`country\`, \`region\`, \`language\` (an \`Accept-Language\` value), \`gpc\` and \`userAgent\`. All are optional. \`userAgent\` does not affect resolution and is only echoed back.
+
+**Response:** The matched policy decision with \`matchedBy\` and fingerprint, or \`null\` when no policy matches. \`policy\` is the policy \`/init\` would return, and \`isFallback\` marks the no-banner fallback served when policy packs are configured but none matches. Nothing is written to the database.`,
+			tags: ['Policy'],
+			security: [{ bearerAuth: [] }],
+			responses: {
+				200: {
+					description: 'Simulated policy resolution',
+					content: {
+						'application/json': {
+							schema: resolver(simulatePolicyOutputSchema),
+						},
+					},
+				},
+				401: {
+					description: 'Missing or invalid API key',
+				},
+				403: {
+					description: 'API key is missing the required scope',
+				},
+			},
+		}),
+		vValidator('json', simulatePolicyInputSchema),
+		simulatePolicyHandler
+	);
+
+	return app;
+};
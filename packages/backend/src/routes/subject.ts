@@ -5,9 +5,14 @@
  */
 
 import {
+	deleteSubjectsOutputSchema,
+	deleteSubjectsQuerySchema,
+	exportSubjectsOutputSchema,
+	exportSubjectsQuerySchema,
 	getSubjectOutputSchema,
 	getSubjectParamsSchema,
 	getSubjectQuerySchema,
+	importSubjectsOutputSchema,
 	listSubjectsOutputSchema,
 	listSubjectsQuerySchema,
 	patchSubjectInputSchema,
@@ -15,10 +20,16 @@ import {
 	patchSubjectParamsSchema,
 	postSubjectInputSchema,
 	postSubjectOutputSchema,
+	subjectConsentEventSchema,
+	subjectEventsParamsSchema,
 } from '@c15t/schema';
 import { Hono } from 'hono';
 import { describeRoute, resolver, validator as vValidator } from 'hono-openapi';
+import { deleteSubjectsHandler } from '~/handlers/subject/delete.handler';
+import { subjectEventsHandler } from '~/handlers/subject/events.handler';
+import { exportSubjectsHandler } from '~/handlers/subject/export.handler';
 import { getSubjectHandler } from '~/handlers/subject/get.handler';
+import { importSubjectsHandler } from '~/handlers/subject/import.handler';
 import { listSubjectsHandler } from '~/handlers/subject/list.handler';
 import { patchSubjectHandler } from '~/handlers/subject/patch.handler';
 import { postSubjectHandler } from '~/handlers/subject/post.handler';
@@ -30,6 +41,46 @@ import type { C15TContext } from '~/types';
 export const createSubjectRoutes = () => {
 	const app = new Hono<{ Variables: { c15tContext: C15TContext } }>();
 
+	// GET /subjects/export - Export full consent history (requires API key)
+	// Registered before /:id so "export" is not treated as a subject ID.
+	app.get(
+		'/export',
+		describeRoute({
+			summary: 'Export subject consent history (API key required)',
+			description: `Exports every subject linked to an external ID or subject ID, with all of their consent records, audit log entries and runtime policy decisions. Use to fulfil Data Subject Access Requests.
+
+**Query:** \`externalId\` and/or \`subjectId\` (at least one), \`format\` – \`json\` (default) or \`csv\`.
+
+**Response:** A versioned export document. The CSV format has one row per record, with record details in a JSON \`data\` column.`,
+			tags: ['Subject'],
+			security: [{ bearerAuth: [] }],
+			responses: {
+				200: {
+					description: 'Versioned export document for the matching subjects',
+					content: {
+						'application/json': {
+							schema: resolver(exportSubjectsOutputSchema),
+						},
+						'text/csv': {
+							schema: { type: 'string' },
+						},
+					},
+				},
+				401: {
+					description: 'Missing or invalid API key',
+				},
+				403: {
+					description: 'API key is missing the required scope',
+				},
+				422: {
+					description: 'Neither externalId nor subjectId was provided',
+				},
+			},
+		}),
+		vValidator('query', exportSubjectsQuerySchema),
+		exportSubjectsHandler
+	);
+
 	// GET /subjects/:id - Get a subject's consent status
 	app.get(
 		'/:id',
@@ -60,6 +111,33 @@ export const createSubjectRoutes = () => {
 		getSubjectHandler
 	);
 
+	// GET /subjects/:id/events - Stream consent changes for a subject
+	app.get(
+		'/:id/events',
+		describeRoute({
+			summary: 'Stream subject consent changes',
+			description: `Opens a Server-Sent Events stream that pushes consents as they are recorded, so long-lived sessions can update without reloading. Covers the subject and any other subject linked to the same external ID (other devices of the same user).
+
+**Events:** \`ready\` once subscribed, then \`consent.recorded\` with \`consentId\`, \`type\`, \`preferences\`, \`consentAction\` and \`givenAt\`, for consents from \`POST /subjects\` and \`POST /subjects/import\`. \`subject.linked\` with \`externalId\` and \`identityProvider\` is sent when \`PATCH /subjects/:id\` links the subject; the open stream then also covers that user's other subjects. Keep-alive comments are sent between events.`,
+			tags: ['Subject', 'Consent'],
+			responses: {
+				200: {
+					description: 'Event stream of consent changes',
+					content: {
+						'text/event-stream': {
+							schema: resolver(subjectConsentEventSchema),
+						},
+					},
+				},
+				404: {
+					description: 'Subject not found for the given ID',
+				},
+			},
+		}),
+		vValidator('param', subjectEventsParamsSchema),
+		subjectEventsHandler
+	);
+
 	// POST /subjects - Create a new consent record
 	app.post(
 		'/',
@@ -90,6 +168,51 @@ export const createSubjectRoutes = () => {
 		postSubjectHandler
 	);
 
+	// POST /subjects/import - Bulk consent import (requires API key)
+	app.post(
+		'/import',
+		describeRoute({
+			summary: 'Import consent records (API key required)',
+			description: `Imports historical consent records, for example when migrating from another CMP. The body is NDJSON (\`application/x-ndjson\`) with one record per line, up to 1000 lines per request.
+
+Each record needs a \`dedupeKey\`, \`domain\` and \`givenAt\`. Records whose \`dedupeKey\` was already imported are skipped, so a failed import can be retried with the same file. Subjects are created from \`subjectId\` or \`externalId\` when they do not exist.
+
+**Response:** Import counts and an error for every line that could not be imported.`,
+			tags: ['Subject', 'Consent'],
+			security: [{ bearerAuth: [] }],
+			requestBody: {
+				content: {
+					'application/x-ndjson': {
+						schema: { type: 'string' },
+					},
+				},
+			},
+			responses: {
+				200: {
+					description: 'Import finished; counts and per-line errors',
+					content: {
+						'application/json': {
+							schema: resolver(importSubjectsOutputSchema),
+						},
+					},
+				},
+				401: {
+					description: 'Missing or invalid API key',
+				},
+				403: {
+					description: 'API key is missing the required scope',
+				},
+				413: {
+					description: 'More than 1000 records in one request',
+				},
+				422: {
+					description: 'Request body has no records',
+				},
+			},
+		}),
+		importSubjectsHandler
+	);
+
 	// PATCH /subjects/:id - Link external ID to subject
 	app.patch(
 		'/:id',
@@ -138,11 +261,53 @@ export const createSubjectRoutes = () => {
 				401: {
 					description: 'Missing or invalid API key',
 				},
+				403: {
+					description: 'API key is missing the required scope',
+				},
 			},
 		}),
 		vValidator('query', listSubjectsQuerySchema),
 		listSubjectsHandler
 	);
 
+	// DELETE /subjects - Erase subjects by external ID or subject ID (requires API key)
+	app.delete(
+		'/',
+		describeRoute({
+			summary: 'Erase subjects (API key required)',
+			description: `Right-to-erasure endpoint. Removes every subject linked to an external ID or subject ID, together with their consent records and audit log entries. A non-identifying tombstone audit entry is written as proof of the erasure.
+
+**Query:** \`externalId\` and/or \`subjectId\` (at least one), \`mode\` – \`delete\` (default) removes rows, \`pseudonymize\` keeps rows but clears identifying fields.
+
+Only data belonging to the configured tenant is affected.`,
+			tags: ['Subject'],
+			security: [{ bearerAuth: [] }],
+			responses: {
+				200: {
+					description: 'Subjects erased; tombstone ID and affected row counts',
+					content: {
+						'application/json': {
+							schema: resolver(deleteSubjectsOutputSchema),
+						},
+					},
+				},
+				401: {
+					description: 'Missing or invalid API key',
+				},
+				403: {
+					description: 'API key is missing the required scope',
+				},
+				404: {
+					description: 'No subject found for the given identifiers',
+				},
+				422: {
+					description: 'Neither externalId nor subjectId was provided',
+				},
+			},
+		}),
+		vValidator('query', deleteSubjectsQuerySchema),
+		deleteSubjectsHandler
+	);
+
 	return app;
 };
@@ -0,0 +1,106 @@
+/**
+ * Subject event fan-out for `GET /subjects/:id/events`.
+ *
+ * Handlers that record consent publish to the subject's channel and, when
+ * the subject is linked to an external ID, to that user's channel. Streams
+ * subscribe to the same channels, so every session of a user hears about a
+ * consent recorded on any of their devices.
+ *
+ * @packageDocumentation
+ */
+
+import type {
+	C15TContext,
+	SubjectEvent,
+	SubjectEventBus,
+	SubjectEventPayload,
+} from '~/types';
+import { runInBackground } from '~/utils/background';
+
+type SubjectEventContext = Pick<
+	C15TContext,
+	'subjectEvents' | 'tenantId' | 'logger' | 'background'
+>;
+
+/**
+ * Subject fields that determine the channels an event is published to
+ */
+export interface SubjectEventTarget {
+	id: string;
+	externalId?: string | null;
+	identityProvider?: string | null;
+}
+
+/**
+ * Creates a bus that delivers events within the current process.
+ */
+export function createMemorySubjectEventBus(): SubjectEventBus {
+	const listeners = new Map<string, Set<(event: SubjectEvent) => void>>();
+
+	return {
+		publish: (channel, event) => {
+			for (const listener of listeners.get(channel) ?? []) {
+				listener(event);
+			}
+		},
+		subscribe: (channel, listener) => {
+			const channelListeners = listeners.get(channel) ?? new Set();
+			channelListeners.add(listener);
+			listeners.set(channel, channelListeners);
+
+			return () => {
+				channelListeners.delete(listener);
+				if (channelListeners.size === 0) {
+					listeners.delete(channel);
+				}
+			};
+		},
+	};
+}
+
+/**
+ * Channels a subject's stream listens on, scoped to the tenant.
+ */
+export function getSubjectEventChannels(
+	subject: SubjectEventTarget,
+	tenantId?: string
+): string[] {
+	const prefix = `c15t:${tenantId ?? 'default'}`;
+	const channels = [`${prefix}:subject:${subject.id}`];
+
+	if (subject.externalId) {
+		channels.push(
+			`${prefix}:external:${subject.identityProvider ?? 'external'}:${subject.externalId}`
+		);
+	}
+
+	return channels;
+}
+
+/**
+ * Publishes an event to every stream of the subject and of other subjects
+ * linked to the same external ID.
+ *
+ * Returns immediately; publishing happens in the background.
+ */
+export function publishSubjectEvent(
+	ctx: SubjectEventContext,
+	subject: SubjectEventTarget,
+	event: SubjectEventPayload
+): void {
+	const bus = ctx.subjectEvents?.bus;
+	if (!bus) {
+		return;
+	}
+
+	const published: SubjectEvent = {
+		id: `evt_${crypto.randomUUID().replaceAll('-', '')}`,
+		...event,
+	};
+
+	for (const channel of getSubjectEventChannels(subject, ctx.tenantId)) {
+		runInBackground(ctx, async () => {
+			await bus.publish(channel, published);
+		});
+	}
+}
@@ -0,0 +1,14 @@
+/**
+ * Subject Events Module
+ *
+ * Publish/subscribe for the `GET /subjects/:id/events` consent stream.
+ *
+ * @packageDocumentation
+ */
+
+export {
+	createMemorySubjectEventBus,
+	getSubjectEventChannels,
+	publishSubjectEvent,
+	type SubjectEventTarget,
+} from './bus';
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMemoryCacheAdapter } from '~/cache';
+import type { C15TContext, PolicyConfig } from '~/types';
+import { createTenantContext } from './context';
+
+const DEFAULT_POLICY: PolicyConfig = {
+	id: 'world_default',
+	match: { isDefault: true },
+	consent: { model: 'none' },
+};
+
+function createContext(overrides: Partial<C15TContext> = {}): C15TContext {
+	return {
+		appName: 'c15t',
+		trustedOrigins: [],
+		adapter: {},
+		logger: {
+			info: vi.fn(),
+			debug: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+		},
+		db: {
+			findMany: vi.fn().mockResolvedValue([]),
+			create: vi.fn(async (_table: string, data: unknown) => data),
+		},
+		registry: {},
+		...overrides,
+	} as unknown as C15TContext;
+}
+
+describe('createTenantContext', () => {
+	it('scopes database queries to the tenant', async () => {
+		const context = createContext();
+		const scoped = createTenantContext(context, 'acme');
+
+		await scoped.db.create('subject', { id: 'sub_1' });
+
+		expect(scoped.tenantId).toBe('acme');
+		expect(context.db.create).toHaveBeenCalledWith('subject', {
+			id: 'sub_1',
+			tenantId: 'acme',
+		});
+		expect(scoped.registry).not.toBe(context.registry);
+	});
+
+	it('prefixes cache keys with the tenant', async () => {
+		const adapter = createMemoryCacheAdapter();
+		const context = createContext({ cache: { adapter } });
+
+		await createTenantContext(context, 'acme').cache?.adapter?.set('k', 'a');
+		await createTenantContext(context, 'globex').cache?.adapter?.set('k', 'b');
+
+		expect(await adapter.get('tenant:acme:k')).toBe('a');
+		expect(await adapter.get('tenant:globex:k')).toBe('b');
+		expect(await adapter.get('k')).toBeNull();
+	});
+
+	it('uses tenant policy packs and falls back to the instance ones', () => {
+		const tenantPolicy: PolicyConfig = {
+			...DEFAULT_POLICY,
+			id: 'acme_default',
+		};
+		const context = createContext({ policyPacks: [DEFAULT_POLICY] });
+
+		expect(
+			createTenantContext(context, {
+				id: 'acme',
+				policyPacks: [tenantPolicy],
+			}).policyPacks
+		).toEqual([tenantPolicy]);
+		expect(createTenantContext(context, 'globex').policyPacks).toEqual([
+			DEFAULT_POLICY,
+		]);
+	});
+
+	it('rejects invalid tenant policy packs', () => {
+		const context = createContext();
+
+		expect(() =>
+			createTenantContext(context, {
+				id: 'acme',
+				policyPacks: [
+					{ ...DEFAULT_POLICY, id: 'a' },
+					{ ...DEFAULT_POLICY, id: 'b' },
+				],
+			})
+		).toThrow('Invalid policyPacks for tenant "acme"');
+	});
+
+	it('refuses to scope an already scoped context', () => {
+		const context = createContext({ tenantId: 'acme' });
+
+		expect(() => createTenantContext(context, 'globex')).toThrow(
+			'already scoped to tenant "acme"'
+		);
+	});
+});
@@ -0,0 +1,118 @@
+/**
+ * Per-request tenant scoping.
+ *
+ * With `resolveTenant`, the instance context stays unscoped and each request
+ * gets a copy scoped to its tenant: a tenant-scoped ORM and registry,
+ * prefixed cache keys, and the tenant's own policy packs and i18n profiles.
+ *
+ * @packageDocumentation
+ */
+
+import { withTenantCacheScope } from '~/cache/tenant-scope';
+import { createRegistry } from '~/db/registry';
+import { withTenantScope } from '~/db/tenant-scope';
+import { inspectPolicies } from '~/handlers/init/policy';
+import { validateMessages } from '~/handlers/init/translations';
+import type { C15TContext, ResolvedTenant } from '~/types';
+
+/**
+ * Tenant configurations that already passed validation
+ */
+const validatedTenants = new WeakSet<ResolvedTenant>();
+
+/**
+ * Validates tenant-specific policy packs and i18n profiles with the same
+ * checks the instance configuration gets at startup.
+ *
+ * Each tenant object is only validated once, so resolvers should return
+ * stable objects rather than building new ones per request.
+ *
+ * @throws {Error} When the tenant configuration is invalid
+ */
+function assertValidTenantConfig(
+	context: C15TContext,
+	tenant: ResolvedTenant
+): void {
+	if (validatedTenants.has(tenant)) return;
+	if (!tenant.policyPacks && !tenant.i18n) return;
+
+	const i18nValidation = validateMessages({
+		i18n: tenant.i18n ?? context.i18n,
+		customTranslations: context.customTranslations,
+		policies: tenant.policyPacks ?? context.policyPacks,
+	});
+	if (i18nValidation.errors.length > 0) {
+		throw new Error(
+			`Invalid i18n configuration for tenant "${tenant.id}": ${i18nValidation.errors.join(', ')}`
+		);
+	}
+
+	if (tenant.policyPacks) {
+		const policyValidation = inspectPolicies(tenant.policyPacks, {
+			iabEnabled: context.iab?.enabled === true,
+		});
+		if (policyValidation.errors.length > 0) {
+			throw new Error(
+				`Invalid policyPacks for tenant "${tenant.id}": ${policyValidation.errors[0]}`
+			);
+		}
+	}
+
+	validatedTenants.add(tenant);
+}
+
+/**
+ * Returns a copy of an unscoped context scoped to one tenant.
+ *
+ * Used for every request when `resolveTenant` is configured. Also useful for
+ * running maintenance jobs per tenant.
+ *
+ * @example
+ * ```ts
+ * const instance = c15tInstance({ ...options, resolveTenant });
+ *
+ * for (const tenantId of tenantIds) {
+ *   await sweepExpiredConsents(createTenantContext(instance.$context, tenantId));
+ * }
+ * ```
+ *
+ * @throws {Error} When the context is already scoped by `tenantId`, or the
+ * tenant configuration is invalid
+ */
+export function createTenantContext(
+	context: C15TContext,
+	tenant: string | ResolvedTenant
+): C15TContext {
+	const resolved = typeof tenant === 'string' ? { id: tenant } : tenant;
+
+	if (context.tenantId !== undefined) {
+		throw new Error(
+			`Cannot scope a context that is already scoped to tenant "${context.tenantId}"`
+		);
+	}
+
+	assertValidTenantConfig(context, resolved);
+
+	const db = withTenantScope(context.db, resolved.id);
+
+	return {
+		...context,
+		tenantId: resolved.id,
+		db,
+		registry: createRegistry({
+			db,
+			ctx: {
+				logger: context.logger,
+				tenantId: resolved.id,
+			},
+		}),
+		policyPacks: resolved.policyPacks ?? context.policyPacks,
+		i18n: resolved.i18n ?? context.i18n,
+		cache: context.cache?.adapter
+			? {
+					...context.cache,
+					adapter: withTenantCacheScope(context.cache.adapter, resolved.id),
+				}
+			: context.cache,
+	};
+}
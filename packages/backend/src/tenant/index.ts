@@ -0,0 +1,8 @@
+/**
+ * Multi-tenant request scoping
+ *
+ * @packageDocumentation
+ */
+
+export { createTenantContext } from './context';
+export { resolveRequestTenant } from './resolve';
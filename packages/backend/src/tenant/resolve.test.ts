@@ -0,0 +1,49 @@
+import { HTTPException } from 'hono/http-exception';
+import { describe, expect, it, vi } from 'vitest';
+import { resolveRequestTenant } from './resolve';
+
+const request = new Request('https://acme.example.com/init');
+
+describe('resolveRequestTenant', () => {
+	it('accepts a tenant ID or a tenant object', async () => {
+		const resolveTenant = vi.fn().mockResolvedValue('acme');
+
+		expect(await resolveRequestTenant(request, resolveTenant)).toEqual({
+			id: 'acme',
+		});
+		expect(
+			await resolveRequestTenant(request, () => ({ id: 'globex' }))
+		).toEqual({ id: 'globex' });
+		expect(resolveTenant).toHaveBeenCalledWith(request, { apiKey: undefined });
+	});
+
+	it('rejects unknown tenants with 404', async () => {
+		const error = await resolveRequestTenant(request, () => null).catch(
+			(err) => err
+		);
+
+		expect(error).toBeInstanceOf(HTTPException);
+		expect(error.status).toBe(404);
+		expect(error.cause).toEqual({ code: 'TENANT_NOT_FOUND' });
+	});
+
+	it('returns null for unknown tenants when not required', async () => {
+		expect(
+			await resolveRequestTenant(request, () => undefined, { required: false })
+		).toBeNull();
+	});
+
+	it('rejects API keys restricted to another tenant', async () => {
+		const apiKey = { name: 'acme', scopes: ['*' as const], tenantId: 'acme' };
+
+		await expect(
+			resolveRequestTenant(request, () => 'acme', { apiKey })
+		).resolves.toEqual({ id: 'acme' });
+
+		const error = await resolveRequestTenant(request, () => 'globex', {
+			apiKey,
+		}).catch((err) => err);
+		expect(error.status).toBe(403);
+		expect(error.cause).toEqual({ code: 'API_KEY_TENANT_MISMATCH' });
+	});
+});
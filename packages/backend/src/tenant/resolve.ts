@@ -0,0 +1,52 @@
+/**
+ * Request tenant resolution.
+ *
+ * @packageDocumentation
+ */
+
+import { HTTPException } from 'hono/http-exception';
+import type {
+	AuthenticatedApiKey,
+	ResolvedTenant,
+	ResolveTenant,
+} from '~/types';
+
+/**
+ * Runs the `resolveTenant` hook for a request.
+ *
+ * @returns The resolved tenant, or null when the tenant is unknown and
+ * `required` is false
+ * @throws {HTTPException} 404 `TENANT_NOT_FOUND` when the tenant is unknown
+ * and `required` is true
+ * @throws {HTTPException} 403 `API_KEY_TENANT_MISMATCH` when the request's
+ * API key is restricted to another tenant
+ */
+export async function resolveRequestTenant(
+	request: Request,
+	resolveTenant: ResolveTenant,
+	{
+		apiKey,
+		required = true,
+	}: { apiKey?: AuthenticatedApiKey; required?: boolean } = {}
+): Promise<ResolvedTenant | null> {
+	const result = await resolveTenant(request, { apiKey });
+	const tenant = typeof result === 'string' ? { id: result } : result;
+
+	if (!tenant?.id) {
+		if (!required) return null;
+
+		throw new HTTPException(404, {
+			message: 'Tenant not found',
+			cause: { code: 'TENANT_NOT_FOUND' },
+		});
+	}
+
+	if (apiKey?.tenantId !== undefined && apiKey.tenantId !== tenant.id) {
+		throw new HTTPException(403, {
+			message: `API key "${apiKey.name}" is not valid for this tenant`,
+			cause: { code: 'API_KEY_TENANT_MISMATCH' },
+		});
+	}
+
+	return tenant;
+}
@@ -0,0 +1,210 @@
+/**
+ * In-memory stand-in for the context ORM, for unit tests.
+ *
+ * Evaluates where-builder conditions, multi-column ordering and limits
+ * against plain rows, so keyset pages and batched jobs can be walked the
+ * same way they run against a database.
+ *
+ * @packageDocumentation
+ */
+
+import { vi } from 'vitest';
+
+export type InMemoryRow = Record<string, unknown>;
+
+export type InMemoryTables = Record<string, InMemoryRow[]>;
+
+type Operator =
+	| '='
+	| '!='
+	| '<'
+	| '<='
+	| '>'
+	| '>='
+	| 'is'
+	| 'is not'
+	| 'in'
+	| 'not in';
+
+type Comparable = string | number | boolean | null;
+
+type OrderBy = [string, 'asc' | 'desc'];
+
+/**
+ * Where-builder handed to `where` callbacks. Conditions evaluate directly to
+ * whether the row matches.
+ */
+export interface InMemoryConditionBuilder {
+	(column: string, operator: Operator, value: unknown): boolean;
+	and: (...conditions: boolean[]) => boolean;
+	or: (...conditions: boolean[]) => boolean;
+	not: (condition: boolean) => boolean;
+	isNull: (column: string) => boolean;
+	isNotNull: (column: string) => boolean;
+}
+
+interface InMemoryQuery {
+	where?: (b: InMemoryConditionBuilder) => boolean;
+	orderBy?: OrderBy | OrderBy[];
+	limit?: number;
+}
+
+export interface InMemoryDbOptions {
+	/**
+	 * `createdAt` given to created rows that do not set one.
+	 * @default () => new Date()
+	 */
+	createdAt?: () => Date;
+}
+
+const toComparable = (value: unknown): Comparable => {
+	if (value instanceof Date) {
+		return value.getTime();
+	}
+	return (value ?? null) as Comparable;
+};
+
+/**
+ * Orders two non-null values; `null` never satisfies a range comparison.
+ */
+function compare(left: Comparable, right: Comparable): number | null {
+	if (left === null || right === null) {
+		return null;
+	}
+	if (left === right) {
+		return 0;
+	}
+	return left < right ? -1 : 1;
+}
+
+function createBuilder(row: InMemoryRow): InMemoryConditionBuilder {
+	const includes = (values: unknown, column: string) =>
+		(values as unknown[]).map(toComparable).includes(toComparable(row[column]));
+
+	const b = (column: string, operator: Operator, value: unknown): boolean => {
+		const left = toComparable(row[column]);
+		const right = toComparable(value);
+		const order = compare(left, right);
+
+		switch (operator) {
+			case '=':
+			case 'is':
+				return left === right;
+			case '!=':
+			case 'is not':
+				return left !== right;
+			case '<':
+				return order !== null && order < 0;
+			case '<=':
+				return order !== null && order <= 0;
+			case '>':
+				return order !== null && order > 0;
+			case '>=':
+				return order !== null && order >= 0;
+			case 'in':
+				return includes(value, column);
+			case 'not in':
+				return !includes(value, column);
+		}
+	};
+
+	return Object.assign(b, {
+		and: (...conditions: boolean[]) => conditions.every(Boolean),
+		or: (...conditions: boolean[]) => conditions.some(Boolean),
+		not: (condition: boolean) => !condition,
+		isNull: (column: string) => toComparable(row[column]) === null,
+		isNotNull: (column: string) => toComparable(row[column]) !== null,
+	});
+}
+
+function normalizeOrderBy(orderBy: InMemoryQuery['orderBy']): OrderBy[] {
+	if (!orderBy) {
+		return [];
+	}
+	return typeof orderBy[0] === 'string'
+		? [orderBy as OrderBy]
+		: (orderBy as OrderBy[]);
+}
+
+/**
+ * Creates an ORM double over `tables`. The tables are read and written in
+ * place, so tests can inspect them after the code under test ran. Every
+ * method is a `vi.fn` for call assertions.
+ *
+ * @example
+ * ```ts
+ * const tables = { consent: [consent('cns_1', '2026-01-01')] };
+ * const db = createInMemoryDb(tables);
+ * const ctx = { db, logger } as unknown as C15TContext;
+ * ```
+ */
+export function createInMemoryDb(
+	tables: InMemoryTables,
+	{ createdAt = () => new Date() }: InMemoryDbOptions = {}
+) {
+	const matches = (query?: InMemoryQuery) => (row: InMemoryRow) =>
+		query?.where ? query.where(createBuilder(row)) : true;
+
+	const findMany = vi.fn(
+		async (table: string, query?: InMemoryQuery): Promise<InMemoryRow[]> => {
+			const orderBy = normalizeOrderBy(query?.orderBy);
+			const matched = (tables[table] ?? []).filter(matches(query));
+
+			matched.sort((a, b) => {
+				for (const [column, direction] of orderBy) {
+					const order =
+						compare(toComparable(a[column]), toComparable(b[column])) ?? 0;
+					if (order !== 0) {
+						return direction === 'desc' ? -order : order;
+					}
+				}
+				return 0;
+			});
+
+			return matched.slice(0, query?.limit);
+		}
+	);
+
+	const db = {
+		tables,
+		findMany,
+		findFirst: vi.fn(
+			async (table: string, query?: InMemoryQuery) =>
+				(await findMany(table, { ...query, limit: 1 }))[0] ?? null
+		),
+		count: vi.fn(
+			async (table: string, query?: InMemoryQuery) =>
+				(tables[table] ?? []).filter(matches(query)).length
+		),
+		create: vi.fn(async (table: string, data: InMemoryRow) => {
+			const row = { createdAt: createdAt(), ...data };
+			tables[table] = [...(tables[table] ?? []), row];
+			return row;
+		}),
+		updateMany: vi.fn(
+			async (
+				table: string,
+				query: InMemoryQuery & { set: InMemoryRow }
+			): Promise<void> => {
+				for (const row of (tables[table] ?? []).filter(matches(query))) {
+					Object.assign(row, query.set);
+				}
+			}
+		),
+		deleteMany: vi.fn(
+			async (table: string, query?: InMemoryQuery): Promise<void> => {
+				const isMatch = matches(query);
+				tables[table] = (tables[table] ?? []).filter((row) => !isMatch(row));
+			}
+		),
+	};
+
+	return {
+		...db,
+		// Runs on the same tables; a failing callback does not roll back
+		transaction: vi.fn(
+			async <T>(callback: (tx: typeof db) => Promise<T>): Promise<T> =>
+				callback(db)
+		),
+	};
+}
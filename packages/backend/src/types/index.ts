@@ -7,10 +7,13 @@ import {
 	type PolicyConfig,
 	/** @deprecated Use `PolicyConfig[]` instead */
 	type PolicyPack,
+	type SubjectConsentEvent,
+	type SubjectLinkedEvent,
 } from '@c15t/schema/types';
 import type { Translations } from '@c15t/translations';
 import type { Meter, Tracer } from '@opentelemetry/api';
 import type { FumaDB, InferFumaDB } from 'fumadb';
+import type { JWK } from 'jose';
 import type { CacheAdapter } from '../cache/types';
 import type { createRegistry } from '../db/registry';
 import type { DB, LatestDB } from '../db/schema';
@@ -144,6 +147,51 @@ export interface IPAddressOptions {
 	ipAddressHeaders?: string[];
 }
 
+/**
+ * Country and region resolved for a request
+ */
+export interface GeoLocation {
+	/**
+	 * ISO 3166-1 alpha-2 country code, e.g. `DE`
+	 */
+	countryCode: string | null;
+	/**
+	 * ISO 3166-2 subdivision code without the country prefix, e.g. `CA` for
+	 * California
+	 */
+	regionCode: string | null;
+}
+
+/**
+ * Resolves a location from a client IP address.
+ */
+export interface GeoProvider {
+	/**
+	 * Identifies the provider in cache keys
+	 */
+	name: string;
+	/**
+	 * Looks up an IP address. Return `null` when the address is unknown.
+	 */
+	lookup: (ip: string) => GeoLocation | null | Promise<GeoLocation | null>;
+}
+
+/**
+ * IP geolocation for deployments without CDN geo headers.
+ */
+export interface GeoOptions {
+	/**
+	 * Provider used when the request has no geo headers, e.g.
+	 * `createMmdbGeoProvider()`
+	 */
+	provider: GeoProvider;
+	/**
+	 * How long lookups are cached in `cache.adapter`, in milliseconds.
+	 * @default 86400000 (1 day)
+	 */
+	cacheTtlMs?: number;
+}
+
 /**
  * Cache configuration for external persistent storage.
  * Used for caching GVL and other data.
@@ -294,11 +342,45 @@ export type {
 	PolicyUiSurfaceConfig,
 } from '@c15t/schema/types';
 
+/**
+ * Asymmetric key pair for signing snapshot tokens.
+ *
+ * Public halves are published at `/.well-known/jwks.json`, so services that
+ * only verify tokens never hold a key that can mint them.
+ */
+export interface SnapshotSigningKey {
+	/**
+	 * Key ID written to the JWT `kid` header and the JWKS entry.
+	 */
+	kid: string;
+	/**
+	 * Signing algorithm. `EdDSA` keys use the Ed25519 curve.
+	 */
+	alg: 'ES256' | 'EdDSA';
+	/**
+	 * Public key as a JWK or SPKI PEM string.
+	 */
+	publicKey: JWK | string;
+	/**
+	 * Private key as a JWK or PKCS#8 PEM string.
+	 * Omit it for keys that should only verify, such as a retired key that
+	 * is kept until its tokens expire.
+	 */
+	privateKey?: JWK | string;
+}
+
 export interface PolicySnapshotOptions {
 	/**
-	 * Secret used for signing and verifying policy snapshot tokens.
+	 * Shared HS256 secret used for signing and verifying policy snapshot tokens.
+	 * Required unless `signingKeys` is set.
 	 */
-	signingKey: string;
+	signingKey?: string;
+	/**
+	 * Asymmetric signing keys. The first key with a `privateKey` signs new
+	 * tokens and every listed key verifies them. Takes precedence over
+	 * `signingKey` for signing.
+	 */
+	signingKeys?: SnapshotSigningKey[];
 	/**
 	 * How writes should behave when snapshot validation fails.
 	 * @default "reject"
@@ -323,9 +405,16 @@ export interface PolicySnapshotOptions {
 
 export interface LegalDocumentSnapshotOptions {
 	/**
-	 * Secret used for signing and verifying legal-document snapshot tokens.
+	 * Shared HS256 secret used for signing and verifying legal-document
+	 * snapshot tokens. Required unless `signingKeys` is set.
 	 */
-	signingKey: string;
+	signingKey?: string;
+	/**
+	 * Asymmetric signing keys. The first key with a `privateKey` signs new
+	 * tokens and every listed key verifies them. Takes precedence over
+	 * `signingKey` for signing.
+	 */
+	signingKeys?: SnapshotSigningKey[];
 	/**
 	 * JWT issuer claim for legal-document snapshot tokens.
 	 * @default "c15t"
@@ -338,6 +427,61 @@ export interface LegalDocumentSnapshotOptions {
 	audience?: string;
 }
 
+export interface ConsentReceiptOptions {
+	/**
+	 * Secret used for signing and verifying consent receipts.
+	 */
+	signingKey: string;
+	/**
+	 * Organisation responsible for the consent, listed as the PII controller.
+	 */
+	controller: {
+		name: string;
+		contact?: string;
+		email?: string;
+		phone?: string;
+		url?: string;
+	};
+	/**
+	 * Privacy policy URL written to receipts.
+	 */
+	policyUrl?: string;
+	/**
+	 * JWT issuer claim for receipts.
+	 * @default "c15t"
+	 */
+	issuer?: string;
+}
+
+export interface IdentityTokenOptions {
+	/**
+	 * Shared HS256 secret used for signing and verifying identity tokens.
+	 * Required unless `signingKeys` is set.
+	 */
+	signingKey?: string;
+	/**
+	 * Asymmetric signing keys. Every listed key verifies tokens; the first key
+	 * with a `privateKey` signs tokens created with `createIdentityToken`.
+	 * Takes precedence over `signingKey` for signing.
+	 */
+	signingKeys?: SnapshotSigningKey[];
+	/**
+	 * JWT issuer claim for identity tokens.
+	 * @default "c15t"
+	 */
+	issuer?: string;
+	/**
+	 * JWT audience claim for identity tokens.
+	 * When omitted, c15t derives a default audience and scopes it per tenant.
+	 */
+	audience?: string;
+	/**
+	 * Identity token lifetime in seconds, used by `createIdentityToken`.
+	 * @default 300 (5 minutes)
+	 */
+	ttlSeconds?: number;
+}
+
 export interface BackgroundOptions {
 	/**
 	 * Executes non-critical tasks after the response path has completed.
@@ -345,6 +489,411 @@ export interface BackgroundOptions {
 	run: (task: () => Promise<void>) => void;
 }
 
+/**
+ * Public routes that support rate limiting.
+ */
+export type RateLimitedRoute = 'GET /init' | 'POST /subjects';
+
+export interface RateLimitRule {
+	/**
+	 * Maximum requests allowed per client IP within the window.
+	 */
+	limit: number;
+
+	/**
+	 * Window length in milliseconds.
+	 */
+	windowMs: number;
+
+	/**
+	 * What requests are counted against.
+	 * - `ip` – the client IP as returned by `getIpAddress` (masked when masking is enabled)
+	 * - `subject` – the client IP, and also the `subjectId` in the request
+	 *   body against `subjectLimit`. The subject ID is chosen by the client,
+	 *   so it only ever adds a limit on top of the IP limit.
+	 * @default "ip"
+	 */
+	keyBy?: 'ip' | 'subject';
+
+	/**
+	 * Maximum requests allowed per subject ID within the window when
+	 * `keyBy` is `subject`. Usually lower than `limit`.
+	 * @default limit
+	 */
+	subjectLimit?: number;
+}
+
+/**
+ * Rate limiting for public routes.
+ *
+ * Counters are fixed windows stored through a {@link CacheAdapter}. Use a
+ * shared adapter (Redis, KV) when running more than one instance.
+ */
+export interface RateLimitOptions {
+	/**
+	 * Per-route limits. Set a route to `false` to disable its limit.
+	 * Routes that are not listed use the defaults.
+	 *
+	 * @default { 'GET /init': { limit: 60, windowMs: 60000 }, 'POST /subjects': { limit: 30, windowMs: 60000 } }
+	 */
+	routes?: Partial<Record<RateLimitedRoute, RateLimitRule | false>>;
+
+	/**
+	 * Cache adapter for counters.
+	 * Defaults to `cache.adapter`, then to the in-memory cache.
+	 */
+	adapter?: CacheAdapter;
+}
+
+/**
+ * Maximum age, in days, of rows in each table.
+ * Tables without a period are kept forever.
+ */
+export interface RetentionPeriods {
+	/**
+	 * Consent records, by `givenAt`.
+	 */
+	consent?: number;
+
+	/**
+	 * Audit log entries, by `createdAt`.
+	 */
+	auditLog?: number;
+
+	/**
+	 * Runtime policy decisions, by `createdAt`. Decisions still referenced
+	 * by a consent record are kept.
+	 */
+	runtimePolicyDecision?: number;
+}
+
+export interface RetentionOptions extends RetentionPeriods {
+	/**
+	 * Periods per jurisdiction code (e.g. `GDPR`, `CCPA`) that replace the
+	 * top-level periods for consents and runtime policy decisions with that
+	 * `jurisdiction`. Audit log entries have no jurisdiction and always use
+	 * the top-level `auditLog` period.
+	 */
+	jurisdictions?: Record<
+		string,
+		Pick<RetentionPeriods, 'consent' | 'runtimePolicyDecision'>
+	>;
+}
+
+export interface ManagedPolicyPackOptions {
+	/**
+	 * Mounts the `/policy-packs` routes and serves the published version from
+	 * `/init`. Requires the `policyPackVersion` table from schema 2.1.0.
+	 */
+	enabled: boolean;
+
+	/**
+	 * How long the published version is cached.
+	 * Publishing a version invalidates the cache immediately.
+	 * @default 60000
+	 */
+	cacheTtlMs?: number;
+}
+
+/**
+ * Events that can be delivered to webhook endpoints.
+ *
+ * - `consent.recorded` – a consent record was created via `POST /subjects`
+ * - `subject.linked` – an external ID was linked via `PATCH /subjects/:id`
+ */
+export type WebhookEventType = 'consent.recorded' | 'subject.linked';
+
+export interface WebhookEndpoint {
+	/**
+	 * URL that receives `POST` requests with the JSON event payload.
+	 */
+	url: string;
+
+	/**
+	 * Shared secret used to HMAC-sign payloads.
+	 * Receivers verify the `c15t-signature` header with the same secret.
+	 */
+	secret: string;
+
+	/**
+	 * Event types delivered to this endpoint.
+	 * When omitted, every event type is delivered.
+	 */
+	events?: WebhookEventType[];
+
+	/**
+	 * Additional headers sent with every delivery.
+	 */
+	headers?: Record<string, string>;
+}
+
+export interface WebhookOptions {
+	/**
+	 * Endpoints that receive events.
+	 */
+	endpoints: WebhookEndpoint[];
+
+	/**
+	 * Maximum delivery attempts per endpoint before the delivery is recorded
+	 * as failed.
+	 * @default 5
+	 */
+	maxAttempts?: number;
+
+	/**
+	 * Delay before the first retry. Doubles on each subsequent retry.
+	 * @default 1000
+	 */
+	initialBackoffMs?: number;
+
+	/**
+	 * Upper bound for the delay between retries.
+	 * @default 30000
+	 */
+	maxBackoffMs?: number;
+
+	/**
+	 * Per-attempt request timeout.
+	 * @default 10000
+	 */
+	timeoutMs?: number;
+}
+
+/**
+ * Events written to audit event sinks.
+ *
+ * - `consent.recorded` – a consent record was created via `POST /subjects`
+ *   or `POST /subjects/import`
+ * - `subject.linked` – an external ID was linked via `PATCH /subjects/:id`
+ * - `legal_document.synced` – a legal document release was synced via
+ *   `PUT /legal-documents/:type/current`
+ */
+export type AuditEventType =
+	| 'consent.recorded'
+	| 'subject.linked'
+	| 'legal_document.synced';
+
+/**
+ * Structured event passed to audit event sinks, after PII redaction
+ */
+export interface AuditEvent {
+	/** Unique event ID */
+	id: string;
+	type: AuditEventType;
+	createdAt: string;
+	tenantId?: string;
+	/** Request that caused the event */
+	request?: {
+		method?: string;
+		path?: string;
+		/** Name of the API key that authenticated the request */
+		apiKey?: string;
+	};
+	data: Record<string, unknown>;
+}
+
+/**
+ * Destination for audit events, such as a log stream or a SIEM collector.
+ */
+export interface AuditEventSink {
+	/**
+	 * Name used in logs when the sink fails.
+	 */
+	name: string;
+
+	/**
+	 * Receives one event. Called in the background, so a slow or failing sink
+	 * does not affect the request.
+	 */
+	write: (event: AuditEvent) => void | Promise<void>;
+
+	/**
+	 * Sends buffered events. Called by `flushAuditEvents`, e.g. before the
+	 * process exits.
+	 */
+	flush?: () => Promise<void>;
+}
+
+export interface AuditEventOptions {
+	/**
+	 * Sinks that receive every event.
+	 */
+	sinks: AuditEventSink[];
+
+	/**
+	 * Event types written to the sinks.
+	 * When omitted, every event type is written.
+	 */
+	events?: AuditEventType[];
+
+	/**
+	 * Transforms events before the built-in PII redaction runs, e.g. to hash
+	 * external IDs so they stay correlatable. Return `null` to drop the event.
+	 */
+	redact?: (event: AuditEvent) => AuditEvent | null;
+}
+
+/**
+ * SSE event name and `data` of a subject event
+ */
+export type SubjectEventPayload =
+	| { type: 'consent.recorded'; data: SubjectConsentEvent }
+	/** Sent to the subject's own channel when it is linked to an external ID */
+	| { type: 'subject.linked'; data: SubjectLinkedEvent };
+
+/**
+ * Event pushed to `GET /subjects/:id/events` streams
+ */
+export type SubjectEvent = SubjectEventPayload & {
+	/** Unique event ID, also used as the SSE `id` */
+	id: string;
+};
+
+/**
+ * Publish/subscribe transport for subject events.
+ *
+ * The default in-memory bus only reaches streams served by the same process.
+ * Deployments with several instances need a shared bus, e.g. on Redis
+ * pub/sub, so a consent recorded on one instance reaches streams on the
+ * others.
+ */
+export interface SubjectEventBus {
+	publish: (channel: string, event: SubjectEvent) => void | Promise<void>;
+
+	/**
+	 * Registers a listener and returns a function that removes it.
+	 */
+	subscribe: (
+		channel: string,
+		listener: (event: SubjectEvent) => void
+	) => (() => void) | Promise<() => void>;
+}
+
+export interface SubjectEventsOptions {
+	/**
+	 * Transport between the handlers that record consent and open streams.
+	 * @default createMemorySubjectEventBus()
+	 */
+	bus?: SubjectEventBus;
+
+	/**
+	 * Interval between keep-alive comments on open streams, so proxies do not
+	 * close idle connections.
+	 * @default 25000
+	 */
+	heartbeatIntervalMs?: number;
+}
+
+/**
+ * Permission granted to an API key.
+ *
+ * `*` grants every scope, including scopes added in later versions.
+ */
+export type ApiKeyScope =
+	| 'subjects:read'
+	| 'subjects:write'
+	| 'audit-logs:read'
+	| 'analytics:read'
+	| 'legal-documents:read'
+	| 'legal-documents:write'
+	| 'policy-packs:read'
+	| 'policy-packs:write'
+	| 'policies:read'
+	| '*';
+
+interface ApiKeyConfigBase {
+	/**
+	 * Identifies the key in logs and error messages
+	 */
+	name: string;
+
+	/**
+	 * Scopes the key is allowed to use
+	 */
+	scopes: ApiKeyScope[];
+
+	/**
+	 * Requests made with the key are rejected after this date
+	 */
+	expiresAt?: Date | string;
+
+	/**
+	 * Restricts the key to one tenant when `resolveTenant` is configured.
+	 * Requests that resolve to another tenant are rejected with 403.
+	 */
+	tenantId?: string;
+}
+
+/**
+ * API key with a name, scopes and optional expiry.
+ *
+ * Configure either the key itself or its SHA-256 hash, so the plain key
+ * does not need to be stored with the server config. Generate the hash with
+ * `hashApiKey`.
+ */
+export type ApiKeyConfig = ApiKeyConfigBase &
+	(
+		| {
+				/** The plain API key */
+				key: string;
+				hash?: never;
+		  }
+		| {
+				/** Hex-encoded SHA-256 hash of the API key */
+				hash: string;
+				key?: never;
+		  }
+	);
+
+/**
+ * API key details attached to an authenticated request
+ */
+export interface AuthenticatedApiKey {
+	name: string;
+	scopes: ApiKeyScope[];
+	tenantId?: string;
+}
+
+/**
+ * Tenant selected for a request by `resolveTenant`
+ */
+export interface ResolvedTenant {
+	/**
+	 * Tenant ID used to scope database rows, cache keys and token audiences
+	 */
+	id: string;
+	/**
+	 * Policy packs for this tenant. Defaults to the instance `policyPacks`.
+	 */
+	policyPacks?: PolicyConfig[];
+	/**
+	 * i18n message profiles for this tenant. Defaults to the instance `i18n`.
+	 */
+	i18n?: I18nOptions;
+}
+
+export interface ResolveTenantContext {
+	/**
+	 * API key that authenticated the request, if any
+	 */
+	apiKey?: AuthenticatedApiKey;
+}
+
+/**
+ * Picks the tenant for a request, e.g. from the Host header, a path segment
+ * or the API key. Return a tenant ID, a {@link ResolvedTenant} with
+ * tenant-specific configuration, or `null` when the tenant is unknown.
+ */
+export type ResolveTenant = (
+	request: Request,
+	context: ResolveTenantContext
+) =>
+	| ResolvedTenant
+	| string
+	| null
+	| undefined
+	| Promise<ResolvedTenant | string | null | undefined>;
+
 export interface C15TOptions {
 	/**
 	 * The database adapter to use.
@@ -359,6 +908,25 @@ export interface C15TOptions {
 	 */
 	tenantId?: string;
 
+	/**
+	 * Resolves the tenant for each request, so one instance can serve many
+	 * tenants. The database, cache keys, policy packs and i18n profiles are
+	 * scoped to the resolved tenant. Requests for unknown tenants are
+	 * rejected with 404 `TENANT_NOT_FOUND`.
+	 *
+	 * Cannot be combined with `tenantId`.
+	 *
+	 * @example
+	 * ```ts
+	 * resolveTenant: (request) => {
+	 *   const host = new URL(request.url).hostname;
+	 *   return tenantsByHost.get(host) ?? null;
+	 * }
+	 * ```
+	 * @see {@link https://c15t.com/docs/self-host/guides/multi-tenancy}
+	 */
+	resolveTenant?: ResolveTenant;
+
 	/**
 	 * Optional prefix for all database table names.
 	 * Useful when sharing a database with other applications to avoid naming conflicts.
@@ -407,6 +975,27 @@ export interface C15TOptions {
 	 */
 	disableGeoLocation?: boolean;
 
+	/**
+	 * Resolves the location from the client IP when the request has no CDN
+	 * geo headers (`cf-ipcountry`, `x-vercel-ip-country`, ...), e.g. on
+	 * bare-metal or Docker deployments.
+	 *
+	 * Lookups use the same IP address that is recorded with consents, so they
+	 * are skipped when `ipAddress.tracking` is disabled and use the masked
+	 * address by default. Results are cached in `cache.adapter` when set.
+	 *
+	 * @example
+	 * ```ts
+	 * geo: {
+	 *   provider: createMmdbGeoProvider({
+	 *     database: () => readFile('./GeoLite2-City.mmdb'),
+	 *   }),
+	 * }
+	 * ```
+	 * @see {@link https://c15t.com/docs/self-host/guides/geolocation}
+	 */
+	geo?: GeoOptions;
+
 	/**
 	 * Override base translations.
 	 *
@@ -439,6 +1028,19 @@ export interface C15TOptions {
 	 */
 	policyPacks?: PolicyConfig[];
 
+	/**
+	 * Policy packs stored in the database and managed through the
+	 * `/policy-packs` routes.
+	 *
+	 * @remarks
+	 * When a version is published it replaces `policyPacks` for `/init` and
+	 * `POST /subjects`. `policyPacks` is still used until the first version is
+	 * published.
+	 *
+	 * @see {@link https://c15t.com/docs/self-host/guides/policy-packs}
+	 */
+	managedPolicyPacks?: ManagedPolicyPackOptions;
+
 	/**
 	 * Select which branding to show in the consent banner.
 	 * Use "inth" for the INTH brand. "consent" is a deprecated alias for "inth".
@@ -482,12 +1084,23 @@ export interface C15TOptions {
 	 * API keys for authenticated endpoints.
 	 * Used for server-side endpoints like GET /subjects.
 	 *
+	 * Plain strings have every scope. Use {@link ApiKeyConfig} objects to
+	 * restrict a key to specific scopes, set an expiry or store only its hash.
+	 *
 	 * @example
 	 * ```ts
-	 * apiKeys: ['sk_live_abc123', 'sk_live_def456']
+	 * apiKeys: [
+	 *   'sk_live_abc123',
+	 *   {
+	 *     name: 'crm-sync',
+	 *     hash: process.env.CRM_API_KEY_HASH,
+	 *     scopes: ['subjects:read'],
+	 *     expiresAt: '2027-01-01',
+	 *   },
+	 * ]
 	 * ```
 	 */
-	apiKeys?: string[];
+	apiKeys?: Array<string | ApiKeyConfig>;
 
 	/**
 	 * IAB TCF configuration including GVL, CMP registration, and custom vendors.
@@ -508,10 +1121,117 @@ export interface C15TOptions {
 	 */
 	legalDocumentSnapshot?: LegalDocumentSnapshotOptions;
 
+	/**
+	 * Signed consent receipts returned from `POST /subjects`.
+	 * Disabled when omitted.
+	 */
+	consentReceipts?: ConsentReceiptOptions;
+
+	/**
+	 * Verifies identity tokens sent to `/init` in the `x-c15t-identity-token`
+	 * header. A valid token restores the user's latest valid cookie banner
+	 * consent from their other devices. Disabled when omitted.
+	 *
+	 * @see https://c15t.com/docs/self-host/guides/cross-device-consent
+	 */
+	identityTokens?: IdentityTokenOptions;
+
 	/**
 	 * Optional background task runner for non-critical side effects.
 	 */
 	background?: BackgroundOptions;
+
+	/**
+	 * Outbound webhooks for consent events.
+	 *
+	 * Deliveries run through `background.run` when configured. Deliveries that
+	 * still fail after all retries are recorded in the audit log and can be
+	 * resent with `replayFailedWebhookDeliveries`.
+	 *
+	 * @example
+	 * ```ts
+	 * webhooks: {
+	 *   endpoints: [
+	 *     {
+	 *       url: 'https://crm.example.com/hooks/c15t',
+	 *       secret: process.env.C15T_WEBHOOK_SECRET,
+	 *       events: ['consent.recorded'],
+	 *     },
+	 *   ],
+	 * }
+	 * ```
+	 */
+	webhooks?: WebhookOptions;
+
+	/**
+	 * Structured audit events for SIEM export.
+	 *
+	 * Every consent write, subject link and legal document sync is written
+	 * to each sink after IP addresses, user agents, emails, stack traces and
+	 * query strings are redacted.
+	 *
+	 * @example
+	 * ```ts
+	 * auditEvents: {
+	 *   sinks: [
+	 *     createOtlpLogSink({ url: 'http://otel-collector:4318/v1/logs' }),
+	 *   ],
+	 * }
+	 * ```
+	 * @see {@link https://c15t.com/docs/self-host/guides/audit-events}
+	 */
+	auditEvents?: AuditEventOptions;
+
+	/**
+	 * Live consent updates served by `GET /subjects/:id/events`.
+	 *
+	 * Uses an in-memory bus by default. Set `bus` when running more than one
+	 * instance.
+	 *
+	 * @see {@link https://c15t.com/docs/self-host/guides/realtime-consent-sync}
+	 */
+	subjectEvents?: SubjectEventsOptions;
+
+	/**
+	 * Rate limiting for `GET /init` and `POST /subjects`.
+	 * Disabled when omitted.
+	 *
+	 * @example
+	 * ```ts
+	 * rateLimit: {
+	 *   adapter: createUpstashRedisAdapter({ url, token }),
+	 *   routes: {
+	 *     'POST /subjects': {
+	 *       limit: 30,
+	 *       windowMs: 60_000,
+	 *       keyBy: 'subject',
+	 *       subjectLimit: 10,
+	 *     },
+	 *   },
+	 * }
+	 * ```
+	 */
+	rateLimit?: RateLimitOptions;
+
+	/**
+	 * How long consent proof and audit data is kept.
+	 *
+	 * Nothing is deleted automatically. Run `runRetentionPurge` on a schedule
+	 * to delete rows older than these periods.
+	 *
+	 * @example
+	 * ```ts
+	 * retention: {
+	 *   consent: 365 * 5,
+	 *   auditLog: 365 * 5,
+	 *   runtimePolicyDecision: 365 * 5,
+	 *   jurisdictions: { CCPA: { consent: 365 * 2 } },
+	 * }
+	 * ```
+	 *
+	 * @see {@link https://c15t.com/docs/self-host/guides/data-retention}
+	 */
+	retention?: RetentionOptions;
 }
 
 export interface C15TContext
@@ -539,6 +1259,11 @@ export interface C15TContext
 	 * Set to true when a valid Bearer token is provided in the Authorization header.
 	 */
 	apiKeyAuthenticated?: boolean;
+
+	/**
+	 * The API key that authenticated the request, if any.
+	 */
+	apiKey?: AuthenticatedApiKey;
 }
 
 export type DeepPartial<T> = T extends (...args: unknown[]) => unknown
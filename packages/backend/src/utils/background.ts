@@ -5,7 +5,7 @@ import type { C15TContext } from '~/types';
  * Falls back to fire-and-forget local execution.
  */
 export function runInBackground(
-	ctx: C15TContext,
+	ctx: Pick<C15TContext, 'logger' | 'background'>,
 	task: () => Promise<void>
 ): void {
 	const wrappedTask = async () => {
@@ -23,7 +23,10 @@ export interface DatabaseSpanAttributes {
 		| 'findLatest'
 		| 'findByHash'
 		| 'syncCurrent'
-		| 'findOrCreateLegalDocument';
+		| 'findOrCreateLegalDocument'
+		| 'list'
+		| 'findPublished'
+		| 'publish';
 	/** The entity type being operated on */
 	entity: string;
 	/** Optional additional attributes */
@@ -0,0 +1,56 @@
+/**
+ * PII detection shared by telemetry and audit event export.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Values matching any of these patterns must not leave the process.
+ * Span attributes are tested against them, and audit events are redacted
+ * with them.
+ */
+export const PII_PATTERNS: readonly RegExp[] = [
+	/\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}/, // IPv4
+	/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/, // email
+	/at .+\(.+:\d+:\d+\)/, // stack trace line
+	/\?[^=]+=/, // query string
+];
+
+/**
+ * Keys whose values are always removed, whatever they contain
+ */
+export const PII_KEYS: ReadonlySet<string> = new Set([
+	'ipAddress',
+	'userAgent',
+	'stack',
+]);
+
+/**
+ * Replacement for string values that match {@link PII_PATTERNS}
+ */
+export const REDACTED = '[REDACTED]';
+
+export function containsPii(value: string): boolean {
+	return PII_PATTERNS.some((pattern) => pattern.test(value));
+}
+
+/**
+ * Returns a copy of a JSON-like value with {@link PII_KEYS} removed and
+ * strings matching {@link PII_PATTERNS} replaced by {@link REDACTED}.
+ */
+export function redactPii<T>(value: T): T {
+	if (typeof value === 'string') {
+		return (containsPii(value) ? REDACTED : value) as T;
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => redactPii(item)) as T;
+	}
+	if (value && typeof value === 'object' && !(value instanceof Date)) {
+		return Object.fromEntries(
+			Object.entries(value)
+				.filter(([key]) => !PII_KEYS.has(key))
+				.map(([key, item]) => [key, redactPii(item)])
+		) as T;
+	}
+	return value;
+}
@@ -0,0 +1,177 @@
+import {
+	decodeProtectedHeader,
+	exportJWK,
+	exportPKCS8,
+	exportSPKI,
+	generateKeyPair,
+	SignJWT,
+} from 'jose';
+import { describe, expect, it } from 'vitest';
+import type { SnapshotSigningKey } from '~/types';
+import {
+	canSignSnapshots,
+	canVerifySnapshots,
+	getSnapshotJwks,
+	signSnapshotJwt,
+	verifySnapshotJwt,
+} from './snapshot-signing';
+
+async function createJwkKey(
+	kid: string,
+	alg: SnapshotSigningKey['alg'] = 'ES256'
+): Promise<Required<SnapshotSigningKey>> {
+	const { publicKey, privateKey } = await generateKeyPair(alg, {
+		extractable: true,
+	});
+	return {
+		kid,
+		alg,
+		publicKey: await exportJWK(publicKey),
+		privateKey: await exportJWK(privateKey),
+	};
+}
+
+const CLAIMS = { issuer: 'c15t', audience: 'test' };
+
+const createJwt = () =>
+	new SignJWT({ policyId: 'p1' })
+		.setIssuer(CLAIMS.issuer)
+		.setAudience(CLAIMS.audience)
+		.setIssuedAt()
+		.setExpirationTime('5m');
+
+describe('snapshot signing', () => {
+	it('signs with the first private key and sets its kid', async () => {
+		const retired = await createJwkKey('2025-01');
+		const current = await createJwkKey('2026-01');
+		const options = {
+			signingKeys: [current, retired],
+		};
+
+		const token = await signSnapshotJwt(createJwt(), options);
+
+		expect(decodeProtectedHeader(token)).toEqual({
+			alg: 'ES256',
+			typ: 'JWT',
+			kid: '2026-01',
+		});
+		await expect(
+			verifySnapshotJwt(token, options, CLAIMS)
+		).resolves.toMatchObject({ policyId: 'p1' });
+	});
+
+	it('keeps verifying tokens from a rotated-out key without its private half', async () => {
+		const retired = await createJwkKey('2025-01');
+		const current = await createJwkKey('2026-01');
+		const token = await signSnapshotJwt(createJwt(), {
+			signingKeys: [retired],
+		});
+
+		const afterRotation = {
+			signingKeys: [
+				current,
+				{ kid: retired.kid, alg: retired.alg, publicKey: retired.publicKey },
+			],
+		};
+
+		await expect(
+			verifySnapshotJwt(token, afterRotation, CLAIMS)
+		).resolves.toMatchObject({ policyId: 'p1' });
+		await expect(
+			verifySnapshotJwt(token, { signingKeys: [current] }, CLAIMS)
+		).rejects.toThrow();
+	});
+
+	it('supports EdDSA keys in PEM format', async () => {
+		const { publicKey, privateKey } = await generateKeyPair('EdDSA', {
+			extractable: true,
+		});
+		const options = {
+			signingKeys: [
+				{
+					kid: 'ed-1',
+					alg: 'EdDSA' as const,
+					publicKey: await exportSPKI(publicKey),
+					privateKey: await exportPKCS8(privateKey),
+				},
+			],
+		};
+
+		const token = await signSnapshotJwt(createJwt(), options);
+
+		expect(decodeProtectedHeader(token).alg).toBe('EdDSA');
+		await expect(
+			verifySnapshotJwt(token, options, CLAIMS)
+		).resolves.toBeDefined();
+	});
+
+	it('rejects HS256 tokens when only asymmetric keys are configured', async () => {
+		const key = await createJwkKey('2026-01');
+		const token = await signSnapshotJwt(createJwt(), { signingKey: 'secret' });
+
+		await expect(
+			verifySnapshotJwt(token, { signingKeys: [key] }, CLAIMS)
+		).rejects.toThrow();
+		await expect(
+			verifySnapshotJwt(
+				token,
+				{ signingKey: 'secret', signingKeys: [key] },
+				CLAIMS
+			)
+		).resolves.toBeDefined();
+	});
+
+	it('reports whether keys can sign or only verify', async () => {
+		const { kid, alg, publicKey } = await createJwkKey('2026-01');
+
+		expect(canSignSnapshots({ signingKeys: [{ kid, alg, publicKey }] })).toBe(
+			false
+		);
+		expect(canVerifySnapshots({ signingKeys: [{ kid, alg, publicKey }] })).toBe(
+			true
+		);
+		expect(canSignSnapshots({ signingKey: 'secret' })).toBe(true);
+		expect(canVerifySnapshots({})).toBe(false);
+	});
+});
+
+describe('getSnapshotJwks', () => {
+	it('publishes public keys only, de-duplicated by kid', async () => {
+		const shared = await createJwkKey('shared');
+		const { publicKey, privateKey } = await generateKeyPair('EdDSA', {
+			extractable: true,
+		});
+		const pemKey: SnapshotSigningKey = {
+			kid: 'ed-1',
+			alg: 'EdDSA',
+			publicKey: await exportSPKI(publicKey),
+			privateKey: await exportPKCS8(privateKey),
+		};
+
+		const jwks = await getSnapshotJwks([
+			{ signingKey: 'secret', signingKeys: [shared] },
+			{ signingKeys: [shared, pemKey] },
+			undefined,
+		]);
+
+		expect(jwks.keys).toEqual([
+			{
+				kty: 'EC',
+				crv: 'P-256',
+				x: expect.any(String),
+				y: expect.any(String),
+				kid: 'shared',
+				alg: 'ES256',
+				use: 'sig',
+			},
+			{
+				kty: 'OKP',
+				crv: 'Ed25519',
+				x: expect.any(String),
+				kid: 'ed-1',
+				alg: 'EdDSA',
+				use: 'sig',
+			},
+		]);
+	});
+});
@@ -0,0 +1,223 @@
+/**
+ * Signing and verification for snapshot JWTs.
+ *
+ * Snapshot options accept a shared HS256 `signingKey`, asymmetric
+ * `signingKeys`, or both while migrating between them. HS256 tokens verify
+ * against the shared secret; ES256 and EdDSA tokens verify against the key
+ * named by their `kid` header.
+ *
+ * @packageDocumentation
+ */
+
+import {
+	type CryptoKey,
+	exportJWK,
+	importJWK,
+	importPKCS8,
+	importSPKI,
+	type JWK,
+	type JWTHeaderParameters,
+	type JWTPayload,
+	type JWTVerifyOptions,
+	errors as joseErrors,
+	jwtVerify,
+	type SignJWT,
+} from 'jose';
+import type { SnapshotSigningKey } from '~/types';
+
+export interface SnapshotSigningOptions {
+	signingKey?: string;
+	signingKeys?: SnapshotSigningKey[];
+}
+
+/**
+ * Public key set served at `/.well-known/jwks.json`
+ */
+export interface SnapshotJwks {
+	keys: JWK[];
+}
+
+const importedPublicKeys = new WeakMap<
+	SnapshotSigningKey,
+	Promise<CryptoKey | Uint8Array>
+>();
+const importedPrivateKeys = new WeakMap<
+	SnapshotSigningKey,
+	Promise<CryptoKey | Uint8Array>
+>();
+
+function getSecretKey(secret: string): Uint8Array {
+	return new TextEncoder().encode(secret);
+}
+
+function getPublicKey(
+	key: SnapshotSigningKey
+): Promise<CryptoKey | Uint8Array> {
+	let imported = importedPublicKeys.get(key);
+	if (!imported) {
+		imported =
+			typeof key.publicKey === 'string'
+				? importSPKI(key.publicKey, key.alg)
+				: importJWK(toPublicJwk(key.publicKey), key.alg);
+		importedPublicKeys.set(key, imported);
+	}
+	return imported;
+}
+
+function getPrivateKey(
+	key: SnapshotSigningKey & { privateKey: JWK | string }
+): Promise<CryptoKey | Uint8Array> {
+	let imported = importedPrivateKeys.get(key);
+	if (!imported) {
+		imported =
+			typeof key.privateKey === 'string'
+				? importPKCS8(key.privateKey, key.alg)
+				: importJWK(key.privateKey, key.alg);
+		importedPrivateKeys.set(key, imported);
+	}
+	return imported;
+}
+
+/**
+ * Keeps only the public members of an EC or OKP key, dropping `d` and any
+ * metadata.
+ */
+function toPublicJwk({ kty, crv, x, y }: JWK): JWK {
+	return y === undefined ? { kty, crv, x } : { kty, crv, x, y };
+}
+
+function getActiveSigningKey(
+	options?: SnapshotSigningOptions
+): (SnapshotSigningKey & { privateKey: JWK | string }) | undefined {
+	return options?.signingKeys?.find(
+		(key): key is SnapshotSigningKey & { privateKey: JWK | string } =>
+			key.privateKey !== undefined
+	);
+}
+
+/**
+ * Whether the options hold a key that can sign new snapshot tokens.
+ */
+export function canSignSnapshots(options?: SnapshotSigningOptions): boolean {
+	return !!options?.signingKey || getActiveSigningKey(options) !== undefined;
+}
+
+/**
+ * Whether the options hold any key that can verify snapshot tokens.
+ */
+export function canVerifySnapshots(options?: SnapshotSigningOptions): boolean {
+	return !!options?.signingKey || (options?.signingKeys?.length ?? 0) > 0;
+}
+
+/**
+ * Signs a prepared JWT with the active snapshot key.
+ *
+ * The first `signingKeys` entry with a private key wins, so rotating only
+ * needs the new key to be listed first. Falls back to the HS256
+ * `signingKey`.
+ *
+ * @throws {Error} When no key can sign
+ */
+export async function signSnapshotJwt(
+	jwt: SignJWT,
+	options?: SnapshotSigningOptions
+): Promise<string> {
+	const activeKey = getActiveSigningKey(options);
+	if (activeKey) {
+		return jwt
+			.setProtectedHeader({
+				alg: activeKey.alg,
+				typ: 'JWT',
+				kid: activeKey.kid,
+			})
+			.sign(await getPrivateKey(activeKey));
+	}
+
+	if (options?.signingKey) {
+		return jwt
+			.setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+			.sign(getSecretKey(options.signingKey));
+	}
+
+	throw new Error('No snapshot signing key is configured');
+}
+
+/**
+ * Verifies a snapshot JWT against the configured keys.
+ *
+ * Only algorithms backed by a configured key are accepted, and tokens must
+ * carry `typ: "JWT"`. jose errors are rethrown so callers can tell expired
+ * tokens apart from invalid ones.
+ */
+export async function verifySnapshotJwt(
+	token: string,
+	options: SnapshotSigningOptions,
+	claims: Pick<JWTVerifyOptions, 'issuer' | 'audience'>
+): Promise<JWTPayload> {
+	const algorithms = new Set<string>(
+		options.signingKeys?.map((key) => key.alg) ?? []
+	);
+	if (options.signingKey) {
+		algorithms.add('HS256');
+	}
+
+	const { payload, protectedHeader } = await jwtVerify(
+		token,
+		async (header: JWTHeaderParameters) => {
+			if (header.alg === 'HS256' && options.signingKey) {
+				return getSecretKey(options.signingKey);
+			}
+			const key = options.signingKeys?.find(
+				(candidate) =>
+					candidate.kid === header.kid && candidate.alg === header.alg
+			);
+			if (!key) {
+				throw new joseErrors.JWKSNoMatchingKey();
+			}
+			return getPublicKey(key);
+		},
+		{ ...claims, algorithms: [...algorithms] }
+	);
+
+	if (protectedHeader.typ !== 'JWT') {
+		throw new joseErrors.JWTInvalid('Unexpected snapshot token type');
+	}
+
+	return payload;
+}
+
+/**
+ * Builds the public JWKS for every asymmetric snapshot key.
+ *
+ * Keys are de-duplicated by `kid`, so the same key can be shared between
+ * policy and legal-document snapshots.
+ */
+export async function getSnapshotJwks(
+	optionsList: Array<SnapshotSigningOptions | undefined>
+): Promise<SnapshotJwks> {
+	const keys = new Map<string, JWK>();
+
+	for (const options of optionsList) {
+		for (const key of options?.signingKeys ?? []) {
+			if (keys.has(key.kid)) continue;
+
+			const publicJwk =
+				typeof key.publicKey === 'string'
+					? toPublicJwk(
+							await exportJWK(
+								await importSPKI(key.publicKey, key.alg, { extractable: true })
+							)
+						)
+					: toPublicJwk(key.publicKey);
+
+			keys.set(key.kid, {
+				...publicJwk,
+				kid: key.kid,
+				alg: key.alg,
+				use: 'sig',
+			});
+		}
+	}
+
+	return { keys: [...keys.values()] };
+}
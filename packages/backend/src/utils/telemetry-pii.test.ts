@@ -23,6 +23,7 @@ import {
 	withDatabaseSpan,
 	withExternalSpan,
 } from './instrumentation';
+import { PII_PATTERNS } from './pii';
 
 // ── Allowlist ───────────────────────────────────────────────────────────
 const ALLOWED_KEYS = new Set([
@@ -44,13 +45,6 @@ const ALLOWED_KEYS = new Set([
 
 const BLOCKED_KEYS = new Set(['error.stack', 'error.message']);
 
-const PII_PATTERNS = [
-	/\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}/, // IPv4
-	/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/, // email
-	/at .+\(.+:\d+:\d+\)/, // stack trace line
-	/\?[^=]+=/, // query string
-];
-
 // ── Provider setup ──────────────────────────────────────────────────────
 const exporter = new InMemorySpanExporter();
 const provider = new BasicTracerProvider({
@@ -0,0 +1,265 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { C15TContext, WebhookOptions } from '~/types';
+import {
+	emitWebhookEvent,
+	replayFailedWebhookDeliveries,
+	WEBHOOK_DELIVERY_FAILED_ACTION,
+	WEBHOOK_DELIVERY_REPLAYED_ACTION,
+} from './delivery';
+import { verifyWebhookSignature } from './signature';
+
+const CONSENT_DATA = {
+	subjectId: 'sub_1',
+	consentId: 'cns_1',
+	domain: 'example.com',
+	type: 'cookie_banner',
+	preferences: { necessary: true, marketing: false },
+	givenAt: '2026-01-01T00:00:00.000Z',
+};
+
+function createContext(webhooks: WebhookOptions) {
+	const tasks: Promise<void>[] = [];
+	const auditLogs: Record<string, any>[] = [];
+
+	const db = {
+		findFirst: vi.fn(async () => null),
+		findMany: vi.fn(async () => auditLogs),
+		create: vi.fn(async (_table: string, data: Record<string, any>) => {
+			auditLogs.push({ ...data });
+			return data;
+		}),
+		updateMany: vi.fn(async (_table: string, opts: any) => {
+			for (const row of auditLogs) {
+				if (
+					opts.where(
+						(col: string, _op: string, val: unknown) => row[col] === val
+					)
+				) {
+					Object.assign(row, opts.set);
+				}
+			}
+		}),
+	};
+
+	const ctx = {
+		logger: {
+			info: vi.fn(),
+			debug: vi.fn(),
+			warn: vi.fn(),
+			error: vi.fn(),
+		},
+		db,
+		tenantId: 'tenant-a',
+		webhooks,
+		background: {
+			run: (task: () => Promise<void>) => {
+				tasks.push(task());
+			},
+		},
+	} as unknown as C15TContext;
+
+	return {
+		ctx,
+		db,
+		auditLogs,
+		flush: () => Promise.all(tasks),
+	};
+}
+
+function mockFetch(...statuses: number[]) {
+	const fetchMock = vi.fn(async () => {
+		// Repeat the last status once the others are used up
+		const status =
+			(statuses.length > 1 ? statuses.shift() : statuses[0]) ?? 200;
+		return new Response(null, { status });
+	});
+	vi.stubGlobal('fetch', fetchMock);
+	return fetchMock;
+}
+
+describe('emitWebhookEvent', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('delivers a signed payload to subscribed endpoints only', async () => {
+		const fetchMock = mockFetch(200);
+		const { ctx, flush } = createContext({
+			endpoints: [
+				{
+					url: 'https://crm.example.com/hook',
+					secret: 'crm-secret',
+					events: ['consent.recorded'],
+					headers: { 'x-source': 'c15t' },
+				},
+				{
+					url: 'https://warehouse.example.com/hook',
+					secret: 'warehouse-secret',
+					events: ['subject.linked'],
+				},
+			],
+		});
+
+		emitWebhookEvent(ctx, 'consent.recorded', CONSENT_DATA);
+		await flush();
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		const [url, init] = fetchMock.mock.calls[0] as unknown as [
+			string,
+			RequestInit & { headers: Record<string, string> },
+		];
+		const payload = JSON.parse(init.body as string);
+
+		expect(url).toBe('https://crm.example.com/hook');
+		expect(init.headers['x-source']).toBe('c15t');
+		expect(init.headers['c15t-event-type']).toBe('consent.recorded');
+		expect(payload).toMatchObject({
+			type: 'consent.recorded',
+			tenantId: 'tenant-a',
+			data: CONSENT_DATA,
+		});
+		expect(payload.id).toMatch(/^evt_/);
+		expect(init.headers['c15t-event-id']).toBe(payload.id);
+		await expect(
+			verifyWebhookSignature({
+				secret: 'crm-secret',
+				payload: init.body as string,
+				signature: init.headers['c15t-signature'],
+			})
+		).resolves.toBe(true);
+	});
+
+	it('does nothing when no endpoint subscribes to the event', async () => {
+		const fetchMock = mockFetch(200);
+		const { ctx, flush } = createContext({
+			endpoints: [
+				{
+					url: 'https://crm.example.com/hook',
+					secret: 'secret',
+					events: ['subject.linked'],
+				},
+			],
+		});
+
+		emitWebhookEvent(ctx, 'consent.recorded', CONSENT_DATA);
+		await flush();
+
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it('retries transient failures with backoff', async () => {
+		const fetchMock = mockFetch(503, 500, 200);
+		const { ctx, auditLogs, flush } = createContext({
+			endpoints: [{ url: 'https://crm.example.com/hook', secret: 'secret' }],
+			initialBackoffMs: 1,
+		});
+
+		emitWebhookEvent(ctx, 'consent.recorded', CONSENT_DATA);
+		await flush();
+
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+		expect(auditLogs).toHaveLength(0);
+	});
+
+	it('records the delivery in the audit log once retries are exhausted', async () => {
+		const fetchMock = mockFetch(500);
+		const { ctx, auditLogs, flush } = createContext({
+			endpoints: [{ url: 'https://crm.example.com/hook', secret: 'secret' }],
+			maxAttempts: 3,
+			initialBackoffMs: 1,
+		});
+
+		emitWebhookEvent(ctx, 'consent.recorded', CONSENT_DATA);
+		await flush();
+
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+		expect(auditLogs).toHaveLength(1);
+		expect(auditLogs[0]).toMatchObject({
+			subjectId: 'sub_1',
+			entityType: 'webhook_delivery',
+			actionType: WEBHOOK_DELIVERY_FAILED_ACTION,
+			metadata: {
+				endpoint: 'https://crm.example.com/hook',
+				attempts: 3,
+				lastStatus: 500,
+				event: { type: 'consent.recorded', data: CONSENT_DATA },
+			},
+		});
+		expect(auditLogs[0]?.entityId).toBe(auditLogs[0]?.metadata.event.id);
+	});
+
+	it('does not retry client errors', async () => {
+		const fetchMock = mockFetch(400);
+		const { ctx, auditLogs, flush } = createContext({
+			endpoints: [{ url: 'https://crm.example.com/hook', secret: 'secret' }],
+			initialBackoffMs: 1,
+		});
+
+		emitWebhookEvent(ctx, 'consent.recorded', CONSENT_DATA);
+		await flush();
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(auditLogs[0]?.metadata.lastStatus).toBe(400);
+	});
+});
+
+describe('replayFailedWebhookDeliveries', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	async function recordFailure(webhooks: WebhookOptions) {
+		mockFetch(500);
+		const context = createContext(webhooks);
+		emitWebhookEvent(context.ctx, 'consent.recorded', CONSENT_DATA);
+		await context.flush();
+		return context;
+	}
+
+	it('resends failed deliveries with the original event ID', async () => {
+		const webhooks = {
+			endpoints: [{ url: 'https://crm.example.com/hook', secret: 'secret' }],
+			maxAttempts: 1,
+		};
+		const { ctx, auditLogs } = await recordFailure(webhooks);
+		const eventId = auditLogs[0]?.entityId;
+		const fetchMock = mockFetch(200);
+
+		const summary = await replayFailedWebhookDeliveries(ctx);
+
+		expect(summary).toEqual({ replayed: 1, failed: 0, skipped: 0 });
+		const [, init] = fetchMock.mock.calls[0] as unknown as [
+			string,
+			RequestInit,
+		];
+		expect(JSON.parse(init.body as string).id).toBe(eventId);
+		expect(auditLogs[0]?.actionType).toBe(WEBHOOK_DELIVERY_REPLAYED_ACTION);
+		expect(auditLogs[0]?.metadata.replayedAt).toEqual(expect.any(String));
+	});
+
+	it('keeps failures recorded and skips endpoints that were removed', async () => {
+		const { ctx, auditLogs } = await recordFailure({
+			endpoints: [{ url: 'https://crm.example.com/hook', secret: 'secret' }],
+			maxAttempts: 1,
+		});
+		mockFetch(502);
+
+		expect(await replayFailedWebhookDeliveries(ctx)).toEqual({
+			replayed: 0,
+			failed: 1,
+			skipped: 0,
+		});
+		expect(auditLogs[0]?.actionType).toBe(WEBHOOK_DELIVERY_FAILED_ACTION);
+		expect(auditLogs[0]?.metadata.attempts).toBe(2);
+
+		const withoutEndpoint = {
+			...ctx,
+			webhooks: { endpoints: [] },
+		} as unknown as C15TContext;
+		expect(await replayFailedWebhookDeliveries(withoutEndpoint)).toEqual({
+			replayed: 0,
+			failed: 0,
+			skipped: 1,
+		});
+	});
+});
@@ -0,0 +1,342 @@
+/**
+ * Outbound webhook delivery.
+ *
+ * Events are delivered to each subscribed endpoint through the configured
+ * `background.run` hook, with exponential backoff between attempts. When an
+ * endpoint still fails after the last attempt, the delivery is written to the
+ * audit log so it can be resent with {@link replayFailedWebhookDeliveries}.
+ *
+ * @packageDocumentation
+ */
+
+import { generateUniqueId } from '~/db/registry/utils';
+import { unwrapJsonColumn } from '~/handlers/utils/subject-export';
+import type {
+	C15TContext,
+	WebhookEndpoint,
+	WebhookEventType,
+	WebhookOptions,
+} from '~/types';
+import { runInBackground } from '~/utils/background';
+import { extractErrorMessage } from '~/utils/extract-error-message';
+import { version } from '~/version';
+import { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER } from './signature';
+
+/**
+ * Audit log action for deliveries that exhausted their retries
+ */
+export const WEBHOOK_DELIVERY_FAILED_ACTION = 'webhook_delivery_failed';
+
+/**
+ * Audit log action for failed deliveries that were later replayed
+ */
+export const WEBHOOK_DELIVERY_REPLAYED_ACTION = 'webhook_delivery_replayed';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_INITIAL_BACKOFF_MS = 1000;
+const DEFAULT_MAX_BACKOFF_MS = 30_000;
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+export interface ConsentRecordedWebhookData {
+	subjectId: string;
+	externalId?: string;
+	consentId: string;
+	domain: string;
+	type: string;
+	preferences?: Record<string, boolean>;
+	jurisdiction?: string;
+	consentAction?: string;
+	uiSource?: string;
+	givenAt: string;
+}
+
+export interface SubjectLinkedWebhookData {
+	subjectId: string;
+	externalId: string;
+	identityProvider: string;
+	previousExternalId?: string;
+}
+
+export interface WebhookEventDataMap {
+	'consent.recorded': ConsentRecordedWebhookData;
+	'subject.linked': SubjectLinkedWebhookData;
+}
+
+/**
+ * JSON body sent to webhook endpoints
+ */
+export interface WebhookEvent<T extends WebhookEventType = WebhookEventType> {
+	/** Stable event ID; unchanged on retries and replays so receivers can dedupe */
+	id: string;
+	type: T;
+	createdAt: string;
+	tenantId?: string;
+	data: WebhookEventDataMap[T];
+}
+
+interface DeliveryResult {
+	ok: boolean;
+	attempts: number;
+	status?: number;
+	error?: string;
+}
+
+type WebhookContext = Pick<C15TContext, 'db' | 'logger' | 'webhooks'>;
+
+const sleep = (ms: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function isRetryableStatus(status: number): boolean {
+	return status >= 500 || status === 429 || status === 408;
+}
+
+function subscribes(endpoint: WebhookEndpoint, type: WebhookEventType) {
+	return !endpoint.events || endpoint.events.includes(type);
+}
+
+/**
+ * Sends an event to one endpoint, retrying transient failures with
+ * exponential backoff.
+ */
+async function sendWithRetries(
+	endpoint: WebhookEndpoint,
+	event: WebhookEvent,
+	options: WebhookOptions
+): Promise<DeliveryResult> {
+	const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+	const initialBackoffMs =
+		options.initialBackoffMs ?? DEFAULT_INITIAL_BACKOFF_MS;
+	const maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+	const body = JSON.stringify(event);
+
+	let result: DeliveryResult = { ok: false, attempts: 0 };
+
+	for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+		if (attempt > 1) {
+			await sleep(
+				Math.min(initialBackoffMs * 2 ** (attempt - 2), maxBackoffMs)
+			);
+		}
+
+		try {
+			const response = await fetch(endpoint.url, {
+				method: 'POST',
+				headers: {
+					...endpoint.headers,
+					'content-type': 'application/json',
+					'user-agent': `c15t-webhooks/${version}`,
+					'c15t-event-id': event.id,
+					'c15t-event-type': event.type,
+					[WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(
+						endpoint.secret,
+						body
+					),
+				},
+				body,
+				signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+			});
+
+			if (response.ok) {
+				return { ok: true, attempts: attempt, status: response.status };
+			}
+
+			result = {
+				ok: false,
+				attempts: attempt,
+				status: response.status,
+				error: `HTTP ${response.status}`,
+			};
+
+			if (!isRetryableStatus(response.status)) {
+				return result;
+			}
+		} catch (error) {
+			result = {
+				ok: false,
+				attempts: attempt,
+				error: extractErrorMessage(error),
+			};
+		}
+	}
+
+	return result;
+}
+
+async function recordFailedDelivery(
+	ctx: WebhookContext,
+	endpoint: WebhookEndpoint,
+	event: WebhookEvent,
+	result: DeliveryResult
+): Promise<void> {
+	await ctx.db.create('auditLog', {
+		id: await generateUniqueId(ctx.db, 'auditLog', ctx),
+		// Linked to the subject so erasure also removes the stored payload
+		subjectId: event.data.subjectId,
+		entityType: 'webhook_delivery',
+		entityId: event.id,
+		actionType: WEBHOOK_DELIVERY_FAILED_ACTION,
+		ipAddress: null,
+		userAgent: null,
+		changes: null,
+		metadata: {
+			endpoint: endpoint.url,
+			event,
+			attempts: result.attempts,
+			lastStatus: result.status ?? null,
+			lastError: result.error ?? null,
+		},
+	});
+}
+
+/**
+ * Emits an event to every endpoint subscribed to its type.
+ *
+ * Returns immediately; delivery happens in the background.
+ */
+export function emitWebhookEvent<T extends WebhookEventType>(
+	ctx: C15TContext,
+	type: T,
+	data: WebhookEventDataMap[T]
+): void {
+	const options = ctx.webhooks;
+	const endpoints = options?.endpoints.filter((endpoint) =>
+		subscribes(endpoint, type)
+	);
+
+	if (!options || !endpoints?.length) {
+		return;
+	}
+
+	const event: WebhookEvent<T> = {
+		id: `evt_${crypto.randomUUID().replaceAll('-', '')}`,
+		type,
+		createdAt: new Date().toISOString(),
+		tenantId: ctx.tenantId,
+		data,
+	};
+
+	for (const endpoint of endpoints) {
+		runInBackground(ctx, async () => {
+			const result = await sendWithRetries(endpoint, event, options);
+
+			if (result.ok) {
+				ctx.logger.debug('Webhook delivered', {
+					eventId: event.id,
+					type,
+					endpoint: endpoint.url,
+					attempts: result.attempts,
+				});
+				return;
+			}
+
+			ctx.logger.warn('Webhook delivery failed', {
+				eventId: event.id,
+				type,
+				endpoint: endpoint.url,
+				attempts: result.attempts,
+				error: result.error,
+			});
+			await recordFailedDelivery(ctx, endpoint, event, result);
+		});
+	}
+}
+
+export interface ReplayWebhookDeliveriesOptions {
+	/**
+	 * Maximum number of failed deliveries to replay in one call.
+	 * @default 100
+	 */
+	limit?: number;
+}
+
+export interface ReplayWebhookDeliveriesResult {
+	/** Deliveries that succeeded and were marked as replayed */
+	replayed: number;
+	/** Deliveries that failed again and remain recorded as failed */
+	failed: number;
+	/** Deliveries whose endpoint is no longer configured */
+	skipped: number;
+}
+
+interface FailedDeliveryMetadata {
+	endpoint: string;
+	event: WebhookEvent;
+	attempts?: number;
+}
+
+/**
+ * Resends deliveries recorded as failed, oldest first.
+ *
+ * Payloads are re-signed with the endpoint's current secret but keep their
+ * original event ID. Successful replays are marked as
+ * `webhook_delivery_replayed` in the audit log.
+ *
+ * @example
+ * ```ts
+ * const instance = c15tInstance(options);
+ * const summary = await replayFailedWebhookDeliveries(instance.$context);
+ * ```
+ */
+export async function replayFailedWebhookDeliveries(
+	ctx: WebhookContext,
+	{ limit = 100 }: ReplayWebhookDeliveriesOptions = {}
+): Promise<ReplayWebhookDeliveriesResult> {
+	const summary: ReplayWebhookDeliveriesResult = {
+		replayed: 0,
+		failed: 0,
+		skipped: 0,
+	};
+	const options = ctx.webhooks;
+
+	const records = await ctx.db.findMany('auditLog', {
+		where: (b) => b('actionType', '=', WEBHOOK_DELIVERY_FAILED_ACTION),
+		orderBy: [['createdAt', 'asc']],
+		limit,
+	});
+
+	for (const record of records) {
+		const metadata = unwrapJsonColumn<FailedDeliveryMetadata>(record.metadata);
+		const endpoint = options?.endpoints.find(
+			(candidate) => candidate.url === metadata?.endpoint
+		);
+
+		if (!options || !metadata?.event || !endpoint) {
+			summary.skipped++;
+			continue;
+		}
+
+		const result = await sendWithRetries(endpoint, metadata.event, options);
+
+		if (result.ok) {
+			summary.replayed++;
+			await ctx.db.updateMany('auditLog', {
+				where: (b) => b('id', '=', record.id),
+				set: {
+					actionType: WEBHOOK_DELIVERY_REPLAYED_ACTION,
+					metadata: {
+						...metadata,
+						replayedAt: new Date().toISOString(),
+					},
+				},
+			});
+			continue;
+		}
+
+		summary.failed++;
+		await ctx.db.updateMany('auditLog', {
+			where: (b) => b('id', '=', record.id),
+			set: {
+				metadata: {
+					...metadata,
+					attempts: (metadata.attempts ?? 0) + result.attempts,
+					lastStatus: result.status ?? null,
+					lastError: result.error ?? null,
+				},
+			},
+		});
+	}
+
+	ctx.logger.info('Replayed failed webhook deliveries', { ...summary });
+
+	return summary;
+}
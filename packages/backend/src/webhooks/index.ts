@@ -0,0 +1,27 @@
+/**
+ * Webhooks Module
+ *
+ * Signed outbound webhooks for consent events, with retries and replay of
+ * failed deliveries.
+ *
+ * @packageDocumentation
+ */
+
+export {
+	type ConsentRecordedWebhookData,
+	emitWebhookEvent,
+	type ReplayWebhookDeliveriesOptions,
+	type ReplayWebhookDeliveriesResult,
+	replayFailedWebhookDeliveries,
+	type SubjectLinkedWebhookData,
+	WEBHOOK_DELIVERY_FAILED_ACTION,
+	WEBHOOK_DELIVERY_REPLAYED_ACTION,
+	type WebhookEvent,
+	type WebhookEventDataMap,
+} from './delivery';
+export {
+	signWebhookPayload,
+	type VerifyWebhookSignatureOptions,
+	verifyWebhookSignature,
+	WEBHOOK_SIGNATURE_HEADER,
+} from './signature';
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { signWebhookPayload, verifyWebhookSignature } from './signature';
+
+const PAYLOAD = JSON.stringify({ id: 'evt_1', type: 'consent.recorded' });
+const NOW = 1_767_225_600;
+
+describe('webhook signatures', () => {
+	it('produces a timestamped HMAC-SHA256 header', async () => {
+		const signature = await signWebhookPayload('secret', PAYLOAD, NOW);
+
+		expect(signature).toMatch(/^t=1767225600,v1=[0-9a-f]{64}$/);
+	});
+
+	it('verifies signatures made with the same secret', async () => {
+		const signature = await signWebhookPayload('secret', PAYLOAD, NOW);
+
+		await expect(
+			verifyWebhookSignature({
+				secret: 'secret',
+				payload: PAYLOAD,
+				signature,
+				now: NOW + 10,
+			})
+		).resolves.toBe(true);
+	});
+
+	it('rejects a wrong secret, a modified payload or a missing header', async () => {
+		const signature = await signWebhookPayload('secret', PAYLOAD, NOW);
+
+		await expect(
+			verifyWebhookSignature({
+				secret: 'other',
+				payload: PAYLOAD,
+				signature,
+				now: NOW,
+			})
+		).resolves.toBe(false);
+		await expect(
+			verifyWebhookSignature({
+				secret: 'secret',
+				payload: `${PAYLOAD} `,
+				signature,
+				now: NOW,
+			})
+		).resolves.toBe(false);
+		await expect(
+			verifyWebhookSignature({
+				secret: 'secret',
+				payload: PAYLOAD,
+				signature: null,
+			})
+		).resolves.toBe(false);
+	});
+
+	it('rejects timestamps outside the tolerance window', async () => {
+		const signature = await signWebhookPayload('secret', PAYLOAD, NOW);
+
+		await expect(
+			verifyWebhookSignature({
+				secret: 'secret',
+				payload: PAYLOAD,
+				signature,
+				now: NOW + 301,
+			})
+		).resolves.toBe(false);
+	});
+});
@@ -0,0 +1,120 @@
+/**
+ * HMAC signing and verification for webhook payloads.
+ *
+ * The `c15t-signature` header has the form `t=<unix seconds>,v1=<hex>`, where
+ * `v1` is HMAC-SHA256 over `<t>.<raw body>`. Including the timestamp in the
+ * signed content lets receivers reject replayed requests.
+ *
+ * @packageDocumentation
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = 'c15t-signature';
+
+/**
+ * Default window within which a signature timestamp is accepted.
+ */
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+	return Array.from(new Uint8Array(buffer))
+		.map((byte) => byte.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+/**
+ * Compares two strings without short-circuiting on the first difference.
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+	if (a.length !== b.length) return false;
+
+	let diff = 0;
+	for (let i = 0; i < a.length; i++) {
+		diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+	}
+	return diff === 0;
+}
+
+async function hmacSha256Hex(secret: string, content: string): Promise<string> {
+	const key = await crypto.subtle.importKey(
+		'raw',
+		encoder.encode(secret),
+		{ name: 'HMAC', hash: 'SHA-256' },
+		false,
+		['sign']
+	);
+	return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(content)));
+}
+
+/**
+ * Builds the `c15t-signature` header value for a payload.
+ *
+ * @param secret - Endpoint secret
+ * @param payload - Raw request body
+ * @param timestamp - Unix timestamp in seconds (defaults to now)
+ */
+export async function signWebhookPayload(
+	secret: string,
+	payload: string,
+	timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+	const signature = await hmacSha256Hex(secret, `${timestamp}.${payload}`);
+	return `t=${timestamp},v1=${signature}`;
+}
+
+export interface VerifyWebhookSignatureOptions {
+	/** Endpoint secret */
+	secret: string;
+	/** Raw request body, exactly as received */
+	payload: string;
+	/** Value of the `c15t-signature` header */
+	signature: string | null | undefined;
+	/**
+	 * Maximum age of the signature timestamp in seconds.
+	 * @default 300
+	 */
+	toleranceSeconds?: number;
+	/** Current time in seconds, for testing */
+	now?: number;
+}
+
+/**
+ * Verifies a webhook signature on the receiving side.
+ *
+ * @returns `true` when the signature matches and is within the tolerance window
+ *
+ * @example
+ * ```ts
+ * const payload = await request.text();
+ * const valid = await verifyWebhookSignature({
+ *   secret: process.env.C15T_WEBHOOK_SECRET,
+ *   payload,
+ *   signature: request.headers.get('c15t-signature'),
+ * });
+ * ```
+ */
+export async function verifyWebhookSignature({
+	secret,
+	payload,
+	signature,
+	toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+	now = Math.floor(Date.now() / 1000),
+}: VerifyWebhookSignatureOptions): Promise<boolean> {
+	if (!signature) return false;
+
+	const parts = new Map(
+		signature.split(',').map((part) => {
+			const separator = part.indexOf('=');
+			return [part.slice(0, separator).trim(), part.slice(separator + 1)];
+		})
+	);
+	const timestamp = Number(parts.get('t'));
+	const provided = parts.get('v1');
+
+	if (!Number.isSafeInteger(timestamp) || !provided) return false;
+	if (Math.abs(now - timestamp) > toleranceSeconds) return false;
+
+	const expected = await hmacSha256Hex(secret, `${timestamp}.${payload}`);
+	return timingSafeEqual(expected, provided);
+}
@@ -15,6 +15,7 @@ import type {
 	PatchSubjectOutput,
 	PostSubjectInput,
 	PostSubjectOutput,
+	SubjectConsentEvent,
 } from '@c15t/schema/types';
 import type { FetchOptions, ResponseContext } from './types';
 
@@ -29,6 +30,7 @@ export type {
 	PatchSubjectOutput,
 	PostSubjectInput,
 	PostSubjectOutput,
+	SubjectConsentEvent,
 };
 
 /**
@@ -83,6 +85,11 @@ export type IdentifyUserResponse = PatchSubjectOutput;
 
 export type InitResponse = InitOutput;
 
+/**
+ * Listener for consents pushed by `GET /subjects/:id/events`.
+ */
+export type SubjectEventListener = (event: SubjectConsentEvent) => void;
+
 /**
  * Core interface that all consent management clients must implement
  */
@@ -117,6 +124,21 @@ export interface ConsentManagerInterface {
 		options: FetchOptions<IdentifyUserResponse, IdentifyUserRequestBody>
 	): Promise<ResponseContext<IdentifyUserResponse>>;
 
+	/**
+	 * Subscribes to consents recorded for a subject, including those recorded
+	 * on other devices of the same user (GET /subjects/:id/events).
+	 *
+	 * Optional: only clients backed by a c15t backend implement it.
+	 *
+	 * @param subjectId - Subject to subscribe to
+	 * @param listener - Called for each recorded consent
+	 * @returns A function that ends the subscription
+	 */
+	subscribeToSubjectEvents?(
+		subjectId: string,
+		listener: SubjectEventListener
+	): () => void;
+
 	/**
 	 * Makes a custom API request to any endpoint.
 	 *
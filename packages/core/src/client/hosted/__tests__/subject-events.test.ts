@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { configureConsentManager } from '../../client-factory';
+
+class MockEventSource {
+	static instances: MockEventSource[] = [];
+	listeners = new Map<string, (message: MessageEvent<string>) => void>();
+	close = vi.fn();
+
+	constructor(
+		public url: string,
+		public init?: EventSourceInit
+	) {
+		MockEventSource.instances.push(this);
+	}
+
+	addEventListener(
+		type: string,
+		listener: (message: MessageEvent<string>) => void
+	) {
+		this.listeners.set(type, listener);
+	}
+
+	removeEventListener(type: string) {
+		this.listeners.delete(type);
+	}
+
+	emit(type: string, data: string) {
+		this.listeners.get(type)?.({ data } as MessageEvent<string>);
+	}
+}
+
+describe('Hosted Client subscribeToSubjectEvents Tests', () => {
+	beforeEach(() => {
+		MockEventSource.instances = [];
+		vi.stubGlobal('EventSource', MockEventSource);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('should open GET /subjects/:id/events with credentials', () => {
+		const client = configureConsentManager({
+			mode: 'hosted',
+			backendURL: 'https://consent.example.com/api/c15t',
+		});
+
+		client.subscribeToSubjectEvents?.('sub_test123abc', vi.fn());
+
+		expect(MockEventSource.instances).toHaveLength(1);
+		expect(MockEventSource.instances[0]?.url).toBe(
+			'https://consent.example.com/api/c15t/subjects/sub_test123abc/events'
+		);
+		expect(MockEventSource.instances[0]?.init).toEqual({
+			withCredentials: true,
+		});
+	});
+
+	it('should pass parsed consent events to the listener', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const listener = vi.fn();
+		const client = configureConsentManager({
+			mode: 'hosted',
+			backendURL: 'https://consent.example.com/api/c15t',
+		});
+
+		client.subscribeToSubjectEvents?.('sub_test123abc', listener);
+		const source = MockEventSource.instances[0];
+		const event = {
+			consentId: 'cns_1',
+			type: 'cookie_banner',
+			preferences: { marketing: true },
+			givenAt: '2026-01-01T00:00:00.000Z',
+		};
+		source?.emit('consent.recorded', JSON.stringify(event));
+		source?.emit('consent.recorded', 'not json');
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(listener).toHaveBeenCalledWith(event);
+		expect(warn).toHaveBeenCalled();
+		warn.mockRestore();
+	});
+
+	it('should close the stream on unsubscribe', () => {
+		const listener = vi.fn();
+		const client = configureConsentManager({
+			mode: 'hosted',
+			backendURL: 'https://consent.example.com/api/c15t',
+		});
+
+		const unsubscribe = client.subscribeToSubjectEvents?.(
+			'sub_test123abc',
+			listener
+		);
+		const source = MockEventSource.instances[0];
+		unsubscribe?.();
+		source?.emit(
+			'consent.recorded',
+			JSON.stringify({ consentId: 'cns_1', type: 'cookie_banner', givenAt: '' })
+		);
+
+		expect(source?.close).toHaveBeenCalled();
+		expect(listener).not.toHaveBeenCalled();
+	});
+});
@@ -12,6 +12,7 @@ import type {
 	InitResponse,
 	SetConsentRequestBody,
 	SetConsentResponse,
+	SubjectEventListener,
 } from '../client-interface';
 import type { FetchOptions, ResponseContext } from '../types';
 import { DEFAULT_RETRY_CONFIG } from './constants';
@@ -26,6 +27,7 @@ import {
 	processPendingIdentifySubmissions,
 } from './pending-submissions';
 import { setConsent } from './set-consent';
+import { subscribeToSubjectEvents } from './subject-events';
 import type { C15tInternalClientOptions } from './types';
 
 /**
@@ -179,6 +181,16 @@ export class C15tClient implements ConsentManagerInterface {
 		return identifyUser(this.fetcherContext, this.storageConfig, options);
 	}
 
+	/**
+	 * Streams consents recorded for a subject via GET /subjects/:id/events.
+	 */
+	subscribeToSubjectEvents(
+		subjectId: string,
+		listener: SubjectEventListener
+	): () => void {
+		return subscribeToSubjectEvents(this.fetcherContext, subjectId, listener);
+	}
+
 	/**
 	 * Makes a custom API request to any endpoint.
 	 */
@@ -0,0 +1,54 @@
+import type { SubjectConsentEvent } from '@c15t/schema/types';
+import { getDebugLogger } from '../../libs/debug';
+import type { SubjectEventListener } from '../client-interface';
+import { API_ENDPOINTS } from '../types';
+import type { FetcherContext } from './fetcher';
+import { resolveUrl } from './fetcher';
+
+/**
+ * SSE event name for consent records
+ * @internal
+ */
+export const SUBJECT_CONSENT_EVENT = 'consent.recorded';
+
+/**
+ * Opens the `GET /subjects/:id/events` stream and calls `listener` for each
+ * consent recorded for the subject or for other subjects of the same user.
+ *
+ * `EventSource` reconnects on its own after network errors. Returns a no-op
+ * when `EventSource` is unavailable, e.g. during SSR.
+ *
+ * @returns A function that closes the stream
+ * @internal
+ */
+export function subscribeToSubjectEvents(
+	context: FetcherContext,
+	subjectId: string,
+	listener: SubjectEventListener
+): () => void {
+	if (typeof EventSource === 'undefined') {
+		return () => {};
+	}
+
+	const url = resolveUrl(
+		context.backendURL,
+		`${API_ENDPOINTS.SUBJECT_EVENTS}/${encodeURIComponent(subjectId)}/events`
+	);
+	const source = new EventSource(url, { withCredentials: true });
+
+	const handleConsent = (message: MessageEvent<string>) => {
+		try {
+			listener(JSON.parse(message.data) as SubjectConsentEvent);
+		} catch (error) {
+			console.warn('Ignoring malformed subject event:', error);
+		}
+	};
+
+	source.addEventListener(SUBJECT_CONSENT_EVENT, handleConsent);
+	getDebugLogger().log('Subscribed to subject events', { subjectId });
+
+	return () => {
+		source.removeEventListener(SUBJECT_CONSENT_EVENT, handleConsent);
+		source.close();
+	};
+}
@@ -16,6 +16,8 @@ export type {
 	InitResponse,
 	SetConsentRequestBody,
 	SetConsentResponse,
+	SubjectConsentEvent,
+	SubjectEventListener,
 } from './client-interface';
 // Export Custom client for advanced usage scenarios
 export {
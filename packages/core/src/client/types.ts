@@ -22,6 +22,11 @@ export const API_ENDPOINTS = {
 	 */
 	PATCH_SUBJECT: '/subjects',
 
+	/**
+	 * Path for streaming a subject's consent changes (GET /subjects/:id/events)
+	 */
+	SUBJECT_EVENTS: '/subjects',
+
 	/**
 	 * Path for checking if externalId has consented (GET /consents/check)
 	 */
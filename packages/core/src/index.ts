@@ -60,6 +60,7 @@ export {
 	saveConsentToStorage,
 	setCookie,
 } from './libs/cookie';
+export { isBuiltInConsentName } from './libs/custom-consent-types';
 export type { Model } from './libs/determine-model';
 export {
 	generateSubjectId,
@@ -82,7 +83,11 @@ export {
 	type IframeBlocker,
 	type IframeBlockerConfig,
 } from './libs/iframe-blocker';
-export type { NetworkBlockerConfig } from './libs/network-blocker';
+export type {
+	BlockedRequestInfo,
+	NetworkBlockerConfig,
+	NetworkBlockerTransport,
+} from './libs/network-blocker';
 export {
 	applyPolicyPurposeAllowlist,
 	applyPolicyScopeForRuntimeGating,
@@ -121,6 +126,7 @@ export {
 	type ScriptDebugScope,
 	type ScriptDebugSource,
 	type ScriptLifecycleCallback,
+	type ScriptStorageCleanup,
 	subscribeToScriptDebugEvents,
 	unloadScripts,
 	updateScripts,
@@ -146,6 +152,7 @@ export type {
 	PolicyUiActionGroup,
 	PolicyUiProfile,
 	PolicyUiSurfaceConfig,
+	ReconsentStrategy,
 	SSRInitialData,
 	SSRInitRequestContext,
 	SSRInitRequestMetadata,
@@ -164,6 +171,7 @@ export type {
 	OnConsentChangedPayload,
 	OnConsentSetPayload,
 	OnErrorPayload,
+	OnReconsentRequiredPayload,
 } from './types/callbacks';
 export type {
 	ConsentBannerResponse,
@@ -174,7 +182,9 @@ export type {
 export {
 	type AllConsentNames,
 	allConsentNames,
+	type BuiltInConsentNames,
 	type ConsentType,
+	type CustomConsentNames,
 	consentTypes,
 } from './types/consent-types';
 export type { Overrides } from './types/index';
@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StoreApi } from 'zustand';
+import type { ConsentStoreState } from '../../store/type';
+import { applySubjectConsentEvent } from '../apply-subject-event';
+
+vi.mock('../cookie', () => ({
+	saveConsentToStorage: vi.fn(),
+}));
+
+const CONSENT_TYPES = [
+	{ name: 'necessary', disabled: true },
+	{ name: 'measurement', disabled: false },
+	{ name: 'marketing', disabled: false },
+];
+
+const STORED_AT = Date.parse('2026-01-01T00:00:00.000Z');
+
+describe('applySubjectConsentEvent', () => {
+	let state: Record<string, any>;
+	let get: StoreApi<ConsentStoreState>['getState'];
+	let set: StoreApi<ConsentStoreState>['setState'];
+	let reload: ReturnType<typeof vi.fn>;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		reload = vi.fn();
+		vi.stubGlobal('window', { location: { reload } });
+
+		state = {
+			consents: { necessary: true, measurement: true, marketing: false },
+			consentInfo: { time: STORED_AT, subjectId: 'sub_test123abc' },
+			consentTypes: CONSENT_TYPES,
+			consentCategories: ['necessary', 'measurement', 'marketing'],
+			callbacks: { onConsentSet: vi.fn() },
+			reloadOnConsentRevoked: true,
+			scripts: [],
+			updateScripts: vi.fn(),
+			updateIframeConsents: vi.fn(),
+			updateNetworkBlockerConsents: vi.fn(),
+		};
+		get = vi.fn(() => state as ConsentStoreState);
+		set = vi.fn((partial) => {
+			state = { ...state, ...(partial as object) };
+		});
+	});
+
+	it('applies newer cookie banner consents without reloading', () => {
+		const emitConsentChanged = vi.fn();
+
+		applySubjectConsentEvent({
+			event: {
+				consentId: 'cns_1',
+				type: 'cookie_banner',
+				preferences: { measurement: true, marketing: true, necessary: false },
+				givenAt: '2026-01-02T00:00:00.000Z',
+			},
+			get,
+			set,
+			emitConsentChanged,
+		});
+
+		expect(state.consents).toEqual({
+			necessary: true,
+			measurement: true,
+			marketing: true,
+		});
+		expect(state.consentInfo).toEqual({
+			time: Date.parse('2026-01-02T00:00:00.000Z'),
+			subjectId: 'sub_test123abc',
+		});
+		expect(emitConsentChanged).toHaveBeenCalledWith(
+			expect.objectContaining({
+				allowedCategories: ['necessary', 'measurement', 'marketing'],
+				previousDeniedCategories: ['marketing'],
+			})
+		);
+		expect(state.updateScripts).toHaveBeenCalled();
+		expect(reload).not.toHaveBeenCalled();
+	});
+
+	it('ignores consents that are not newer than the stored consent', () => {
+		applySubjectConsentEvent({
+			event: {
+				consentId: 'cns_1',
+				type: 'cookie_banner',
+				preferences: { marketing: true },
+				givenAt: '2026-01-01T00:00:00.000Z',
+			},
+			get,
+			set,
+		});
+
+		expect(set).not.toHaveBeenCalled();
+	});
+
+	it('ignores consents other than the cookie banner', () => {
+		applySubjectConsentEvent({
+			event: {
+				consentId: 'cns_1',
+				type: 'privacy_policy',
+				givenAt: '2026-01-02T00:00:00.000Z',
+			},
+			get,
+			set,
+		});
+
+		expect(set).not.toHaveBeenCalled();
+	});
+
+	it('reloads when a consent is revoked', () => {
+		applySubjectConsentEvent({
+			event: {
+				consentId: 'cns_1',
+				type: 'cookie_banner',
+				preferences: { measurement: false },
+				givenAt: '2026-01-02T00:00:00.000Z',
+			},
+			get,
+			set,
+		});
+
+		expect(reload).toHaveBeenCalled();
+		expect(state.updateScripts).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StoreApi } from 'zustand';
+import type { ConsentStoreState } from '../../store/type';
+import { saveConsentToStorage } from '../cookie';
+import {
+	applyCrossTabMessage,
+	type CrossTabMessage,
+	createCrossTabChannel,
+} from '../cross-tab-sync';
+
+vi.mock('../cookie', () => ({
+	saveConsentToStorage: vi.fn(),
+	getConsentFromStorage: vi.fn(() => ({
+		consents: { necessary: true, measurement: true, marketing: false },
+		consentInfo: {
+			time: Date.parse('2026-01-03T00:00:00.000Z'),
+			subjectId: 'sub_test123abc',
+			externalId: 'user_123',
+		},
+	})),
+}));
+
+const CONSENT_TYPES = [
+	{ name: 'necessary', disabled: true },
+	{ name: 'measurement', disabled: false },
+	{ name: 'marketing', disabled: false },
+];
+
+const STORED_AT = Date.parse('2026-01-01T00:00:00.000Z');
+
+describe('applyCrossTabMessage', () => {
+	let state: Record<string, any>;
+	let get: StoreApi<ConsentStoreState>['getState'];
+	let set: StoreApi<ConsentStoreState>['setState'];
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.stubGlobal('window', { location: { reload: vi.fn() } });
+
+		state = {
+			activeUI: 'banner',
+			consents: { necessary: true, measurement: false, marketing: false },
+			consentInfo: null,
+			consentTypes: CONSENT_TYPES,
+			consentCategories: ['necessary', 'measurement', 'marketing'],
+			callbacks: { onConsentSet: vi.fn() },
+			reloadOnConsentRevoked: true,
+			scripts: [],
+			updateScripts: vi.fn(),
+			updateIframeConsents: vi.fn(),
+			updateNetworkBlockerConsents: vi.fn(),
+		};
+		get = vi.fn(() => state as ConsentStoreState);
+		set = vi.fn((partial) => {
+			state = { ...state, ...(partial as object) };
+		});
+	});
+
+	it('applies consent saved in another tab without persisting it again', () => {
+		const emitConsentChanged = vi.fn();
+		const consentInfo = { time: STORED_AT, subjectId: 'sub_test123abc' };
+
+		applyCrossTabMessage({
+			message: {
+				consents: {
+					necessary: true,
+					measurement: true,
+					marketing: true,
+				} as CrossTabMessage['consents'],
+				consentInfo,
+				user: { id: 'user_123' },
+			},
+			get,
+			set,
+			emitConsentChanged,
+		});
+
+		expect(state).toMatchObject({
+			activeUI: 'none',
+			consents: { necessary: true, measurement: true, marketing: true },
+			consentInfo,
+			user: { id: 'user_123' },
+		});
+		expect(saveConsentToStorage).not.toHaveBeenCalled();
+		expect(state.updateScripts).toHaveBeenCalled();
+		expect(state.updateIframeConsents).toHaveBeenCalled();
+		expect(state.updateNetworkBlockerConsents).toHaveBeenCalled();
+		expect(emitConsentChanged).toHaveBeenCalledWith(
+			expect.objectContaining({
+				allowedCategories: ['necessary', 'measurement', 'marketing'],
+			})
+		);
+	});
+
+	it('only copies identity changes when the consent is not newer', () => {
+		state.activeUI = 'none';
+		state.consentInfo = { time: STORED_AT, subjectId: 'sub_test123abc' };
+
+		applyCrossTabMessage({
+			message: {
+				consents: {
+					necessary: true,
+					measurement: true,
+					marketing: true,
+				} as CrossTabMessage['consents'],
+				consentInfo: {
+					time: STORED_AT,
+					subjectId: 'sub_test123abc',
+					externalId: 'user_123',
+					identityProvider: 'auth0',
+				},
+				user: { id: 'user_123', identityProvider: 'auth0' },
+			},
+			get,
+			set,
+		});
+
+		expect(state.consents).toEqual({
+			necessary: true,
+			measurement: false,
+			marketing: false,
+		});
+		expect(state.consentInfo).toEqual({
+			time: STORED_AT,
+			subjectId: 'sub_test123abc',
+			externalId: 'user_123',
+			identityProvider: 'auth0',
+		});
+		expect(state.user).toEqual({ id: 'user_123', identityProvider: 'auth0' });
+		expect(state.updateScripts).not.toHaveBeenCalled();
+	});
+});
+
+describe('createCrossTabChannel', () => {
+	it('exchanges messages over a BroadcastChannel named after the storage key', async () => {
+		vi.stubGlobal('window', { BroadcastChannel });
+		const onMessage = vi.fn();
+		const channel = createCrossTabChannel({ storageKey: 'site' }, onMessage);
+		const otherTab = new BroadcastChannel('c15t:site');
+		const received = new Promise<CrossTabMessage>((resolve) => {
+			otherTab.onmessage = (event) =>
+				resolve((event as MessageEvent<CrossTabMessage>).data);
+		});
+		const message: CrossTabMessage = {
+			consents: { necessary: true } as CrossTabMessage['consents'],
+			consentInfo: { time: STORED_AT },
+		};
+
+		channel?.post(message);
+		expect(await received).toEqual(message);
+
+		otherTab.postMessage(message);
+		await vi.waitFor(() => expect(onMessage).toHaveBeenCalledWith(message));
+
+		channel?.close();
+		otherTab.close();
+	});
+
+	it('falls back to storage events on the consent entry', () => {
+		const listeners = new Map<string, (event: StorageEvent) => void>();
+		vi.stubGlobal('window', {
+			addEventListener: vi.fn((type, listener) =>
+				listeners.set(type, listener)
+			),
+			removeEventListener: vi.fn((type) => listeners.delete(type)),
+		});
+		const onMessage = vi.fn();
+		const channel = createCrossTabChannel(undefined, onMessage);
+		const handleStorage = listeners.get('storage');
+
+		handleStorage?.({ key: 'other', newValue: '{}' } as StorageEvent);
+		handleStorage?.({ key: 'c15t', newValue: '{}' } as StorageEvent);
+
+		expect(onMessage).toHaveBeenCalledTimes(1);
+		expect(onMessage).toHaveBeenCalledWith({
+			consents: { necessary: true, measurement: true, marketing: false },
+			consentInfo: expect.objectContaining({ externalId: 'user_123' }),
+			user: { id: 'user_123', identityProvider: undefined },
+		});
+
+		channel?.close();
+		expect(listeners.has('storage')).toBe(false);
+	});
+});
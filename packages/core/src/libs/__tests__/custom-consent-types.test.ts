@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+	type AllConsentNames,
+	allConsentNames,
+	type ConsentType,
+	consentTypes,
+} from '../../types/consent-types';
+import {
+	isBuiltInConsentName,
+	resolveConsentTypes,
+} from '../custom-consent-types';
+import { getDefaultConsents } from '../init-consent-manager/store-updater';
+import { filterConsentCategoriesByPolicy } from '../policy';
+
+const customType = (
+	name: string,
+	overrides: Partial<ConsentType> = {}
+): ConsentType => ({
+	name: name as AllConsentNames,
+	gdprType: 3,
+	defaultValue: false,
+	description: `${name} description`,
+	display: true,
+	...overrides,
+});
+
+describe('resolveConsentTypes', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('appends custom categories without changing the built-in registries', () => {
+		const resolved = resolveConsentTypes([
+			customType('personalization'),
+			customType('ai_training', { defaultValue: true }),
+		]);
+
+		expect(resolved.map((consent) => consent.name)).toEqual([
+			...allConsentNames,
+			'personalization',
+			'ai_training',
+		]);
+		expect(allConsentNames).not.toContain('personalization');
+		expect(consentTypes).toHaveLength(5);
+		expect(getDefaultConsents(resolved)).toMatchObject({
+			necessary: true,
+			personalization: false,
+			ai_training: true,
+		});
+		expect(
+			filterConsentCategoriesByPolicy(
+				['necessary', 'personalization' as AllConsentNames],
+				['personalization']
+			)
+		).toEqual(['necessary', 'personalization']);
+	});
+
+	it('keeps the last configuration of a repeated name', () => {
+		const resolved = resolveConsentTypes([
+			customType('social_embeds'),
+			customType('social_embeds', { gdprType: 5 }),
+		]);
+
+		expect(
+			resolved.filter(
+				(consent) => consent.name === ('social_embeds' as AllConsentNames)
+			)
+		).toEqual([customType('social_embeds', { gdprType: 5 })]);
+	});
+
+	it('skips built-in and malformed names with a warning', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+		const resolved = resolveConsentTypes([
+			customType('marketing', { defaultValue: true }),
+			customType('ai.training'),
+			customType('1st_party'),
+			customType('a:b,c'),
+		]);
+
+		expect(resolved).toEqual(consentTypes);
+		expect(warn).toHaveBeenCalledTimes(4);
+		expect(getDefaultConsents(resolved).marketing).toBe(false);
+	});
+
+	it('recognizes built-in names', () => {
+		expect(isBuiltInConsentName('personalization')).toBe(false);
+		expect(isBuiltInConsentName('measurement')).toBe(true);
+	});
+});
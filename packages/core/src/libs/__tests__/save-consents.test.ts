@@ -67,6 +67,7 @@ describe('saveConsents', () => {
 				'experience',
 				'marketing',
 			],
+			scripts: [],
 			updateScripts: updateScriptsMock,
 			updateIframeConsents: updateIframeConsentsMock,
 			updateNetworkBlockerConsents: updateNetworkBlockerConsentsMock,
@@ -155,6 +156,7 @@ describe('saveConsents', () => {
 					marketing: true,
 				},
 				activeUI: 'none',
+				requiresReconsent: false,
 				consentInfo: expect.objectContaining({
 					time: expect.any(Number),
 				}),
@@ -207,6 +209,7 @@ describe('saveConsents', () => {
 					'experience',
 					'marketing',
 				],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -267,6 +270,7 @@ describe('saveConsents', () => {
 				consents: customConsents,
 				selectedConsents: customConsents,
 				activeUI: 'none',
+				requiresReconsent: false,
 				consentInfo: expect.objectContaining({
 					time: expect.any(Number),
 				}),
@@ -301,6 +305,7 @@ describe('saveConsents', () => {
 					'experience',
 					'marketing',
 				],
+				scripts: [],
 				updateScripts: updateScriptsMock,
 				updateIframeConsents: updateIframeConsentsMock,
 				updateNetworkBlockerConsents: updateNetworkBlockerConsentsMock,
@@ -389,6 +394,7 @@ describe('saveConsents', () => {
 					'experience',
 					'marketing',
 				],
+				scripts: [],
 				updateScripts: updateScriptsMock,
 				updateIframeConsents: updateIframeConsentsMock,
 				updateNetworkBlockerConsents: updateNetworkBlockerConsentsMock,
@@ -575,6 +581,7 @@ describe('saveConsents', () => {
 					'experience',
 					'marketing',
 				],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -745,6 +752,7 @@ describe('saveConsents', () => {
 					'experience',
 					'marketing',
 				],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -831,6 +839,7 @@ describe('saveConsents', () => {
 					'experience',
 					'marketing',
 				],
+				scripts: [],
 				updateScripts: updateScriptsMock,
 				updateIframeConsents: updateIframeConsentsMock,
 				updateNetworkBlockerConsents: updateNetworkBlockerConsentsMock,
@@ -946,6 +955,7 @@ describe('saveConsents', () => {
 					onError: vi.fn(),
 				},
 				consentCategories: ['necessary', 'measurement', 'marketing'],
+				scripts: [],
 				updateScripts: updateScriptsMock,
 				updateIframeConsents: updateIframeConsentsMock,
 				updateNetworkBlockerConsents: updateNetworkBlockerConsentsMock,
@@ -1086,6 +1096,7 @@ describe('saveConsents', () => {
 					'experience',
 					'marketing',
 				],
+				scripts: [],
 				updateScripts: updateScriptsMock,
 				updateIframeConsents: updateIframeConsentsMock,
 				updateNetworkBlockerConsents: updateNetworkBlockerConsentsMock,
@@ -1172,6 +1183,13 @@ describe('saveConsents', () => {
 					consentInfo: {
 						time: expect.any(Number),
 						subjectId: 'sub_111AEMh5qpiLmhEcbnqwrmsB7X',
+						categories: {
+							necessary: true,
+							functionality: true,
+							measurement: true,
+							experience: true,
+							marketing: true,
+						},
 					},
 				})
 			);
@@ -1206,6 +1224,7 @@ describe('saveConsents', () => {
 					'experience',
 					'marketing',
 				],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -1301,6 +1320,7 @@ describe('saveConsents', () => {
 					'experience',
 					'marketing',
 				],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -1394,6 +1414,7 @@ describe('saveConsents', () => {
 					'experience',
 					'marketing',
 				],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -1487,6 +1508,7 @@ describe('saveConsents', () => {
 					'experience',
 					'marketing',
 				],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -1526,6 +1548,7 @@ describe('saveConsents', () => {
 					'experience',
 					'marketing',
 				],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -1603,6 +1626,7 @@ describe('saveConsents', () => {
 					onBeforeConsentRevocationReload: vi.fn(),
 				},
 				consentCategories: ['necessary', 'marketing'],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -1652,6 +1676,7 @@ describe('saveConsents', () => {
 					onConsentSet: vi.fn(),
 				},
 				consentCategories: ['necessary', 'marketing'],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -1701,6 +1726,7 @@ describe('saveConsents', () => {
 					onConsentSet: vi.fn(),
 				},
 				consentCategories: ['necessary', 'marketing'],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -1750,6 +1776,7 @@ describe('saveConsents', () => {
 					onConsentSet: vi.fn(),
 				},
 				consentCategories: ['necessary', 'marketing'],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -1809,6 +1836,7 @@ describe('saveConsents', () => {
 					}),
 				},
 				consentCategories: ['necessary', 'marketing'],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -1898,6 +1926,7 @@ describe('saveConsents', () => {
 					onBeforeConsentRevocationReload: vi.fn(),
 				},
 				consentCategories: ['necessary', 'marketing'],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -1961,6 +1990,7 @@ describe('saveConsents', () => {
 					onBeforeConsentRevocationReload: vi.fn(),
 				},
 				consentCategories: ['necessary', 'marketing'],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -2022,6 +2052,7 @@ describe('saveConsents', () => {
 					onConsentSet: vi.fn(),
 				},
 				consentCategories: ['necessary', 'marketing'],
+				scripts: [],
 				updateScripts: vi.fn().mockReturnValue({ loaded: [], unloaded: [] }),
 				updateIframeConsents: vi.fn(),
 				updateNetworkBlockerConsents: vi.fn(),
@@ -0,0 +1,189 @@
+import type { SubjectConsentEvent } from '@c15t/schema/types';
+import type { StoreApi } from 'zustand';
+import type { ConsentStoreState } from '~/store/type';
+import type {
+	ConsentInfo,
+	ConsentState,
+	OnConsentChangedPayload,
+} from '../types';
+import { saveConsentToStorage } from './cookie';
+import { getDebugLogger } from './debug';
+import {
+	getConsentCategoryLists,
+	haveConsentsChanged,
+	shouldReloadOnConsentChange,
+} from './save-consents';
+import { clearRevokedScriptStorage } from './script-loader/cleanup';
+
+interface ApplySubjectEventProps {
+	event: SubjectConsentEvent;
+	get: StoreApi<ConsentStoreState>['getState'];
+	set: StoreApi<ConsentStoreState>['setState'];
+	emitConsentChanged?: (payload: OnConsentChangedPayload) => void;
+}
+
+interface ApplyExternalConsentProps {
+	/** Preferences to apply; categories that are missing keep their value */
+	preferences: Partial<Record<string, boolean>>;
+	/** Consent info to store with the preferences */
+	consentInfo: ConsentInfo;
+	/** Whether to write the consent to this session's storage */
+	persist: boolean;
+	get: StoreApi<ConsentStoreState>['getState'];
+	set: StoreApi<ConsentStoreState>['setState'];
+	emitConsentChanged?: (payload: OnConsentChangedPayload) => void;
+}
+
+/**
+ * Applies a consent pushed by `GET /subjects/:id/events` to the store.
+ *
+ * @remarks
+ * Only cookie banner consents newer than the stored consent are applied, so
+ * the echo of this session's own save and out-of-order events are ignored.
+ * The consent is already recorded on the backend, so nothing is sent back.
+ * Revocations reload the page under the same rules as a local save.
+ */
+export function applySubjectConsentEvent({
+	event,
+	get,
+	set,
+	emitConsentChanged,
+}: ApplySubjectEventProps): void {
+	const { consentInfo } = get();
+	const givenAt = Date.parse(event.givenAt);
+
+	if (
+		event.type !== 'cookie_banner' ||
+		!event.preferences ||
+		Number.isNaN(givenAt)
+	) {
+		return;
+	}
+
+	applyExternalConsent({
+		preferences: event.preferences,
+		consentInfo: {
+			...consentInfo,
+			time: givenAt,
+		},
+		persist: true,
+		get,
+		set,
+		emitConsentChanged,
+	});
+}
+
+/**
+ * Applies a consent recorded outside this page to the store.
+ *
+ * @remarks
+ * Shared by live consent sync and cross-tab sync. Consents that are not newer
+ * than the stored consent are ignored. When the preferences change, the
+ * script loader, iframe blocker and network blocker are updated the same way
+ * as after a local save, without sending anything to the backend.
+ * Revocations reload the page under the same rules as a local save.
+ *
+ * @internal
+ */
+export function applyExternalConsent({
+	preferences,
+	consentInfo: nextConsentInfo,
+	persist,
+	get,
+	set,
+	emitConsentChanged,
+}: ApplyExternalConsentProps): void {
+	const {
+		consents,
+		consentInfo,
+		consentTypes,
+		consentCategories,
+		callbacks,
+		reloadOnConsentRevoked,
+		updateScripts,
+		updateIframeConsents,
+		updateNetworkBlockerConsents,
+	} = get();
+
+	if (consentInfo && nextConsentInfo.time <= consentInfo.time) {
+		return;
+	}
+
+	const nextConsents: ConsentState = { ...consents };
+	for (const consentType of consentTypes) {
+		const value = preferences[consentType.name];
+		if (!consentType.disabled && typeof value === 'boolean') {
+			nextConsents[consentType.name] = value;
+		}
+	}
+
+	const didChange = haveConsentsChanged(consents, nextConsents, consentTypes);
+	const nextLists = getConsentCategoryLists(
+		nextConsents,
+		consentCategories,
+		consentTypes
+	);
+	const previousLists = getConsentCategoryLists(
+		consents,
+		consentCategories,
+		consentTypes
+	);
+
+	getDebugLogger().log('Applying consent from another session', {
+		time: nextConsentInfo.time,
+		didChange,
+	});
+
+	set({
+		consents: nextConsents,
+		selectedConsents: nextConsents,
+		consentInfo: nextConsentInfo,
+		requiresReconsent: false,
+	});
+	if (persist) {
+		saveConsentToStorage(
+			{ consents: nextConsents, consentInfo: nextConsentInfo },
+			undefined,
+			get().storageConfig
+		);
+	}
+
+	if (!didChange) {
+		return;
+	}
+
+	clearRevokedScriptStorage(
+		get().scripts,
+		consents,
+		nextConsents,
+		get().storageConfig
+	);
+
+	callbacks.onConsentSet?.({ preferences: nextConsents });
+	emitConsentChanged?.({
+		preferences: nextConsents,
+		previousPreferences: consents,
+		allowedCategories: nextLists.allowedCategories,
+		deniedCategories: nextLists.deniedCategories,
+		previousAllowedCategories: previousLists.allowedCategories,
+		previousDeniedCategories: previousLists.deniedCategories,
+	});
+
+	if (
+		shouldReloadOnConsentChange(
+			consents,
+			nextConsents,
+			consentInfo,
+			reloadOnConsentRevoked,
+			consentTypes
+		)
+	) {
+		callbacks.onBeforeConsentRevocationReload?.({ preferences: nextConsents });
+		window.location.reload();
+		return;
+	}
+
+	updateIframeConsents();
+	updateScripts();
+	updateNetworkBlockerConsents();
+}
@@ -552,6 +552,52 @@ describe('Cookie Storage', () => {
 			expect(typeof retrieved?.consents?.marketing).toBe('boolean');
 		});
 
+		it('should not shorten consent names that match metadata keys', () => {
+			const consentData = {
+				consents: { necessary: true, type: true, id: true, t: true },
+				consentInfo: { time: 1234567890, subjectId: 'sub_123' },
+			};
+
+			saveConsentToStorage(consentData);
+
+			const cookieValue =
+				document.cookie.split(`${STORAGE_KEY_V2}=`)[1]?.split(';')[0] || '';
+			expect(cookieValue).toContain('c.type:1');
+			expect(cookieValue).toContain('i.sid:sub_123');
+
+			window.localStorage.clear();
+			const retrieved = getConsentFromStorage<typeof consentData>();
+
+			expect(retrieved?.consents).toMatchObject({
+				necessary: true,
+				type: true,
+				id: true,
+				t: true,
+			});
+			expect(retrieved?.consentInfo).toEqual(consentData.consentInfo);
+		});
+
+		it('should shorten the categories key but not the category names', () => {
+			const consentData = {
+				consents: { necessary: true, type: false },
+				consentInfo: {
+					time: 1234567890,
+					categories: { necessary: true, type: true },
+				},
+			};
+
+			saveConsentToStorage(consentData);
+
+			const cookieValue =
+				document.cookie.split(`${STORAGE_KEY_V2}=`)[1]?.split(';')[0] || '';
+			expect(cookieValue).toContain('i.cat.type:1');
+
+			window.localStorage.clear();
+			const retrieved = getConsentFromStorage<typeof consentData>();
+
+			expect(retrieved?.consentInfo).toEqual(consentData.consentInfo);
+		});
+
 		it('should handle timestamp field shortening', () => {
 			const dataWithTimestamp = {
 				timestamp: new Date().toISOString(),
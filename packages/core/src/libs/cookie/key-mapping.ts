@@ -28,6 +28,7 @@ export const COOKIE_KEY_MAP = {
 	externalId: 'eid', // The external user ID
 	materialPolicyFingerprint: 'mpf', // Material active-policy fingerprint
 	identityProvider: 'idp', // The identity provider (e.g., 'clerk', 'auth0')
+	categories: 'cat', // Categories shown when consent was given
 } as const;
 
 /**
@@ -43,6 +44,30 @@ export const REVERSE_COOKIE_KEY_MAP = Object.entries(COOKIE_KEY_MAP).reduce(
 	{} as Record<string, string>
 );
 
+/**
+ * Maps the segments of a flattened key.
+ *
+ * @remarks
+ * Only top-level keys and direct `consentInfo` keys are mapped. Consent names
+ * are kept as-is, also under `consentInfo.categories`, so a custom category
+ * such as `id` or `type` does not collide with a metadata key.
+ */
+function mapKeySegments(
+	key: string,
+	map: Record<string, string>,
+	consentInfoKey: string
+): string {
+	const mapKey = (k: string) => (Object.hasOwn(map, k) ? map[k] : k) as string;
+	const [root = '', ...rest] = key.split('.');
+	const [child, ...descendants] = rest;
+	const mappedRest =
+		root === consentInfoKey && child !== undefined
+			? [mapKey(child), ...descendants]
+			: rest;
+
+	return [mapKey(root), ...mappedRest].join('.');
+}
+
 /**
  * Shortens keys in a flattened object using the key map.
  *
@@ -57,11 +82,7 @@ export function shortenFlatKeys(
 	const shortened: Record<string, string> = {};
 
 	for (const [key, value] of Object.entries(flattened)) {
-		const keys = key.split('.');
-		const shortenedKeys = keys.map(
-			(k) => COOKIE_KEY_MAP[k as keyof typeof COOKIE_KEY_MAP] || k
-		);
-		shortened[shortenedKeys.join('.')] = value;
+		shortened[mapKeySegments(key, COOKIE_KEY_MAP, 'consentInfo')] = value;
 	}
 
 	return shortened;
@@ -81,9 +102,9 @@ export function expandFlatKeys(
 	const expanded: Record<string, string> = {};
 
 	for (const [key, value] of Object.entries(shortened)) {
-		const keys = key.split('.');
-		const expandedKeys = keys.map((k) => REVERSE_COOKIE_KEY_MAP[k] || k);
-		expanded[expandedKeys.join('.')] = value;
+		expanded[
+			mapKeySegments(key, REVERSE_COOKIE_KEY_MAP, COOKIE_KEY_MAP.consentInfo)
+		] = value;
 	}
 
 	return expanded;
@@ -9,7 +9,11 @@
 
 import type { ConsentState } from '../..';
 import { STORAGE_KEY, STORAGE_KEY_V2 } from '../../store/initial-state';
-import { allConsentNames, type ConsentInfo } from '../../types/consent-types';
+import {
+	type AllConsentNames,
+	allConsentNames,
+	type ConsentInfo,
+} from '../../types/consent-types';
 import { getDebugLogger } from '../debug';
 import { sanitizeSubjectIdentifiers } from '../sanitize-subject-identifiers';
 import { deleteCookie, getCookie, setCookie } from './operations';
@@ -221,11 +225,13 @@ export function saveConsentToStorage(
  * Normalizes consent data to ensure all consent values are explicitly set.
  *
  * @param data - Consent data that may have missing consent keys
+ * @param consentNames - Consent names of the store, including its custom
+ * categories
  * @returns Normalized consent data with all consent keys explicitly set to booleans
  *
  * @remarks
- * This function ensures that all known consent types from {@link allConsentNames}
- * have explicit boolean values. Missing consent keys are defaulted to `false`.
+ * This function ensures that all given consent names have explicit boolean
+ * values. Missing consent keys are defaulted to `false`.
  * This is important because the optimized cookie storage omits `false` values,
  * but the application should always work with explicit boolean values.
  *
@@ -235,7 +241,7 @@ export function saveConsentToStorage(
  */
 function normalizeConsentData<
 	DataType extends { consents?: Partial<ConsentState> },
->(data: DataType): DataType {
+>(data: DataType, consentNames: readonly string[] = allConsentNames): DataType {
 	const consents = data.consents || {};
 
 	// Start with existing consents to preserve any custom/unknown consent types
@@ -244,9 +250,10 @@ function normalizeConsentData<
 	};
 
 	// Ensure all known consent types have explicit boolean values
-	for (const consentName of allConsentNames) {
+	for (const consentName of consentNames) {
 		// If the consent is defined, use its value; otherwise default to false
-		normalizedConsents[consentName] = consents[consentName] ?? false;
+		normalizedConsents[consentName] =
+			consents[consentName as AllConsentNames] ?? false;
 	}
 
 	return {
@@ -261,6 +268,9 @@ function normalizeConsentData<
  * @typeParam ReturnType - The expected type of the consent data
  *
  * @param config - Storage configuration
+ * @param consentNames - Consent names to default to `false` when missing.
+ * Stores pass their own names, including custom categories. Defaults to the
+ * built-in categories.
  * @returns Consent data or null if not found
  *
  * @remarks
@@ -294,7 +304,8 @@ function normalizeConsentData<
  * @public
  */
 export function getConsentFromStorage<ReturnType = unknown>(
-	config?: StorageConfig
+	config?: StorageConfig,
+	consentNames?: readonly string[]
 ): ReturnType | null {
 	// Attempt migration before reading
 	migrateLegacyStorage(config);
@@ -363,7 +374,8 @@ export function getConsentFromStorage<ReturnType = unknown>(
 						'consents' in normalizedCookieData
 					) {
 						normalizedCookieData = normalizeConsentData(
-							normalizedCookieData as { consents?: Partial<ConsentState> }
+							normalizedCookieData as { consents?: Partial<ConsentState> },
+							consentNames
 						) as ReturnType;
 					}
 
@@ -379,7 +391,8 @@ export function getConsentFromStorage<ReturnType = unknown>(
 								'consents' in parsed
 							) {
 								normalizedLocalStorageData = normalizeConsentData(
-									parsed as { consents?: Partial<ConsentState> }
+									parsed as { consents?: Partial<ConsentState> },
+									consentNames
 								) as ReturnType;
 							} else {
 								normalizedLocalStorageData = parsed;
@@ -431,9 +444,10 @@ export function getConsentFromStorage<ReturnType = unknown>(
 
 	// Normalize consent data to ensure all values are explicit booleans
 	if (chosenData && typeof chosenData === 'object') {
-		const normalizedData = normalizeConsentData(chosenData as never) as
-			| (ReturnType & { consentInfo?: ConsentInfo | null })
-			| ReturnType;
+		const normalizedData = normalizeConsentData(
+			chosenData as never,
+			consentNames
+		) as (ReturnType & { consentInfo?: ConsentInfo | null }) | ReturnType;
 
 		if (
 			typeof normalizedData === 'object' &&
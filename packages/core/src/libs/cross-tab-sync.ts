@@ -0,0 +1,199 @@
+/**
+ * @packageDocumentation
+ * Keeps consent in sync between tabs of the same site.
+ */
+
+import type { StoreApi } from 'zustand';
+import type { ConsentStoreState } from '~/store/type';
+import { STORAGE_KEY_V2 } from '../store/initial-state';
+import type {
+	ConsentInfo,
+	ConsentState,
+	OnConsentChangedPayload,
+	User,
+} from '../types';
+import { applyExternalConsent } from './apply-subject-event';
+import { getConsentFromStorage, type StorageConfig } from './cookie';
+import { getDebugLogger } from './debug';
+
+/**
+ * Consent and identity state shared with other tabs.
+ *
+ * @internal
+ */
+export interface CrossTabMessage {
+	consents: ConsentState;
+	consentInfo: ConsentInfo | null;
+	user?: User;
+}
+
+/**
+ * Connection to the other tabs of the same site.
+ *
+ * @internal
+ */
+export interface CrossTabChannel {
+	/** Sends this tab's state to the other tabs */
+	post: (message: CrossTabMessage) => void;
+
+	/** Stops listening to the other tabs */
+	close: () => void;
+}
+
+/**
+ * Opens a channel to the other tabs that share the same consent storage.
+ *
+ * @remarks
+ * Uses a `BroadcastChannel` named after the storage key. In browsers without
+ * `BroadcastChannel`, falls back to `storage` events on the consent entry in
+ * `localStorage`, which every save already writes, so `post` is a no-op.
+ *
+ * @param config - Storage configuration of the store
+ * @param onMessage - Called with the state of another tab
+ * @param consentNames - Consent names of the store, used to read the
+ * consent entry in the `storage` event fallback
+ * @returns The channel, or `undefined` outside the browser
+ *
+ * @internal
+ */
+export function createCrossTabChannel(
+	config: StorageConfig | undefined,
+	onMessage: (message: CrossTabMessage) => void,
+	consentNames?: readonly string[]
+): CrossTabChannel | undefined {
+	if (typeof window === 'undefined') {
+		return undefined;
+	}
+
+	const storageKey = config?.storageKey || STORAGE_KEY_V2;
+
+	if (typeof window.BroadcastChannel === 'function') {
+		const channel = new window.BroadcastChannel(`c15t:${storageKey}`);
+		channel.onmessage = (event: MessageEvent<CrossTabMessage>) =>
+			onMessage(event.data);
+
+		return {
+			post: (message) => channel.postMessage(message),
+			close: () => channel.close(),
+		};
+	}
+
+	if (typeof window.addEventListener !== 'function') {
+		return undefined;
+	}
+
+	const handleStorage = (event: StorageEvent) => {
+		if (event.key !== storageKey || !event.newValue) {
+			return;
+		}
+
+		const stored = getConsentFromStorage<Omit<CrossTabMessage, 'user'>>(
+			config,
+			consentNames
+		);
+		if (!stored?.consents) {
+			return;
+		}
+
+		const externalId = stored.consentInfo?.externalId;
+		onMessage({
+			consents: stored.consents,
+			consentInfo: stored.consentInfo ?? null,
+			user: externalId
+				? {
+						id: externalId,
+						identityProvider: stored.consentInfo?.identityProvider,
+					}
+				: undefined,
+		});
+	};
+
+	window.addEventListener('storage', handleStorage);
+
+	return {
+		post: () => {},
+		close: () => window.removeEventListener('storage', handleStorage),
+	};
+}
+
+function isSameUser(a: User | undefined, b: User | undefined): boolean {
+	return (
+		String(a?.id) === String(b?.id) &&
+		a?.identityProvider === b?.identityProvider
+	);
+}
+
+interface ApplyCrossTabMessageProps {
+	message: CrossTabMessage;
+	get: StoreApi<ConsentStoreState>['getState'];
+	set: StoreApi<ConsentStoreState>['setState'];
+	emitConsentChanged?: (payload: OnConsentChangedPayload) => void;
+}
+
+/**
+ * Applies the state of another tab to the store.
+ *
+ * @remarks
+ * A newer consent closes the banner and is applied through the same path as
+ * live consent sync, which updates scripts, iframes and the network blocker
+ * without posting the consent to the backend again. Otherwise, only a
+ * changed user identity is copied; the other tab already linked it on the
+ * backend.
+ *
+ * @internal
+ */
+export function applyCrossTabMessage({
+	message,
+	get,
+	set,
+	emitConsentChanged,
+}: ApplyCrossTabMessageProps): void {
+	const { consentInfo, user, activeUI } = get();
+	const userUpdate =
+		message.user && !isSameUser(user, message.user)
+			? { user: message.user }
+			: {};
+
+	if (
+		message.consentInfo &&
+		(!consentInfo || message.consentInfo.time > consentInfo.time)
+	) {
+		getDebugLogger().log('Applying consent from another tab');
+		set({
+			...userUpdate,
+			...(activeUI === 'banner' && { activeUI: 'none' as const }),
+		});
+		applyExternalConsent({
+			preferences: message.consents,
+			consentInfo: message.consentInfo,
+			persist: false,
+			get,
+			set,
+			emitConsentChanged,
+		});
+		return;
+	}
+
+	const isSameSubject =
+		!!consentInfo && message.consentInfo?.subjectId === consentInfo.subjectId;
+	const identityChanged =
+		isSameSubject &&
+		(consentInfo.externalId !== message.consentInfo?.externalId ||
+			consentInfo.identityProvider !== message.consentInfo?.identityProvider);
+
+	if (!identityChanged && !userUpdate.user) {
+		return;
+	}
+
+	getDebugLogger().log('Applying user identity from another tab');
+	set({
+		...userUpdate,
+		...(identityChanged && {
+			consentInfo: {
+				...consentInfo,
+				externalId: message.consentInfo?.externalId,
+				identityProvider: message.consentInfo?.identityProvider,
+			},
+		}),
+	});
+}
@@ -0,0 +1,79 @@
+/**
+ * @packageDocumentation
+ * Custom consent categories of a store.
+ */
+
+import {
+	allConsentNames,
+	type BuiltInConsentNames,
+	type ConsentType,
+	consentTypes,
+} from '../types/consent-types';
+
+/**
+ * Allowed characters for a custom category name.
+ *
+ * @remarks
+ * Names are written unescaped into the consent cookie, which uses `.`, `:`
+ * and `,` as separators.
+ */
+const CONSENT_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_-]*$/;
+
+const builtInConsentNames = new Set<string>(allConsentNames);
+
+/**
+ * Checks whether a category name ships with c15t.
+ *
+ * @public
+ */
+export function isBuiltInConsentName(
+	name: string
+): name is BuiltInConsentNames {
+	return builtInConsentNames.has(name);
+}
+
+/**
+ * Combines the built-in consent categories with a store's custom ones.
+ *
+ * @remarks
+ * The result is stored on the store instance as `consentTypes`, so category
+ * validation, cookie storage, policy filtering, script gating and `has()`
+ * only accept the categories of that store. The module-level
+ * {@link consentTypes} and {@link allConsentNames} always hold the built-in
+ * categories only. A custom name given twice keeps its last configuration.
+ * Invalid names and built-in names are skipped with a warning.
+ *
+ * @param customTypes - Configurations of the custom categories
+ * @returns The built-in categories followed by the valid custom ones
+ *
+ * @internal
+ */
+export function resolveConsentTypes(
+	customTypes: ConsentType[] = []
+): ConsentType[] {
+	const resolved = [...consentTypes];
+
+	for (const type of customTypes) {
+		if (!CONSENT_NAME_PATTERN.test(type.name)) {
+			console.warn(
+				`Ignoring custom consent category "${type.name}": names must start with a letter and contain only letters, digits, "_" or "-".`
+			);
+			continue;
+		}
+		if (isBuiltInConsentName(type.name)) {
+			console.warn(
+				`Ignoring custom consent category "${type.name}": it is a built-in category.`
+			);
+			continue;
+		}
+
+		const index = resolved.findIndex((consent) => consent.name === type.name);
+		if (index === -1) {
+			resolved.push(type);
+		} else {
+			resolved[index] = type;
+		}
+	}
+
+	return resolved;
+}
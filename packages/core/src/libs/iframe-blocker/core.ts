@@ -35,12 +35,15 @@ function createDefaultConsentState(): ConsentState {
  * Determine the required consent for an iframe based on its category attribute
  *
  * @param iframe - The iframe element to check
+ * @param consents - Consent state of the store, which holds a value for each
+ * of its categories, including custom ones
  * @returns The required consent type or undefined if no consent is required
  *
  * @throws {Error} When the category attribute contains an invalid consent name
  */
 function determineRequiredConsent(
-	iframe: HTMLIFrameElement
+	iframe: HTMLIFrameElement,
+	consents: ConsentState
 ): AllConsentNames | undefined {
 	const categoryAttr = iframe.getAttribute('data-category');
 
@@ -50,9 +53,9 @@ function determineRequiredConsent(
 	}
 
 	// Validate that it's a valid consent name
-	if (!allConsentNames.includes(categoryAttr as AllConsentNames)) {
+	if (!Object.hasOwn(consents, categoryAttr)) {
 		throw new Error(
-			`Invalid category attribute "${categoryAttr}" on iframe. Must be one of: ${allConsentNames.join(', ')}`
+			`Invalid category attribute "${categoryAttr}" on iframe. Must be one of: ${Object.keys(consents).join(', ')}`
 		);
 	}
 
@@ -71,7 +74,7 @@ function processIframeElement(
 	consents: ConsentState
 ): void {
 	const dataSrc = iframe.getAttribute('data-src');
-	const requiredConsent = determineRequiredConsent(iframe);
+	const requiredConsent = determineRequiredConsent(iframe, consents);
 
 	// If no consent is required, allow the iframe to load normally
 	if (!requiredConsent) {
@@ -204,6 +207,8 @@ export function createIframeBlocker(
  * Extracts consent categories from all iframes with data-category attributes on the page.
  * Returns an array of unique category names found in iframes.
  *
+ * @param consentNames - Valid category names. Stores pass their own names,
+ * including custom categories. Defaults to the built-in categories.
  * @returns Array of consent category names found in iframes
  *
  * @example
@@ -214,7 +219,9 @@ export function createIframeBlocker(
  * // Returns: ['marketing', 'measurement']
  * ```
  */
-export function getIframeConsentCategories(): AllConsentNames[] {
+export function getIframeConsentCategories(
+	consentNames: readonly string[] = allConsentNames
+): AllConsentNames[] {
 	if (typeof document === 'undefined') {
 		return [];
 	}
@@ -239,7 +246,7 @@ export function getIframeConsentCategories(): AllConsentNames[] {
 		const category = categoryAttr.trim();
 
 		// Check if it's a valid consent name
-		if (allConsentNames.includes(category as AllConsentNames)) {
+		if (consentNames.includes(category)) {
 			categories.add(category as AllConsentNames);
 		}
 	});
@@ -338,7 +345,9 @@ export function setupIframeObserver(
 
 		// If new iframes with categories were added, trigger category discovery
 		if (hasNewCategories && onCategoriesDiscovered) {
-			const categories = getIframeConsentCategories();
+			const categories = getIframeConsentCategories(
+				Object.keys(currentConsents)
+			);
 			if (categories.length > 0) {
 				onCategoriesDiscovered(categories);
 			}
@@ -67,7 +67,9 @@ export function createIframeManager(
 
 			// Helper to extract and register iframe categories
 			const discoverAndRegisterCategories = () => {
-				const iframeCategories = getIframeConsentCategories();
+				const iframeCategories = getIframeConsentCategories(
+					Object.keys(state.consents)
+				);
 				if (iframeCategories.length > 0) {
 					get().updateConsentCategories(iframeCategories);
 				}
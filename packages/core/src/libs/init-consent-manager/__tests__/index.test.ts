@@ -418,6 +418,133 @@ describe('initConsentManager', () => {
 			expect(state.activeUI).toBe('banner');
 			expect(state.consents.necessary).toBe(true);
 			expect(state.consents.measurement).toBe(false);
+			expect(state.requiresReconsent).toBe(true);
+		});
+
+		describe('with a re-consent strategy', () => {
+			const previousFingerprint = 'f'.repeat(64);
+
+			async function initWithChangedPolicy(
+				overrides: Partial<ConsentStoreState>
+			) {
+				const mockResponse = createMockConsentBannerResponse({
+					policy: {
+						id: 'policy_runtime_gdpr',
+						model: 'opt-in',
+						consent: {
+							expiryDays: 365,
+							scopeMode: 'strict',
+							categories: ['necessary', 'measurement', 'marketing'],
+						},
+						ui: { mode: 'banner' },
+					},
+				});
+				let state = createMockStoreState({
+					consents: {
+						necessary: true,
+						functionality: false,
+						experience: false,
+						marketing: true,
+						measurement: true,
+					},
+					consentInfo: {
+						time: 1_700_000_000_000,
+						subjectId: 'sub_existing',
+						materialPolicyFingerprint: previousFingerprint,
+						categories: { necessary: true, measurement: true },
+					},
+					consentTypes: [
+						{
+							name: 'necessary',
+							defaultValue: true,
+							description: '',
+							disabled: true,
+							display: true,
+							gdprType: 1,
+						},
+						{
+							name: 'measurement',
+							defaultValue: false,
+							description: '',
+							disabled: false,
+							display: true,
+							gdprType: 4,
+						},
+						{
+							name: 'marketing',
+							defaultValue: false,
+							description: '',
+							disabled: false,
+							display: true,
+							gdprType: 5,
+						},
+					],
+					...overrides,
+				});
+				storeGet = (() => state) as StoreApi<ConsentStoreState>['getState'];
+				storeSet = ((update) => {
+					state = {
+						...state,
+						...(typeof update === 'function' ? update(state) : update),
+					};
+				}) as StoreApi<ConsentStoreState>['setState'];
+
+				await initConsentManager({
+					manager: createMockConsentManager({
+						init: vi.fn().mockResolvedValue({
+							data: mockResponse,
+							error: null,
+						}),
+					}),
+					get: storeGet,
+					set: storeSet,
+				});
+
+				return state;
+			}
+
+			it('prompts only for categories added since the stored consent', async () => {
+				const onReconsentRequired = vi.fn();
+				const state = await initWithChangedPolicy({
+					reconsentStrategy: 'new-categories',
+					callbacks: { onReconsentRequired },
+				});
+
+				expect(state.activeUI).toBe('banner');
+				expect(state.requiresReconsent).toBe(true);
+				expect(state.consentInfo?.subjectId).toBe('sub_existing');
+				expect(state.consents).toMatchObject({
+					necessary: true,
+					measurement: true,
+					marketing: false,
+				});
+				expect(onReconsentRequired).toHaveBeenCalledWith(
+					expect.objectContaining({
+						strategy: 'new-categories',
+						previousFingerprint,
+						newCategories: ['marketing'],
+					})
+				);
+			});
+
+			it('keeps the stored consent and adopts the new fingerprint', async () => {
+				const onReconsentRequired = vi.fn();
+				const state = await initWithChangedPolicy({
+					reconsentStrategy: 'keep',
+					callbacks: { onReconsentRequired },
+				});
+
+				expect(state.activeUI).toBe('none');
+				expect(state.requiresReconsent).toBe(false);
+				expect(state.consents.marketing).toBe(true);
+				expect(state.consentInfo?.materialPolicyFingerprint).toMatch(
+					/^[a-f0-9]{64}$/
+				);
+				expect(state.consentInfo?.materialPolicyFingerprint).not.toBe(
+					previousFingerprint
+				);
+				expect(onReconsentRequired).not.toHaveBeenCalled();
+			});
 		});
 
 		it('seeds the current material policy fingerprint for existing consent without reopening UI', async () => {
@@ -534,6 +661,31 @@ describe('initConsentManager', () => {
 				onError: expect.any(Function),
 			});
 		});
+
+		it('should send the identity token while the device has no consent', async () => {
+			mockState.user = {
+				id: 'user_123',
+				identityToken: 'signed.identity.token',
+			};
+
+			mockManager.init = vi.fn().mockResolvedValue({
+				data: createMockConsentBannerResponse(),
+				error: null,
+			});
+
+			await initConsentManager({
+				manager: mockManager,
+				get: storeGet,
+				set: storeSet,
+			});
+
+			expect(mockManager.init).toHaveBeenCalledWith({
+				headers: {
+					'x-c15t-identity-token': 'signed.identity.token',
+				},
+				onError: expect.any(Function),
+			});
+		});
 	});
 
 	describe('API call handling', () => {
@@ -6,6 +6,7 @@
  */
 
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { consentTypes } from '../../../types';
 import { hasGlobalPrivacyControlSignal } from '../../global-privacy-control';
 import { updateStore } from '../store-updater';
 import type { InitConsentManagerConfig } from '../types';
@@ -732,3 +733,76 @@ describe('updateStore - policy purpose/category restrictions', () => {
 		);
 	});
 });
+
+describe('updateStore - linked consent', () => {
+	const linkedConsent = {
+		consentId: 'cns_desktop',
+		preferences: { necessary: true, measurement: true },
+		givenAt: '2026-02-01T00:00:00.000Z',
+		externalId: 'user_123',
+		identityProvider: 'auth0',
+	};
+
+	function setup(
+		consentInfo: ReturnType<typeof createMockStoreState>['consentInfo']
+	) {
+		const onConsentSet = vi.fn();
+		const mockState = createMockStoreState({
+			iab: null,
+			consentInfo,
+			consentTypes,
+			callbacks: { onConsentSet },
+		});
+		const config = {
+			get: vi.fn(() => mockState),
+			set: vi.fn((partial) => {
+				Object.assign(mockState, partial);
+			}),
+			manager: {} as InitConsentManagerConfig['manager'],
+			initialTranslationConfig: undefined,
+		};
+
+		return { mockState, config, onConsentSet };
+	}
+
+	it('restores consent from another device instead of showing the banner', async () => {
+		const { mockState, config, onConsentSet } = setup(null);
+
+		await updateStore(
+			createMockConsentBannerResponse({ jurisdiction: 'GDPR', linkedConsent }),
+			config,
+			true
+		);
+
+		expect(mockState.consents).toEqual({
+			necessary: true,
+			functionality: false,
+			marketing: false,
+			measurement: true,
+			experience: false,
+		});
+		expect(mockState.consentInfo).toEqual({
+			time: Date.parse('2026-02-01T00:00:00.000Z'),
+			materialPolicyFingerprint: undefined,
+			externalId: 'user_123',
+			identityProvider: 'auth0',
+		});
+		expect(mockState.activeUI).not.toBe('banner');
+		expect(onConsentSet).toHaveBeenCalledWith({
+			preferences: mockState.consents,
+		});
+	});
+
+	it('keeps the consent already stored on this device', async () => {
+		const consentInfo = { time: 1, subjectId: 'sub_local' };
+		const { mockState, config } = setup(consentInfo);
+
+		await updateStore(
+			createMockConsentBannerResponse({ jurisdiction: 'GDPR', linkedConsent }),
+			config,
+			true
+		);
+
+		expect(mockState.consentInfo).toEqual(consentInfo);
+	});
+});
@@ -75,6 +75,8 @@ export function createMockStoreState(
 		},
 		consentInfo: null,
 		activeUI: 'none' as const,
+		reconsentStrategy: 'reprompt' as const,
+		requiresReconsent: false,
 		isLoadingConsentInfo: false,
 		hasFetchedBanner: false,
 		lastBannerFetchData: null,
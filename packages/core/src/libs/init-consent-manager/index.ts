@@ -165,6 +165,9 @@ async function fetchFromAPI(
 
 	try {
 		const { language, country, region } = config.get().overrides ?? {};
+		// Only needed until this device has its own consent
+		const identityToken =
+			get().consentInfo === null ? get().user?.identityToken : undefined;
 
 		// Fetch init data (GVL is included in response when server has it configured)
 		const initContext = (await manager.init({
@@ -172,6 +175,7 @@ async function fetchFromAPI(
 				...(language && { 'accept-language': language }),
 				...(country && { 'x-c15t-country': country }),
 				...(region && { 'x-c15t-region': region }),
+				...(identityToken && { 'x-c15t-identity-token': identityToken }),
 			},
 			onError: callbacks.onError
 				? (context) => {
@@ -11,7 +11,7 @@ import {
 	type TranslationInputConfig,
 } from '@c15t/translations';
 import type { ConsentStoreState } from '../../store/type';
-import { allConsentNames, type ConsentState } from '../../types';
+import type { AllConsentNames, ConsentInfo, ConsentState } from '../../types';
 import type { GlobalVendorList } from '../../types/iab-tcf';
 import { deleteConsentFromStorage, saveConsentToStorage } from '../cookie';
 import { determineModel } from '../determine-model';
@@ -186,7 +186,7 @@ function buildStoreUpdate(
 	);
 	if (hasStrictPolicyCategoryAllowlist) {
 		const uniqueAllowedCategories = filterConsentCategoriesByPolicy(
-			allConsentNames,
+			Object.keys(get().consents) as AllConsentNames[],
 			policyCategories
 		);
 
@@ -301,7 +301,143 @@ function triggerCallbacks(
 	}
 }
 
-function getDefaultConsents(
+/**
+ * Restores a consent the user gave on another device, as returned by `/init`
+ * for a valid identity token.
+ *
+ * Categories missing from the linked preferences are treated as denied. The
+ * consent is kept locally only; it is recorded for this device's subject
+ * the next time the user saves.
+ */
+function restoreLinkedConsent(
+	linkedConsent: NonNullable<ConsentBannerResponse['linkedConsent']>,
+	config: InitConsentManagerConfig,
+	materialPolicyFingerprint: string | undefined
+): void {
+	const { get, set } = config;
+	const { consentTypes, storageConfig, callbacks } = get();
+	const time = Date.parse(linkedConsent.givenAt);
+
+	if (Number.isNaN(time)) {
+		return;
+	}
+
+	const consents = consentTypes.reduce((acc, consent) => {
+		acc[consent.name] =
+			consent.disabled === true
+				? consent.defaultValue
+				: linkedConsent.preferences[consent.name] === true;
+		return acc;
+	}, {} as ConsentState);
+	const consentInfo: ConsentInfo = {
+		time,
+		materialPolicyFingerprint,
+		externalId: linkedConsent.externalId,
+		...(linkedConsent.identityProvider && {
+			identityProvider: linkedConsent.identityProvider,
+		}),
+	};
+
+	saveConsentToStorage({ consents, consentInfo }, undefined, storageConfig);
+	set({ consents, selectedConsents: consents, consentInfo });
+	callbacks.onConsentSet?.({ preferences: consents });
+}
+
+/**
+ * A stored consent whose policy fingerprint differs from the active policy.
+ */
+interface PolicyChange {
+	strategy: ConsentStoreState['reconsentStrategy'];
+	previousFingerprint: string;
+	currentFingerprint: string;
+	storedCategories: ConsentInfo['categories'];
+	previousPreferences: ConsentState;
+}
+
+/**
+ * Applies the re-consent strategy once the new policy's categories are known.
+ *
+ * `'reprompt'` has already discarded the stored consent, so the banner is
+ * open and only the flag and callback remain. `'new-categories'` resets the
+ * new categories to their defaults and opens the banner when there are any;
+ * otherwise, like `'keep'`, it stores the new fingerprint with the existing
+ * consent.
+ */
+function applyReconsentStrategy(
+	policyChange: PolicyChange,
+	data: ConsentBannerResponse,
+	config: InitConsentManagerConfig
+): void {
+	const { get, set } = config;
+	const {
+		activeUI,
+		callbacks,
+		consentCategories,
+		consentInfo,
+		consentTypes,
+		consents,
+		model,
+		storageConfig,
+	} = get();
+	const { storedCategories } = policyChange;
+	const newCategories = storedCategories
+		? consentCategories.filter((category) => !storedCategories[category])
+		: [];
+
+	if (policyChange.strategy === 'reprompt') {
+		if (activeUI === 'none') {
+			return;
+		}
+	} else if (consentInfo) {
+		if (
+			policyChange.strategy === 'keep' ||
+			newCategories.length === 0 ||
+			!model
+		) {
+			const updatedConsentInfo = {
+				...consentInfo,
+				materialPolicyFingerprint: policyChange.currentFingerprint,
+			};
+			saveConsentToStorage(
+				{ consents, consentInfo: updatedConsentInfo },
+				undefined,
+				storageConfig
+			);
+			set({ consentInfo: updatedConsentInfo });
+			return;
+		}
+
+		const nextConsents = { ...consents };
+		for (const consent of consentTypes) {
+			if (newCategories.includes(consent.name) && !consent.disabled) {
+				nextConsents[consent.name] = consent.defaultValue;
+			}
+		}
+		set({
+			consents: nextConsents,
+			selectedConsents: nextConsents,
+			activeUI: data.policy?.ui?.mode ?? 'banner',
+		});
+	} else {
+		return;
+	}
+
+	set({ requiresReconsent: true });
+	callbacks.onReconsentRequired?.({
+		strategy: policyChange.strategy,
+		previousFingerprint: policyChange.previousFingerprint,
+		currentFingerprint: policyChange.currentFingerprint,
+		newCategories,
+		previousPreferences: policyChange.previousPreferences,
+	});
+}
+
+/**
+ * Builds the consent state with every category at its default value.
+ *
+ * @internal
+ */
+export function getDefaultConsents(
 	consentTypes: ConsentStoreState['consentTypes']
 ): ConsentState {
 	return consentTypes.reduce((acc, consent) => {
@@ -340,6 +476,7 @@ export async function updateStore(
 	const currentPolicyFingerprint = data.policy
 		? await createMaterialPolicyFingerprint(data.policy)
 		: undefined;
+	let policyChange: PolicyChange | null = null;
 
 	if (initialState.consentInfo && currentPolicyFingerprint) {
 		const storedPolicyFingerprint =
@@ -349,13 +486,28 @@ export async function updateStore(
 			storedPolicyFingerprint &&
 			storedPolicyFingerprint !== currentPolicyFingerprint
 		) {
-			const resetConsents = getDefaultConsents(initialState.consentTypes);
-			deleteConsentFromStorage(undefined, initialState.storageConfig);
-			set({
-				consents: resetConsents,
-				selectedConsents: resetConsents,
-				consentInfo: null,
-			});
+			const storedCategories = initialState.consentInfo.categories;
+			const strategy =
+				initialState.reconsentStrategy === 'new-categories' && !storedCategories
+					? 'reprompt'
+					: initialState.reconsentStrategy;
+			policyChange = {
+				strategy,
+				previousFingerprint: storedPolicyFingerprint,
+				currentFingerprint: currentPolicyFingerprint,
+				storedCategories,
+				previousPreferences: initialState.consents,
+			};
+
+			if (strategy === 'reprompt') {
+				const resetConsents = getDefaultConsents(initialState.consentTypes);
+				deleteConsentFromStorage(undefined, initialState.storageConfig);
+				set({
+					consents: resetConsents,
+					selectedConsents: resetConsents,
+					consentInfo: null,
+				});
+			}
 		} else if (!storedPolicyFingerprint) {
 			const updatedConsentInfo = {
 				...initialState.consentInfo,
@@ -373,6 +525,11 @@ export async function updateStore(
 		}
 	}
 
+	// Restore consent from the user's other devices instead of showing the banner
+	if (get().consentInfo === null && data.linkedConsent) {
+		restoreLinkedConsent(data.linkedConsent, config, currentPolicyFingerprint);
+	}
+
 	const { consentInfo } = get();
 
 	// Lazily create the IAB manager when iabConfig is provided.
@@ -449,6 +606,10 @@ export async function updateStore(
 
 	set(storeUpdate);
 
+	if (policyChange) {
+		applyReconsentStrategy(policyChange, data, config);
+	}
+
 	// Trigger callbacks
 	triggerCallbacks(data, config, autoGrantedConsents);
 
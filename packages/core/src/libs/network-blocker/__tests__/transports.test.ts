@@ -0,0 +1,245 @@
+/**
+ * @fileoverview Tests for sendBeacon, image, WebSocket and EventSource blocking
+ * @vitest-environment jsdom
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ConsentStoreState } from '../../../store/type';
+import { shouldBlockRequest } from '../core';
+import { createNetworkBlockerManager } from '../store';
+import type { NetworkBlockerConfig } from '../types';
+
+vi.mock('../core', () => ({
+	shouldBlockRequest: vi.fn(),
+}));
+
+function createState(networkBlocker: NetworkBlockerConfig): ConsentStoreState {
+	return {
+		consents: {
+			necessary: true,
+			functionality: false,
+			experience: false,
+			marketing: false,
+			measurement: false,
+		},
+		networkBlocker,
+	} as ConsentStoreState;
+}
+
+describe('createNetworkBlockerManager transports', () => {
+	const config: NetworkBlockerConfig = {
+		enabled: true,
+		logBlockedRequests: false,
+		rules: [
+			{
+				id: 'tracker-marketing',
+				domain: 'tracker.example.com',
+				category: 'marketing',
+			},
+		],
+	};
+
+	class MockWebSocket {
+		static readonly OPEN = 1;
+		constructor(public url: string | URL) {}
+	}
+
+	class MockEventSource {
+		constructor(public url: string | URL) {}
+	}
+
+	const getState = vi.fn();
+	const setState = vi.fn();
+	let sendBeacon: ReturnType<typeof vi.fn>;
+	let originalWebSocket: typeof window.WebSocket;
+	let originalEventSource: typeof window.EventSource;
+	let originalImageSrc: PropertyDescriptor | undefined;
+
+	beforeEach(() => {
+		originalWebSocket = window.WebSocket;
+		originalEventSource = window.EventSource;
+		originalImageSrc = Object.getOwnPropertyDescriptor(
+			HTMLImageElement.prototype,
+			'src'
+		);
+
+		sendBeacon = vi.fn(() => true);
+		Object.defineProperty(navigator, 'sendBeacon', {
+			value: sendBeacon,
+			writable: true,
+			configurable: true,
+		});
+		window.WebSocket = MockWebSocket as unknown as typeof WebSocket;
+		window.EventSource = MockEventSource as unknown as typeof EventSource;
+
+		vi.mocked(shouldBlockRequest).mockImplementation(
+			(request) =>
+				({
+					shouldBlock: request.url.includes('tracker.example.com'),
+					rule: config.rules[0],
+				}) as unknown as ReturnType<typeof shouldBlockRequest>
+		);
+	});
+
+	afterEach(() => {
+		window.WebSocket = originalWebSocket;
+		window.EventSource = originalEventSource;
+		if (originalImageSrc) {
+			Object.defineProperty(
+				HTMLImageElement.prototype,
+				'src',
+				originalImageSrc
+			);
+		}
+		Reflect.deleteProperty(navigator, 'sendBeacon');
+	});
+
+	function createManager(overrides: Partial<NetworkBlockerConfig> = {}) {
+		const onRequestBlocked = vi.fn();
+		getState.mockReturnValue(
+			createState({ ...config, ...overrides, onRequestBlocked })
+		);
+
+		const manager = createNetworkBlockerManager(
+			getState as () => ConsentStoreState,
+			setState as (partial: Partial<ConsentStoreState>) => void
+		);
+		manager.initializeNetworkBlocker();
+
+		return { manager, onRequestBlocked };
+	}
+
+	it('should block sendBeacon, image pixels, WebSocket and EventSource', () => {
+		const { manager, onRequestBlocked } = createManager();
+
+		expect(navigator.sendBeacon('https://tracker.example.com/b', 'x')).toBe(
+			false
+		);
+		expect(navigator.sendBeacon('https://cdn.example.com/b', 'x')).toBe(true);
+		expect(sendBeacon).toHaveBeenCalledTimes(1);
+
+		const pixel = new Image();
+		pixel.src = 'https://tracker.example.com/p.gif';
+		expect(pixel.getAttribute('src')).toBeNull();
+		pixel.src = 'https://cdn.example.com/logo.png';
+		expect(pixel.getAttribute('src')).toBe('https://cdn.example.com/logo.png');
+
+		expect(() => new WebSocket('wss://tracker.example.com/live')).toThrow(
+			expect.objectContaining({ name: 'SecurityError' })
+		);
+		const socket = new WebSocket('wss://cdn.example.com/live');
+		expect(socket).toBeInstanceOf(MockWebSocket);
+		expect(WebSocket.OPEN).toBe(1);
+
+		expect(() => new EventSource('https://tracker.example.com/s')).toThrow(
+			expect.objectContaining({ name: 'SecurityError' })
+		);
+		expect(new EventSource('https://cdn.example.com/s')).toBeInstanceOf(
+			MockEventSource
+		);
+
+		expect(
+			onRequestBlocked.mock.calls.map(([info]) => [
+				info.transport,
+				info.method,
+				info.url,
+			])
+		).toEqual([
+			['beacon', 'POST', 'https://tracker.example.com/b'],
+			['image', 'GET', 'https://tracker.example.com/p.gif'],
+			['websocket', 'GET', 'wss://tracker.example.com/live'],
+			['eventSource', 'GET', 'https://tracker.example.com/s'],
+		]);
+
+		manager.destroyNetworkBlocker();
+	});
+
+	it('should block image sources set with setAttribute or srcset', async () => {
+		const { manager, onRequestBlocked } = createManager();
+		const onError = vi.fn();
+
+		const pixel = document.createElement('img');
+		pixel.addEventListener('error', onError);
+		pixel.setAttribute('SRC', 'https://tracker.example.com/p.gif');
+		pixel.setAttribute(
+			'srcset',
+			'https://cdn.example.com/1x.png 1x, https://tracker.example.com/2x.png 2x'
+		);
+		pixel.srcset = 'https://tracker.example.com/p.gif 100w';
+		expect(pixel.hasAttribute('src')).toBe(false);
+		expect(pixel.hasAttribute('srcset')).toBe(false);
+
+		pixel.setAttribute('src', 'https://cdn.example.com/logo.png');
+		pixel.srcset = 'https://cdn.example.com/logo@2x.png 2x';
+		pixel.setAttribute('alt', 'https://tracker.example.com/p.gif');
+		expect(pixel.getAttribute('src')).toBe('https://cdn.example.com/logo.png');
+		expect(pixel.getAttribute('srcset')).toBe(
+			'https://cdn.example.com/logo@2x.png 2x'
+		);
+		expect(pixel.getAttribute('alt')).toBe('https://tracker.example.com/p.gif');
+
+		await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(3));
+		expect(onRequestBlocked.mock.calls.map(([info]) => info.url)).toEqual([
+			'https://tracker.example.com/p.gif',
+			'https://tracker.example.com/2x.png',
+			'https://tracker.example.com/p.gif',
+		]);
+
+		manager.destroyNetworkBlocker();
+	});
+
+	it('should leave disabled transports untouched', () => {
+		const { manager, onRequestBlocked } = createManager({
+			transports: { beacon: false, websocket: false },
+		});
+
+		expect(navigator.sendBeacon).toBe(sendBeacon);
+		expect(window.WebSocket).toBe(MockWebSocket);
+		expect(window.EventSource).not.toBe(MockEventSource);
+
+		// Disabled at call time too, e.g. after setNetworkBlocker
+		manager.setNetworkBlocker({
+			...config,
+			onRequestBlocked,
+			transports: { eventSource: false },
+		});
+		getState.mockReturnValue(
+			createState({
+				...config,
+				onRequestBlocked,
+				transports: { eventSource: false },
+			})
+		);
+
+		expect(new EventSource('https://tracker.example.com/s')).toBeInstanceOf(
+			MockEventSource
+		);
+		expect(navigator.sendBeacon('https://tracker.example.com/b')).toBe(false);
+		expect(onRequestBlocked).toHaveBeenCalledTimes(1);
+
+		manager.destroyNetworkBlocker();
+	});
+
+	it('should restore every transport on destroyNetworkBlocker', () => {
+		const imageSrc = Object.getOwnPropertyDescriptor(
+			HTMLImageElement.prototype,
+			'src'
+		);
+		const { manager } = createManager();
+
+		expect(navigator.sendBeacon).not.toBe(sendBeacon);
+		expect(window.WebSocket).not.toBe(MockWebSocket);
+
+		manager.destroyNetworkBlocker();
+
+		expect(navigator.sendBeacon).toBe(sendBeacon);
+		expect(window.WebSocket).toBe(MockWebSocket);
+		expect(window.EventSource).toBe(MockEventSource);
+		expect(
+			Object.getOwnPropertyDescriptor(HTMLImageElement.prototype, 'src')
+		).toEqual(imageSrc);
+		expect(Object.hasOwn(HTMLImageElement.prototype, 'setAttribute')).toBe(
+			false
+		);
+	});
+});
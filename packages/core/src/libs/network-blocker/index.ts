@@ -6,4 +6,9 @@
 
 export { shouldBlockRequest } from './core';
 export { createNetworkBlockerManager } from './store';
-export type { NetworkBlockerConfig, NetworkBlockerRule } from './types';
+export type {
+	BlockedRequestInfo,
+	NetworkBlockerConfig,
+	NetworkBlockerRule,
+	NetworkBlockerTransport,
+} from './types';
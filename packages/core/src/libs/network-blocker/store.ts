@@ -1,20 +1,60 @@
 import type { ConsentStoreState } from '../../store/type';
 import type { ConsentState } from '../../types';
 import { shouldBlockRequest } from './core';
-import type { BlockedRequestInfo, NetworkBlockerConfig } from './types';
+import type {
+	BlockedRequestInfo,
+	NetworkBlockerConfig,
+	NetworkBlockerTransport,
+} from './types';
 
 type SetState = (partial: Partial<ConsentStoreState>) => void;
 type GetState = () => ConsentStoreState;
 type XhrOpen = XMLHttpRequest['open'];
 type XhrSend = XMLHttpRequest['send'];
+type SendBeacon = Navigator['sendBeacon'];
+
+function isTransportEnabled(
+	config: NetworkBlockerConfig | undefined,
+	transport: NetworkBlockerTransport
+): boolean {
+	return config?.transports?.[transport] !== false;
+}
+
+/**
+ * Wraps a constructor so that instances for blocked URLs are never created.
+ *
+ * @remarks
+ * A proxy keeps static members, `prototype` and `instanceof` checks intact.
+ * Blocked constructions throw a `SecurityError`, like a browser does for a
+ * connection it refuses to open.
+ */
+function createBlockingConstructor<
+	T extends abstract new (
+		...args: never[]
+	) => object,
+>(original: T, isBlocked: (url: string) => boolean): T {
+	return new Proxy(original, {
+		construct(target, args, newTarget) {
+			if (isBlocked(String(args[0] ?? ''))) {
+				throw new DOMException(
+					'Request blocked by consent manager',
+					'SecurityError'
+				);
+			}
+
+			return Reflect.construct(target, args, newTarget);
+		},
+	});
+}
 
 /**
  * Creates a network blocker manager that integrates with the main consent store.
  *
  * @remarks
  * The returned methods are designed to be spread into the
- * {@link ConsentStoreState} and provide network-blocking behavior for both
- * `fetch` and `XMLHttpRequest` based on the current consent snapshot.
+ * {@link ConsentStoreState} and provide network-blocking behavior for
+ * `fetch`, `XMLHttpRequest`, `navigator.sendBeacon`, image pixels,
+ * `WebSocket` and `EventSource` based on the current consent snapshot.
  *
  * This helper is browser-only and will no-op when `window` is undefined.
  *
@@ -30,6 +70,12 @@ export function createNetworkBlockerManager(get: GetState, _set: SetState) {
 	let originalFetch: typeof fetch | null = null;
 	let originalXhrOpen: XhrOpen | null = null;
 	let originalXhrSend: XhrSend | null = null;
+	let originalSendBeacon: SendBeacon | null = null;
+	let originalImageSrc: PropertyDescriptor | null = null;
+	let originalImageSrcset: PropertyDescriptor | null = null;
+	let isImageSetAttributePatched = false;
+	let originalWebSocket: typeof WebSocket | null = null;
+	let originalEventSource: typeof EventSource | null = null;
 
 	let isInitialized = false;
 	let blockingConsents: ConsentState | null = null;
@@ -65,6 +111,45 @@ export function createNetworkBlockerManager(get: GetState, _set: SetState) {
 		return get().consents;
 	};
 
+	/**
+	 * Evaluates a request made with one of the non-`fetch`/XHR transports and
+	 * reports it when blocked.
+	 */
+	const isRequestBlocked = (
+		transport: NetworkBlockerTransport,
+		method: string,
+		url: string
+	): boolean => {
+		const config = get().networkBlocker;
+
+		const isEnabled = config?.enabled !== false;
+		const hasRules = isEnabled && config?.rules && config?.rules.length > 0;
+
+		if (!hasRules || !isTransportEnabled(config, transport)) {
+			return false;
+		}
+
+		const { shouldBlock, rule } = shouldBlockRequest(
+			{
+				url,
+				method,
+			},
+			getBlockingConsents(),
+			config
+		);
+
+		if (shouldBlock) {
+			notifyBlockedRequest(config, {
+				transport,
+				method,
+				url,
+				rule,
+			});
+		}
+
+		return shouldBlock;
+	};
+
 	const patchFetch = () => {
 		if (typeof window === 'undefined') {
 			return;
@@ -96,7 +181,7 @@ export function createNetworkBlockerManager(get: GetState, _set: SetState) {
 			const hasRules =
 				config?.enabled && config?.rules && config?.rules.length > 0;
 
-			if (!hasRules) {
+			if (!hasRules || !isTransportEnabled(config, 'fetch')) {
 				return originalFetch.call(window, input, init);
 			}
 
@@ -129,6 +214,7 @@ export function createNetworkBlockerManager(get: GetState, _set: SetState) {
 
 			if (shouldBlock) {
 				notifyBlockedRequest(config, {
+					transport: 'fetch',
 					method,
 					url,
 					rule,
@@ -205,7 +291,7 @@ export function createNetworkBlockerManager(get: GetState, _set: SetState) {
 			const isEnabled = config?.enabled !== false;
 			const hasRules = isEnabled && config?.rules && config?.rules.length > 0;
 
-			if (hasRules) {
+			if (hasRules && isTransportEnabled(config, 'xhr')) {
 				const internal = this as unknown as {
 					__c15tMethod?: string;
 					__c15tUrl?: string;
@@ -226,6 +312,7 @@ export function createNetworkBlockerManager(get: GetState, _set: SetState) {
 
 				if (shouldBlock) {
 					notifyBlockedRequest(config, {
+						transport: 'xhr',
 						method,
 						url,
 						rule,
@@ -256,9 +343,250 @@ export function createNetworkBlockerManager(get: GetState, _set: SetState) {
 		};
 	};
 
+	const patchSendBeacon = () => {
+		if (typeof navigator === 'undefined') {
+			return;
+		}
+
+		if (typeof navigator.sendBeacon !== 'function') {
+			return;
+		}
+
+		if (originalSendBeacon) {
+			return;
+		}
+
+		originalSendBeacon = navigator.sendBeacon;
+
+		navigator.sendBeacon = (
+			url: string | URL,
+			data?: BodyInit | null
+		): boolean => {
+			if (!originalSendBeacon) {
+				throw new Error('Network blocker sendBeacon wrapper not initialized.');
+			}
+
+			// Report the beacon as not queued, like a browser over its quota
+			if (isRequestBlocked('beacon', 'POST', url.toString())) {
+				return false;
+			}
+
+			return originalSendBeacon.call(navigator, url, data);
+		};
+	};
+
+	/**
+	 * Whether an image `src` or `srcset` value loads a blocked URL. A
+	 * `srcset` is blocked when any of its candidates is.
+	 */
+	const isImageSourceBlocked = (attribute: 'src' | 'srcset', value: string) => {
+		if (attribute === 'src') {
+			return isRequestBlocked('image', 'GET', value);
+		}
+
+		return value
+			.split(',')
+			.map((candidate) => candidate.trim().split(/\s+/)[0] ?? '')
+			.filter((url) => url.length > 0)
+			.some((url) => isRequestBlocked('image', 'GET', url));
+	};
+
+	// Fail like a broken image; loads never settle synchronously
+	const failImage = (image: HTMLImageElement) => {
+		setTimeout(() => image.dispatchEvent(new Event('error')), 0);
+	};
+
+	const patchImageSource = (
+		prototype: HTMLImageElement,
+		attribute: 'src' | 'srcset'
+	): PropertyDescriptor | null => {
+		const descriptor = Object.getOwnPropertyDescriptor(prototype, attribute);
+		const originalSet = descriptor?.set;
+
+		if (!descriptor || !originalSet) {
+			return null;
+		}
+
+		Object.defineProperty(prototype, attribute, {
+			...descriptor,
+			set(this: HTMLImageElement, value: string) {
+				if (isImageSourceBlocked(attribute, String(value))) {
+					failImage(this);
+					return;
+				}
+
+				originalSet.call(this, value);
+			},
+		});
+
+		return descriptor;
+	};
+
+	const patchImage = () => {
+		if (typeof window === 'undefined') {
+			return;
+		}
+
+		if (typeof window.HTMLImageElement === 'undefined') {
+			return;
+		}
+
+		if (originalImageSrc) {
+			return;
+		}
+
+		const prototype = window.HTMLImageElement.prototype;
+
+		originalImageSrc = patchImageSource(prototype, 'src');
+		if (!originalImageSrc) {
+			return;
+		}
+		originalImageSrcset = patchImageSource(prototype, 'srcset');
+
+		// `setAttribute` is inherited from Element; shadow it for images only
+		const originalSetAttribute = prototype.setAttribute;
+		prototype.setAttribute = function (
+			this: HTMLImageElement,
+			name: string,
+			value: string
+		) {
+			const attribute = name.toLowerCase();
+			if (
+				(attribute === 'src' || attribute === 'srcset') &&
+				isImageSourceBlocked(attribute, String(value))
+			) {
+				failImage(this);
+				return;
+			}
+
+			originalSetAttribute.call(this, name, value);
+		};
+		isImageSetAttributePatched = true;
+	};
+
+	const patchWebSocket = () => {
+		if (typeof window === 'undefined') {
+			return;
+		}
+
+		if (typeof window.WebSocket !== 'function') {
+			return;
+		}
+
+		if (originalWebSocket) {
+			return;
+		}
+
+		originalWebSocket = window.WebSocket;
+		window.WebSocket = createBlockingConstructor(originalWebSocket, (url) =>
+			isRequestBlocked('websocket', 'GET', url)
+		);
+	};
+
+	const patchEventSource = () => {
+		if (typeof window === 'undefined') {
+			return;
+		}
+
+		if (typeof window.EventSource !== 'function') {
+			return;
+		}
+
+		if (originalEventSource) {
+			return;
+		}
+
+		originalEventSource = window.EventSource;
+		window.EventSource = createBlockingConstructor(originalEventSource, (url) =>
+			isRequestBlocked('eventSource', 'GET', url)
+		);
+	};
+
+	/**
+	 * Patches every transport that is enabled in the configuration.
+	 * Transports that are already patched are left as they are.
+	 */
+	const patchTransports = (config: NetworkBlockerConfig | undefined) => {
+		if (isTransportEnabled(config, 'fetch')) {
+			patchFetch();
+		}
+
+		if (isTransportEnabled(config, 'xhr')) {
+			patchXmlHttpRequest();
+		}
+
+		if (isTransportEnabled(config, 'beacon')) {
+			patchSendBeacon();
+		}
+
+		if (isTransportEnabled(config, 'image')) {
+			patchImage();
+		}
+
+		if (isTransportEnabled(config, 'websocket')) {
+			patchWebSocket();
+		}
+
+		if (isTransportEnabled(config, 'eventSource')) {
+			patchEventSource();
+		}
+	};
+
+	const restoreTransports = () => {
+		if (originalFetch) {
+			window.fetch = originalFetch;
+			originalFetch = null;
+		}
+
+		if (originalXhrOpen && originalXhrSend) {
+			window.XMLHttpRequest.prototype.open = originalXhrOpen;
+			window.XMLHttpRequest.prototype.send = originalXhrSend;
+			originalXhrOpen = null;
+			originalXhrSend = null;
+		}
+
+		if (originalSendBeacon) {
+			navigator.sendBeacon = originalSendBeacon;
+			originalSendBeacon = null;
+		}
+
+		if (originalImageSrc) {
+			Object.defineProperty(
+				window.HTMLImageElement.prototype,
+				'src',
+				originalImageSrc
+			);
+			originalImageSrc = null;
+		}
+
+		if (originalImageSrcset) {
+			Object.defineProperty(
+				window.HTMLImageElement.prototype,
+				'srcset',
+				originalImageSrcset
+			);
+			originalImageSrcset = null;
+		}
+
+		if (isImageSetAttributePatched) {
+			Reflect.deleteProperty(window.HTMLImageElement.prototype, 'setAttribute');
+			isImageSetAttributePatched = false;
+		}
+
+		if (originalWebSocket) {
+			window.WebSocket = originalWebSocket;
+			originalWebSocket = null;
+		}
+
+		if (originalEventSource) {
+			window.EventSource = originalEventSource;
+			originalEventSource = null;
+		}
+	};
+
 	return {
 		/**
-		 * Initializes the network blocker by patching global fetch and XHR.
+		 * Initializes the network blocker by patching the enabled transports.
 		 *
 		 * @remarks
 		 * - No-ops when running in non-browser environments
@@ -292,8 +620,7 @@ export function createNetworkBlockerManager(get: GetState, _set: SetState) {
 
 			blockingConsents = state.consents;
 
-			patchFetch();
-			patchXmlHttpRequest();
+			patchTransports(config);
 
 			isInitialized = true;
 		},
@@ -336,17 +663,7 @@ export function createNetworkBlockerManager(get: GetState, _set: SetState) {
 					return;
 				}
 
-				if (originalFetch) {
-					window.fetch = originalFetch;
-					originalFetch = null;
-				}
-
-				if (originalXhrOpen && originalXhrSend) {
-					window.XMLHttpRequest.prototype.open = originalXhrOpen;
-					window.XMLHttpRequest.prototype.send = originalXhrSend;
-					originalXhrOpen = null;
-					originalXhrSend = null;
-				}
+				restoreTransports();
 
 				blockingConsents = null;
 				isInitialized = false;
@@ -355,19 +672,21 @@ export function createNetworkBlockerManager(get: GetState, _set: SetState) {
 
 			if (!isInitialized) {
 				blockingConsents = get().consents;
-				patchFetch();
-				patchXmlHttpRequest();
 				isInitialized = true;
 			}
+
+			// Also picks up transports enabled after initialization
+			patchTransports(config);
 		},
 
 		/**
 		 * Destroys the network blocker and restores the original browser APIs.
 		 *
 		 * @remarks
-		 * Restores the original `fetch` and `XMLHttpRequest` implementations
-		 * and clears the internal consent snapshot. Safe to call multiple
-		 * times and in non-browser environments.
+		 * Restores the original `fetch`, `XMLHttpRequest`,
+		 * `navigator.sendBeacon`, image `src`, `WebSocket` and `EventSource`
+		 * implementations and clears the internal consent snapshot. Safe to
+		 * call multiple times and in non-browser environments.
 		 */
 		destroyNetworkBlocker: () => {
 			if (!isInitialized) {
@@ -378,17 +697,7 @@ export function createNetworkBlockerManager(get: GetState, _set: SetState) {
 				return;
 			}
 
-			if (originalFetch) {
-				window.fetch = originalFetch;
-				originalFetch = null;
-			}
-
-			if (originalXhrOpen && originalXhrSend) {
-				window.XMLHttpRequest.prototype.open = originalXhrOpen;
-				window.XMLHttpRequest.prototype.send = originalXhrSend;
-				originalXhrOpen = null;
-				originalXhrSend = null;
-			}
+			restoreTransports();
 
 			blockingConsents = null;
 			isInitialized = false;
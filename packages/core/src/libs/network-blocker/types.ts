@@ -70,12 +70,38 @@ export interface NetworkBlockerRule {
 	category: HasCondition<AllConsentNames>;
 }
 
+/**
+ * Browser APIs that the network blocker can intercept.
+ *
+ * @remarks
+ * - `fetch`: `window.fetch`
+ * - `xhr`: `XMLHttpRequest`
+ * - `beacon`: `navigator.sendBeacon`, matched as `POST`
+ * - `image`: the `src` and `srcset` of image elements, set as properties
+ *   (e.g. `new Image().src` tracking pixels) or with `setAttribute`, matched
+ *   as `GET`. Images parsed from HTML markup are not intercepted
+ * - `websocket`: `new WebSocket()`, matched as `GET`
+ * - `eventSource`: `new EventSource()`, matched as `GET`
+ *
+ * @public
+ */
+export type NetworkBlockerTransport =
+	| 'fetch'
+	| 'xhr'
+	| 'beacon'
+	| 'image'
+	| 'websocket'
+	| 'eventSource';
+
 /**
  * Information about a blocked network request.
  *
  * @public
  */
 export interface BlockedRequestInfo {
+	/** The browser API the request was made with. */
+	transport: NetworkBlockerTransport;
+
 	/** The HTTP method of the blocked request (e.g. GET, POST). */
 	method: string;
 
@@ -127,11 +153,27 @@ export interface NetworkBlockerConfig {
 	 * Callback invoked whenever a request is blocked.
 	 *
 	 * @remarks
-	 * This callback is called for both `fetch` and `XMLHttpRequest` requests.
-	 * It is invoked immediately after the decision to block the request.
+	 * This callback is called for requests made with every enabled
+	 * transport. It is invoked immediately after the decision to block the
+	 * request.
 	 */
 	onRequestBlocked?: (info: BlockedRequestInfo) => void;
 
+	/**
+	 * Which browser APIs to intercept.
+	 *
+	 * @remarks
+	 * Every transport is intercepted unless set to `false` here. Requests made
+	 * with a disabled transport are never blocked.
+	 *
+	 * @example
+	 * Leave WebSocket connections alone:
+	 * ```ts
+	 * transports: { websocket: false }
+	 * ```
+	 */
+	transports?: Partial<Record<NetworkBlockerTransport, boolean>>;
+
 	/**
 	 * Domain rules that determine which requests should be blocked.
 	 */
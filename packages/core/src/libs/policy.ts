@@ -6,7 +6,7 @@ import type {
 	PolicyUiMode,
 } from '@c15t/schema/types';
 import type { ConsentState } from '../types/compliance';
-import { type AllConsentNames, allConsentNames } from '../types/consent-types';
+import type { AllConsentNames } from '../types/consent-types';
 
 type ResolvedPolicy = InitOutput['policy'];
 
@@ -30,10 +30,6 @@ export interface PolicyValidationIssue {
 	message: string;
 }
 
-function isConsentCategory(value: string): value is AllConsentNames {
-	return allConsentNames.includes(value as AllConsentNames);
-}
-
 function flattenLayout(layout?: PolicyUiActionGroup[]): PolicyUiAction[] {
 	if (!layout) {
 		return [];
@@ -123,9 +119,9 @@ export function filterConsentCategoriesByPolicy(
 		return uniqueCategories;
 	}
 
-	const allowedCategories = new Set<AllConsentNames>([
+	const allowedCategories = new Set<string>([
 		'necessary',
-		...allowedPurposeIds.filter(isConsentCategory),
+		...allowedPurposeIds,
 	]);
 	const filtered = uniqueCategories.filter((category) =>
 		allowedCategories.has(category)
@@ -17,6 +17,7 @@ import {
 	stripDisallowedPreferenceKeys,
 } from './policy';
 import { sanitizeSubjectIdentifiers } from './sanitize-subject-identifiers';
+import { clearRevokedScriptStorage } from './script-loader/cleanup';
 
 /**
  * Storage key for pending consent sync after page reload.
@@ -63,7 +64,7 @@ interface SaveConsentsProps {
  * - User is declining consent for the first time (no prior consent)
  * - User is only adding consent (no revocations)
  */
-function shouldReloadOnConsentChange(
+export function shouldReloadOnConsentChange(
 	previousConsents: ConsentState,
 	newConsents: ConsentState,
 	previousConsentInfo: ConsentInfo | null,
@@ -99,7 +100,7 @@ function shouldReloadOnConsentChange(
 	return wasAnyConsentRevoked;
 }
 
-function haveConsentsChanged(
+export function haveConsentsChanged(
 	previousConsents: ConsentState,
 	nextConsents: ConsentState,
 	consentTypes: ConsentType[]
@@ -110,7 +111,7 @@ function haveConsentsChanged(
 	);
 }
 
-function getConsentCategoryLists(
+export function getConsentCategoryLists(
 	consents: ConsentState,
 	consentCategories: ConsentStoreState['consentCategories'],
 	consentTypes: ConsentType[]
@@ -251,6 +252,9 @@ export async function saveConsents({
 		time: givenAt,
 		subjectId,
 		materialPolicyFingerprint,
+		categories: Object.fromEntries(
+			consentCategories.map((category) => [category, true])
+		),
 		...(externalId ? { externalId } : {}),
 		...(identityProvider ? { identityProvider } : {}),
 	};
@@ -272,6 +276,7 @@ export async function saveConsents({
 		selectedConsents: effectiveConsents,
 		activeUI: 'none' as const,
 		consentInfo: nextConsentInfo,
+		requiresReconsent: false,
 	});
 
 	saveConsentToStorage(
@@ -283,6 +288,14 @@ export async function saveConsents({
 		get().storageConfig
 	);
 
+	// Delete cookies and storage of scripts whose category was revoked
+	clearRevokedScriptStorage(
+		get().scripts,
+		previousConsents,
+		effectiveConsents,
+		get().storageConfig
+	);
+
 	// If consent was revoked and reload is enabled, store pending sync and reload
 	if (needsReload) {
 		// Store pending sync data for API call after reload
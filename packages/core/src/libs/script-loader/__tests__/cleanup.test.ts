@@ -0,0 +1,104 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { afterEach, describe, expect, it } from 'vitest';
+import type { ConsentState } from '../../../types/compliance';
+import { clearRevokedScriptStorage } from '../cleanup';
+import type { Script } from '../types';
+
+const granted: ConsentState = {
+	necessary: true,
+	functionality: true,
+	marketing: true,
+	measurement: true,
+	experience: true,
+};
+
+const analytics: Script = {
+	id: 'google-analytics',
+	src: 'https://www.googletagmanager.com/gtag/js?id=G-TEST',
+	category: 'measurement',
+	cleanupOnRevoke: {
+		cookies: ['_ga', '_ga_*'],
+		storageKeys: ['ga:*'],
+	},
+};
+
+const pixel: Script = {
+	id: 'meta-pixel',
+	src: 'https://connect.facebook.net/en_US/fbevents.js',
+	category: 'marketing',
+	cleanupOnRevoke: { cookies: ['_fbp'] },
+};
+
+function cookieNames(): string[] {
+	return document.cookie
+		.split(';')
+		.map((cookie) => cookie.split('=')[0]?.trim())
+		.filter(Boolean) as string[];
+}
+
+describe('clearRevokedScriptStorage', () => {
+	afterEach(() => {
+		for (const name of cookieNames()) {
+			document.cookie = `${name}=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/`;
+		}
+		localStorage.clear();
+		sessionStorage.clear();
+	});
+
+	it('deletes matching cookies and storage keys of revoked scripts', () => {
+		document.cookie = '_ga=GA1.1.123; path=/';
+		document.cookie = '_ga_ABC123=GS1.1.456; path=/';
+		document.cookie = '_gaxyz=keep; path=/';
+		document.cookie = '_fbp=fb.1.789; path=/';
+		localStorage.setItem('ga:session', '1');
+		sessionStorage.setItem('ga:page', '1');
+		localStorage.setItem('other', '1');
+
+		const cleaned = clearRevokedScriptStorage([analytics, pixel], granted, {
+			...granted,
+			measurement: false,
+		});
+
+		expect(cleaned).toEqual(['google-analytics']);
+		expect(cookieNames().sort()).toEqual(['_fbp', '_gaxyz']);
+		expect(localStorage.getItem('ga:session')).toBeNull();
+		expect(sessionStorage.getItem('ga:page')).toBeNull();
+		expect(localStorage.getItem('other')).toBe('1');
+	});
+
+	it('does nothing when the category was not previously granted', () => {
+		document.cookie = '_ga=GA1.1.123; path=/';
+
+		const cleaned = clearRevokedScriptStorage(
+			[analytics],
+			{ ...granted, measurement: false },
+			{ ...granted, measurement: false }
+		);
+
+		expect(cleaned).toEqual([]);
+		expect(cookieNames()).toEqual(['_ga']);
+	});
+
+	it('never deletes the consent storage', () => {
+		document.cookie = 'c15t=i.t:1; path=/';
+		localStorage.setItem('c15t', '{}');
+
+		clearRevokedScriptStorage(
+			[
+				{
+					id: 'greedy',
+					category: 'measurement',
+					callbackOnly: true,
+					cleanupOnRevoke: { cookies: ['*'], storageKeys: ['*'] },
+				},
+			],
+			granted,
+			{ ...granted, measurement: false }
+		);
+
+		expect(cookieNames()).toEqual(['c15t']);
+		expect(localStorage.getItem('c15t')).toBe('{}');
+	});
+});
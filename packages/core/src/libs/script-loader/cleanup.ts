@@ -0,0 +1,161 @@
+/**
+ * @packageDocumentation
+ * Deletes cookies and web storage entries owned by scripts whose consent was
+ * revoked.
+ */
+
+import { STORAGE_KEY, STORAGE_KEY_V2 } from '../../store/initial-state';
+import type { ConsentState } from '../../types/compliance';
+import { deleteCookie, getRootDomain, type StorageConfig } from '../cookie';
+import { getDebugLogger } from '../debug';
+import { has } from '../has';
+import type { Script, ScriptStorageCleanup } from './types';
+
+/**
+ * Converts a name pattern into a regular expression. `*` matches any run of
+ * characters; everything else matches literally.
+ */
+function patternToRegExp(pattern: string): RegExp {
+	const source = pattern
+		.split('*')
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+		.join('.*');
+
+	return new RegExp(`^${source}$`);
+}
+
+function createMatcher(patterns: string[]): (name: string) => boolean {
+	const expressions = patterns.map(patternToRegExp);
+
+	return (name) => expressions.some((expression) => expression.test(name));
+}
+
+function getCookieNames(): string[] {
+	if (typeof document === 'undefined' || !document.cookie) {
+		return [];
+	}
+
+	return document.cookie
+		.split(';')
+		.map((cookie) => cookie.split('=')[0]?.trim() ?? '')
+		.filter(Boolean);
+}
+
+function getStorageKeys(storage: Storage): string[] {
+	const keys: string[] = [];
+
+	for (let index = 0; index < storage.length; index++) {
+		const key = storage.key(index);
+		if (key !== null) {
+			keys.push(key);
+		}
+	}
+
+	return keys;
+}
+
+/**
+ * Deletes cookies and `localStorage`/`sessionStorage` entries whose names
+ * match the given patterns.
+ *
+ * @remarks
+ * Cookies are deleted for the current host and for the root domain from
+ * {@link getRootDomain}, on path `/`, which is where trackers such as
+ * Google Analytics and the Meta Pixel set them. The consent storage itself
+ * is never deleted.
+ *
+ * @returns The names of the matching cookies and storage keys
+ *
+ * @internal
+ */
+export function clearStoragePatterns(
+	cleanup: ScriptStorageCleanup,
+	config?: StorageConfig
+): { cookies: string[]; storageKeys: string[] } {
+	const protectedKeys = new Set([
+		config?.storageKey || STORAGE_KEY_V2,
+		STORAGE_KEY,
+	]);
+	const result = { cookies: [] as string[], storageKeys: [] as string[] };
+
+	if (cleanup.cookies?.length) {
+		const matches = createMatcher(cleanup.cookies);
+		const rootDomain = getRootDomain();
+
+		for (const name of new Set(getCookieNames())) {
+			if (protectedKeys.has(name) || !matches(name)) {
+				continue;
+			}
+
+			deleteCookie(name, { crossSubdomain: false, domain: '' });
+			if (rootDomain) {
+				deleteCookie(name, { domain: rootDomain });
+			}
+			result.cookies.push(name);
+		}
+	}
+
+	if (cleanup.storageKeys?.length && typeof window !== 'undefined') {
+		const matches = createMatcher(cleanup.storageKeys);
+
+		for (const storageName of ['localStorage', 'sessionStorage'] as const) {
+			try {
+				const storage = window[storageName];
+				for (const key of getStorageKeys(storage)) {
+					if (!protectedKeys.has(key) && matches(key)) {
+						storage.removeItem(key);
+						result.storageKeys.push(key);
+					}
+				}
+			} catch {
+				// Storage might be unavailable (e.g. blocked by the browser)
+			}
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Deletes the cookies and storage entries of scripts whose category went from
+ * granted to denied.
+ *
+ * @param scripts - Configured scripts with `cleanupOnRevoke` patterns
+ * @param previousConsents - Consent state before the change
+ * @param consents - Consent state after the change
+ * @param config - Storage configuration, used to protect the consent storage
+ * @returns IDs of the scripts whose storage was cleaned up
+ *
+ * @internal
+ */
+export function clearRevokedScriptStorage(
+	scripts: Script[],
+	previousConsents: ConsentState,
+	consents: ConsentState,
+	config?: StorageConfig
+): string[] {
+	const cleanedScriptIds: string[] = [];
+
+	for (const script of scripts) {
+		if (!script.cleanupOnRevoke) {
+			continue;
+		}
+
+		const wasGranted = has(script.category, previousConsents);
+		const isGranted = has(script.category, consents);
+
+		if (!wasGranted || isGranted) {
+			continue;
+		}
+
+		const removed = clearStoragePatterns(script.cleanupOnRevoke, config);
+		cleanedScriptIds.push(script.id);
+
+		getDebugLogger().log('Cleared storage of revoked script', {
+			scriptId: script.id,
+			...removed,
+		});
+	}
+
+	return cleanedScriptIds;
+}
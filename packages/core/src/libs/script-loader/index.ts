@@ -31,6 +31,7 @@ export type {
 	ScriptDebugScope,
 	ScriptDebugSource,
 	ScriptLifecycleCallback,
+	ScriptStorageCleanup,
 	ScriptUpdateResult,
 } from './types';
 // Re-export utility functions
@@ -30,6 +30,22 @@ export interface ScriptCallbackInfo {
 	error?: Error;
 }
 
+/**
+ * Name patterns of the cookies and web storage entries a script owns.
+ *
+ * A `*` in a pattern matches any run of characters, e.g. `_ga_*`. Storage
+ * keys are matched in both `localStorage` and `sessionStorage`.
+ *
+ * @public
+ */
+export interface ScriptStorageCleanup {
+	/** Cookie name patterns */
+	cookies?: string[];
+
+	/** `localStorage` and `sessionStorage` key patterns */
+	storageKeys?: string[];
+}
+
 /**
  * Represents a script to be loaded based on consent conditions.
  *
@@ -78,6 +94,26 @@ export interface Script {
 	 */
 	persistAfterConsentRevoked?: boolean;
 
+	/**
+	 * Cookies and storage keys set by this script that are deleted when its
+	 * category goes from granted to denied.
+	 *
+	 * Cookies are deleted for the current host and the root domain.
+	 *
+	 * @example
+	 * ```ts
+	 * const script: Script = {
+	 *   id: 'google-analytics',
+	 *   src: 'https://www.googletagmanager.com/gtag/js?id=G-XXXX',
+	 *   category: 'measurement',
+	 *   cleanupOnRevoke: {
+	 *     cookies: ['_ga', '_ga_*', '_gid'],
+	 *   },
+	 * };
+	 * ```
+	 */
+	cleanupOnRevoke?: ScriptStorageCleanup;
+
 	/**
 	 * Whether the script should always load regardless of consent state.
 	 *
@@ -6,6 +6,7 @@
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AllConsentNames, ConsentType } from '../../types/consent-types';
 import { createConsentManagerStore } from '..';
 import { STORAGE_KEY_V2 } from '../initial-state';
 
@@ -923,6 +924,70 @@ describe('Consent Store', () => {
 		});
 	});
 
+	describe('Custom Consent Types', () => {
+		const aiTraining: ConsentType = {
+			name: 'ai_training' as AllConsentNames,
+			gdprType: 5,
+			defaultValue: false,
+			description: 'Allows us to train models on your content',
+			display: true,
+		};
+
+		it('should add custom categories to consents and displayed consents', () => {
+			const store = createConsentManagerStore(mockManager, {
+				customConsentTypes: [aiTraining],
+			});
+			const state = store.getState();
+
+			expect(state.consents).toMatchObject({
+				necessary: true,
+				ai_training: false,
+			});
+			expect(state.consentCategories).toEqual(['necessary', 'ai_training']);
+			expect(state.getDisplayedConsents()).toContainEqual(aiTraining);
+		});
+
+		it('should gate has() on custom categories', async () => {
+			const store = createConsentManagerStore(mockManager, {
+				customConsentTypes: [aiTraining],
+			});
+
+			store.getState().setSelectedConsent(aiTraining.name, true);
+			await store.getState().saveConsents('custom');
+
+			expect(store.getState().has(aiTraining.name)).toBe(true);
+			expect(
+				store.getState().has({ and: ['necessary', aiTraining.name] })
+			).toBe(true);
+		});
+
+		it('should not share custom categories with other stores', () => {
+			createConsentManagerStore(mockManager, {
+				customConsentTypes: [aiTraining],
+			});
+			const other = createConsentManagerStore(mockManager).getState();
+
+			expect(other.consents).not.toHaveProperty('ai_training');
+			expect(other.consentTypes.map((consent) => consent.name)).not.toContain(
+				'ai_training'
+			);
+			expect(() => other.has(aiTraining.name)).toThrow(
+				'Consent category "ai_training" not found'
+			);
+		});
+
+		it('should reset custom categories to their default value', async () => {
+			const store = createConsentManagerStore(mockManager, {
+				customConsentTypes: [{ ...aiTraining, defaultValue: true }],
+			});
+
+			await store.getState().saveConsents('necessary');
+			store.getState().resetConsents();
+
+			expect(store.getState().consents.ai_training).toBe(true);
+		});
+	});
+
 	describe('User Identification', () => {
 		it('should store user info immediately', async () => {
 			const store = createConsentManagerStore(mockManager);
@@ -7,12 +7,21 @@
 import { resolveTranslationInput } from '@c15t/translations';
 import { createStore } from 'zustand/vanilla';
 import type { ConsentManagerInterface } from '../client/client-factory';
+import { applySubjectConsentEvent } from '../libs/apply-subject-event';
 import type { StorageConfig } from '../libs/cookie';
 import {
 	deleteConsentFromStorage,
 	getConsentFromStorage,
 	saveConsentToStorage,
 } from '../libs/cookie';
+import {
+	applyCrossTabMessage,
+	createCrossTabChannel,
+} from '../libs/cross-tab-sync';
+import {
+	isBuiltInConsentName,
+	resolveConsentTypes,
+} from '../libs/custom-consent-types';
 import { setDebugEnabled } from '../libs/debug';
 import { generateSubjectId } from '../libs/generate-subject-id';
 import {
@@ -23,6 +32,7 @@ import {
 import type { IABConfig } from '../libs/iab-tcf/types';
 import { createIframeManager } from '../libs/iframe-blocker/store';
 import { initConsentManager } from '../libs/init-consent-manager';
+import { getDefaultConsents } from '../libs/init-consent-manager/store-updater';
 import { createNetworkBlockerManager } from '../libs/network-blocker/store';
 import {
 	filterConsentCategoriesByPolicy,
@@ -39,11 +49,7 @@ import type {
 } from '../types';
 import type { Callbacks } from '../types/callbacks';
 import type { ConsentBannerResponse, ConsentState } from '../types/compliance';
-import {
-	type AllConsentNames,
-	type ConsentInfo,
-	consentTypes,
-} from '../types/consent-types';
+import type { AllConsentNames, ConsentInfo } from '../types/consent-types';
 import { initialState } from './initial-state';
 import type { ConsentStoreState, StoreOptions } from './type';
 
@@ -80,13 +86,16 @@ interface StoredConsent {
  * @returns The stored consent data or null if not available
  * @internal
  */
-const getStoredConsent = (config?: StorageConfig): StoredConsent | null => {
+const getStoredConsent = (
+	config?: StorageConfig,
+	consentNames?: AllConsentNames[]
+): StoredConsent | null => {
 	if (typeof window === 'undefined') {
 		return null;
 	}
 
 	try {
-		return getConsentFromStorage(config);
+		return getConsentFromStorage(config, consentNames);
 	} catch (e) {
 		console.error('Failed to retrieve stored consent:', e);
 		return null;
@@ -160,6 +169,9 @@ export const createConsentManagerStore = (
 		initialI18nConfig,
 		enabled: _unusedEnabled,
 		debug: _unusedDebug,
+		liveConsentSync,
+		crossTabSync = true,
+		customConsentTypes,
 		// The rest are valid StoreConfig properties
 		...storeConfigOptions
 	} = options;
@@ -174,24 +186,52 @@ export const createConsentManagerStore = (
 	// Enable the global debug logger based on the debug option
 	setDebugEnabled(options.debug === true);
 
+	// Custom categories belong to this store only, so other stores in the same
+	// page or process never see them
+	const storeConsentTypes = resolveConsentTypes(customConsentTypes);
+	const displayedCustomConsentNames = storeConsentTypes
+		.filter((consent) => consent.display && !isBuiltInConsentName(consent.name))
+		.map((consent) => consent.name);
+	const defaultConsents = getDefaultConsents(storeConsentTypes);
+
 	// Load initial state from localStorage if available
-	const storedConsent = getStoredConsent(options.storageConfig);
+	const storedConsent = getStoredConsent(
+		options.storageConfig,
+		storeConsentTypes.map((consent) => consent.name)
+	);
 	const consentChangeListeners = new Set<Callback<OnConsentChangedPayload>>();
 
+	const emitConsentChanged = (payload: OnConsentChangedPayload) => {
+		store.getState().callbacks.onConsentChanged?.(payload);
+
+		for (const listener of consentChangeListeners) {
+			listener(payload);
+		}
+	};
+
 	const store = createStore<ConsentStoreState>((set, get) => ({
 		...initialState,
 		...storeConfigOptions,
 		namespace,
 		// IAB manager is created lazily during initConsentManager when iab config is provided
 		iab: null,
+		consents: defaultConsents,
+		selectedConsents: defaultConsents,
+		consentTypes: storeConsentTypes,
 		// Apply initial consent categories if provided
-		...(initialConsentCategories && {
-			consentCategories: initialConsentCategories,
+		...((initialConsentCategories ||
+			displayedCustomConsentNames.length > 0) && {
+			consentCategories: Array.from(
+				new Set([
+					...(initialConsentCategories ?? initialState.consentCategories),
+					...displayedCustomConsentNames,
+				])
+			),
 		}),
 		...(storedConsent
 			? {
-					consents: storedConsent.consents,
-					selectedConsents: storedConsent.consents,
+					consents: { ...defaultConsents, ...storedConsent.consents },
+					selectedConsents: { ...defaultConsents, ...storedConsent.consents },
 					consentInfo: storedConsent.consentInfo,
 					user: storedConsent.consentInfo?.externalId
 						? {
@@ -246,13 +286,7 @@ export const createConsentManagerStore = (
 				get,
 				set,
 				options,
-				emitConsentChanged: (payload) => {
-					get().callbacks.onConsentChanged?.(payload);
-
-					for (const listener of consentChangeListeners) {
-						listener(payload);
-					}
-				},
+				emitConsentChanged,
 			}),
 
 		setConsent: (name, value) => {
@@ -276,10 +310,7 @@ export const createConsentManagerStore = (
 		},
 		resetConsents: () => {
 			set(() => {
-				const consents = consentTypes.reduce((acc, consent) => {
-					acc[consent.name] = consent.defaultValue;
-					return acc;
-				}, {} as ConsentState);
+				const consents = getDefaultConsents(get().consentTypes);
 
 				const resetState = {
 					consents,
@@ -668,6 +699,77 @@ export const createConsentManagerStore = (
 		}
 
 		store.getState().initConsentManager();
+
+		// Follow consents recorded in other sessions of the same subject or user
+		const subscribe = manager.subscribeToSubjectEvents?.bind(manager);
+		if (liveConsentSync && subscribe) {
+			let subscribedSubjectId: string | undefined;
+			let unsubscribe: (() => void) | undefined;
+
+			const syncSubscription = (subjectId: string | undefined) => {
+				if (subjectId === subscribedSubjectId) {
+					return;
+				}
+				unsubscribe?.();
+				unsubscribe = undefined;
+				subscribedSubjectId = subjectId;
+
+				if (subjectId) {
+					unsubscribe = subscribe(subjectId, (event) =>
+						applySubjectConsentEvent({
+							event,
+							get: store.getState,
+							set: store.setState,
+							emitConsentChanged,
+						})
+					);
+				}
+			};
+
+			syncSubscription(store.getState().consentInfo?.subjectId);
+			store.subscribe((state) =>
+				syncSubscription(state.consentInfo?.subjectId)
+			);
+		}
+
+		// Share saved consents and identity changes with other tabs
+		if (crossTabSync) {
+			let isApplyingCrossTabMessage = false;
+			const channel = createCrossTabChannel(
+				options.storageConfig,
+				(message) => {
+					isApplyingCrossTabMessage = true;
+					try {
+						applyCrossTabMessage({
+							message,
+							get: store.getState,
+							set: store.setState,
+							emitConsentChanged,
+						});
+					} finally {
+						isApplyingCrossTabMessage = false;
+					}
+				},
+				storeConsentTypes.map((consent) => consent.name)
+			);
+
+			if (channel) {
+				store.subscribe((state, previousState) => {
+					if (
+						isApplyingCrossTabMessage ||
+						(state.consentInfo === previousState.consentInfo &&
+							state.user === previousState.user)
+					) {
+						return;
+					}
+					channel.post({
+						consents: state.consents,
+						consentInfo: state.consentInfo,
+						user: state.user,
+					});
+				});
+			}
+		}
 	}
 
 	return store;
@@ -135,6 +135,12 @@ export const initialState: StoreRuntimeState = {
 	/** Reload page when consent is revoked (recommended for privacy compliance) */
 	reloadOnConsentRevoked: true,
 
+	/** Ask for consent again when the policy changes */
+	reconsentStrategy: 'reprompt',
+
+	/** No policy change detected yet */
+	requiresReconsent: false,
+
 	/** SSR data was not used initially */
 	ssrDataUsed: false,
 
@@ -64,6 +64,15 @@ export type {
  */
 export type ActiveUI = 'none' | 'banner' | 'dialog';
 
+/**
+ * What to do with a stored consent when the active policy changes.
+ *
+ * @see {@link StoreOptions.reconsentStrategy}
+ *
+ * @public
+ */
+export type ReconsentStrategy = 'reprompt' | 'new-categories' | 'keep';
+
 // Re-export canonical policy types from @c15t/schema
 export type {
 	PolicyScopeMode,
@@ -518,6 +527,31 @@ export interface StoreOptions extends Partial<StoreConfig> {
 	 */
 	initialConsentCategories?: AllConsentNames[];
 
+	/**
+	 * Consent categories this store offers next to the five built-in ones.
+	 *
+	 * @remarks
+	 * Categories only exist on the store they are passed to. Categories with
+	 * `display: true` are added to the active consent categories. Augment `CustomConsentNames` to type their names, and add
+	 * translations under `consentTypes.<name>`.
+	 *
+	 * @example
+	 * ```typescript
+	 * customConsentTypes: [
+	 *   {
+	 *     name: 'personalization',
+	 *     gdprType: 3,
+	 *     defaultValue: false,
+	 *     description: 'Tailors content to your interests.',
+	 *     display: true,
+	 *   },
+	 * ]
+	 * ```
+	 *
+	 * @see {@link ConsentType} for the configuration of each category
+	 */
+	customConsentTypes?: ConsentType[];
+
 	/**
 	 * Configuration for the iframe blocker.
 	 * Controls how iframes are blocked based on consent settings.
@@ -652,6 +686,56 @@ export interface StoreOptions extends Partial<StoreConfig> {
 	 * @default true (recommended for privacy compliance)
 	 */
 	reloadOnConsentRevoked?: boolean;
+
+	/**
+	 * Keeps consent in sync with other tabs and devices of the same user while
+	 * the page is open.
+	 *
+	 * @remarks
+	 * Subscribes to the backend's `GET /subjects/:id/events` stream once the
+	 * subject is known, and applies cookie banner consents recorded in other
+	 * sessions without reloading. Revocations follow
+	 * {@link StoreOptions.reloadOnConsentRevoked}.
+	 *
+	 * Only supported in hosted mode.
+	 *
+	 * @default false
+	 */
+	liveConsentSync?: boolean;
+
+	/**
+	 * What to do with a stored consent when the active policy changes.
+	 *
+	 * @remarks
+	 * The consent is stored with a fingerprint of the policy's material
+	 * settings, such as its model and categories. When `/init` returns a
+	 * policy with a different fingerprint:
+	 * - `'reprompt'` discards the stored consent and shows the banner again
+	 * - `'new-categories'` keeps the stored choices and shows the banner only
+	 *   when the policy displays categories the visitor was not asked about;
+	 *   those start from their default value
+	 * - `'keep'` keeps the stored consent and adopts the new fingerprint
+	 *
+	 * Consents stored before c15t recorded the displayed categories are
+	 * handled as `'reprompt'` by `'new-categories'`.
+	 *
+	 * @default 'reprompt'
+	 */
+	reconsentStrategy?: ReconsentStrategy;
+
+	/**
+	 * Keeps consent in sync with other open tabs of the same site.
+	 *
+	 * @remarks
+	 * Saved consents and user identity changes are broadcast to the other tabs
+	 * through a `BroadcastChannel`, or `storage` events in browsers without
+	 * one. Receiving tabs close the banner and update scripts, iframes and the
+	 * network blocker without sending the consent to the backend again.
+	 * Revocations follow {@link StoreOptions.reloadOnConsentRevoked}.
+	 *
+	 * @default true
+	 */
+	crossTabSync?: boolean;
 }
 
 /**
@@ -784,6 +868,22 @@ export interface StoreRuntimeState extends StoreConfig {
 	 */
 	reloadOnConsentRevoked: boolean;
 
+	/**
+	 * What to do with a stored consent when the active policy changes.
+	 *
+	 * @see {@link StoreOptions.reconsentStrategy} for details
+	 */
+	reconsentStrategy: ReconsentStrategy;
+
+	/**
+	 * Whether the visitor is asked to consent again because the active policy
+	 * changed since they last consented.
+	 *
+	 * @remarks
+	 * Set during initialization and cleared when consent is saved.
+	 */
+	requiresReconsent: boolean;
+
 	/**
 	 * Whether SSR data was successfully used for initialization.
 	 *
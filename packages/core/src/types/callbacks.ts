@@ -38,6 +38,18 @@ export type OnConsentChangedPayload = {
 export type OnErrorPayload = {
 	error: string;
 };
+export type OnReconsentRequiredPayload = {
+	/** Strategy that asked the visitor to consent again */
+	strategy: Exclude<ConsentStoreState['reconsentStrategy'], 'keep'>;
+	/** Fingerprint of the policy the stored consent was given for */
+	previousFingerprint: string;
+	/** Fingerprint of the active policy */
+	currentFingerprint: string;
+	/** Displayed categories the visitor has not been asked about yet */
+	newCategories: AllConsentNames[];
+	/** Preferences stored before the policy changed */
+	previousPreferences: ConsentStoreState['consents'];
+};
 
 /**
  * Defines the structure for callback functions that respond to consent-related events.
@@ -51,6 +63,7 @@ export type OnErrorPayload = {
  * onConsentChanged: Consent changed after an explicit save
  * onError: Error
  * onBeforeConsentRevocationReload: Before page reload on consent revocation
+ * onReconsentRequired: Stored consent is outdated by a policy change
  *
  * @public
  */
@@ -107,4 +120,18 @@ export interface Callbacks {
 	 * @param payload - The payload containing the new consent preferences
 	 */
 	onBeforeConsentRevocationReload?: Callback<OnConsentSetPayload>;
+
+	/**
+	 * Called when the material policy fingerprint returned by `/init` differs
+	 * from the one stored with the consent, and the visitor is asked to
+	 * consent again.
+	 *
+	 * @remarks
+	 * Fires during initialization, after the banner has been opened. It does
+	 * not fire when {@link StoreOptions.reconsentStrategy} is `'keep'`, or
+	 * when `'new-categories'` finds no new category.
+	 *
+	 * @param payload - The payload describing the policy change
+	 */
+	onReconsentRequired?: Callback<OnReconsentRequiredPayload>;
 }
@@ -37,12 +37,44 @@
  * @public
  */
 export type AllConsentNames =
+	| BuiltInConsentNames
+	| Extract<keyof CustomConsentNames, string>;
+
+/**
+ * The consent categories that ship with c15t.
+ *
+ * @public
+ */
+export type BuiltInConsentNames =
 	| 'experience'
 	| 'functionality'
 	| 'marketing'
 	| 'measurement'
 	| 'necessary';
 
+/**
+ * Registry of custom consent category names.
+ *
+ * @remarks
+ * Empty by default. Augment it to add your own categories to
+ * {@link AllConsentNames}, then pass their configurations to the store via
+ * `customConsentTypes` so they exist at runtime too.
+ *
+ * @example
+ * ```typescript
+ * declare module 'c15t' {
+ *   interface CustomConsentNames {
+ *     personalization: true;
+ *     ai_training: true;
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+// biome-ignore lint/suspicious/noEmptyInterface: extended through module augmentation
+export interface CustomConsentNames {}
+
 /**
  * Defines the configuration structure for each consent type.
  *
@@ -113,7 +145,7 @@ export type ConsentType = {
 	/** Whether to show this consent option in the UI */
 	display: boolean;
 
-	/** GDPR category identifier (1-5) */
+	/** GDPR category identifier (1-5). Custom categories reuse the closest one. */
 	gdprType: number;
 
 	/** The consent category name */
@@ -294,6 +326,15 @@ export type ConsentInfo = {
 	 */
 	materialPolicyFingerprint?: string;
 
+	/**
+	 * Categories the visitor was asked about when this consent was accepted.
+	 *
+	 * @remarks
+	 * Compared with the categories of a changed policy to find new ones when
+	 * the re-consent strategy is `'new-categories'`.
+	 */
+	categories?: Partial<Record<AllConsentNames, boolean>>;
+
 	/**
 	 * The identity provider that provided the external ID
 	 *
@@ -12,6 +12,7 @@ export type {
 	OnConsentChangedPayload,
 	OnConsentSetPayload,
 	OnErrorPayload,
+	OnReconsentRequiredPayload,
 } from './callbacks';
 
 export type {
@@ -48,8 +49,10 @@ export type {
 export {
 	type AllConsentNames,
 	allConsentNames,
+	type BuiltInConsentNames,
 	type ConsentInfo,
 	type ConsentType,
+	type CustomConsentNames,
 	consentTypes,
 } from './consent-types';
 
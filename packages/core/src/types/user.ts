@@ -31,4 +31,15 @@ export interface User {
 	 * @defaultValue 'external'
 	 */
 	identityProvider?: string;
+
+	/**
+	 * Identity token signed by your server for this user, e.g. with
+	 * `createIdentityToken` from `@c15t/backend`.
+	 *
+	 * @remarks
+	 * Sent to `/init` when this device has no stored consent, so the backend
+	 * can restore the user's consent from their other devices instead of
+	 * showing the banner. Only used in hosted mode.
+	 */
+	identityToken?: string;
 }
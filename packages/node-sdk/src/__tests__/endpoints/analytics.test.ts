@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	CONSENT_ANALYTICS_PATH,
+	getConsentAnalytics,
+} from '../../endpoints/analytics';
+import type { FetcherContext } from '../../fetcher';
+
+describe('Analytics Endpoints', () => {
+	const originalFetch = globalThis.fetch;
+
+	beforeEach(() => {
+		globalThis.fetch = vi.fn();
+	});
+
+	afterEach(() => {
+		globalThis.fetch = originalFetch;
+		vi.restoreAllMocks();
+	});
+
+	const context: FetcherContext = {
+		baseUrl: 'https://api.example.com',
+		headers: {},
+		retryConfig: {},
+	};
+
+	const mockResponse = () =>
+		vi.fn().mockResolvedValueOnce(
+			new Response(
+				JSON.stringify({
+					from: '2026-01-01T00:00:00.000Z',
+					to: '2026-01-02T00:00:00.000Z',
+					bucket: 'day',
+					groupBy: ['consentAction'],
+					total: 3,
+					buckets: [
+						{
+							start: '2026-01-01T00:00:00.000Z',
+							total: 3,
+							groups: [
+								{ consentAction: 'accept_all', count: 2 },
+								{ consentAction: 'reject_all', count: 1 },
+							],
+						},
+					],
+				}),
+				{
+					status: 200,
+					headers: { 'content-type': 'application/json' },
+				}
+			)
+		);
+
+	it('should have correct path', () => {
+		expect(CONSENT_ANALYTICS_PATH).toBe('/analytics/consents');
+	});
+
+	describe('getConsentAnalytics', () => {
+		it('should get consent analytics with GET method', async () => {
+			const mockFetch = mockResponse();
+			globalThis.fetch = mockFetch;
+
+			const result = await getConsentAnalytics(context);
+
+			expect(result.ok).toBe(true);
+			expect(result.data?.total).toBe(3);
+			expect(result.data?.buckets[0]?.groups).toHaveLength(2);
+
+			const fetchCall = mockFetch.mock.calls[0];
+			expect(fetchCall[0]).toBe('https://api.example.com/analytics/consents');
+			expect(fetchCall[1].method).toBe('GET');
+		});
+
+		it('should serialize dates and groupBy columns', async () => {
+			const mockFetch = mockResponse();
+			globalThis.fetch = mockFetch;
+
+			await getConsentAnalytics(context, {
+				from: new Date('2026-01-01T00:00:00.000Z'),
+				to: '2026-01-02',
+				bucket: 'hour',
+				groupBy: ['jurisdiction', 'consentAction'],
+			});
+
+			const url = new URL(mockFetch.mock.calls[0][0]);
+			expect(url.searchParams.get('from')).toBe('2026-01-01T00:00:00.000Z');
+			expect(url.searchParams.get('to')).toBe('2026-01-02');
+			expect(url.searchParams.get('bucket')).toBe('hour');
+			expect(url.searchParams.get('groupBy')).toBe(
+				'jurisdiction,consentAction'
+			);
+		});
+	});
+});
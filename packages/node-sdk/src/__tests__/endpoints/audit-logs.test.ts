@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AUDIT_LOGS_PATH, listAuditLogs } from '../../endpoints/audit-logs';
+import type { FetcherContext } from '../../fetcher';
+
+describe('Audit Log Endpoints', () => {
+	const originalFetch = globalThis.fetch;
+
+	beforeEach(() => {
+		globalThis.fetch = vi.fn();
+	});
+
+	afterEach(() => {
+		globalThis.fetch = originalFetch;
+		vi.restoreAllMocks();
+	});
+
+	const context: FetcherContext = {
+		baseUrl: 'https://api.example.com',
+		headers: {},
+		retryConfig: {},
+	};
+
+	const mockPage = () =>
+		vi.fn().mockResolvedValueOnce(
+			new Response(
+				JSON.stringify({
+					auditLogs: [
+						{
+							id: 'log_123',
+							entityType: 'subject',
+							entityId: 'sub_123',
+							actionType: 'identify_user',
+							createdAt: '2026-01-01T00:00:00.000Z',
+						},
+					],
+					nextCursor: 'MTc2NzIyNTYwMDAwMDpsb2dfMTIz',
+				}),
+				{
+					status: 200,
+					headers: { 'content-type': 'application/json' },
+				}
+			)
+		);
+
+	it('should have correct path', () => {
+		expect(AUDIT_LOGS_PATH).toBe('/audit-logs');
+	});
+
+	describe('listAuditLogs', () => {
+		it('should list audit logs with GET method', async () => {
+			const mockFetch = mockPage();
+			globalThis.fetch = mockFetch;
+
+			const result = await listAuditLogs(context);
+
+			expect(result.ok).toBe(true);
+			expect(result.data?.auditLogs).toHaveLength(1);
+			expect(result.data?.nextCursor).toBe('MTc2NzIyNTYwMDAwMDpsb2dfMTIz');
+
+			const fetchCall = mockFetch.mock.calls[0];
+			expect(fetchCall[0]).toBe('https://api.example.com/audit-logs');
+			expect(fetchCall[1].method).toBe('GET');
+		});
+
+		it('should serialize filters, dates and pagination params', async () => {
+			const mockFetch = mockPage();
+			globalThis.fetch = mockFetch;
+
+			await listAuditLogs(context, {
+				subjectId: 'sub_123',
+				actionType: 'identify_user',
+				from: new Date('2026-01-01T00:00:00.000Z'),
+				to: '2026-02-01',
+				cursor: 'abc',
+				limit: 25,
+			});
+
+			const url = new URL(mockFetch.mock.calls[0][0]);
+			expect(url.searchParams.get('subjectId')).toBe('sub_123');
+			expect(url.searchParams.get('actionType')).toBe('identify_user');
+			expect(url.searchParams.get('from')).toBe('2026-01-01T00:00:00.000Z');
+			expect(url.searchParams.get('to')).toBe('2026-02-01');
+			expect(url.searchParams.get('cursor')).toBe('abc');
+			expect(url.searchParams.get('limit')).toBe('25');
+			expect(url.searchParams.has('entityType')).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	CONSENT_RECEIPTS_VERIFY_PATH,
+	verifyConsentReceipt,
+} from '../../endpoints/consent-receipts';
+import type { FetcherContext } from '../../fetcher';
+
+describe('Consent Receipt Endpoints', () => {
+	const originalFetch = globalThis.fetch;
+
+	beforeEach(() => {
+		globalThis.fetch = vi.fn();
+	});
+
+	afterEach(() => {
+		globalThis.fetch = originalFetch;
+		vi.restoreAllMocks();
+	});
+
+	const context: FetcherContext = {
+		baseUrl: 'https://api.example.com',
+		headers: {},
+		retryConfig: {},
+	};
+
+	it('should have correct path', () => {
+		expect(CONSENT_RECEIPTS_VERIFY_PATH).toBe('/consent-receipts/verify');
+	});
+
+	describe('verifyConsentReceipt', () => {
+		it('should post the receipt and return the result', async () => {
+			const mockFetch = vi.fn().mockResolvedValueOnce(
+				new Response(JSON.stringify({ valid: false, reason: 'invalid' }), {
+					status: 200,
+					headers: { 'content-type': 'application/json' },
+				})
+			);
+			globalThis.fetch = mockFetch;
+
+			const result = await verifyConsentReceipt(context, {
+				receipt: 'header.payload.signature',
+			});
+
+			expect(result.ok).toBe(true);
+			expect(result.data).toEqual({ valid: false, reason: 'invalid' });
+
+			const [url, init] = mockFetch.mock.calls[0];
+			expect(url).toBe('https://api.example.com/consent-receipts/verify');
+			expect(init.method).toBe('POST');
+			expect(JSON.parse(init.body)).toEqual({
+				receipt: 'header.payload.signature',
+			});
+		});
+	});
+});
@@ -1,9 +1,12 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import {
 	createSubject,
+	deleteSubjects,
+	exportSubjects,
 	getSubject,
 	listSubjects,
 	patchSubject,
+	SUBJECTS_EXPORT_PATH,
 	SUBJECTS_PATH,
 } from '../../endpoints/subjects';
 import type { FetcherContext } from '../../fetcher';
@@ -203,4 +206,72 @@ describe('Subjects Endpoints', () => {
 			expect(fetchCall[0]).toContain('offset=0');
 		});
 	});
+
+	describe('exportSubjects', () => {
+		it('should request the export path with GET method', async () => {
+			const mockFetch = vi.fn().mockResolvedValueOnce(
+				new Response(
+					JSON.stringify({
+						version: 1,
+						generatedAt: '2026-01-01T00:00:00.000Z',
+						query: { externalId: 'user_123' },
+						subjects: [{ id: 'sub_123', consents: [] }],
+					}),
+					{
+						status: 200,
+						headers: { 'content-type': 'application/json' },
+					}
+				)
+			);
+			globalThis.fetch = mockFetch;
+
+			const result = await exportSubjects(context, {
+				externalId: 'user_123',
+			});
+
+			expect(SUBJECTS_EXPORT_PATH).toBe('/subjects/export');
+			expect(result.ok).toBe(true);
+			expect(result.data?.version).toBe(1);
+			expect(result.data?.subjects).toHaveLength(1);
+
+			const fetchCall = mockFetch.mock.calls[0];
+			expect(fetchCall[0]).toContain('/subjects/export?externalId=user_123');
+			expect(fetchCall[1].method).toBe('GET');
+		});
+	});
+
+	describe('deleteSubjects', () => {
+		it('should send a DELETE request with the erasure query', async () => {
+			const mockFetch = vi.fn().mockResolvedValueOnce(
+				new Response(
+					JSON.stringify({
+						erasureId: 'log_123',
+						mode: 'pseudonymize',
+						erasedAt: '2026-01-01T00:00:00.000Z',
+						counts: { subjects: 1, consents: 2, auditLogs: 1 },
+					}),
+					{
+						status: 200,
+						headers: { 'content-type': 'application/json' },
+					}
+				)
+			);
+			globalThis.fetch = mockFetch;
+
+			const result = await deleteSubjects(context, {
+				externalId: 'user_123',
+				mode: 'pseudonymize',
+			});
+
+			expect(result.ok).toBe(true);
+			expect(result.data?.erasureId).toBe('log_123');
+			expect(result.data?.counts.consents).toBe(2);
+
+			const fetchCall = mockFetch.mock.calls[0];
+			expect(fetchCall[0]).toContain(
+				'/subjects?externalId=user_123&mode=pseudonymize'
+			);
+			expect(fetchCall[1].method).toBe('DELETE');
+		});
+	});
 });
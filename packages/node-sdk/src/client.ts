@@ -1,9 +1,16 @@
 import type {
 	CheckConsentOutput,
 	CheckConsentQuery,
+	ConsentAnalyticsOutput,
+	ConsentAnalyticsQuery,
+	DeleteSubjectsOutput,
+	DeleteSubjectsQuery,
+	ExportSubjectsOutput,
 	GetSubjectOutput,
 	GetSubjectQuery,
 	InitOutput,
+	ListAuditLogsOutput,
+	ListAuditLogsQuery,
 	ListSubjectsOutput,
 	ListSubjectsQuery,
 	PatchSubjectFullInput,
@@ -11,15 +18,25 @@ import type {
 	PostSubjectInput,
 	PostSubjectOutput,
 	StatusOutput,
+	VerifyConsentReceiptInput,
+	VerifyConsentReceiptOutput,
 } from '@c15t/schema/types';
 import {
+	type AuditLogsQuery,
+	type ConsentAnalyticsParams,
 	checkConsent,
 	createSubject,
+	deleteSubjects,
+	type ExportSubjectsJsonQuery,
+	exportSubjects,
+	getConsentAnalytics,
 	getSubject,
 	init,
+	listAuditLogs,
 	listSubjects,
 	patchSubject,
 	status,
+	verifyConsentReceipt,
 } from './endpoints';
 import {
 	DEFAULT_RETRY_CONFIG,
@@ -217,6 +234,37 @@ export class C15TClient {
 		return listSubjects(this.context, query, options);
 	}
 
+	/**
+	 * Export the full consent history for an external ID or subject ID
+	 * (Data Subject Access Request). Requires an API key.
+	 *
+	 * @param query - Query parameters (externalId and/or subjectId)
+	 * @param options - Optional fetch options
+	 * @returns Versioned export document with subjects, consents, audit logs
+	 * and runtime policy decisions
+	 */
+	async exportSubjects(
+		query: ExportSubjectsJsonQuery,
+		options?: FetchOptions<ExportSubjectsOutput, never, ExportSubjectsJsonQuery>
+	): Promise<ResponseContext<ExportSubjectsOutput>> {
+		return exportSubjects(this.context, query, options);
+	}
+
+	/**
+	 * Erase every subject linked to an external ID or subject ID
+	 * (right to erasure). Requires an API key.
+	 *
+	 * @param query - Query parameters (externalId and/or subjectId, optional mode)
+	 * @param options - Optional fetch options
+	 * @returns Erasure summary with the tombstone audit log ID and row counts
+	 */
+	async deleteSubjects(
+		query: DeleteSubjectsQuery,
+		options?: FetchOptions<DeleteSubjectsOutput, never, DeleteSubjectsQuery>
+	): Promise<ResponseContext<DeleteSubjectsOutput>> {
+		return deleteSubjects(this.context, query, options);
+	}
+
 	/**
 	 * Check consent status for an external ID
 	 *
@@ -231,6 +279,53 @@ export class C15TClient {
 		return checkConsent(this.context, query, options);
 	}
 
+	/**
+	 * Verify a signed consent receipt returned by `createSubject`
+	 *
+	 * @param input - The receipt to verify
+	 * @param options - Optional fetch options
+	 * @returns Verification result with the decoded receipt when valid
+	 */
+	async verifyConsentReceipt(
+		input: VerifyConsentReceiptInput,
+		options?: FetchOptions<
+			VerifyConsentReceiptOutput,
+			VerifyConsentReceiptInput
+		>
+	): Promise<ResponseContext<VerifyConsentReceiptOutput>> {
+		return verifyConsentReceipt(this.context, input, options);
+	}
+
+	/**
+	 * List audit log entries, newest first. Requires an API key.
+	 *
+	 * @param query - Optional filters (subjectId, entityType, actionType,
+	 * from, to) and pagination parameters (cursor, limit)
+	 * @param options - Optional fetch options
+	 * @returns One page of audit log entries and the cursor for the next page
+	 */
+	async listAuditLogs(
+		query?: AuditLogsQuery,
+		options?: FetchOptions<ListAuditLogsOutput, never, ListAuditLogsQuery>
+	): Promise<ResponseContext<ListAuditLogsOutput>> {
+		return listAuditLogs(this.context, query, options);
+	}
+
+	/**
+	 * Get consent counts per time bucket and group. Requires an API key.
+	 *
+	 * @param query - Optional date range (from, to), bucket size and groupBy
+	 * columns
+	 * @param options - Optional fetch options
+	 * @returns Consent counts per bucket
+	 */
+	async getConsentAnalytics(
+		query?: ConsentAnalyticsParams,
+		options?: FetchOptions<ConsentAnalyticsOutput, never, ConsentAnalyticsQuery>
+	): Promise<ResponseContext<ConsentAnalyticsOutput>> {
+		return getConsentAnalytics(this.context, query, options);
+	}
+
 	/**
 	 * Make a custom API request to any endpoint
 	 *
@@ -262,6 +357,22 @@ export class C15TClient {
 		) => this.checkConsent(query, options),
 	};
 
+	/**
+	 * Namespaced access to consent receipt endpoints
+	 */
+	consentReceipts = {
+		/**
+		 * Verify a signed consent receipt
+		 */
+		verify: (
+			input: VerifyConsentReceiptInput,
+			options?: FetchOptions<
+				VerifyConsentReceiptOutput,
+				VerifyConsentReceiptInput
+			>
+		) => this.verifyConsentReceipt(input, options),
+	};
+
 	/**
 	 * Namespaced access to subject endpoints
 	 */
@@ -302,6 +413,56 @@ export class C15TClient {
 			query?: ListSubjectsQuery,
 			options?: FetchOptions<ListSubjectsOutput, never, ListSubjectsQuery>
 		) => this.listSubjects(query, options),
+
+		/**
+		 * Export a subject's full consent history
+		 */
+		export: (
+			query: ExportSubjectsJsonQuery,
+			options?: FetchOptions<
+				ExportSubjectsOutput,
+				never,
+				ExportSubjectsJsonQuery
+			>
+		) => this.exportSubjects(query, options),
+
+		/**
+		 * Erase subjects (right to erasure)
+		 */
+		delete: (
+			query: DeleteSubjectsQuery,
+			options?: FetchOptions<DeleteSubjectsOutput, never, DeleteSubjectsQuery>
+		) => this.deleteSubjects(query, options),
+	};
+
+	/**
+	 * Namespaced access to audit log endpoints
+	 */
+	auditLogs = {
+		/**
+		 * List audit log entries
+		 */
+		list: (
+			query?: AuditLogsQuery,
+			options?: FetchOptions<ListAuditLogsOutput, never, ListAuditLogsQuery>
+		) => this.listAuditLogs(query, options),
+	};
+
+	/**
+	 * Namespaced access to analytics endpoints
+	 */
+	analytics = {
+		/**
+		 * Get aggregated consent counts
+		 */
+		consents: (
+			query?: ConsentAnalyticsParams,
+			options?: FetchOptions<
+				ConsentAnalyticsOutput,
+				never,
+				ConsentAnalyticsQuery
+			>
+		) => this.getConsentAnalytics(query, options),
 	};
 
 	/**
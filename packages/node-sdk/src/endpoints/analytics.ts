@@ -0,0 +1,59 @@
+import type {
+	ConsentAnalyticsDimension,
+	ConsentAnalyticsOutput,
+	ConsentAnalyticsQuery,
+} from '@c15t/schema/types';
+import type { FetcherContext } from '../fetcher';
+import { fetcher } from '../fetcher';
+import type { FetchOptions, ResponseContext } from '../types';
+
+/**
+ * API endpoint path for consent analytics
+ */
+export const CONSENT_ANALYTICS_PATH = '/analytics/consents';
+
+/**
+ * Query parameters for consent analytics.
+ *
+ * Dates may be passed as `Date` objects and are sent as ISO strings.
+ * `groupBy` may be passed as an array and is sent comma-separated.
+ */
+export type ConsentAnalyticsParams = Omit<
+	ConsentAnalyticsQuery,
+	'from' | 'to' | 'groupBy'
+> & {
+	from?: Date | string;
+	to?: Date | string;
+	groupBy?: ConsentAnalyticsDimension[];
+};
+
+/**
+ * Get consent counts per time bucket and group. Requires an API key.
+ *
+ * @param context - Fetcher context
+ * @param query - Optional date range, bucket size and grouping
+ * @param options - Optional fetch options
+ * @returns Consent counts per bucket
+ */
+export async function getConsentAnalytics(
+	context: FetcherContext,
+	query?: ConsentAnalyticsParams,
+	options?: FetchOptions<ConsentAnalyticsOutput, never, ConsentAnalyticsQuery>
+): Promise<ResponseContext<ConsentAnalyticsOutput>> {
+	const { from, to, groupBy, ...params } = query ?? {};
+
+	return fetcher<ConsentAnalyticsOutput, never, ConsentAnalyticsQuery>(
+		context,
+		CONSENT_ANALYTICS_PATH,
+		{
+			method: 'GET',
+			query: {
+				...params,
+				from: from instanceof Date ? from.toISOString() : from,
+				to: to instanceof Date ? to.toISOString() : to,
+				groupBy: groupBy?.join(','),
+			},
+			...options,
+		}
+	);
+}
@@ -0,0 +1,59 @@
+import type {
+	ListAuditLogsOutput,
+	ListAuditLogsQuery,
+} from '@c15t/schema/types';
+import type { FetcherContext } from '../fetcher';
+import { fetcher } from '../fetcher';
+import type { FetchOptions, ResponseContext } from '../types';
+
+/**
+ * API endpoint path for audit logs
+ */
+export const AUDIT_LOGS_PATH = '/audit-logs';
+
+/**
+ * Query parameters for listing audit logs.
+ *
+ * Dates may be passed as `Date` objects and are sent as ISO strings.
+ */
+export type AuditLogsQuery = Omit<
+	ListAuditLogsQuery,
+	'from' | 'to' | 'limit'
+> & {
+	from?: Date | string;
+	to?: Date | string;
+	limit?: number;
+};
+
+/**
+ * List audit log entries, newest first. Requires an API key.
+ *
+ * Pass the returned `nextCursor` as `cursor` to fetch the next page.
+ *
+ * @param context - Fetcher context
+ * @param query - Optional filters and pagination parameters
+ * @param options - Optional fetch options
+ * @returns One page of audit log entries
+ */
+export async function listAuditLogs(
+	context: FetcherContext,
+	query?: AuditLogsQuery,
+	options?: FetchOptions<ListAuditLogsOutput, never, ListAuditLogsQuery>
+): Promise<ResponseContext<ListAuditLogsOutput>> {
+	const { from, to, limit, ...filters } = query ?? {};
+
+	return fetcher<ListAuditLogsOutput, never, ListAuditLogsQuery>(
+		context,
+		AUDIT_LOGS_PATH,
+		{
+			method: 'GET',
+			query: {
+				...filters,
+				from: from instanceof Date ? from.toISOString() : from,
+				to: to instanceof Date ? to.toISOString() : to,
+				limit: limit === undefined ? undefined : String(limit),
+			},
+			...options,
+		}
+	);
+}
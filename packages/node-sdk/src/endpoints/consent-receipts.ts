@@ -0,0 +1,36 @@
+import type {
+	VerifyConsentReceiptInput,
+	VerifyConsentReceiptOutput,
+} from '@c15t/schema/types';
+import type { FetcherContext } from '../fetcher';
+import { fetcher } from '../fetcher';
+import type { FetchOptions, ResponseContext } from '../types';
+
+/**
+ * API endpoint path for consent receipt verification
+ */
+export const CONSENT_RECEIPTS_VERIFY_PATH = '/consent-receipts/verify';
+
+/**
+ * Verify a signed consent receipt returned by `POST /subjects`
+ *
+ * @param context - Fetcher context
+ * @param input - The receipt to verify
+ * @param options - Optional fetch options
+ * @returns Verification result with the decoded receipt when valid
+ */
+export async function verifyConsentReceipt(
+	context: FetcherContext,
+	input: VerifyConsentReceiptInput,
+	options?: FetchOptions<VerifyConsentReceiptOutput, VerifyConsentReceiptInput>
+): Promise<ResponseContext<VerifyConsentReceiptOutput>> {
+	return fetcher<VerifyConsentReceiptOutput, VerifyConsentReceiptInput>(
+		context,
+		CONSENT_RECEIPTS_VERIFY_PATH,
+		{
+			method: 'POST',
+			body: input,
+			...options,
+		}
+	);
+}
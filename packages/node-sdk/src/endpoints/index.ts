@@ -1,10 +1,28 @@
+export {
+	CONSENT_ANALYTICS_PATH,
+	type ConsentAnalyticsParams,
+	getConsentAnalytics,
+} from './analytics';
+export {
+	AUDIT_LOGS_PATH,
+	type AuditLogsQuery,
+	listAuditLogs,
+} from './audit-logs';
 export { CONSENT_CHECK_PATH, checkConsent } from './consent';
+export {
+	CONSENT_RECEIPTS_VERIFY_PATH,
+	verifyConsentReceipt,
+} from './consent-receipts';
 export { INIT_PATH, init } from './init';
 export { STATUS_PATH, status } from './status';
 export {
 	createSubject,
+	deleteSubjects,
+	type ExportSubjectsJsonQuery,
+	exportSubjects,
 	getSubject,
 	listSubjects,
 	patchSubject,
+	SUBJECTS_EXPORT_PATH,
 	SUBJECTS_PATH,
 } from './subjects';
@@ -1,4 +1,8 @@
 import type {
+	DeleteSubjectsOutput,
+	DeleteSubjectsQuery,
+	ExportSubjectsOutput,
+	ExportSubjectsQuery,
 	GetSubjectOutput,
 	GetSubjectQuery,
 	ListSubjectsOutput,
@@ -17,6 +21,16 @@ import type { FetchOptions, ResponseContext } from '../types';
  */
 export const SUBJECTS_PATH = '/subjects';
 
+/**
+ * API endpoint path for subject exports
+ */
+export const SUBJECTS_EXPORT_PATH = `${SUBJECTS_PATH}/export`;
+
+/**
+ * Query parameters for JSON subject exports
+ */
+export type ExportSubjectsJsonQuery = Omit<ExportSubjectsQuery, 'format'>;
+
 /**
  * Create a new subject with consent preferences
  *
@@ -112,3 +126,53 @@ export async function listSubjects(
 		}
 	);
 }
+
+/**
+ * Export the full consent history for an external ID or subject ID
+ * (Data Subject Access Request). Requires an API key.
+ *
+ * @param context - Fetcher context
+ * @param query - Query parameters (externalId and/or subjectId)
+ * @param options - Optional fetch options
+ * @returns Versioned export document
+ */
+export async function exportSubjects(
+	context: FetcherContext,
+	query: ExportSubjectsJsonQuery,
+	options?: FetchOptions<ExportSubjectsOutput, never, ExportSubjectsJsonQuery>
+): Promise<ResponseContext<ExportSubjectsOutput>> {
+	return fetcher<ExportSubjectsOutput, never, ExportSubjectsJsonQuery>(
+		context,
+		SUBJECTS_EXPORT_PATH,
+		{
+			method: 'GET',
+			query,
+			...options,
+		}
+	);
+}
+
+/**
+ * Erase every subject linked to an external ID or subject ID
+ * (right to erasure). Requires an API key.
+ *
+ * @param context - Fetcher context
+ * @param query - Query parameters (externalId and/or subjectId, optional mode)
+ * @param options - Optional fetch options
+ * @returns Erasure summary with the tombstone audit log ID
+ */
+export async function deleteSubjects(
+	context: FetcherContext,
+	query: DeleteSubjectsQuery,
+	options?: FetchOptions<DeleteSubjectsOutput, never, DeleteSubjectsQuery>
+): Promise<ResponseContext<DeleteSubjectsOutput>> {
+	return fetcher<DeleteSubjectsOutput, never, DeleteSubjectsQuery>(
+		context,
+		SUBJECTS_PATH,
+		{
+			method: 'DELETE',
+			query,
+			...options,
+		}
+	);
+}
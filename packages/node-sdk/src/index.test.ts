@@ -241,6 +241,27 @@ describe('C15T Node SDK', () => {
 				expect(typeof testClient.consent.check).toBe('function');
 			});
 
+			it('should have auditLogs namespace with list method', () => {
+				const testClient = c15tClient({ baseUrl: mockBaseUrl });
+
+				expect(testClient.auditLogs).toBeDefined();
+				expect(typeof testClient.auditLogs.list).toBe('function');
+			});
+
+			it('should have consentReceipts namespace with verify method', () => {
+				const testClient = c15tClient({ baseUrl: mockBaseUrl });
+
+				expect(testClient.consentReceipts).toBeDefined();
+				expect(typeof testClient.consentReceipts.verify).toBe('function');
+			});
+
+			it('should have analytics namespace with consents method', () => {
+				const testClient = c15tClient({ baseUrl: mockBaseUrl });
+
+				expect(testClient.analytics).toBeDefined();
+				expect(typeof testClient.analytics.consents).toBe('function');
+			});
+
 			it('should have subjects namespace with CRUD methods', () => {
 				const testClient = c15tClient({ baseUrl: mockBaseUrl });
 
@@ -249,6 +270,8 @@ describe('C15T Node SDK', () => {
 				expect(typeof testClient.subjects.get).toBe('function');
 				expect(typeof testClient.subjects.patch).toBe('function');
 				expect(typeof testClient.subjects.list).toBe('function');
+				expect(typeof testClient.subjects.export).toBe('function');
+				expect(typeof testClient.subjects.delete).toBe('function');
 			});
 
 			it('should have meta namespace with status and init methods', () => {
@@ -291,11 +314,36 @@ describe('C15T Node SDK', () => {
 				expect(typeof testClient.listSubjects).toBe('function');
 			});
 
+			it('should have exportSubjects method', () => {
+				const testClient = c15tClient({ baseUrl: mockBaseUrl });
+				expect(typeof testClient.exportSubjects).toBe('function');
+			});
+
+			it('should have deleteSubjects method', () => {
+				const testClient = c15tClient({ baseUrl: mockBaseUrl });
+				expect(typeof testClient.deleteSubjects).toBe('function');
+			});
+
 			it('should have checkConsent method', () => {
 				const testClient = c15tClient({ baseUrl: mockBaseUrl });
 				expect(typeof testClient.checkConsent).toBe('function');
 			});
 
+			it('should have listAuditLogs method', () => {
+				const testClient = c15tClient({ baseUrl: mockBaseUrl });
+				expect(typeof testClient.listAuditLogs).toBe('function');
+			});
+
+			it('should have verifyConsentReceipt method', () => {
+				const testClient = c15tClient({ baseUrl: mockBaseUrl });
+				expect(typeof testClient.verifyConsentReceipt).toBe('function');
+			});
+
+			it('should have getConsentAnalytics method', () => {
+				const testClient = c15tClient({ baseUrl: mockBaseUrl });
+				expect(typeof testClient.getConsentAnalytics).toBe('function');
+			});
+
 			it('should have $fetch method for custom requests', () => {
 				const testClient = c15tClient({ baseUrl: mockBaseUrl });
 				expect(typeof testClient.$fetch).toBe('function');
@@ -41,15 +41,29 @@ export function c15tClient(options?: C15TClientOptions): C15TClient {
 
 // Re-export schema types for convenience
 export type {
+	AuditLogItem,
 	CheckConsentOutput,
 	CheckConsentQuery,
+	ConsentAnalyticsBucket,
+	ConsentAnalyticsBucketSize,
+	ConsentAnalyticsDimension,
+	ConsentAnalyticsGroup,
+	ConsentAnalyticsOutput,
+	ConsentAnalyticsQuery,
 	ConsentCheckResult,
 	ConsentItem,
+	ConsentReceipt,
+	DeleteSubjectsOutput,
+	DeleteSubjectsQuery,
+	ExportSubjectsOutput,
+	ExportSubjectsQuery,
 	GetSubjectInput,
 	GetSubjectOutput,
 	GetSubjectParams,
 	GetSubjectQuery,
 	InitOutput,
+	ListAuditLogsOutput,
+	ListAuditLogsQuery,
 	ListSubjectsOutput,
 	ListSubjectsQuery,
 	PatchSubjectFullInput,
@@ -57,10 +71,19 @@ export type {
 	PostSubjectInput,
 	PostSubjectOutput,
 	StatusOutput,
+	SubjectErasureMode,
+	SubjectExportItem,
 	SubjectItem,
+	VerifyConsentReceiptInput,
+	VerifyConsentReceiptOutput,
 } from '@c15t/schema/types';
 // Export the client class for direct instantiation
 export { C15TClient } from './client';
+export type {
+	AuditLogsQuery,
+	ConsentAnalyticsParams,
+	ExportSubjectsJsonQuery,
+} from './endpoints';
 // Export custom error class
 export { C15TError, isC15TError } from './error';
 export type { FetcherContext } from './fetcher';
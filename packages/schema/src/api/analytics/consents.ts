@@ -0,0 +1,163 @@
+/**
+ * GET /analytics/consents schemas - Aggregated consent counts (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import * as v from 'valibot';
+
+/**
+ * Time bucket sizes supported by GET /analytics/consents
+ */
+export const CONSENT_ANALYTICS_BUCKETS = [
+	'hour',
+	'day',
+	'week',
+	'month',
+] as const;
+
+/**
+ * Consent columns that GET /analytics/consents can group by
+ */
+export const CONSENT_ANALYTICS_DIMENSIONS = [
+	'jurisdiction',
+	'policyId',
+	'consentAction',
+	'uiSource',
+] as const;
+
+/**
+ * Maximum number of time buckets in one GET /analytics/consents response
+ */
+export const CONSENT_ANALYTICS_MAX_BUCKETS = 1000;
+
+const dateParamSchema = v.pipe(
+	v.string(),
+	v.check(
+		(value) => !Number.isNaN(Date.parse(value)),
+		'Must be an ISO 8601 date or timestamp'
+	)
+);
+
+/**
+ * GET /analytics/consents query params (requires API key)
+ */
+export const consentAnalyticsQuerySchema = v.object({
+	from: v.optional(
+		v.pipe(
+			dateParamSchema,
+			v.description(
+				'Count consents given at or after this time. Defaults to 30 days before `to`.'
+			),
+			v.examples(['2026-01-01T00:00:00.000Z'])
+		)
+	),
+	to: v.optional(
+		v.pipe(
+			dateParamSchema,
+			v.description('Count consents given before this time. Defaults to now.'),
+			v.examples(['2026-02-01T00:00:00.000Z'])
+		)
+	),
+	bucket: v.optional(
+		v.pipe(
+			v.picklist(CONSENT_ANALYTICS_BUCKETS),
+			v.description(
+				'Time bucket size. Buckets start on UTC boundaries; weeks start on Monday. Defaults to `day`.'
+			)
+		)
+	),
+	groupBy: v.optional(
+		v.pipe(
+			v.string(),
+			v.check(
+				(value) =>
+					value
+						.split(',')
+						.every((dimension) =>
+							(CONSENT_ANALYTICS_DIMENSIONS as readonly string[]).includes(
+								dimension.trim()
+							)
+						),
+				`Must be a comma-separated list of: ${CONSENT_ANALYTICS_DIMENSIONS.join(', ')}`
+			),
+			v.description(
+				'Comma-separated columns to group counts by. Defaults to all of them.'
+			),
+			v.examples(['jurisdiction,consentAction'])
+		)
+	),
+});
+
+const dimensionValueSchema = v.optional(v.nullable(v.string()));
+
+/**
+ * One group of counts within a time bucket.
+ *
+ * Only the requested `groupBy` columns are present. `null` means the consent
+ * record had no value for that column.
+ */
+export const consentAnalyticsGroupSchema = v.object({
+	jurisdiction: dimensionValueSchema,
+	policyId: dimensionValueSchema,
+	consentAction: dimensionValueSchema,
+	uiSource: dimensionValueSchema,
+	count: v.number(),
+});
+
+/**
+ * One time bucket in GET /analytics/consents response
+ */
+export const consentAnalyticsBucketSchema = v.object({
+	start: v.date(),
+	total: v.number(),
+	groups: v.array(consentAnalyticsGroupSchema),
+});
+
+/**
+ * GET /analytics/consents output schema
+ *
+ * Every bucket in the range is returned, including empty ones, oldest first.
+ */
+export const consentAnalyticsOutputSchema = v.object({
+	from: v.date(),
+	to: v.date(),
+	bucket: v.picklist(CONSENT_ANALYTICS_BUCKETS),
+	groupBy: v.array(v.picklist(CONSENT_ANALYTICS_DIMENSIONS)),
+	total: v.number(),
+	buckets: v.array(consentAnalyticsBucketSchema),
+});
+
+/**
+ * Error schemas for GET /analytics/consents
+ */
+export const consentAnalyticsErrorSchemas = {
+	inputValidationFailed: v.object({
+		formErrors: v.array(v.string()),
+		fieldErrors: v.record(v.string(), v.array(v.string())),
+	}),
+	unauthorized: v.object({
+		message: v.string(),
+	}),
+	invalidRange: v.object({
+		code: v.picklist(['INVALID_RANGE', 'RANGE_TOO_LARGE']),
+	}),
+};
+
+// Type exports
+export type ConsentAnalyticsBucketSize =
+	(typeof CONSENT_ANALYTICS_BUCKETS)[number];
+export type ConsentAnalyticsDimension =
+	(typeof CONSENT_ANALYTICS_DIMENSIONS)[number];
+export type ConsentAnalyticsQuery = v.InferOutput<
+	typeof consentAnalyticsQuerySchema
+>;
+export type ConsentAnalyticsGroup = v.InferOutput<
+	typeof consentAnalyticsGroupSchema
+>;
+export type ConsentAnalyticsBucket = v.InferOutput<
+	typeof consentAnalyticsBucketSchema
+>;
+export type ConsentAnalyticsOutput = v.InferOutput<
+	typeof consentAnalyticsOutputSchema
+>;
@@ -0,0 +1,16 @@
+export {
+	CONSENT_ANALYTICS_BUCKETS,
+	CONSENT_ANALYTICS_DIMENSIONS,
+	CONSENT_ANALYTICS_MAX_BUCKETS,
+	type ConsentAnalyticsBucket,
+	type ConsentAnalyticsBucketSize,
+	type ConsentAnalyticsDimension,
+	type ConsentAnalyticsGroup,
+	type ConsentAnalyticsOutput,
+	type ConsentAnalyticsQuery,
+	consentAnalyticsBucketSchema,
+	consentAnalyticsErrorSchemas,
+	consentAnalyticsGroupSchema,
+	consentAnalyticsOutputSchema,
+	consentAnalyticsQuerySchema,
+} from './consents';
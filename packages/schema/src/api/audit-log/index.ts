@@ -0,0 +1,11 @@
+export {
+	AUDIT_LOG_DEFAULT_LIMIT,
+	AUDIT_LOG_MAX_LIMIT,
+	type AuditLogItem,
+	auditLogItemSchema,
+	type ListAuditLogsOutput,
+	type ListAuditLogsQuery,
+	listAuditLogsErrorSchemas,
+	listAuditLogsOutputSchema,
+	listAuditLogsQuerySchema,
+} from './list';
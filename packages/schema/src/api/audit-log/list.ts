@@ -0,0 +1,131 @@
+/**
+ * GET /audit-logs schemas - Query the audit trail (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import * as v from 'valibot';
+
+/**
+ * Default page size for GET /audit-logs
+ */
+export const AUDIT_LOG_DEFAULT_LIMIT = 50;
+
+/**
+ * Maximum page size for GET /audit-logs
+ */
+export const AUDIT_LOG_MAX_LIMIT = 200;
+
+const dateParamSchema = v.pipe(
+	v.string(),
+	v.check(
+		(value) => !Number.isNaN(Date.parse(value)),
+		'Must be an ISO 8601 date or timestamp'
+	)
+);
+
+/**
+ * GET /audit-logs query params (requires API key)
+ */
+export const listAuditLogsQuerySchema = v.object({
+	subjectId: v.optional(
+		v.pipe(
+			v.string(),
+			v.description('Only return entries for this subject.'),
+			v.examples(['sub_2jv6z8n4q9'])
+		)
+	),
+	entityType: v.optional(
+		v.pipe(
+			v.string(),
+			v.description('Only return entries for this entity type.'),
+			v.examples(['subject', 'consent'])
+		)
+	),
+	actionType: v.optional(
+		v.pipe(
+			v.string(),
+			v.description('Only return entries with this action type.'),
+			v.examples(['identify_user', 'erase_subject'])
+		)
+	),
+	from: v.optional(
+		v.pipe(
+			dateParamSchema,
+			v.description('Only return entries created at or after this time.'),
+			v.examples(['2026-01-01T00:00:00.000Z'])
+		)
+	),
+	to: v.optional(
+		v.pipe(
+			dateParamSchema,
+			v.description('Only return entries created before this time.'),
+			v.examples(['2026-02-01T00:00:00.000Z'])
+		)
+	),
+	cursor: v.optional(
+		v.pipe(
+			v.string(),
+			v.description('Opaque cursor from the previous page `nextCursor`.')
+		)
+	),
+	limit: v.optional(
+		v.pipe(
+			v.string(),
+			v.regex(/^\d+$/, 'Must be a positive integer'),
+			v.description(
+				`Page size. Defaults to ${AUDIT_LOG_DEFAULT_LIMIT}, capped at ${AUDIT_LOG_MAX_LIMIT}.`
+			),
+			v.examples(['50'])
+		)
+	),
+});
+
+/**
+ * Audit log entry in GET /audit-logs response
+ */
+export const auditLogItemSchema = v.object({
+	id: v.string(),
+	entityType: v.string(),
+	entityId: v.string(),
+	actionType: v.string(),
+	subjectId: v.optional(v.string()),
+	ipAddress: v.optional(v.string()),
+	userAgent: v.optional(v.string()),
+	changes: v.optional(v.record(v.string(), v.unknown())),
+	metadata: v.optional(v.record(v.string(), v.unknown())),
+	createdAt: v.date(),
+});
+
+/**
+ * GET /audit-logs output schema
+ *
+ * Entries are ordered newest first. `nextCursor` is `null` on the last page.
+ */
+export const listAuditLogsOutputSchema = v.object({
+	auditLogs: v.array(auditLogItemSchema),
+	nextCursor: v.nullable(v.string()),
+});
+
+/**
+ * Error schemas for GET /audit-logs
+ */
+export const listAuditLogsErrorSchemas = {
+	inputValidationFailed: v.object({
+		formErrors: v.array(v.string()),
+		fieldErrors: v.record(v.string(), v.array(v.string())),
+	}),
+	unauthorized: v.object({
+		message: v.string(),
+	}),
+	invalidCursor: v.object({
+		code: v.literal('INVALID_CURSOR'),
+	}),
+};
+
+// Type exports
+export type ListAuditLogsQuery = v.InferOutput<typeof listAuditLogsQuerySchema>;
+export type ListAuditLogsOutput = v.InferOutput<
+	typeof listAuditLogsOutputSchema
+>;
+export type AuditLogItem = v.InferOutput<typeof auditLogItemSchema>;
@@ -0,0 +1,14 @@
+export {
+	CONSENT_RECEIPT_VERSION,
+	type ConsentReceipt,
+	type ConsentReceiptController,
+	type ConsentReceiptPurpose,
+	consentReceiptControllerSchema,
+	consentReceiptPurposeSchema,
+	consentReceiptSchema,
+	type VerifyConsentReceiptInput,
+	type VerifyConsentReceiptOutput,
+	verifyConsentReceiptErrorSchemas,
+	verifyConsentReceiptInputSchema,
+	verifyConsentReceiptOutputSchema,
+} from './verify';
@@ -0,0 +1,127 @@
+/**
+ * POST /consent-receipts/verify schemas - Check a signed consent receipt.
+ *
+ * Receipts follow the Kantara Initiative Consent Receipt v1.1 structure, which
+ * ISO/IEC TS 27560 builds on. c15t-specific details are kept under `c15t`.
+ *
+ * @packageDocumentation
+ */
+
+import * as v from 'valibot';
+
+/**
+ * Receipt format version written to the `version` claim
+ */
+export const CONSENT_RECEIPT_VERSION = 'KI-CR-v1.1.0';
+
+/**
+ * Organisation responsible for the consent, as listed on a receipt
+ */
+export const consentReceiptControllerSchema = v.object({
+	piiController: v.string(),
+	contact: v.optional(v.string()),
+	email: v.optional(v.string()),
+	phone: v.optional(v.string()),
+	piiControllerUrl: v.optional(v.string()),
+});
+
+/**
+ * A purpose the subject agreed to
+ */
+export const consentReceiptPurposeSchema = v.object({
+	purpose: v.string(),
+	purposeCategory: v.array(v.string()),
+	consentType: v.picklist(['EXPLICIT', 'IMPLICIT']),
+	piiCategory: v.array(v.string()),
+	primaryPurpose: v.boolean(),
+	termination: v.string(),
+	thirdPartyDisclosure: v.boolean(),
+});
+
+/**
+ * Decoded consent receipt claims
+ */
+export const consentReceiptSchema = v.object({
+	iss: v.string(),
+	aud: v.string(),
+	sub: v.string(),
+	jti: v.string(),
+	iat: v.number(),
+	version: v.string(),
+	consentReceiptID: v.string(),
+	consentTimestamp: v.number(),
+	collectionMethod: v.string(),
+	jurisdiction: v.string(),
+	language: v.optional(v.string()),
+	piiPrincipalId: v.string(),
+	piiControllers: v.array(consentReceiptControllerSchema),
+	policyUrl: v.optional(v.string()),
+	services: v.array(
+		v.object({
+			service: v.string(),
+			purposes: v.array(consentReceiptPurposeSchema),
+		})
+	),
+	sensitive: v.boolean(),
+	spiCat: v.array(v.string()),
+	c15t: v.object({
+		consentId: v.string(),
+		subjectId: v.string(),
+		type: v.string(),
+		policyId: v.optional(v.string()),
+		policyFingerprint: v.optional(v.string()),
+		consentAction: v.optional(v.string()),
+		preferences: v.optional(v.record(v.string(), v.boolean())),
+	}),
+});
+
+/**
+ * POST /consent-receipts/verify request body
+ */
+export const verifyConsentReceiptInputSchema = v.object({
+	receipt: v.pipe(
+		v.string(),
+		v.minLength(1),
+		v.description('Signed receipt returned by POST /subjects.')
+	),
+});
+
+/**
+ * POST /consent-receipts/verify output schema
+ *
+ * Invalid receipts return `valid: false` with a reason rather than an error
+ * status, so auditors can tell a bad receipt from a failed request.
+ */
+export const verifyConsentReceiptOutputSchema = v.object({
+	valid: v.boolean(),
+	reason: v.optional(v.picklist(['malformed', 'invalid'])),
+	receipt: v.optional(consentReceiptSchema),
+});
+
+/**
+ * Error schemas for POST /consent-receipts/verify
+ */
+export const verifyConsentReceiptErrorSchemas = {
+	inputValidationFailed: v.object({
+		formErrors: v.array(v.string()),
+		fieldErrors: v.record(v.string(), v.array(v.string())),
+	}),
+	notConfigured: v.object({
+		code: v.literal('CONSENT_RECEIPTS_NOT_CONFIGURED'),
+	}),
+};
+
+// Type exports
+export type ConsentReceipt = v.InferOutput<typeof consentReceiptSchema>;
+export type ConsentReceiptPurpose = v.InferOutput<
+	typeof consentReceiptPurposeSchema
+>;
+export type ConsentReceiptController = v.InferOutput<
+	typeof consentReceiptControllerSchema
+>;
+export type VerifyConsentReceiptInput = v.InferOutput<
+	typeof verifyConsentReceiptInputSchema
+>;
+export type VerifyConsentReceiptOutput = v.InferOutput<
+	typeof verifyConsentReceiptOutputSchema
+>;
@@ -1,9 +1,14 @@
+export * from './analytics';
+export * from './audit-log';
 export * from './consent';
+export * from './consent-receipt';
 export {
 	completeTranslationsSchema,
 	type InitOutput,
 	initOutputSchema,
+	type LinkedConsent,
 	type LocationResponse,
+	linkedConsentSchema,
 	locationSchema,
 	partialTranslationsSchema,
 	type TranslationsResponse,
@@ -13,5 +18,7 @@ export {
 export * from './legal-document';
 
 export * from './meta';
+export * from './policy';
+export * from './policy-pack';
 
 export * from './subject';
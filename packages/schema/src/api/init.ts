@@ -39,13 +39,17 @@ export const completeTranslationsSchema = v.object({
 	}),
 	cookieBanner: titleDescriptionSchema,
 	consentManagerDialog: titleDescriptionSchema,
-	consentTypes: v.object({
-		experience: titleDescriptionSchema,
-		functionality: titleDescriptionSchema,
-		marketing: titleDescriptionSchema,
-		measurement: titleDescriptionSchema,
-		necessary: titleDescriptionSchema,
-	}),
+	// Custom consent categories are keyed by their name
+	consentTypes: v.objectWithRest(
+		{
+			experience: titleDescriptionSchema,
+			functionality: titleDescriptionSchema,
+			marketing: titleDescriptionSchema,
+			measurement: titleDescriptionSchema,
+			necessary: titleDescriptionSchema,
+		},
+		titleDescriptionSchema
+	),
 	frame: v.object({
 		title: v.string(),
 		actionButton: v.string(),
@@ -73,13 +77,16 @@ export const partialTranslationsSchema = v.object({
 	cookieBanner: partialTitleDescriptionSchema,
 	consentManagerDialog: partialTitleDescriptionSchema,
 	consentTypes: v.partial(
-		v.object({
-			experience: partialTitleDescriptionSchema,
-			functionality: partialTitleDescriptionSchema,
-			marketing: partialTitleDescriptionSchema,
-			measurement: partialTitleDescriptionSchema,
-			necessary: partialTitleDescriptionSchema,
-		})
+		v.objectWithRest(
+			{
+				experience: partialTitleDescriptionSchema,
+				functionality: partialTitleDescriptionSchema,
+				marketing: partialTitleDescriptionSchema,
+				measurement: partialTitleDescriptionSchema,
+				necessary: partialTitleDescriptionSchema,
+			},
+			partialTitleDescriptionSchema
+		)
 	),
 	frame: v.optional(
 		v.partial(
@@ -176,6 +183,19 @@ export const policyDecisionSchema = v.object({
 	jurisdiction: jurisdictionCodeSchema,
 });
 
+/**
+ * Consent restored from another device of the user named by an identity
+ * token.
+ */
+export const linkedConsentSchema = v.object({
+	consentId: v.string(),
+	preferences: v.record(v.string(), v.boolean()),
+	givenAt: v.string(),
+	validUntil: v.optional(v.string()),
+	externalId: v.string(),
+	identityProvider: v.optional(v.string()),
+});
+
 /**
  * Output schema for init endpoint
  */
@@ -218,11 +238,21 @@ export const initOutputSchema = v.object({
 	 * Present when backend policy snapshots are configured.
 	 */
 	policySnapshotToken: v.optional(v.string()),
+	/**
+	 * Latest valid cookie banner consent of the user named by the
+	 * `x-c15t-identity-token` request header.
+	 * Present only when the token is valid and such a consent exists.
+	 */
+	linkedConsent: v.optional(linkedConsentSchema),
 });
 
 export type InitOutput = v.InferOutput<typeof initOutputSchema>;
 export type TranslationsResponse = v.InferOutput<typeof translationsSchema>;
 export type LocationResponse = v.InferOutput<typeof locationSchema>;
+/**
+ * Consent restored on `/init` from another device of the same user.
+ */
+export type LinkedConsent = v.InferOutput<typeof linkedConsentSchema>;
 /**
  * Runtime policy payload returned by `/init`.
  *
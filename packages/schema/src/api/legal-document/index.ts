@@ -7,3 +7,11 @@ export {
 	legalDocumentCurrentOutputSchema,
 	legalDocumentCurrentParamsSchema,
 } from './current';
+export {
+	type LegalDocumentVersion,
+	type LegalDocumentVersionsOutput,
+	type LegalDocumentVersionsParams,
+	legalDocumentVersionSchema,
+	legalDocumentVersionsOutputSchema,
+	legalDocumentVersionsParamsSchema,
+} from './versions';
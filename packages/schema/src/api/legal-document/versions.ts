@@ -0,0 +1,39 @@
+import * as v from 'valibot';
+import { legalDocumentPolicyTypeSchema } from '~/domain/consent-policy';
+
+export const legalDocumentVersionsParamsSchema = v.object({
+	type: v.pipe(
+		legalDocumentPolicyTypeSchema,
+		v.description('Legal document type to list releases for.'),
+		v.examples(['privacy_policy', 'terms_and_conditions'])
+	),
+});
+
+export const legalDocumentVersionSchema = v.object({
+	id: v.string(),
+	version: v.string(),
+	hash: v.nullable(v.string()),
+	effectiveDate: v.date(),
+	isActive: v.boolean(),
+	acceptanceCount: v.pipe(
+		v.number(),
+		v.description(
+			'Number of acceptances (consent records) of this release. A subject who accepted it twice counts twice.'
+		)
+	),
+});
+
+export const legalDocumentVersionsOutputSchema = v.object({
+	type: legalDocumentPolicyTypeSchema,
+	versions: v.array(legalDocumentVersionSchema),
+});
+
+export type LegalDocumentVersionsParams = v.InferOutput<
+	typeof legalDocumentVersionsParamsSchema
+>;
+export type LegalDocumentVersion = v.InferOutput<
+	typeof legalDocumentVersionSchema
+>;
+export type LegalDocumentVersionsOutput = v.InferOutput<
+	typeof legalDocumentVersionsOutputSchema
+>;
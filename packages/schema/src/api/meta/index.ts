@@ -1,3 +1,9 @@
+export {
+	type JwksKey,
+	type JwksOutput,
+	jwksKeySchema,
+	jwksOutputSchema,
+} from './jwks';
 export {
 	type StatusOutput,
 	statusOutputSchema,
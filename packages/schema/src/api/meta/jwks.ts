@@ -0,0 +1,24 @@
+import * as v from 'valibot';
+
+/**
+ * Public JSON Web Key used to verify snapshot tokens
+ */
+export const jwksKeySchema = v.object({
+	kty: v.string(),
+	crv: v.optional(v.string()),
+	x: v.optional(v.string()),
+	y: v.optional(v.string()),
+	kid: v.string(),
+	alg: v.picklist(['ES256', 'EdDSA']),
+	use: v.literal('sig'),
+});
+
+/**
+ * Output schema for the JWKS endpoint
+ */
+export const jwksOutputSchema = v.object({
+	keys: v.array(jwksKeySchema),
+});
+
+export type JwksKey = v.InferOutput<typeof jwksKeySchema>;
+export type JwksOutput = v.InferOutput<typeof jwksOutputSchema>;
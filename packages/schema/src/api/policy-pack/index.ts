@@ -0,0 +1,17 @@
+export {
+	type CreatePolicyPackInput,
+	createPolicyPackInputSchema,
+	type ListPolicyPacksOutput,
+	type ListPolicyPacksQuery,
+	listPolicyPacksOutputSchema,
+	listPolicyPacksQuerySchema,
+	type PolicyPackItem,
+	type PolicyPackOutput,
+	type PolicyPackParams,
+	policyPackErrorSchemas,
+	policyPackItemSchema,
+	policyPackOutputSchema,
+	policyPackParamsSchema,
+	type UpdatePolicyPackInput,
+	updatePolicyPackInputSchema,
+} from './manage';
@@ -0,0 +1,129 @@
+/**
+ * /policy-packs schemas - Manage stored policy pack versions (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import * as v from 'valibot';
+import { policyPackStatusSchema } from '~/domain/policy-pack-version';
+import { policyConfigSchema } from '~/shared/policy-schema';
+
+const policiesSchema = v.pipe(
+	v.array(policyConfigSchema),
+	v.description(
+		'Policies in the pack. Validated with `validatePolicies` before they are stored.'
+	)
+);
+
+const descriptionSchema = v.pipe(
+	v.string(),
+	v.maxLength(500),
+	v.description('Optional note describing the change.'),
+	v.examples(['Switch Brazil to opt-in'])
+);
+
+/**
+ * /policy-packs/:id path params
+ */
+export const policyPackParamsSchema = v.object({
+	id: v.pipe(
+		v.string(),
+		v.description('Policy pack version ID.'),
+		v.examples(['ppv_2jv6z8n4q9'])
+	),
+});
+
+/**
+ * GET /policy-packs query params
+ */
+export const listPolicyPacksQuerySchema = v.object({
+	status: v.optional(
+		v.pipe(
+			policyPackStatusSchema,
+			v.description('Only return versions with this status.')
+		)
+	),
+});
+
+/**
+ * POST /policy-packs input - creates a new draft version
+ */
+export const createPolicyPackInputSchema = v.object({
+	policies: policiesSchema,
+	description: v.optional(descriptionSchema),
+});
+
+/**
+ * PATCH /policy-packs/:id input - updates a draft version
+ */
+export const updatePolicyPackInputSchema = v.object({
+	policies: v.optional(policiesSchema),
+	description: v.optional(v.nullable(descriptionSchema)),
+});
+
+/**
+ * Stored policy pack version
+ */
+export const policyPackItemSchema = v.object({
+	id: v.string(),
+	version: v.pipe(
+		v.number(),
+		v.description('Version number, increasing per tenant.')
+	),
+	status: policyPackStatusSchema,
+	description: v.nullable(v.string()),
+	policies: v.array(policyConfigSchema),
+	createdBy: v.pipe(
+		v.nullable(v.string()),
+		v.description('Name of the API key that created the version.')
+	),
+	createdAt: v.date(),
+	updatedAt: v.date(),
+	publishedAt: v.nullable(v.date()),
+});
+
+/**
+ * Output for a single policy pack version
+ *
+ * `warnings` lists non-fatal issues found by `inspectPolicies` on writes.
+ */
+export const policyPackOutputSchema = v.object({
+	policyPack: policyPackItemSchema,
+	warnings: v.optional(v.array(v.string())),
+});
+
+/**
+ * GET /policy-packs output - newest version first
+ */
+export const listPolicyPacksOutputSchema = v.object({
+	policyPacks: v.array(policyPackItemSchema),
+});
+
+export const policyPackErrorSchemas = {
+	invalidPolicies: v.object({
+		code: v.literal('POLICY_PACK_INVALID'),
+		message: v.string(),
+	}),
+	notFound: v.object({
+		code: v.literal('POLICY_PACK_NOT_FOUND'),
+	}),
+	notDraft: v.object({
+		code: v.literal('POLICY_PACK_NOT_DRAFT'),
+	}),
+};
+
+export type PolicyPackParams = v.InferOutput<typeof policyPackParamsSchema>;
+export type ListPolicyPacksQuery = v.InferOutput<
+	typeof listPolicyPacksQuerySchema
+>;
+export type CreatePolicyPackInput = v.InferOutput<
+	typeof createPolicyPackInputSchema
+>;
+export type UpdatePolicyPackInput = v.InferOutput<
+	typeof updatePolicyPackInputSchema
+>;
+export type PolicyPackItem = v.InferOutput<typeof policyPackItemSchema>;
+export type PolicyPackOutput = v.InferOutput<typeof policyPackOutputSchema>;
+export type ListPolicyPacksOutput = v.InferOutput<
+	typeof listPolicyPacksOutputSchema
+>;
@@ -0,0 +1,8 @@
+export {
+	type SimulatedPolicyDecision,
+	type SimulatePolicyInput,
+	type SimulatePolicyOutput,
+	simulatedPolicyDecisionSchema,
+	simulatePolicyInputSchema,
+	simulatePolicyOutputSchema,
+} from './simulate';
@@ -0,0 +1,135 @@
+/**
+ * POST /policies/simulate schemas - Preview the policy a visitor would get (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import * as v from 'valibot';
+import { jurisdictionCodeSchema } from '~/shared/jurisdiction';
+import {
+	locationSchema,
+	policyMatchedBySchema,
+	resolvedPolicySchema,
+} from '../init';
+
+/**
+ * POST /policies/simulate input - the visitor to simulate
+ */
+export const simulatePolicyInputSchema = v.object({
+	country: v.optional(
+		v.pipe(
+			v.string(),
+			v.regex(/^[A-Za-z]{2}$/, 'country must be an ISO 3166-1 alpha-2 code'),
+			v.description(
+				'ISO 3166-1 alpha-2 country code, as sent by CDN geo headers.'
+			),
+			v.examples(['US'])
+		)
+	),
+	region: v.optional(
+		v.pipe(
+			v.string(),
+			v.maxLength(10),
+			v.description(
+				'ISO 3166-2 subdivision code, with or without the country prefix.'
+			),
+			v.examples(['CA', 'US-CA'])
+		)
+	),
+	language: v.optional(
+		v.pipe(
+			v.string(),
+			v.maxLength(200),
+			v.description('`Accept-Language` header value.'),
+			v.examples(['de-DE,de;q=0.9,en;q=0.8'])
+		)
+	),
+	gpc: v.optional(
+		v.pipe(
+			v.boolean(),
+			v.description(
+				'Whether the browser sends a Global Privacy Control signal.'
+			)
+		)
+	),
+	userAgent: v.optional(
+		v.pipe(
+			v.string(),
+			v.maxLength(1000),
+			v.description(
+				'User agent of the visitor. Policy resolution does not depend on it; it is only echoed in the response.'
+			)
+		)
+	),
+});
+
+/**
+ * Policy decision as resolved by `resolvePolicyDecision`
+ */
+export const simulatedPolicyDecisionSchema = v.object({
+	policy: resolvedPolicySchema,
+	matchedBy: policyMatchedBySchema,
+	fingerprint: v.string(),
+});
+
+/**
+ * POST /policies/simulate output
+ */
+export const simulatePolicyOutputSchema = v.object({
+	jurisdiction: jurisdictionCodeSchema,
+	location: locationSchema,
+	decision: v.pipe(
+		v.nullable(simulatedPolicyDecisionSchema),
+		v.description(
+			'The matched policy. `null` when no policy matched, or no policy packs are configured.'
+		)
+	),
+	policy: v.pipe(
+		v.nullable(resolvedPolicySchema),
+		v.description(
+			'The policy `/init` would return. `null` when no policy packs are configured.'
+		)
+	),
+	isFallback: v.pipe(
+		v.boolean(),
+		v.description(
+			'`true` when policy packs are configured but none matched, so `policy` is the no-banner fallback.'
+		)
+	),
+	translations: v.object({
+		language: v.string(),
+		profile: v.pipe(
+			v.string(),
+			v.description('i18n message profile the translations came from.')
+		),
+	}),
+	gpc: v.object({
+		signal: v.boolean(),
+		honored: v.pipe(
+			v.boolean(),
+			v.description(
+				'`true` when the signal is present and the policy does not set `consent.gpc: false`. Marketing and measurement are then never preselected.'
+			)
+		),
+	}),
+	preselectedCategories: v.pipe(
+		v.array(v.string()),
+		v.description(
+			'Categories preselected in the consent UI, after applying GPC.'
+		)
+	),
+	userAgent: v.pipe(
+		v.nullable(v.string()),
+		v.description('The `userAgent` from the request, or `null`.')
+	),
+});
+
+export type SimulatePolicyInput = v.InferOutput<
+	typeof simulatePolicyInputSchema
+>;
+export type SimulatedPolicyDecision = v.InferOutput<
+	typeof simulatedPolicyDecisionSchema
+>;
+export type SimulatePolicyOutput = v.InferOutput<
+	typeof simulatePolicyOutputSchema
+>;
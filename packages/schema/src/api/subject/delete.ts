@@ -0,0 +1,93 @@
+/**
+ * DELETE /subjects schemas - Right-to-erasure (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import * as v from 'valibot';
+import { subjectIdSchema } from './post';
+
+/**
+ * How erased subject data is handled.
+ *
+ * - `delete` – subject, consent and audit log rows are removed
+ * - `pseudonymize` – rows are kept, but identifying fields (external ID,
+ *   IP address, user agent, metadata, audit changes) are cleared
+ */
+export const subjectErasureModeSchema = v.picklist(['delete', 'pseudonymize']);
+
+/**
+ * DELETE /subjects query params (requires API key)
+ *
+ * At least one of `externalId` or `subjectId` must be provided.
+ */
+export const deleteSubjectsQuerySchema = v.object({
+	externalId: v.optional(
+		v.pipe(
+			v.string(),
+			v.description(
+				'External user ID from your authentication system. Erases every subject linked to it.'
+			),
+			v.examples(['user_123'])
+		)
+	),
+	subjectId: v.optional(
+		v.pipe(
+			subjectIdSchema,
+			v.description('Single subject ID to erase, in sub_xxx format.'),
+			v.examples(['sub_2jv6z8n4q9'])
+		)
+	),
+	mode: v.optional(
+		v.pipe(
+			subjectErasureModeSchema,
+			v.description(
+				'`delete` removes rows, `pseudonymize` clears identifying fields. Defaults to `delete`.'
+			),
+			v.examples(['delete', 'pseudonymize'])
+		)
+	),
+});
+
+/**
+ * DELETE /subjects output schema
+ */
+export const deleteSubjectsOutputSchema = v.object({
+	/** ID of the tombstone audit log entry recording this erasure */
+	erasureId: v.string(),
+	mode: subjectErasureModeSchema,
+	erasedAt: v.date(),
+	counts: v.object({
+		subjects: v.number(),
+		consents: v.number(),
+		auditLogs: v.number(),
+	}),
+});
+
+/**
+ * Error schemas for DELETE /subjects
+ */
+export const deleteSubjectsErrorSchemas = {
+	inputValidationFailed: v.object({
+		formErrors: v.array(v.string()),
+		fieldErrors: v.record(v.string(), v.array(v.string())),
+	}),
+	unauthorized: v.object({
+		message: v.string(),
+	}),
+	subjectIdentifierRequired: v.object({
+		code: v.literal('SUBJECT_IDENTIFIER_REQUIRED'),
+	}),
+	subjectNotFound: v.object({
+		code: v.literal('SUBJECT_NOT_FOUND'),
+	}),
+};
+
+// Type exports
+export type SubjectErasureMode = v.InferOutput<typeof subjectErasureModeSchema>;
+export type DeleteSubjectsQuery = v.InferOutput<
+	typeof deleteSubjectsQuerySchema
+>;
+export type DeleteSubjectsOutput = v.InferOutput<
+	typeof deleteSubjectsOutputSchema
+>;
@@ -0,0 +1,65 @@
+/**
+ * GET /subjects/:id/events schemas - Server-Sent Events stream of consent
+ * changes for a subject.
+ *
+ * @packageDocumentation
+ */
+
+import * as v from 'valibot';
+import { subjectIdSchema } from './post';
+
+/**
+ * SSE event name for consent records
+ */
+export const SUBJECT_CONSENT_EVENT = 'consent.recorded';
+
+/**
+ * SSE event name sent when the subject is linked to an external ID
+ */
+export const SUBJECT_LINKED_EVENT = 'subject.linked';
+
+/**
+ * GET /subjects/:id/events path params schema.
+ */
+export const subjectEventsParamsSchema = v.object({
+	id: v.pipe(
+		subjectIdSchema,
+		v.description('Client-generated subject ID in sub_xxx format.'),
+		v.examples(['sub_2jv6z8n4q9'])
+	),
+});
+
+/**
+ * `data` of a `consent.recorded` event.
+ *
+ * Sent for consents recorded for the subject, and for other subjects linked
+ * to the same external ID.
+ */
+export const subjectConsentEventSchema = v.object({
+	consentId: v.string(),
+	type: v.string(),
+	preferences: v.optional(v.record(v.string(), v.boolean())),
+	consentAction: v.optional(v.string()),
+	/** ISO 8601 time the consent was given */
+	givenAt: v.string(),
+});
+
+/**
+ * `data` of a `subject.linked` event.
+ *
+ * The stream then also carries consents of other subjects linked to the
+ * same external ID; clients do not need to reconnect.
+ */
+export const subjectLinkedEventSchema = v.object({
+	externalId: v.string(),
+	identityProvider: v.string(),
+});
+
+// Type exports
+export type SubjectEventsParams = v.InferOutput<
+	typeof subjectEventsParamsSchema
+>;
+export type SubjectConsentEvent = v.InferOutput<
+	typeof subjectConsentEventSchema
+>;
+export type SubjectLinkedEvent = v.InferOutput<typeof subjectLinkedEventSchema>;
@@ -0,0 +1,169 @@
+/**
+ * GET /subjects/export schemas - Data Subject Access Request export (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import * as v from 'valibot';
+import { subjectIdSchema } from './post';
+
+/**
+ * Current version of the subject export document format.
+ *
+ * Bump when the shape of {@link subjectExportOutputSchema} changes in a way
+ * that consumers of archived exports need to distinguish.
+ */
+export const SUBJECT_EXPORT_VERSION = 1;
+
+/**
+ * GET /subjects/export query params (requires API key)
+ *
+ * At least one of `externalId` or `subjectId` is required. When both are
+ * given, the export covers every subject that matches either.
+ */
+export const exportSubjectsQuerySchema = v.object({
+	externalId: v.optional(
+		v.pipe(
+			v.string(),
+			v.description(
+				'External user ID from your authentication system. Exports every subject linked to it.'
+			),
+			v.examples(['user_123'])
+		)
+	),
+	subjectId: v.optional(
+		v.pipe(
+			subjectIdSchema,
+			v.description('Single subject ID to export, in sub_xxx format.'),
+			v.examples(['sub_2jv6z8n4q9'])
+		)
+	),
+	format: v.optional(
+		v.pipe(
+			v.picklist(['json', 'csv']),
+			v.description('Export format. Defaults to `json`.'),
+			v.examples(['json', 'csv'])
+		)
+	),
+});
+
+/**
+ * Consent record in a subject export
+ */
+export const subjectExportConsentSchema = v.object({
+	id: v.string(),
+	domainId: v.string(),
+	domain: v.optional(v.string()),
+	policyId: v.optional(v.string()),
+	policyType: v.optional(v.string()),
+	policyVersion: v.optional(v.string()),
+	purposes: v.array(v.string()),
+	metadata: v.optional(v.record(v.string(), v.unknown())),
+	ipAddress: v.optional(v.string()),
+	userAgent: v.optional(v.string()),
+	jurisdiction: v.optional(v.string()),
+	jurisdictionModel: v.optional(v.string()),
+	tcString: v.optional(v.string()),
+	uiSource: v.optional(v.string()),
+	consentAction: v.optional(v.string()),
+	runtimePolicyDecisionId: v.optional(v.string()),
+	runtimePolicySource: v.optional(v.string()),
+	givenAt: v.date(),
+	validUntil: v.optional(v.date()),
+});
+
+/**
+ * Audit log entry in a subject export
+ */
+export const subjectExportAuditLogSchema = v.object({
+	id: v.string(),
+	entityType: v.string(),
+	entityId: v.string(),
+	actionType: v.string(),
+	ipAddress: v.optional(v.string()),
+	userAgent: v.optional(v.string()),
+	changes: v.optional(v.record(v.string(), v.unknown())),
+	metadata: v.optional(v.record(v.string(), v.unknown())),
+	createdAt: v.date(),
+});
+
+/**
+ * Runtime policy decision referenced by a subject's consents
+ */
+export const subjectExportRuntimePolicyDecisionSchema = v.object({
+	id: v.string(),
+	policyId: v.string(),
+	fingerprint: v.string(),
+	matchedBy: v.string(),
+	countryCode: v.optional(v.string()),
+	regionCode: v.optional(v.string()),
+	jurisdiction: v.string(),
+	language: v.optional(v.string()),
+	model: v.string(),
+	uiMode: v.optional(v.string()),
+	categories: v.optional(v.array(v.string())),
+	preselectedCategories: v.optional(v.array(v.string())),
+	proofConfig: v.optional(v.record(v.string(), v.boolean())),
+	createdAt: v.date(),
+});
+
+/**
+ * Subject entry in a subject export
+ */
+export const subjectExportItemSchema = v.object({
+	id: v.string(),
+	externalId: v.optional(v.string()),
+	identityProvider: v.optional(v.string()),
+	createdAt: v.date(),
+	updatedAt: v.optional(v.date()),
+	consents: v.array(subjectExportConsentSchema),
+	auditLogs: v.array(subjectExportAuditLogSchema),
+	runtimePolicyDecisions: v.array(subjectExportRuntimePolicyDecisionSchema),
+});
+
+/**
+ * GET /subjects/export output schema (JSON format)
+ */
+export const exportSubjectsOutputSchema = v.object({
+	version: v.literal(SUBJECT_EXPORT_VERSION),
+	generatedAt: v.date(),
+	query: v.object({
+		externalId: v.optional(v.string()),
+		subjectId: v.optional(v.string()),
+	}),
+	subjects: v.array(subjectExportItemSchema),
+});
+
+/**
+ * Error schemas for GET /subjects/export
+ */
+export const exportSubjectsErrorSchemas = {
+	inputValidationFailed: v.object({
+		formErrors: v.array(v.string()),
+		fieldErrors: v.record(v.string(), v.array(v.string())),
+	}),
+	unauthorized: v.object({
+		message: v.string(),
+	}),
+	subjectIdentifierRequired: v.object({
+		code: v.literal('SUBJECT_IDENTIFIER_REQUIRED'),
+	}),
+};
+
+// Type exports
+export type ExportSubjectsQuery = v.InferOutput<
+	typeof exportSubjectsQuerySchema
+>;
+export type ExportSubjectsOutput = v.InferOutput<
+	typeof exportSubjectsOutputSchema
+>;
+export type SubjectExportItem = v.InferOutput<typeof subjectExportItemSchema>;
+export type SubjectExportConsent = v.InferOutput<
+	typeof subjectExportConsentSchema
+>;
+export type SubjectExportAuditLog = v.InferOutput<
+	typeof subjectExportAuditLogSchema
+>;
+export type SubjectExportRuntimePolicyDecision = v.InferOutput<
+	typeof subjectExportRuntimePolicyDecisionSchema
+>;
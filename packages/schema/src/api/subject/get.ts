@@ -74,8 +74,26 @@ export const consentItemSchema = v.object({
 	isLatestPolicy: v.boolean(),
 	preferences: v.optional(v.record(v.string(), v.boolean())),
 	givenAt: v.date(),
+	/** When the consent stops being valid, from the policy's `expiryDays` */
+	validUntil: v.optional(v.date()),
+	/** Whether `validUntil` has passed */
+	isExpired: v.optional(v.boolean()),
 });
 
+/**
+ * Consent state for the requested types.
+ *
+ * - `valid`: every requested type has a current, unexpired consent
+ * - `expired`: consents match the latest policies but at least one has
+ *   passed its `validUntil`, so the subject must consent again
+ * - `invalid`: a requested type has no consent for its latest policy
+ */
+export const subjectConsentStateSchema = v.picklist([
+	'valid',
+	'expired',
+	'invalid',
+]);
+
 /**
  * GET /subject/:id output schema
  */
@@ -87,6 +105,7 @@ export const getSubjectOutputSchema = v.object({
 	}),
 	consents: v.array(consentItemSchema),
 	isValid: v.boolean(),
+	state: subjectConsentStateSchema,
 });
 
 /**
@@ -108,3 +127,6 @@ export type GetSubjectQuery = v.InferOutput<typeof getSubjectQuerySchema>;
 export type GetSubjectParams = v.InferOutput<typeof getSubjectParamsSchema>;
 export type GetSubjectOutput = v.InferOutput<typeof getSubjectOutputSchema>;
 export type ConsentItem = v.InferOutput<typeof consentItemSchema>;
+export type SubjectConsentState = v.InferOutput<
+	typeof subjectConsentStateSchema
+>;
@@ -0,0 +1,195 @@
+/**
+ * POST /subjects/import schemas - Bulk consent import (requires API key).
+ *
+ * @packageDocumentation
+ */
+
+import * as v from 'valibot';
+import { policyTypeSchema } from '../../domain/consent-policy';
+import { subjectIdSchema } from './post';
+
+/**
+ * Maximum number of records accepted in a single import request
+ */
+export const SUBJECT_IMPORT_MAX_RECORDS = 1000;
+
+/**
+ * Epoch milliseconds or an ISO 8601 string
+ */
+const importTimestampSchema = v.pipe(
+	v.union([v.number(), v.string()]),
+	v.check(
+		(value) => !Number.isNaN(new Date(value).getTime()),
+		'Invalid timestamp'
+	)
+);
+
+/**
+ * A single NDJSON line of a POST /subjects/import request
+ */
+export const importSubjectRecordSchema = v.object({
+	/** Client-supplied key that makes re-importing the record a no-op */
+	dedupeKey: v.pipe(
+		v.string(),
+		v.minLength(1),
+		v.maxLength(255),
+		v.description(
+			'Unique key for the record, such as the consent ID in the previous CMP. Records with a key that was already imported are skipped.'
+		),
+		v.examples(['onetrust:8f14e45f-ceea-467f-a0e6-3e9f1c7d2a1b'])
+	),
+	subjectId: v.optional(
+		v.pipe(
+			subjectIdSchema,
+			v.description(
+				'Existing c15t subject ID. When omitted, the subject is derived from externalId, or from dedupeKey for anonymous records.'
+			)
+		)
+	),
+	externalId: v.optional(
+		v.pipe(
+			v.string(),
+			v.minLength(1),
+			v.description('External user ID from your authentication system.'),
+			v.examples(['user_123'])
+		)
+	),
+	identityProvider: v.optional(
+		v.pipe(
+			v.string(),
+			v.description('Identity provider name for the external ID.'),
+			v.examples(['auth0', 'clerk'])
+		)
+	),
+	domain: v.pipe(
+		v.string(),
+		v.minLength(1),
+		v.description('Domain where consent was collected.'),
+		v.examples(['example.com'])
+	),
+	type: v.optional(policyTypeSchema, 'cookie_banner'),
+	preferences: v.optional(
+		v.pipe(
+			v.record(v.string(), v.boolean()),
+			v.description('Consent preferences keyed by category.'),
+			v.examples([{ necessary: true, measurement: true, marketing: false }])
+		)
+	),
+	givenAt: v.pipe(
+		importTimestampSchema,
+		v.description(
+			'Original time the consent was given, in epoch milliseconds or ISO 8601.'
+		),
+		v.examples(['2024-03-01T09:30:00.000Z'])
+	),
+	validUntil: v.optional(
+		v.pipe(
+			importTimestampSchema,
+			v.description(
+				'Original consent expiry, in epoch milliseconds or ISO 8601.'
+			)
+		)
+	),
+	jurisdiction: v.optional(
+		v.pipe(
+			v.string(),
+			v.description('Jurisdiction code the consent was collected under.'),
+			v.examples(['GDPR', 'UK_GDPR', 'CCPA'])
+		)
+	),
+	jurisdictionModel: v.optional(v.picklist(['opt-in', 'opt-out', 'iab'])),
+	consentAction: v.optional(
+		v.pipe(
+			v.picklist(['accept_all', 'reject_all', 'opt_out', 'custom']),
+			v.description('Action that produced the consent state.')
+		)
+	),
+	uiSource: v.optional(
+		v.pipe(
+			v.string(),
+			v.description('UI surface that collected the consent.'),
+			v.examples(['banner', 'dialog'])
+		)
+	),
+	tcString: v.optional(
+		v.pipe(v.string(), v.description('IAB TCF TC string, if any.'))
+	),
+	policyId: v.optional(
+		v.pipe(
+			v.string(),
+			v.description('c15t policy ID the consent was given against.')
+		)
+	),
+	policyHash: v.optional(
+		v.pipe(
+			v.string(),
+			v.description(
+				'Release hash of the legal document that was accepted. Legal document records need policyId or policyHash.'
+			)
+		)
+	),
+	metadata: v.optional(
+		v.pipe(
+			v.record(v.string(), v.unknown()),
+			v.description('Additional metadata to store with the consent.')
+		)
+	),
+});
+
+/**
+ * Error reported for a single import line
+ */
+export const importSubjectLineErrorSchema = v.object({
+	/** 1-based line number in the request body */
+	line: v.number(),
+	dedupeKey: v.optional(v.string()),
+	code: v.picklist([
+		'INVALID_JSON',
+		'INPUT_VALIDATION_FAILED',
+		'LEGAL_DOCUMENT_PROOF_REQUIRED',
+		'POLICY_NOT_FOUND',
+		'IMPORT_FAILED',
+	]),
+	message: v.string(),
+});
+
+/**
+ * POST /subjects/import output schema
+ */
+export const importSubjectsOutputSchema = v.object({
+	/** Non-empty lines in the request */
+	total: v.number(),
+	/** Consent records created */
+	imported: v.number(),
+	/** Records whose dedupe key was already imported */
+	skipped: v.number(),
+	/** Records listed in `errors` */
+	failed: v.number(),
+	errors: v.array(importSubjectLineErrorSchema),
+});
+
+/**
+ * Error schemas for POST /subjects/import
+ */
+export const importSubjectsErrorSchemas = {
+	unauthorized: v.object({
+		message: v.string(),
+	}),
+	importEmpty: v.object({
+		code: v.literal('IMPORT_EMPTY'),
+	}),
+	importTooLarge: v.object({
+		code: v.literal('IMPORT_TOO_LARGE'),
+	}),
+};
+
+// Type exports
+export type ImportSubjectRecord = v.InferOutput<
+	typeof importSubjectRecordSchema
+>;
+export type ImportSubjectLineError = v.InferOutput<
+	typeof importSubjectLineErrorSchema
+>;
+export type ImportSubjectsOutput = v.InferOutput<
+	typeof importSubjectsOutputSchema
+>;
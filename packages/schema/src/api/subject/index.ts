@@ -4,6 +4,44 @@
  * @packageDocumentation
  */
 
+export {
+	type DeleteSubjectsOutput,
+	type DeleteSubjectsQuery,
+	deleteSubjectsErrorSchemas,
+	deleteSubjectsOutputSchema,
+	deleteSubjectsQuerySchema,
+	type SubjectErasureMode,
+	subjectErasureModeSchema,
+} from './delete';
+
+export {
+	SUBJECT_CONSENT_EVENT,
+	SUBJECT_LINKED_EVENT,
+	type SubjectConsentEvent,
+	type SubjectEventsParams,
+	type SubjectLinkedEvent,
+	subjectConsentEventSchema,
+	subjectEventsParamsSchema,
+	subjectLinkedEventSchema,
+} from './events';
+
+export {
+	type ExportSubjectsOutput,
+	type ExportSubjectsQuery,
+	exportSubjectsErrorSchemas,
+	exportSubjectsOutputSchema,
+	exportSubjectsQuerySchema,
+	SUBJECT_EXPORT_VERSION,
+	type SubjectExportAuditLog,
+	type SubjectExportConsent,
+	type SubjectExportItem,
+	type SubjectExportRuntimePolicyDecision,
+	subjectExportAuditLogSchema,
+	subjectExportConsentSchema,
+	subjectExportItemSchema,
+	subjectExportRuntimePolicyDecisionSchema,
+} from './export';
+
 export {
 	type ConsentItem,
 	consentItemSchema,
@@ -16,8 +54,21 @@ export {
 	getSubjectOutputSchema,
 	getSubjectParamsSchema,
 	getSubjectQuerySchema,
+	type SubjectConsentState,
+	subjectConsentStateSchema,
 } from './get';
 
+export {
+	type ImportSubjectLineError,
+	type ImportSubjectRecord,
+	type ImportSubjectsOutput,
+	importSubjectLineErrorSchema,
+	importSubjectRecordSchema,
+	importSubjectsErrorSchemas,
+	importSubjectsOutputSchema,
+	SUBJECT_IMPORT_MAX_RECORDS,
+} from './import';
+
 export {
 	type ListSubjectsOutput,
 	type ListSubjectsQuery,
@@ -201,6 +201,11 @@ export const postSubjectOutputSchema = v.object({
 	appliedPreferences: v.optional(v.record(v.string(), v.boolean())),
 	uiSource: v.optional(v.string()),
 	givenAt: v.date(),
+	/**
+	 * Signed consent receipt (JWT). Only present when the backend has
+	 * consent receipts configured.
+	 */
+	receipt: v.optional(v.string()),
 });
 
 /**
@@ -26,6 +26,12 @@ export {
 	type Domain,
 	domainSchema,
 } from './domain';
+export {
+	type PolicyPackStatus,
+	type PolicyPackVersion,
+	policyPackStatusSchema,
+	policyPackVersionSchema,
+} from './policy-pack-version';
 export {
 	type RuntimePolicyDecision,
 	runtimePolicyDecisionSchema,
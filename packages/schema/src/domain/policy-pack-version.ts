@@ -0,0 +1,30 @@
+import * as v from 'valibot';
+import { policyConfigArraySchema } from '~/shared/policy-schema';
+
+/**
+ * Lifecycle of a stored policy pack version.
+ *
+ * Only one version per tenant is `published` at a time. Publishing another
+ * version archives the previous one.
+ */
+export const policyPackStatusSchema = v.picklist([
+	'draft',
+	'published',
+	'archived',
+]);
+
+export const policyPackVersionSchema = v.object({
+	id: v.string(),
+	tenantId: v.nullish(v.string()),
+	version: v.number(),
+	status: policyPackStatusSchema,
+	description: v.nullish(v.string()),
+	policies: policyConfigArraySchema,
+	createdBy: v.nullish(v.string()),
+	createdAt: v.optional(v.date(), () => new Date()),
+	updatedAt: v.optional(v.date(), () => new Date()),
+	publishedAt: v.nullish(v.date()),
+});
+
+export type PolicyPackVersion = v.InferOutput<typeof policyPackVersionSchema>;
+export type PolicyPackStatus = v.InferOutput<typeof policyPackStatusSchema>;
@@ -11,15 +11,39 @@
 // Import constants directly to avoid Zod
 import { brandingValues, jurisdictionCodes } from './shared/constants';
 
+// API types - Analytics
+export type {
+	ConsentAnalyticsBucket,
+	ConsentAnalyticsBucketSize,
+	ConsentAnalyticsDimension,
+	ConsentAnalyticsGroup,
+	ConsentAnalyticsOutput,
+	ConsentAnalyticsQuery,
+} from './api/analytics';
+// API types - Audit log
+export type {
+	AuditLogItem,
+	ListAuditLogsOutput,
+	ListAuditLogsQuery,
+} from './api/audit-log';
 // API types - Consent (v2.0: only check endpoint remains)
 export type {
 	CheckConsentOutput,
 	CheckConsentQuery,
 	ConsentCheckResult,
 } from './api/consent';
+// API types - Consent receipts
+export type {
+	ConsentReceipt,
+	ConsentReceiptController,
+	ConsentReceiptPurpose,
+	VerifyConsentReceiptInput,
+	VerifyConsentReceiptOutput,
+} from './api/consent-receipt';
 // API types - Init
 export type {
 	InitOutput,
+	LinkedConsent,
 	LocationResponse,
 	PolicyDecision,
 	ResolvedPolicy,
@@ -29,23 +53,58 @@ export type {
 	LegalDocumentCurrentInput,
 	LegalDocumentCurrentOutput,
 	LegalDocumentCurrentParams,
+	LegalDocumentVersion,
+	LegalDocumentVersionsOutput,
+	LegalDocumentVersionsParams,
 } from './api/legal-document';
 // API types - Meta
-export type { StatusOutput } from './api/meta';
+export type { JwksKey, JwksOutput, StatusOutput } from './api/meta';
+// API types - Policies
+export type {
+	SimulatedPolicyDecision,
+	SimulatePolicyInput,
+	SimulatePolicyOutput,
+} from './api/policy';
+// API types - Policy packs
+export type {
+	CreatePolicyPackInput,
+	ListPolicyPacksOutput,
+	ListPolicyPacksQuery,
+	PolicyPackItem,
+	PolicyPackOutput,
+	PolicyPackParams,
+	UpdatePolicyPackInput,
+} from './api/policy-pack';
 // API types - Subject
 export type {
 	ConsentItem,
+	DeleteSubjectsOutput,
+	DeleteSubjectsQuery,
+	ExportSubjectsOutput,
+	ExportSubjectsQuery,
 	GetSubjectInput,
 	GetSubjectOutput,
 	GetSubjectParams,
 	GetSubjectQuery,
+	ImportSubjectLineError,
+	ImportSubjectRecord,
+	ImportSubjectsOutput,
 	ListSubjectsOutput,
 	ListSubjectsQuery,
 	PatchSubjectFullInput,
 	PatchSubjectOutput,
 	PostSubjectInput,
 	PostSubjectOutput,
+	SubjectConsentEvent,
+	SubjectConsentState,
+	SubjectErasureMode,
+	SubjectEventsParams,
+	SubjectExportAuditLog,
+	SubjectExportConsent,
+	SubjectExportItem,
+	SubjectExportRuntimePolicyDecision,
 	SubjectItem,
+	SubjectLinkedEvent,
 } from './api/subject';
 // Domain types
 export type {
@@ -55,6 +114,8 @@ export type {
 	ConsentPurpose,
 	Domain,
 	LegalDocumentPolicyType,
+	PolicyPackStatus,
+	PolicyPackVersion,
 	PolicyType,
 	RuntimePolicyDecision,
 	Subject,
@@ -527,6 +527,26 @@ describe('scripts engine', () => {
 		expect(resolved.persistAfterConsentRevoked).toBe(false);
 	});
 
+	it('passes storage cleanup patterns through to the Script', () => {
+		const script = resolvedManifestToScript(
+			compileManifest({
+				...vendorManifestContract,
+				vendor: 'cleanup',
+				category: 'marketing',
+				cleanupOnRevoke: {
+					cookies: ['_vendor', '_vendor_*'],
+					storageKeys: ['vendor:*'],
+				},
+				install: [],
+			})
+		);
+
+		expect(script.cleanupOnRevoke).toEqual({
+			cookies: ['_vendor', '_vendor_*'],
+			storageKeys: ['vendor:*'],
+		});
+	});
+
 	it('runs conditional before-load and on-load manifest steps', () => {
 		const script = resolvedManifestToScript(
 			compileManifest({
@@ -179,6 +179,7 @@ export function compileManifest(
 						manifest.persistAfterConsentRevoked,
 						config
 					) as boolean),
+		cleanupOnRevoke: manifest.cleanupOnRevoke,
 		bootstrapSteps,
 		setupSteps,
 		loadScript,
@@ -468,6 +468,7 @@ export function resolvedManifestToScript(
 		category: resolvedManifest.category as Script['category'],
 		alwaysLoad: resolvedManifest.alwaysLoad,
 		persistAfterConsentRevoked: resolvedManifest.persistAfterConsentRevoked,
+		cleanupOnRevoke: resolvedManifest.cleanupOnRevoke,
 		callbackOnly: !resolvedManifest.loadScript ? true : undefined,
 		src: resolvedManifest.loadScript?.src,
 		async: resolvedManifest.loadScript?.async,
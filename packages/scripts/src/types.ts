@@ -1,4 +1,4 @@
-import type { AllConsentNames, HasCondition } from 'c15t';
+import type { AllConsentNames, HasCondition, ScriptStorageCleanup } from 'c15t';
 
 export const VENDOR_MANIFEST_KIND = 'c15t.vendor-manifest';
 export const VENDOR_MANIFEST_SCHEMA_VERSION = 1;
@@ -234,6 +234,9 @@ export interface VendorManifest extends ManifestContract {
 	/** Keep script in DOM after consent revocation (vendor has a consent API) */
 	persistAfterConsentRevoked?: boolean | string;
 
+	/** Cookies and storage keys the vendor sets, deleted when consent is revoked */
+	cleanupOnRevoke?: ScriptStorageCleanup;
+
 	/**
 	 * Steps that must execute before default consent signaling.
 	 *
@@ -312,6 +315,7 @@ export interface ResolvedManifest extends ManifestContract {
 	category: HasCondition<AllConsentNames>;
 	alwaysLoad?: boolean;
 	persistAfterConsentRevoked?: boolean;
+	cleanupOnRevoke?: ScriptStorageCleanup;
 	bootstrapSteps: ManifestStep[];
 	setupSteps: ManifestStep[];
 	loadScript?: LoadScriptStep;
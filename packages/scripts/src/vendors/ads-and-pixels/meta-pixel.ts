@@ -224,6 +224,9 @@ export const metaPixelManifest = {
 	vendor: 'meta-pixel',
 	category: 'marketing',
 	persistAfterConsentRevoked: true,
+	cleanupOnRevoke: {
+		cookies: ['_fbp', '_fbc'],
+	},
 	bootstrap: [
 		{
 			type: 'defineStubFunction',
@@ -21,6 +21,10 @@ export const microsoftUetManifest = {
 	category: 'marketing',
 	alwaysLoad: true,
 	persistAfterConsentRevoked: true,
+	cleanupOnRevoke: {
+		cookies: ['_uetsid', '_uetvid', '_uetmsclkid'],
+		storageKeys: ['_uetsid*', '_uetvid*'],
+	},
 	bootstrap: [
 		{
 			type: 'setGlobal',
@@ -176,6 +176,9 @@ export const redditPixelManifest = {
 	vendor: 'reddit-pixel',
 	category: 'marketing',
 	persistAfterConsentRevoked: true,
+	cleanupOnRevoke: {
+		cookies: ['_rdt_uuid', '_rdt_cid'],
+	},
 	bootstrap: [
 		{
 			type: 'defineStubFunction',
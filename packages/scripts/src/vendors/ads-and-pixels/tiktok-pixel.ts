@@ -39,6 +39,9 @@ export const tiktokPixelManifest = {
 	vendor: 'tiktok-pixel',
 	category: 'marketing',
 	persistAfterConsentRevoked: true,
+	cleanupOnRevoke: {
+		cookies: ['_ttp', '_tt_enable_cookie'],
+	},
 	bootstrap: [
 		{
 			type: 'setGlobal',
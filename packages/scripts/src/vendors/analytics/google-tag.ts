@@ -30,6 +30,9 @@ export const gtagManifest = {
 	category: '{{category}}',
 	alwaysLoad: true,
 	persistAfterConsentRevoked: true,
+	cleanupOnRevoke: {
+		cookies: ['_ga', '_ga_*', '_gid', '_gat*', '_gcl_*'],
+	},
 	bootstrap: [
 		{
 			type: 'setGlobal',
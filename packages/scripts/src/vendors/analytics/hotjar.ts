@@ -23,6 +23,10 @@ export const hotjarManifest = {
 	...vendorManifestContract,
 	vendor: 'hotjar',
 	category: 'measurement',
+	cleanupOnRevoke: {
+		cookies: ['_hj*'],
+		storageKeys: ['_hj*'],
+	},
 	install: [
 		{
 			type: 'setGlobal',
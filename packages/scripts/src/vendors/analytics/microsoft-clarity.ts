@@ -34,6 +34,9 @@ export const clarityManifest = {
 	vendor: 'microsoft-clarity',
 	category: 'measurement',
 	persistAfterConsentRevoked: true,
+	cleanupOnRevoke: {
+		cookies: ['_clck', '_clsk'],
+	},
 	bootstrap: [
 		{
 			type: 'defineStubFunction',
@@ -181,6 +181,9 @@ export interface Translations {
 	consentManagerDialog: Partial<ConsentManagerDialogTranslations>;
 	consentTypes: {
 		[key in AllConsentNames]?: Partial<ConsentTypeTranslations>;
+	} & {
+		/** Translations for custom consent categories, keyed by category name */
+		[key: string]: Partial<ConsentTypeTranslations>;
 	};
 	frame?: Partial<FrameTranslations>;
 	legalLinks?: Partial<LegalLinksTranslations>;
@@ -78,6 +78,28 @@ describe('deepMergeTranslations', () => {
 		});
 	});
 
+	it('should merge translations for custom consent categories', () => {
+		const result = deepMergeTranslations(baseTranslations, {
+			consentTypes: {
+				ai_training: {
+					title: 'AI Training',
+					description: 'Allows us to train models on your content',
+				},
+			},
+		});
+
+		expect(result.consentTypes).toEqual({
+			necessary: {
+				title: 'Necessary',
+				description: 'These cookies are required',
+			},
+			ai_training: {
+				title: 'AI Training',
+				description: 'Allows us to train models on your content',
+			},
+		});
+	});
+
 	it('should handle empty override object', () => {
 		const result = deepMergeTranslations(baseTranslations, {});
 		expect(result).toEqual(baseTranslations);